@@ -2,6 +2,7 @@ import { Routes, Route, Navigate } from 'react-router-dom';
 import StartMenu from './components/StartMenu';
 import Tutorials from './components/Tutorials';
 import QuotientSymmetry from './components/QuotientSymmetry';
+import RotationLab from './components/RotationLab';
 
 function App() {
   return (
@@ -10,6 +11,7 @@ function App() {
         <Route path="/" element={<StartMenu />} />
         <Route path="/tutorials" element={<Tutorials />} />
         <Route path="/quotient" element={<QuotientSymmetry />} />
+        <Route path="/rotations" element={<RotationLab />} />
         {/* Future: SEAM FLY integration */}
         {/* <Route path="/fly" element={<SeamFlyIntegration />} /> */}
         <Route path="*" element={<Navigate to="/" />} />
@@ -7,6 +7,7 @@ import {
   getBrightness,
   getContrastColor,
   isValidHex,
+  divergingColor,
 } from '@/app/ui/colorUtils';
 
 describe('colorUtils module', () => {
@@ -255,6 +256,19 @@ describe('colorUtils module', () => {
     });
   });
 
+  describe('divergingColor', () => {
+    it('is white at zero and blue or red at the ends', () => {
+      expect(divergingColor(0)).toEqual([1, 1, 1]);
+      expect(rgbVecToHex(divergingColor(-1)).toLowerCase()).toBe('#2563eb');
+      expect(rgbVecToHex(divergingColor(1)).toLowerCase()).toBe('#e11d48');
+    });
+
+    it('clamps values outside [-1, 1]', () => {
+      expect(divergingColor(3)).toEqual(divergingColor(1));
+      expect(divergingColor(-7)).toEqual(divergingColor(-1));
+    });
+  });
+
   describe('getBrightness', () => {
     it('returns 0 for black', () => {
       expect(getBrightness('#000000')).toBeCloseTo(0);
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3 } from '@/core/types';
+import { classEquals, classOf } from '@/core/quotient';
+import { axialDirection, parseAxialData } from '@/core/axial';
+
+const expectAxis = (v: Vec3, expected: Vec3) => {
+  expect(classEquals(classOf(v), classOf(expected))).toBe(true);
+};
+
+describe('axial module', () => {
+  describe('axialDirection', () => {
+    it('reads trend and plunge with +y up and -z north', () => {
+      expectAxis(axialDirection('trend-plunge', [0, 0], 'degrees'), [0, 0, -1]);
+      expectAxis(axialDirection('trend-plunge', [90, 0], 'degrees'), [1, 0, 0]);
+      expectAxis(axialDirection('trend-plunge', [123, 90], 'degrees'), [0, 1, 0]);
+      expectAxis(axialDirection('trend-plunge', [Math.PI / 2, Math.PI / 4], 'radians'), [1, -1, 0]);
+    });
+
+    it('reads a plane by strike and dip as its pole', () => {
+      // Striking north and dipping 45° east, the pole plunges 45° west
+      expectAxis(axialDirection('strike-dip', [0, 45], 'degrees'), [-1, -1, 0]);
+      expectAxis(axialDirection('strike-dip', [200, 0], 'degrees'), [0, 1, 0]);
+      expectAxis(axialDirection('strike-dip', [90, 90], 'degrees'), [0, 0, 1]);
+    });
+
+    it('reads latitude and longitude with the north pole up', () => {
+      expectAxis(axialDirection('lat-lon', [0, 0], 'degrees'), [1, 0, 0]);
+      expectAxis(axialDirection('lat-lon', [0, 90], 'degrees'), [0, 0, -1]);
+      expectAxis(axialDirection('lat-lon', [-Math.PI / 2, 1], 'radians'), [0, 1, 0]);
+    });
+
+    it('rejects angles out of range and zero vectors', () => {
+      expect(() => axialDirection('trend-plunge', [10, 95], 'degrees')).toThrow(/Plunge 95°/);
+      expect(() => axialDirection('strike-dip', [10, -5], 'degrees')).toThrow(/Dip/);
+      expect(() => axialDirection('lat-lon', [2, 0], 'radians')).toThrow(/Latitude 2 rad/);
+      expect(() => axialDirection('vector', [0, 0, 0], 'degrees')).toThrow(/zero vector/);
+    });
+  });
+
+  describe('parseAxialData', () => {
+    it('reads CSV rows into quotient classes', () => {
+      const data = parseAxialData('# fibers\n1, 0, 0\n0 -2 0\n\n-1;0;0', 'vector');
+      expect(data.rows.map(row => row.line)).toEqual([2, 3, 5]);
+      expect(data.classes).toHaveLength(3);
+      // Opposite vectors are the same axis
+      expect(classEquals(data.classes[0], data.classes[2])).toBe(true);
+      expectAxis(data.classes[1].canonical, [0, 1, 0]);
+    });
+
+    it('picks columns by header name', () => {
+      const data = parseAxialData('id,plunge,trend\nA,0,90\nB,90,0', 'trend-plunge');
+      expect(data.rows.map(row => row.values)).toEqual([[90, 0], [0, 90]]);
+      expectAxis(data.classes[0].canonical, [1, 0, 0]);
+      expect(() => parseAxialData('id,plunge\nA,0', 'trend-plunge')).toThrow(/no trend column/);
+    });
+
+    it('reports errors per row and keeps the rest', () => {
+      const data = parseAxialData('strike,dip\n10,20\n30\n40,abc\n50,120\n60,30', 'strike-dip');
+      expect(data.rows.map(row => row.error === null)).toEqual([true, false, false, false, true]);
+      expect(data.rows[1].error).toMatch(/Expected 2 numbers but found 1/);
+      expect(data.rows[2].error).toMatch(/"abc" is not a number/);
+      expect(data.rows[3].error).toMatch(/Dip 120°/);
+      expect(data.rows[3].line).toBe(5);
+      expect(data.classes).toHaveLength(2);
+    });
+
+    it('reads a first row with a bad field as data, not as a header', () => {
+      const data = parseAxialData('350,5x\n172,8\n5,2', 'trend-plunge');
+      expect(data.rows.map(row => row.line)).toEqual([1, 2, 3]);
+      expect(data.rows[0].error).toMatch(/"5x" is not a number/);
+      expect(data.classes).toHaveLength(2);
+    });
+
+    it('reads JSON arrays and objects', () => {
+      const data = parseAxialData('[[0, 0], {"Latitude": 90, "lon": 0}, {"lat": 10}, "x"]', 'lat-lon');
+      expectAxis(data.classes[0].canonical, [1, 0, 0]);
+      expectAxis(data.classes[1].canonical, [0, 1, 0]);
+      expect(data.rows[2].error).toMatch(/found 1/);
+      expect(data.rows[3].error).not.toBeNull();
+      expect(() => parseAxialData('[1, 2', 'vector')).toThrow(/Invalid JSON/);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3 } from '@/core/types';
+import { classEquals } from '@/core/quotient';
+import {
+  CHART_IDS,
+  chartCoordinates,
+  chartToClass,
+  transitionMap,
+  transitionFormula,
+  bestChart,
+  homogeneousCoordinates,
+  formatHomogeneous,
+  chartPolylines
+} from '@/core/charts';
+
+describe('charts module', () => {
+  describe('chartCoordinates', () => {
+    it('divides by the chart coordinate', () => {
+      const v: Vec3 = [2, 4, -1];
+      expect(chartCoordinates(v, 'x')).toEqual([2, -0.5]);
+      expect(chartCoordinates(v, 'y')![0]).toBeCloseTo(0.5);
+      expect(chartCoordinates(v, 'z')![1]).toBeCloseTo(-4);
+    });
+
+    it('gives the same coordinates for u and -u', () => {
+      const v: Vec3 = [0.3, -0.7, 0.5];
+      CHART_IDS.forEach(chart => {
+        const [a, b] = chartCoordinates(v, chart)!;
+        const [c, d] = chartCoordinates(Vec3.neg(v), chart)!;
+        expect(a).toBeCloseTo(c);
+        expect(b).toBeCloseTo(d);
+      });
+    });
+
+    it('returns null on the line at infinity', () => {
+      expect(chartCoordinates([0, 1, 1], 'x')).toBeNull();
+      expect(chartCoordinates([0, 1, 1], 'y')).not.toBeNull();
+    });
+
+    it('is inverted by chartToClass', () => {
+      const c = chartToClass('y', [0.4, -2]);
+      expect(chartCoordinates(c.canonical, 'y')![0]).toBeCloseTo(0.4);
+      expect(chartCoordinates(c.canonical, 'y')![1]).toBeCloseTo(-2);
+    });
+  });
+
+  describe('transition maps', () => {
+    it('agrees with going through the class', () => {
+      const p: [number, number] = [1.5, -0.25];
+      const class1 = chartToClass('z', p);
+      const q = transitionMap('z', 'x', p)!;
+      expect(classEquals(chartToClass('x', q), class1)).toBe(true);
+    });
+
+    it('keeps a point running to infinity in one chart finite in another', () => {
+      // (t, 1) in U_z runs off to infinity; in U_x it tends to (0, 0)
+      const far = transitionMap('z', 'x', [1e6, 1])!;
+      expect(Math.hypot(far[0], far[1])).toBeLessThan(1e-5);
+      expect(transitionMap('z', 'x', [0, 1])).toBeNull();
+    });
+
+    it('writes the formulas', () => {
+      expect(transitionFormula('z', 'x')).toBe('(u, v) ↦ (v/u, 1/u)');
+      expect(transitionFormula('x', 'y')).toBe('(u, v) ↦ (1/u, v/u)');
+      expect(transitionFormula('y', 'y')).toBe('(u, v) ↦ (u, v)');
+    });
+
+    it('matches the formula numerically', () => {
+      const [u, v] = [0.8, -1.6];
+      const q = transitionMap('y', 'z', [u, v])!;
+      // U_y has (x/y, z/y) = (u, v); U_z has (x/z, y/z) = (u/v, 1/v)
+      expect(transitionFormula('y', 'z')).toBe('(u, v) ↦ (u/v, 1/v)');
+      expect(q[0]).toBeCloseTo(u / v);
+      expect(q[1]).toBeCloseTo(1 / v);
+    });
+  });
+
+  describe('homogeneous coordinates', () => {
+    it('scales the largest coordinate to ±1', () => {
+      expect(homogeneousCoordinates([-2, 4, 1])).toEqual([1, -2, -0.5].map(c => c / 2));
+      expect(bestChart([-2, 4, 1])).toBe('y');
+      expect(formatHomogeneous([0, -3, 1.5])).toBe('[0.00 : 1.00 : -0.50]');
+    });
+  });
+
+  describe('chartPolylines', () => {
+    it('splits a path where it crosses the line at infinity', () => {
+      // A great circle through [1:0:0] and [0:0:1], crossing z = 0 twice
+      const path: Vec3[] = Array.from({ length: 65 }, (_, i) => {
+        const t = (2 * Math.PI * i) / 64;
+        return [Math.cos(t), 0.3, Math.sin(t)];
+      });
+      const inZ = chartPolylines(path, 'z', 4);
+      const inY = chartPolylines(path, 'y', 4);
+
+      expect(inZ.length).toBeGreaterThan(1);
+      expect(inY).toHaveLength(1);
+      inZ.flat().forEach(p => expect(Math.max(Math.abs(p[0]), Math.abs(p[1]))).toBeLessThanOrEqual(4));
+    });
+  });
+});
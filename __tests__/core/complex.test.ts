@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3, Mesh } from '@/core/types';
+import { makeShapeMesh } from '@/core/shapes';
+import { buildQuotientComplex } from '@/core/complex';
+
+describe('complex module', () => {
+  describe('buildQuotientComplex', () => {
+    it('halves χ of the sphere from 2 to 1', () => {
+      const complex = buildQuotientComplex(makeShapeMesh('sphere', 12));
+      expect(complex.cover.eulerCharacteristic).toBe(2);
+      expect(complex.quotient.eulerCharacteristic).toBe(1);
+      expect(complex.quotient.faces * 2).toBe(complex.cover.faces);
+      expect(complex.quotient.edges * 2).toBe(complex.cover.edges);
+    });
+
+    it('welds seams and flags collapsed pole triangles', () => {
+      const detail = 12;
+      const mesh = makeShapeMesh('sphere', detail);
+      const complex = buildQuotientComplex(mesh);
+      // Two poles plus detail directions on each of detail - 1 rings
+      expect(complex.cover.vertices).toBe(2 + (detail - 1) * detail);
+      expect(complex.degenerate.length).toBe(2 * detail);
+      expect(complex.degenerate.every(d => d.stage === 'cover')).toBe(true);
+    });
+
+    it('counts the cube as 4 - 9 + 6', () => {
+      const complex = buildQuotientComplex(makeShapeMesh('cube'));
+      expect(complex.cover).toEqual({ vertices: 8, edges: 18, faces: 12, eulerCharacteristic: 2 });
+      expect(complex.quotient).toEqual({ vertices: 4, edges: 9, faces: 6, eulerCharacteristic: 1 });
+      expect(complex.degenerate).toEqual([]);
+    });
+
+    it('maps antipodal mesh vertices to the same class', () => {
+      const mesh = makeShapeMesh('cube');
+      const complex = buildQuotientComplex(mesh);
+      mesh.vertices.forEach((v, i) => {
+        const j = mesh.vertices.findIndex(w => Vec3.norm(Vec3.add(v, w)) < 1e-9);
+        expect(complex.vertexClass[j]).toBe(complex.vertexClass[i]);
+      });
+    });
+
+    it('flags triangles containing an antipodal pair', () => {
+      // The octahedron, plus two antipodal triangles through the pair ±x
+      const vertices: Vec3[] = [[1, 0, 0], [-1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1], [0, 0, -1]];
+      const octahedron = [
+        0, 2, 4, 2, 1, 4, 1, 3, 4, 3, 0, 4,
+        2, 0, 5, 1, 2, 5, 3, 1, 5, 0, 3, 5
+      ];
+      const mesh: Mesh = { vertices, indices: [...octahedron, 0, 1, 2, 1, 0, 3] };
+      const complex = buildQuotientComplex(mesh);
+      expect(complex.degenerate).toEqual([
+        { triangle: 8, stage: 'quotient' },
+        { triangle: 9, stage: 'quotient' }
+      ]);
+      expect(complex.quotient).toEqual({ vertices: 3, edges: 6, faces: 4, eulerCharacteristic: 1 });
+    });
+
+    it('throws for meshes that are not centrally symmetric', () => {
+      expect(() => buildQuotientComplex(makeShapeMesh('pyramid'))).toThrow();
+
+      // Symmetric vertices, but a triangle without its antipodal copy
+      const square: Vec3[] = [[1, 0, 0], [0, 1, 0], [-1, 0, 0], [0, -1, 0]];
+      expect(() => buildQuotientComplex({ vertices: square, indices: [0, 1, 2] })).toThrow();
+    });
+
+    it('throws when a vertex is fixed by the antipodal map', () => {
+      // The disk has a vertex at its center
+      expect(() => buildQuotientComplex(makeShapeMesh('disk', 8))).toThrow();
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3 } from '@/core/types';
+import { classOf } from '@/core/quotient';
+import { makeShapeMesh } from '@/core/shapes';
+import {
+  parsePolynomial,
+  evaluatePolynomial,
+  formatPolynomial,
+  extractCurve,
+  componentsInCone
+} from '@/core/curves';
+
+const SPHERE = makeShapeMesh('sphere', 48);
+
+const kinds = (text: string) => {
+  const components = extractCurve(parsePolynomial(text), SPHERE);
+  return {
+    ovals: components.filter(c => c.kind === 'oval').length,
+    pseudolines: components.filter(c => c.kind === 'pseudoline').length
+  };
+};
+
+describe('curves module', () => {
+  describe('parsePolynomial', () => {
+    it('collects like terms of a conic', () => {
+      const p = parsePolynomial('x^2 + y^2 - z^2 + 2x^2');
+      expect(p.degree).toBe(2);
+      expect(p.terms).toHaveLength(3);
+      expect(evaluatePolynomial(p, [1, 2, 3])).toBeCloseTo(3 + 4 - 9);
+    });
+
+    it('expands products, powers and juxtaposition', () => {
+      const p = parsePolynomial('(x + y)² − 2xy');
+      expect(p.terms).toEqual([
+        { coefficient: 1, exponents: [2, 0, 0] },
+        { coefficient: 1, exponents: [0, 2, 0] }
+      ]);
+      expect(parsePolynomial('3*x^2*z').terms).toEqual([{ coefficient: 3, exponents: [2, 0, 1] }]);
+    });
+
+    it('rejects syntax errors, the zero polynomial and mixed degrees', () => {
+      expect(() => parsePolynomial('x + w')).toThrow();
+      expect(() => parsePolynomial('(x + y')).toThrow();
+      expect(() => parsePolynomial('x - x')).toThrow();
+      expect(() => parsePolynomial('x^2 + y')).toThrow(/not homogeneous/);
+    });
+
+    it('rejects nested powers and products over the degree limit before expanding them', () => {
+      const start = performance.now();
+      expect(() => parsePolynomial('((x+y+z)^12)^8')).toThrow(/Degree 96 exceeds/);
+      expect(() => parsePolynomial('(((x+y+z)^12)^12)^12')).toThrow(/Degree 144 exceeds/);
+      expect(() => parsePolynomial('(x+y+z)^12 (x+y)')).toThrow(/Degree 13 exceeds/);
+      expect(performance.now() - start).toBeLessThan(500);
+      expect(parsePolynomial('((x+y)^2)^3').degree).toBe(6);
+    });
+
+    it('rejects a digit directly after a variable', () => {
+      expect(() => parsePolynomial('x2 + y^2')).toThrow(/Write x\^2 for a power/);
+      expect(() => parsePolynomial('2x + y3')).toThrow(/position 7/);
+      expect(parsePolynomial('x 2 y').terms).toEqual([{ coefficient: 2, exponents: [1, 1, 0] }]);
+    });
+
+    it('formats into text it parses back', () => {
+      const p = parsePolynomial('y^2 z - x^3 + 0.5x z^2');
+      expect(formatPolynomial(p)).toBe('−x³ + 0.5xz² + y²z');
+      const v: Vec3 = [0.3, -0.8, 0.2];
+      expect(evaluatePolynomial(parsePolynomial(formatPolynomial(p)), v)).toBeCloseTo(evaluatePolynomial(p, v));
+    });
+  });
+
+  describe('evaluatePolynomial', () => {
+    it('is even or odd with the degree', () => {
+      const v: Vec3 = [0.4, 0.1, -0.9];
+      const cubic = parsePolynomial('x^3 + y z^2 - 2x y z');
+      const quartic = parsePolynomial('x^4 - y^2 z^2');
+      expect(evaluatePolynomial(cubic, Vec3.neg(v))).toBeCloseTo(-evaluatePolynomial(cubic, v));
+      expect(evaluatePolynomial(quartic, Vec3.neg(v))).toBeCloseTo(evaluatePolynomial(quartic, v));
+    });
+  });
+
+  describe('extractCurve', () => {
+    it('finds one pseudo-line for a line', () => {
+      const components = extractCurve(parsePolynomial('x + 2y - z'), SPHERE);
+      expect(components).toHaveLength(1);
+      expect(components[0].kind).toBe('pseudoline');
+      components[0].loops[0].forEach(u => expect(Math.abs(u[0] + 2 * u[1] - u[2])).toBeLessThan(0.05));
+    });
+
+    it('finds one oval for a conic, as a pair of antipodal loops', () => {
+      const components = extractCurve(parsePolynomial('x^2 + y^2 - 0.25z^2'), SPHERE);
+      expect(components).toHaveLength(1);
+      expect(components[0].kind).toBe('oval');
+      const [a, b] = components[0].loops;
+      expect(Math.sign(a[0][2])).toBe(-Math.sign(b[0][2]));
+    });
+
+    it('finds a pseudo-line and an oval on the cubic y²z = x³ − xz²', () => {
+      expect(kinds('y^2 z - x^3 + x z^2')).toEqual({ ovals: 1, pseudolines: 1 });
+    });
+
+    it('finds four ovals on a Harnack quartic and two nested ones after flipping the perturbation', () => {
+      expect(kinds('(x^2 + 4y^2 - z^2)(4x^2 + y^2 - z^2) + 0.05z^4')).toEqual({ ovals: 4, pseudolines: 0 });
+      expect(kinds('(x^2 + 4y^2 - z^2)(4x^2 + y^2 - z^2) - 0.05z^4')).toEqual({ ovals: 2, pseudolines: 0 });
+    });
+
+    it('handles a curve through mesh vertices', () => {
+      // x = 0 runs along meridians of the latitude-longitude sphere
+      expect(kinds('x')).toEqual({ ovals: 0, pseudolines: 1 });
+      expect(kinds('x^2 + y^2 + z^2')).toEqual({ ovals: 0, pseudolines: 0 });
+    });
+  });
+
+  describe('componentsInCone', () => {
+    it('counts the components a selection cone meets', () => {
+      const components = extractCurve(parsePolynomial('y^2 z - x^3 + x z^2'), SPHERE);
+      // The oval passes through [0 : 0 : 1] and the pseudo-line through [1 : 0 : 1]
+      expect(componentsInCone(components, classOf([0, 0, 1]), 0.05)).toBe(1);
+      expect(componentsInCone(components, classOf([1, 0, 1]), 0.05)).toBe(1);
+      expect(componentsInCone(components, classOf([0.5, 0, 1]), 0.5)).toBe(2);
+      expect(componentsInCone(components, classOf([0, 1, -3]), 0.05)).toBe(0);
+    });
+  });
+});
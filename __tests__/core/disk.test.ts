@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3 } from '@/core/types';
+import { classOf, pointInQuotientCone } from '@/core/quotient';
+import { DiskProjection, diskPoint, diskToSphere, diskPolylines, diskConeBoundary } from '@/core/disk';
+
+const PROJECTIONS: DiskProjection[] = ['orthographic', 'equalArea'];
+
+const radius = ([a, b]: [number, number]) => Math.hypot(a, b);
+
+describe('disk module', () => {
+  describe('diskPoint', () => {
+    it('gives the same point for u and -u', () => {
+      PROJECTIONS.forEach(projection => {
+        const a = diskPoint([0.4, -0.2, 0.7], projection);
+        const b = diskPoint([-0.4, 0.2, -0.7], projection);
+        expect(a[0]).toBeCloseTo(b[0]);
+        expect(a[1]).toBeCloseTo(b[1]);
+      });
+    });
+
+    it('sends the pole to the center and the rim to the boundary', () => {
+      PROJECTIONS.forEach(projection => {
+        expect(radius(diskPoint([1, 0, 0], projection))).toBeCloseTo(0);
+        expect(radius(diskPoint([0, 0.6, 0.8], projection))).toBeCloseTo(1);
+      });
+    });
+
+    it('shows the hemisphere from +x with +y up', () => {
+      const [a, b] = diskPoint([0, 1, 0], 'orthographic');
+      expect(a).toBeCloseTo(0);
+      expect(b).toBeCloseTo(1);
+      expect(diskPoint([0.5, 0, 0.5], 'orthographic')[0]).toBeLessThan(0);
+    });
+
+    it('preserves area in the equal-area projection', () => {
+      // The cap within φ of the pole covers a disk of radius √2·sin(φ/2);
+      // its share of the hemisphere (1 - cos φ) matches the share of the disk
+      const phi = 1.1;
+      const r = radius(diskPoint([Math.cos(phi), Math.sin(phi), 0], 'equalArea'));
+      expect(r * r).toBeCloseTo(1 - Math.cos(phi));
+    });
+  });
+
+  describe('diskToSphere', () => {
+    it('inverts diskPoint', () => {
+      PROJECTIONS.forEach(projection => {
+        const u = classOf([0.3, 0.5, -0.8]).canonical;
+        expect(Vec3.approxEq(diskToSphere(diskPoint(u, projection), projection), u)).toBe(true);
+      });
+    });
+
+    it('throws outside the unit disk', () => {
+      expect(() => diskToSphere([1, 1], 'orthographic')).toThrow();
+    });
+  });
+
+  describe('diskPolylines', () => {
+    it('keeps a path inside the hemisphere in one piece', () => {
+      const path: Vec3[] = [[1, 0, 0], [1, 0.2, 0], [1, 0.4, 0.1]];
+      expect(diskPolylines(path, 'orthographic')).toHaveLength(1);
+    });
+
+    it('wraps to the opposite boundary point when crossing the rim', () => {
+      const path: Vec3[] = [[0.2, 1, 0], [-0.2, 1, 0]];
+      const [first, second] = diskPolylines(path, 'orthographic');
+
+      const exit = first[first.length - 1];
+      const entry = second[0];
+      expect(radius(exit)).toBeCloseTo(1);
+      expect(exit[0]).toBeCloseTo(-entry[0]);
+      expect(exit[1]).toBeCloseTo(-entry[1]);
+    });
+
+    it('ignores the sign of each sample', () => {
+      const path: Vec3[] = [[1, 0, 0], [-1, -0.1, 0], [1, 0.2, 0]];
+      expect(diskPolylines(path, 'equalArea')).toHaveLength(1);
+    });
+  });
+
+  describe('diskConeBoundary', () => {
+    it('is one closed curve for a cone inside the hemisphere', () => {
+      const pieces = diskConeBoundary(classOf([1, 0.2, 0]), 0.4, 'orthographic');
+      expect(pieces).toHaveLength(1);
+
+      const curve = pieces[0];
+      expect(curve[0][0]).toBeCloseTo(curve[curve.length - 1][0]);
+      expect(curve[0][1]).toBeCloseTo(curve[curve.length - 1][1]);
+    });
+
+    it('splits into two arcs on opposite sides for a cone on the rim', () => {
+      const pieces = diskConeBoundary(classOf([0, 1, 0]), 0.4, 'orthographic');
+      expect(pieces).toHaveLength(2);
+
+      pieces.forEach(arc => {
+        expect(radius(arc[0])).toBeCloseTo(1);
+        expect(radius(arc[arc.length - 1])).toBeCloseTo(1);
+      });
+      expect(pieces[0][1][1] * pieces[1][1][1]).toBeLessThan(0);
+    });
+
+    it('lies on the edge of the region from pointInQuotientCone', () => {
+      const center = classOf([0.3, 0.9, 0.2]);
+      const aperture = 0.5;
+      const [u, negU] = center.representatives;
+
+      diskConeBoundary(center, aperture, 'equalArea', 32).flat().forEach(p => {
+        const v = diskToSphere(p, 'equalArea');
+        expect(Math.min(Vec3.angle(v, u), Vec3.angle(v, negU))).toBeCloseTo(aperture);
+        expect(pointInQuotientCone(v, center, aperture + 1e-6)).toBe(true);
+      });
+    });
+  });
+});
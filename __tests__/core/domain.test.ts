@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3 } from '@/core/types';
+import { matVecMul } from '@/core/transforms';
+import {
+  antipodalGroup,
+  reflectionGroup,
+  cyclicGroup,
+  dihedralGroup,
+  octahedralGroup,
+  icosahedralGroup,
+  orbitOf,
+  makeQuotientGroup,
+  GroupId,
+} from '@/core/groups';
+import {
+  computeFundamentalDomain,
+  pointInDomain,
+  domainRepresentative,
+} from '@/core/domain';
+
+/**
+ * Deterministic, roughly uniform sample points on S².
+ */
+function fibonacciSphere(n: number): Vec3[] {
+  const golden = Math.PI * (3 - Math.sqrt(5));
+  const points: Vec3[] = [];
+  for (let i = 0; i < n; i++) {
+    const y = 1 - (2 * (i + 0.5)) / n;
+    const r = Math.sqrt(1 - y * y);
+    points.push([r * Math.cos(golden * i), y, r * Math.sin(golden * i)]);
+  }
+  return points;
+}
+
+describe('domain module', () => {
+  describe('computeFundamentalDomain', () => {
+    it('gives a hemisphere glued antipodally for the antipodal group', () => {
+      const domain = computeFundamentalDomain(antipodalGroup(), [0, 1, 0]);
+
+      expect(domain.area).toBeCloseTo(2 * Math.PI);
+      expect(domain.edges).toHaveLength(2);
+
+      // The two halves of the equator are glued to each other by u ↦ -u
+      const [a, b] = domain.edges;
+      expect(a.partner).toBe(1);
+      expect(b.partner).toBe(0);
+      expect(a.mirror).toBe(false);
+      expect(Vec3.approxEq(a.end, Vec3.neg(a.start))).toBe(true);
+      expect(Vec3.approxEq(matVecMul(a.gluing, a.start), b.start)).toBe(true);
+
+      a.points.concat(b.points).forEach(p => expect(p[1]).toBeCloseTo(0));
+    });
+
+    it('gives a mirror edge for a reflection group', () => {
+      const domain = computeFundamentalDomain(reflectionGroup());
+
+      expect(domain.edges).toHaveLength(1);
+      expect(domain.edges[0].mirror).toBe(true);
+      expect(domain.edges[0].partner).toBe(0);
+    });
+
+    it('gives a lune between the poles for a cyclic group', () => {
+      const domain = computeFundamentalDomain(cyclicGroup(4));
+
+      expect(domain.vertices).toHaveLength(2);
+      expect(Math.abs(domain.vertices[0][2])).toBeCloseTo(1);
+      expect(domain.edges).toHaveLength(2);
+      expect(domain.edges[0].partner).toBe(1);
+    });
+
+    it('pairs every edge with an edge of the same length', () => {
+      (['dihedral3', 'tetrahedral', 'octahedral', 'icosahedral'] as GroupId[]).forEach(id => {
+        const domain = computeFundamentalDomain(makeQuotientGroup(id));
+
+        domain.edges.forEach((edge, i) => {
+          const partner = domain.edges[edge.partner];
+          expect(partner.partner).toBe(i);
+          expect(Vec3.angle(edge.start, edge.end)).toBeCloseTo(Vec3.angle(partner.start, partner.end));
+        });
+      });
+    });
+
+    it('carries each edge onto its partner', () => {
+      const domain = computeFundamentalDomain(octahedralGroup());
+
+      domain.edges.forEach(edge => {
+        const partner = domain.edges[edge.partner];
+        const image = edge.points.map(p => matVecMul(edge.gluing, p));
+        image.forEach(p => {
+          expect(partner.points.some(q => Vec3.angle(p, q) < 0.05)).toBe(true);
+        });
+      });
+    });
+
+    it('meets every generic orbit exactly once', () => {
+      [dihedralGroup(3), octahedralGroup(), icosahedralGroup()].forEach(group => {
+        const domain = computeFundamentalDomain(group);
+
+        fibonacciSphere(50).forEach(v => {
+          const inside = orbitOf(group, v).filter(p => pointInDomain(domain, p));
+          expect(inside).toHaveLength(1);
+        });
+      });
+    });
+
+    it('covers 1/|G| of the sphere', () => {
+      const group = icosahedralGroup();
+      const domain = computeFundamentalDomain(group);
+      const samples = fibonacciSphere(6000);
+      const fraction = samples.filter(p => pointInDomain(domain, p)).length / samples.length;
+
+      expect(domain.area).toBeCloseTo((4 * Math.PI) / 60);
+      expect(fraction).toBeCloseTo(1 / 60, 2);
+    });
+
+    it('throws if the center has a non-trivial stabilizer', () => {
+      expect(() => computeFundamentalDomain(cyclicGroup(3), [0, 0, 1])).toThrow();
+    });
+  });
+
+  describe('domainRepresentative', () => {
+    it('returns an orbit point inside the domain', () => {
+      const group = octahedralGroup();
+      const domain = computeFundamentalDomain(group);
+      const v = Vec3.normalize([-0.3, 0.2, -0.9]);
+      const rep = domainRepresentative(group, domain, v);
+
+      expect(pointInDomain(domain, rep)).toBe(true);
+      expect(orbitOf(group, v).some(p => Vec3.approxEq(p, rep))).toBe(true);
+    });
+
+    it('picks the upper representative for the antipodal hemisphere', () => {
+      const group = antipodalGroup();
+      const domain = computeFundamentalDomain(group, [0, 1, 0]);
+
+      expect(domainRepresentative(group, domain, [0.2, -0.5, 0.1])[1]).toBeGreaterThan(0);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3 } from '@/core/types';
+import { makeShapeMesh } from '@/core/shapes';
+import { vertexDirections } from '@/core/mesh';
+import { parseScalarField, evenPart, oddPart, sampleField } from '@/core/fields';
+import { validateFieldSymmetry } from '@/core/pullback';
+
+const DIRECTIONS = vertexDirections(makeShapeMesh('sphere', 16));
+
+describe('fields module', () => {
+  describe('parseScalarField', () => {
+    it('evaluates arithmetic with precedence', () => {
+      const f = parseScalarField('1 + 2*x^2 - y/4');
+      expect(f([3, 2, 0])).toBeCloseTo(1 + 18 - 0.5);
+      expect(parseScalarField('-x^2')([3, 0, 0])).toBe(-9);
+      expect(parseScalarField('2^-1')([0, 0, 0])).toBe(0.5);
+    });
+
+    it('reads juxtaposition, variable runs, functions and pi', () => {
+      const u: Vec3 = [0.2, -0.5, 0.7];
+      expect(parseScalarField('2xy')(u)).toBeCloseTo(2 * 0.2 * -0.5);
+      expect(parseScalarField('3 z sin(pi x)')(u)).toBeCloseTo(3 * 0.7 * Math.sin(Math.PI * 0.2));
+      expect(parseScalarField('sqrt(abs(y)) − exp(0)')(u)).toBeCloseTo(Math.sqrt(0.5) - 1);
+    });
+
+    it('rejects unknown names and syntax errors', () => {
+      expect(() => parseScalarField('w + x')).toThrow(/Unknown name/);
+      expect(() => parseScalarField('sin x')).toThrow();
+      expect(() => parseScalarField('(x + y')).toThrow();
+      expect(() => parseScalarField('x +')).toThrow();
+    });
+  });
+
+  describe('evenPart and oddPart', () => {
+    it('split a field into parts that sum back to it', () => {
+      const f = parseScalarField('x^2 + 3y + x*z + z^3');
+      const u: Vec3 = [0.6, 0.0, -0.8];
+      expect(evenPart(f)(u) + oddPart(f)(u)).toBeCloseTo(f(u));
+      expect(evenPart(f)(u)).toBeCloseTo(0.36 + 0.6 * -0.8);
+      expect(oddPart(f)(u)).toBeCloseTo(-0.512);
+    });
+
+    it('are even and odd', () => {
+      const f = parseScalarField('exp(x) + y');
+      const u: Vec3 = [0.3, 0.4, Math.sqrt(0.75)];
+      expect(evenPart(f)(Vec3.neg(u))).toBeCloseTo(evenPart(f)(u));
+      expect(oddPart(f)(Vec3.neg(u))).toBeCloseTo(-oddPart(f)(u));
+    });
+  });
+
+  describe('sampleField', () => {
+    it('throws where the field is not finite', () => {
+      expect(sampleField(parseScalarField('x + 1'), [[1, 0, 0]])).toEqual([2]);
+      expect(() => sampleField(parseScalarField('log(x)'), [[-1, 0, 0]])).toThrow(/not finite/);
+    });
+  });
+
+  describe('validateFieldSymmetry', () => {
+    it('accepts even fields', () => {
+      const report = validateFieldSymmetry(parseScalarField('x^2 - y z + cos(x y)'), DIRECTIONS);
+      expect(report.symmetric).toBe(true);
+      expect(report.residual).toBeLessThan(1e-12);
+    });
+
+    it('reports the residual of a field that is not invariant', () => {
+      const report = validateFieldSymmetry(parseScalarField('x^2 + 0.5z'), DIRECTIONS);
+      expect(report.symmetric).toBe(false);
+      // |f(u) - f(-u)| = |z|, largest at the poles
+      expect(report.residual).toBeCloseTo(1);
+      expect(report.relativeResidual).toBeGreaterThan(0);
+    });
+
+    it('gives an odd field the largest relative residual', () => {
+      expect(validateFieldSymmetry(parseScalarField('x + y'), DIRECTIONS).relativeResidual).toBeCloseTo(2);
+      expect(validateFieldSymmetry(evenPart(parseScalarField('x + y^2')), DIRECTIONS).symmetric).toBe(true);
+    });
+  });
+});
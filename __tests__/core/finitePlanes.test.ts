@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import {
+  finiteField,
+  fieldNegate,
+  fieldInverse,
+  finiteDot,
+  normalizeFinite,
+  finiteProjectivePlane,
+  finitePointIndex,
+  isIncident,
+  linesThrough,
+  finiteJoin,
+  finiteMeet,
+  incidenceGraph
+} from '@/core/finitePlanes';
+
+describe('finitePlanes module', () => {
+  describe('finiteField', () => {
+    it('reduces modulo a prime', () => {
+      const f = finiteField(7);
+      expect(f.characteristic).toBe(7);
+      expect(f.add[5][4]).toBe(2);
+      expect(f.mul[3][5]).toBe(1);
+      expect(fieldInverse(f, 3)).toBe(5);
+      expect(fieldNegate(f, 2)).toBe(5);
+    });
+
+    it('builds prime power fields with every nonzero element invertible', () => {
+      [4, 8, 9, 16, 25, 27].forEach(q => {
+        const f = finiteField(q);
+        for (let a = 1; a < q; a++) {
+          expect(f.mul[a][fieldInverse(f, a)]).toBe(1);
+        }
+        // Characteristic p: p copies of 1 add to 0
+        let sum = 0;
+        for (let i = 0; i < f.characteristic; i++) sum = f.add[sum][1];
+        expect(sum).toBe(0);
+      });
+    });
+
+    it('is not the integers modulo a prime power', () => {
+      // In ℤ/4, 2 · 2 = 0; in GF(4) the element 2 = t has t² = t + 1
+      expect(finiteField(4).mul[2][2]).toBe(3);
+    });
+
+    it('rejects orders that are not prime powers, and zero inverses', () => {
+      expect(() => finiteField(6)).toThrow();
+      expect(() => finiteField(1)).toThrow();
+      expect(() => finiteField(64)).toThrow();
+      expect(() => fieldInverse(finiteField(5), 0)).toThrow();
+    });
+  });
+
+  describe('normalizeFinite', () => {
+    it('scales the first nonzero coordinate to 1', () => {
+      const f = finiteField(5);
+      expect(normalizeFinite(f, [0, 3, 1])).toEqual([0, 1, 2]);
+      expect(normalizeFinite(f, [2, 4, 0])).toEqual([1, 2, 0]);
+      expect(() => normalizeFinite(f, [0, 0, 0])).toThrow();
+    });
+  });
+
+  describe('finiteProjectivePlane', () => {
+    it('has q² + q + 1 points and lines with q + 1 points on each line', () => {
+      [2, 3, 4, 5].forEach(q => {
+        const plane = finiteProjectivePlane(q);
+        expect(plane.points).toHaveLength(q * q + q + 1);
+        expect(plane.lines).toHaveLength(q * q + q + 1);
+        plane.incidence.forEach(onLine => expect(onLine).toHaveLength(q + 1));
+        plane.points.forEach((_, i) => expect(linesThrough(plane, i)).toHaveLength(q + 1));
+      });
+    });
+
+    it('puts every pair of points on exactly one line', () => {
+      const plane = finiteProjectivePlane(4);
+      const n = plane.points.length;
+      for (let a = 0; a < n; a++) {
+        for (let b = a + 1; b < n; b++) {
+          const shared = plane.incidence.filter(onLine => onLine.includes(a) && onLine.includes(b));
+          expect(shared).toHaveLength(1);
+          expect(plane.incidence[finiteJoin(plane, a, b)]).toEqual(shared[0]);
+        }
+      }
+    });
+
+    it('gives the Fano plane over GF(2)', () => {
+      const fano = finiteProjectivePlane(2);
+      // The line x + y + z = 0 holds the three points with two nonzero coordinates
+      const l = finitePointIndex(fano, [1, 1, 1]);
+      expect(fano.incidence[l].map(i => fano.points[i])).toEqual([[1, 0, 1], [1, 1, 0], [0, 1, 1]]);
+      expect(isIncident(fano, finitePointIndex(fano, [1, 1, 1]), l)).toBe(false);
+    });
+
+    it('meets every pair of lines in a point of both', () => {
+      const plane = finiteProjectivePlane(3);
+      const p = finiteMeet(plane, 0, 7);
+      expect(isIncident(plane, p, 0)).toBe(true);
+      expect(isIncident(plane, p, 7)).toBe(true);
+      expect(() => finiteMeet(plane, 2, 2)).toThrow();
+    });
+
+    it('indexes every representative of a class alike', () => {
+      const plane = finiteProjectivePlane(5);
+      const i = finitePointIndex(plane, [2, 1, 3]);
+      expect(finitePointIndex(plane, [4, 2, 1])).toBe(i);
+      expect(finiteDot(plane.field, plane.points[i], [1, 3, 0])).toBe(0);
+    });
+  });
+
+  describe('incidenceGraph', () => {
+    it('is a (q + 1)-regular bipartite graph', () => {
+      const plane = finiteProjectivePlane(2);
+      const graph = incidenceGraph(plane);
+      expect(graph.vertexCount).toBe(14);
+      expect(graph.edges).toHaveLength(21);
+
+      const degree = new Array(graph.vertexCount).fill(0);
+      graph.edges.forEach(([p, l]) => {
+        expect(p).toBeLessThan(7);
+        expect(l).toBeGreaterThanOrEqual(7);
+        degree[p]++;
+        degree[l]++;
+      });
+      expect(degree.every(d => d === 3)).toBe(true);
+    });
+  });
+});
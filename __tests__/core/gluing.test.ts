@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3 } from '@/core/types';
+import { classOf } from '@/core/quotient';
+import { immersionPoint, makeHemisphereMesh } from '@/core/immersions';
+import { gluingPoint, makeGluingMesh, gluingClassImages, gluingChords } from '@/core/gluing';
+
+describe('gluing module', () => {
+  describe('gluingPoint', () => {
+    it('starts at the hemisphere', () => {
+      const u = Vec3.normalize([0.2, -0.4, 0.7]);
+      expect(Vec3.approxEq(gluingPoint(u, 0), u)).toBe(true);
+    });
+
+    it('ends at the cross-cap', () => {
+      const u = Vec3.normalize([0.2, -0.4, 0.7]);
+      expect(Vec3.approxEq(gluingPoint(u, 1), immersionPoint('crosscap', u))).toBe(true);
+    });
+
+    it('closes the rim gap at a uniform rate', () => {
+      const u: Vec3 = [Math.cos(0.9), Math.sin(0.9), 0];
+      [0, 0.25, 0.5, 0.75, 1].forEach(t => {
+        const gap = Vec3.norm(Vec3.sub(gluingPoint(u, t), gluingPoint(Vec3.neg(u), t)));
+        expect(gap).toBeCloseTo(2 * (1 - t));
+      });
+    });
+
+    it('clamps progress to [0, 1]', () => {
+      const u: Vec3 = [0, 0.6, 0.8];
+      expect(Vec3.approxEq(gluingPoint(u, -1), gluingPoint(u, 0))).toBe(true);
+      expect(Vec3.approxEq(gluingPoint(u, 2), gluingPoint(u, 1))).toBe(true);
+    });
+  });
+
+  describe('makeGluingMesh', () => {
+    it('deforms the hemisphere vertex by vertex', () => {
+      const hemisphere = makeHemisphereMesh(6);
+      const mesh = makeGluingMesh(0.4, 6);
+
+      expect(mesh.indices).toEqual(hemisphere.indices);
+      mesh.vertices.forEach((v, i) => {
+        expect(Vec3.approxEq(v, gluingPoint(hemisphere.vertices[i], 0.4))).toBe(true);
+      });
+    });
+  });
+
+  describe('gluingClassImages', () => {
+    it('gives one image for an interior class, from either representative', () => {
+      const images = gluingClassImages(classOf([0.3, 0.1, -0.9]), 0.5);
+      expect(images).toHaveLength(1);
+      expect(Vec3.approxEq(images[0], gluingPoint(Vec3.normalize([-0.3, -0.1, 0.9]), 0.5))).toBe(true);
+    });
+
+    it('gives two images for a rim class that meet at the end', () => {
+      const rim = classOf([1, 1, 0]);
+      const [a, b] = gluingClassImages(rim, 0.5);
+      expect(Vec3.norm(Vec3.sub(a, b))).toBeCloseTo(1);
+
+      const [c, d] = gluingClassImages(rim, 1);
+      expect(Vec3.approxEq(c, d)).toBe(true);
+    });
+  });
+
+  describe('gluingChords', () => {
+    it('shrink to points as the gluing completes', () => {
+      gluingChords(0.3, 8).forEach(([a, b]) => {
+        expect(Vec3.norm(Vec3.sub(a, b))).toBeCloseTo(1.4);
+      });
+      gluingChords(1, 8).forEach(([a, b]) => {
+        expect(Vec3.approxEq(a, b)).toBe(true);
+      });
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3 } from '@/core/types';
+import { classOf, quotientDistance, pointInQuotientCone } from '@/core/quotient';
+import { rotationZ, matVecMul } from '@/core/transforms';
+import {
+  createQuotientGroup,
+  groupOrder,
+  orbitOf,
+  orbitClassOf,
+  orbitClassEquals,
+  orbitDistance,
+  pointInOrbitCone,
+  withInversion,
+  antipodalGroup,
+  reflectionGroup,
+  cyclicGroup,
+  dihedralGroup,
+  tetrahedralGroup,
+  octahedralGroup,
+  icosahedralGroup,
+} from '@/core/groups';
+
+const generic: Vec3 = Vec3.normalize([0.31, 0.47, 0.83]);
+
+describe('groups module', () => {
+  describe('createQuotientGroup', () => {
+    it('closes generators into the full group', () => {
+      const group = createQuotientGroup([rotationZ(Math.PI / 3)], 'C6');
+      expect(groupOrder(group)).toBe(6);
+    });
+
+    it('lists the identity first', () => {
+      const group = cyclicGroup(4);
+      expect(group.elements[0]).toEqual([1, 0, 0, 0, 1, 0, 0, 0, 1]);
+    });
+
+    it('throws for generators of an infinite group', () => {
+      expect(() => createQuotientGroup([rotationZ(1)], 'irrational')).toThrow();
+    });
+  });
+
+  describe('standard groups', () => {
+    it('have the expected orders', () => {
+      expect(groupOrder(antipodalGroup())).toBe(2);
+      expect(groupOrder(reflectionGroup())).toBe(2);
+      expect(groupOrder(cyclicGroup(5))).toBe(5);
+      expect(groupOrder(dihedralGroup(3))).toBe(6);
+      expect(groupOrder(tetrahedralGroup())).toBe(12);
+      expect(groupOrder(octahedralGroup())).toBe(24);
+      expect(groupOrder(icosahedralGroup())).toBe(60);
+    });
+
+    it('doubles in order when the inversion is added', () => {
+      expect(groupOrder(withInversion(octahedralGroup()))).toBe(48);
+      expect(groupOrder(withInversion(icosahedralGroup()))).toBe(120);
+    });
+
+    it('consist of orthogonal matrices', () => {
+      icosahedralGroup().elements.forEach(m => {
+        const col0: Vec3 = [m[0], m[3], m[6]];
+        const col1: Vec3 = [m[1], m[4], m[7]];
+        expect(Vec3.norm(col0)).toBeCloseTo(1);
+        expect(Vec3.dot(col0, col1)).toBeCloseTo(0);
+      });
+    });
+  });
+
+  describe('orbitOf', () => {
+    it('has |G| points for a generic point', () => {
+      expect(orbitOf(octahedralGroup(), generic)).toHaveLength(24);
+      expect(orbitOf(icosahedralGroup(), generic)).toHaveLength(60);
+    });
+
+    it('shrinks for points with a non-trivial stabilizer', () => {
+      // The z axis is fixed by C₄; the cube's face centers form an orbit of 6 under O
+      expect(orbitOf(cyclicGroup(4), [0, 0, 1])).toHaveLength(1);
+      expect(orbitOf(octahedralGroup(), [0, 0, 1])).toHaveLength(6);
+      expect(orbitOf(octahedralGroup(), [1, 1, 1])).toHaveLength(8);
+    });
+
+    it('consists of unit vectors', () => {
+      orbitOf(tetrahedralGroup(), [2, 0, 1]).forEach(p => {
+        expect(Vec3.norm(p)).toBeCloseTo(1);
+      });
+    });
+  });
+
+  describe('orbitClassOf', () => {
+    it('agrees with classOf for the antipodal group', () => {
+      const group = antipodalGroup();
+      const vectors: Vec3[] = [[1, 2, 3], [-1, 2, 3], [0, -1, 2], [0, 0, -1]];
+
+      vectors.forEach(v => {
+        const expected = classOf(v);
+        const actual = orbitClassOf(group, v);
+        expect(Vec3.approxEq(actual.canonical, expected.canonical)).toBe(true);
+        expect(actual.representatives).toHaveLength(2);
+      });
+    });
+
+    it('agrees with classOf at the seam of the antipodal group', () => {
+      const group = antipodalGroup();
+      const vectors: Vec3[] = [[1e-8, -1, 0], [-1e-8, 1, 0], [0, 1e-9, -1], [-1e-7, 0, 1], [1e-13, -1, 0]];
+
+      vectors.forEach(v => {
+        expect(Vec3.approxEq(orbitClassOf(group, v).canonical, classOf(v).canonical, 1e-15)).toBe(true);
+      });
+    });
+
+    it('identifies z with -z under the reflection group', () => {
+      const group = reflectionGroup([0, 0, 1]);
+      const a = orbitClassOf(group, [0.3, 0.4, 0.5]);
+      const b = orbitClassOf(group, [0.3, 0.4, -0.5]);
+
+      expect(orbitClassEquals(group, a, b)).toBe(true);
+      expect(Vec3.approxEq(a.canonical, b.canonical)).toBe(true);
+    });
+
+    it('picks the same canonical representative from every orbit point', () => {
+      const group = octahedralGroup();
+      const reference = orbitClassOf(group, generic).canonical;
+
+      orbitOf(group, generic).forEach(p => {
+        expect(Vec3.approxEq(orbitClassOf(group, p).canonical, reference)).toBe(true);
+      });
+    });
+
+    it('lists the canonical representative first', () => {
+      const cls = orbitClassOf(dihedralGroup(4), generic);
+      expect(cls.representatives[0]).toBe(cls.canonical);
+    });
+  });
+
+  describe('orbitDistance', () => {
+    it('agrees with quotientDistance for the antipodal group', () => {
+      const group = antipodalGroup();
+      const a: Vec3 = [1, 2, 3];
+      const b: Vec3 = [-2, 1, 0.5];
+
+      expect(orbitDistance(group, orbitClassOf(group, a), orbitClassOf(group, b)))
+        .toBeCloseTo(quotientDistance(classOf(a), classOf(b)));
+    });
+
+    it('is zero between points of the same orbit', () => {
+      const group = icosahedralGroup();
+      const orbit = orbitOf(group, generic);
+      expect(orbitDistance(group, orbitClassOf(group, orbit[0]), orbitClassOf(group, orbit[17])))
+        .toBeCloseTo(0);
+    });
+
+    it('never exceeds the ordinary angle', () => {
+      const group = cyclicGroup(3);
+      const a: Vec3 = [1, 0, 0];
+      const b: Vec3 = Vec3.normalize([-1, 0.2, 0.1]);
+
+      expect(orbitDistance(group, orbitClassOf(group, a), orbitClassOf(group, b)))
+        .toBeLessThanOrEqual(Vec3.angle(a, b));
+    });
+  });
+
+  describe('pointInOrbitCone', () => {
+    it('agrees with pointInQuotientCone for the antipodal group', () => {
+      const group = antipodalGroup();
+      const center: Vec3 = [0, 1, 0];
+      const points: Vec3[] = [[0, 1, 0], [0, -1, 0], [1, 0, 0], Vec3.normalize([0.2, -1, 0])];
+
+      points.forEach(p => {
+        expect(pointInOrbitCone(group, p, orbitClassOf(group, center), 0.4))
+          .toBe(pointInQuotientCone(p, classOf(center), 0.4));
+      });
+    });
+
+    it('uses the whole orbit even when the center lists one point', () => {
+      const group = octahedralGroup();
+      const center = { canonical: generic, representatives: [generic] };
+      const far = matVecMul(group.elements[5], generic);
+
+      expect(pointInOrbitCone(group, far, center, 0.01)).toBe(true);
+    });
+
+    it('contains every orbit point of the center', () => {
+      const group = tetrahedralGroup();
+      const center = orbitClassOf(group, generic);
+
+      orbitOf(group, generic).forEach(p => {
+        expect(pointInOrbitCone(group, p, center, 0.01)).toBe(true);
+      });
+    });
+  });
+});
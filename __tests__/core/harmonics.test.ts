@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3 } from '@/core/types';
+import { makeShapeMesh } from '@/core/shapes';
+import { vertexDirections } from '@/core/mesh';
+import { parseScalarField, sampleField } from '@/core/fields';
+import {
+  harmonicIndex,
+  harmonicBasis,
+  realSphericalHarmonic,
+  projectOntoHarmonics,
+  reconstructHarmonics,
+  degreeEnergies,
+  oddEnergyFraction,
+  zeroOddDegrees
+} from '@/core/harmonics';
+
+const SPHERE = makeShapeMesh('sphere', 32);
+const DIRECTIONS = vertexDirections(SPHERE);
+
+const project = (text: string, maxDegree: number) =>
+  projectOntoHarmonics(SPHERE, sampleField(parseScalarField(text), DIRECTIONS), maxDegree);
+
+describe('harmonics module', () => {
+  describe('realSphericalHarmonic', () => {
+    it('matches the closed forms of degrees 0 and 1', () => {
+      const u: Vec3 = Vec3.normalize([0.3, -0.5, 0.8]);
+      const c = Math.sqrt(3 / (4 * Math.PI));
+      expect(realSphericalHarmonic(0, 0, u)).toBeCloseTo(1 / Math.sqrt(4 * Math.PI));
+      expect(realSphericalHarmonic(1, 0, u)).toBeCloseTo(c * u[2]);
+      expect(realSphericalHarmonic(1, 1, u)).toBeCloseTo(c * u[0]);
+      expect(realSphericalHarmonic(1, -1, u)).toBeCloseTo(c * u[1]);
+    });
+
+    it('has the parity of its degree', () => {
+      const u: Vec3 = Vec3.normalize([-0.2, 0.7, 0.4]);
+      const at = harmonicBasis(u, 6);
+      const opposite = harmonicBasis(Vec3.neg(u), 6);
+      for (let l = 0; l <= 6; l++) {
+        for (let m = -l; m <= l; m++) {
+          const k = harmonicIndex(l, m);
+          expect(opposite[k]).toBeCloseTo((-1) ** l * at[k], 10);
+        }
+      }
+    });
+
+    it('rejects orders and degrees out of range', () => {
+      expect(() => realSphericalHarmonic(2, 3, [0, 0, 1])).toThrow(/out of range/);
+      expect(() => harmonicBasis([0, 0, 1], -1)).toThrow();
+      expect(() => harmonicBasis([0, 0, 1], 99)).toThrow();
+    });
+  });
+
+  describe('projectOntoHarmonics', () => {
+    it('finds the basis approximately orthonormal on the sphere mesh', () => {
+      const bases = DIRECTIONS.map(u => harmonicBasis(u, 3));
+      [[2, 1], [3, -2], [1, 0]].forEach(([l, m]) => {
+        const values = bases.map(b => b[harmonicIndex(l, m)]);
+        const spectrum = projectOntoHarmonics(SPHERE, values, 3);
+        spectrum.coefficients.forEach((c, k) => {
+          expect(c).toBeCloseTo(k === harmonicIndex(l, m) ? 1 : 0, 2);
+        });
+      });
+    });
+
+    it('reconstructs a low-degree polynomial', () => {
+      const spectrum = project('x^2 + 0.5z - xy', 4);
+      const u: Vec3 = Vec3.normalize([0.6, 0.3, -0.5]);
+      expect(reconstructHarmonics(spectrum, u)).toBeCloseTo(u[0] ** 2 + 0.5 * u[2] - u[0] * u[1], 2);
+    });
+
+    it('rejects samples that do not match the mesh', () => {
+      expect(() => projectOntoHarmonics(SPHERE, [1, 2, 3], 2)).toThrow(/one per vertex/);
+    });
+  });
+
+  describe('odd degrees', () => {
+    it('measures the energy the quotient loses', () => {
+      // ∫(z/2)² = π/3 against ∫x⁴ = 4π/5
+      expect(oddEnergyFraction(project('x^2 + 0.5z', 4))).toBeCloseTo(5 / 17, 2);
+      expect(oddEnergyFraction(project('xy - z^2', 4))).toBeLessThan(1e-9);
+      expect(oddEnergyFraction(project('x + y z', 4))).toBeGreaterThan(0.5);
+      expect(oddEnergyFraction(projectOntoHarmonics(SPHERE, DIRECTIONS.map(() => 0), 2))).toBe(0);
+    });
+
+    it('splits the energy by degree', () => {
+      const energies = degreeEnergies(project('z', 3));
+      expect(energies[1]).toBeCloseTo(4 * Math.PI / 3, 2);
+      expect(energies[0] + energies[2] + energies[3]).toBeLessThan(1e-4);
+    });
+
+    it('zeroes the odd degrees to leave an even function', () => {
+      const even = zeroOddDegrees(project('x^2 + 0.5z + x', 4));
+      expect(oddEnergyFraction(even)).toBe(0);
+      const u: Vec3 = Vec3.normalize([0.1, 0.4, 0.9]);
+      expect(reconstructHarmonics(even, Vec3.neg(u))).toBeCloseTo(reconstructHarmonics(even, u), 10);
+      expect(reconstructHarmonics(even, u)).toBeCloseTo(u[0] ** 2, 2);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { Mesh } from '@/core/types';
+import { makeShapeMesh } from '@/core/shapes';
+import { buildQuotientComplex } from '@/core/complex';
+import { meshCells, quotientCells, computeHomology, CellComplex, Chain } from '@/core/homology';
+
+/**
+ * Boundary of a 1-chain, as vertex coefficients (mod 2 when z2 is set)
+ */
+function edgeBoundary(cells: CellComplex, chain: Chain, z2: boolean): number[] {
+  const boundary = new Array(cells.vertexCount).fill(0);
+  chain.cells.forEach((e, i) => {
+    const [tail, head] = cells.edges[e];
+    boundary[head] += chain.coefficients[i];
+    boundary[tail] -= chain.coefficients[i];
+  });
+  return boundary.map(x => (z2 ? Math.abs(x) % 2 : x));
+}
+
+describe('homology module', () => {
+  describe('meshCells', () => {
+    it('welds the sphere seam into a closed surface', () => {
+      const cells = meshCells(makeShapeMesh('sphere', 8));
+      expect(cells.vertexCount - cells.edges.length + cells.faces.length).toBe(2);
+    });
+  });
+
+  describe('computeHomology', () => {
+    it('finds the homology of the sphere with either coefficients', () => {
+      const cells = meshCells(makeShapeMesh('sphere', 8));
+      expect(computeHomology(cells, 'Z2').betti).toEqual([1, 0, 1]);
+      expect(computeHomology(cells, 'Q').betti).toEqual([1, 0, 1]);
+    });
+
+    it('finds the homology of ℝP² from the sphere quotient', () => {
+      const cells = quotientCells(buildQuotientComplex(makeShapeMesh('sphere', 8)));
+      expect(computeHomology(cells, 'Z2').betti).toEqual([1, 1, 1]);
+      expect(computeHomology(cells, 'Q').betti).toEqual([1, 0, 0]);
+    });
+
+    it('agrees on the cube quotient, whose edges may share endpoints', () => {
+      const cells = quotientCells(buildQuotientComplex(makeShapeMesh('cube')));
+      expect(computeHomology(cells, 'Z2').betti).toEqual([1, 1, 1]);
+      expect(computeHomology(cells, 'Q').betti).toEqual([1, 0, 0]);
+    });
+
+    it('returns an H₁ generator of ℝP² that is a ℤ₂ cycle', () => {
+      const cells = quotientCells(buildQuotientComplex(makeShapeMesh('sphere', 8)));
+      const [loop] = computeHomology(cells, 'Z2').generators[1];
+      expect(loop.dimension).toBe(1);
+      expect(loop.cells.length).toBeGreaterThan(0);
+      expect(edgeBoundary(cells, loop, true).every(x => x === 0)).toBe(true);
+    });
+
+    it('returns the whole sphere as the rational H₂ generator', () => {
+      const cells = meshCells(makeShapeMesh('sphere', 8));
+      const [surface] = computeHomology(cells, 'Q').generators[2];
+      expect(surface.cells.length).toBe(cells.faces.length);
+      expect(surface.coefficients.every(c => Math.abs(c) === 1)).toBe(true);
+    });
+
+    it('finds two loops on the torus', () => {
+      const cells = meshCells(makeShapeMesh('torus', 8));
+      const homology = computeHomology(cells, 'Q');
+      expect(homology.betti).toEqual([1, 2, 1]);
+      homology.generators[1].forEach(loop => {
+        expect(edgeBoundary(cells, loop, false).every(x => x === 0)).toBe(true);
+      });
+    });
+
+    it('counts components in H₀', () => {
+      const triangle: Mesh = { vertices: [[0, 0, 0], [1, 0, 0], [0, 1, 0]], indices: [0, 1, 2] };
+      const shifted: Mesh = {
+        vertices: [...triangle.vertices, [5, 0, 0], [6, 0, 0], [5, 1, 0]],
+        indices: [0, 1, 2, 3, 4, 5]
+      };
+      expect(computeHomology(meshCells(triangle), 'Z2').betti).toEqual([1, 0, 0]);
+      expect(computeHomology(meshCells(shifted), 'Q').betti).toEqual([2, 0, 0]);
+    });
+  });
+});
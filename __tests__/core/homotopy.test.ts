@@ -0,0 +1,224 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3 } from '@/core/types';
+import { PARITY_EVEN, PARITY_ODD, createPath } from '@/core/parity';
+import {
+  homotopyClass,
+  isNullHomotopic,
+  linkingNumber,
+  windingParity,
+  certifyLoop,
+} from '@/core/homotopy';
+
+/**
+ * Samples a great circle through a and b, starting at a, covering `halfTurns` half-turns.
+ */
+function greatCircle(a: Vec3, b: Vec3, halfTurns: number, samples = 24): Vec3[] {
+  const points: Vec3[] = [];
+  for (let i = 0; i < samples * halfTurns; i++) {
+    const t = (Math.PI * i) / samples;
+    points.push(Vec3.add(Vec3.scale(a, Math.cos(t)), Vec3.scale(b, Math.sin(t))));
+  }
+  return points;
+}
+
+/**
+ * Samples a small circle of angular radius r around the unit vector c.
+ */
+function smallCircle(c: Vec3, r: number, samples = 24): Vec3[] {
+  const helper: Vec3 = Math.abs(c[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+  const e1 = Vec3.normalize(Vec3.cross(c, helper));
+  const e2 = Vec3.cross(c, e1);
+  const points: Vec3[] = [];
+  for (let i = 0; i < samples; i++) {
+    const t = (2 * Math.PI * i) / samples;
+    const offset = Vec3.add(Vec3.scale(e1, Math.cos(t)), Vec3.scale(e2, Math.sin(t)));
+    points.push(Vec3.add(Vec3.scale(c, Math.cos(r)), Vec3.scale(offset, Math.sin(r))));
+  }
+  return points;
+}
+
+describe('homotopy module', () => {
+  describe('homotopyClass', () => {
+    it('classifies a projective line (half great circle) as odd', () => {
+      const loop = createPath(greatCircle([1, 0, 0], [0, 1, 0], 1));
+      expect(homotopyClass(loop)).toBe(PARITY_ODD);
+    });
+
+    it('classifies a line traversed twice as even', () => {
+      const loop = createPath(greatCircle([1, 0, 0], [0, 0, 1], 2));
+      expect(homotopyClass(loop)).toBe(PARITY_EVEN);
+    });
+
+    it('classifies a line traversed three times as odd', () => {
+      const loop = createPath(greatCircle([0, 1, 0], [0, 0, 1], 3));
+      expect(homotopyClass(loop)).toBe(PARITY_ODD);
+    });
+
+    it('classifies a tiny loop as even', () => {
+      const loop = createPath(smallCircle(Vec3.normalize([1, 2, 3]), 0.01));
+      expect(homotopyClass(loop)).toBe(PARITY_EVEN);
+    });
+
+    it('does not depend on which representatives are given', () => {
+      const points = greatCircle([1, 0, 0], [0, 1, 0], 1);
+      const flipped = points.map((p, i) => (i % 3 === 0 ? Vec3.neg(p) : p));
+      expect(homotopyClass(createPath(flipped))).toBe(homotopyClass(createPath(points)));
+    });
+  });
+
+  describe('isNullHomotopic', () => {
+    it('returns true for the trivial loop', () => {
+      expect(isNullHomotopic(createPath([[1, 0, 0]]))).toBe(true);
+    });
+
+    it('returns false for a projective line', () => {
+      const loop = createPath(greatCircle([1, 0, 0], [0, 1, 0], 1));
+      expect(isNullHomotopic(loop)).toBe(false);
+    });
+
+    it('returns true for a line traversed twice', () => {
+      const loop = createPath(greatCircle([1, 0, 0], [0, 1, 0], 2));
+      expect(isNullHomotopic(loop)).toBe(true);
+    });
+  });
+
+  describe('linkingNumber', () => {
+    it('is ±1 for a projective line not through the point', () => {
+      const loop = createPath(greatCircle([1, 0, 0], [0, 1, 0], 1));
+      expect(Math.abs(linkingNumber(loop, [0, 0, 1]))).toBe(1);
+    });
+
+    it('is ±2 for a line traversed twice', () => {
+      const loop = createPath(greatCircle([1, 0, 0], [0, 1, 0], 2));
+      expect(Math.abs(linkingNumber(loop, [0, 0, 1]))).toBe(2);
+    });
+
+    it('is ±2 for a tiny loop around the point', () => {
+      const loop = createPath(smallCircle([0, 0, 1], 0.05));
+      expect(Math.abs(linkingNumber(loop, [0, 0, 1]))).toBe(2);
+    });
+
+    it('is 0 for a tiny loop away from the point', () => {
+      const loop = createPath(smallCircle([1, 0, 0], 0.05));
+      expect(linkingNumber(loop, [0, 0, 1])).toBe(0);
+    });
+
+    it('is the same for both representatives of the point class', () => {
+      const loop = createPath(smallCircle(Vec3.normalize([1, 1, 1]), 0.2));
+      const p = Vec3.normalize([1, 1, 0.8]);
+      expect(linkingNumber(loop, p)).toBe(linkingNumber(loop, Vec3.neg(p)));
+    });
+
+    it('has the same parity as the homotopy class', () => {
+      const loops = [
+        createPath(greatCircle([1, 0, 0], [0, 1, 0], 1)),
+        createPath(greatCircle([1, 0, 0], [0, 1, 0], 2)),
+        createPath(smallCircle([0, 0, 1], 0.1)),
+      ];
+      loops.forEach(loop => {
+        expect(Math.abs(linkingNumber(loop, [0, 0, 1])) % 2).toBe(homotopyClass(loop));
+      });
+    });
+
+    it('throws if the loop passes through the point class', () => {
+      const loop = createPath(greatCircle([1, 0, 0], [0, 1, 0], 1));
+      expect(() => linkingNumber(loop, [0, -1, 0])).toThrow();
+    });
+  });
+
+  describe('windingParity', () => {
+    it('is odd for a tiny loop around the point', () => {
+      const loop = createPath(smallCircle([0, 0, 1], 0.05));
+      expect(windingParity(loop, [0, 0, -1])).toBe(PARITY_ODD);
+    });
+
+    it('is even for a tiny loop away from the point', () => {
+      const loop = createPath(smallCircle([1, 0, 0], 0.05));
+      expect(windingParity(loop, [0, 0, 1])).toBe(PARITY_EVEN);
+    });
+
+    it('is odd for a projective line', () => {
+      const loop = createPath(greatCircle([1, 0, 0], [0, 1, 0], 1));
+      expect(windingParity(loop, [0, 0, 1])).toBe(PARITY_ODD);
+    });
+  });
+
+  describe('certifyLoop', () => {
+    it('gives antipodal endpoints and no contraction for a projective line', () => {
+      const cert = certifyLoop(createPath(greatCircle([1, 0, 0], [0, 1, 0], 1)));
+
+      expect(cert.parity).toBe(PARITY_ODD);
+      expect(Vec3.approxEq(cert.endpoints[1], Vec3.neg(cert.endpoints[0]))).toBe(true);
+      expect(cert.contraction).toBeNull();
+    });
+
+    it('gives equal endpoints for a line traversed twice', () => {
+      const cert = certifyLoop(createPath(greatCircle([1, 0, 0], [0, 1, 0], 2)));
+
+      expect(cert.parity).toBe(PARITY_EVEN);
+      expect(Vec3.approxEq(cert.endpoints[0], cert.endpoints[1])).toBe(true);
+      expect(cert.contraction).not.toBeNull();
+    });
+
+    it('produces a valid contraction witness for a tiny loop', () => {
+      const cert = certifyLoop(createPath(smallCircle([0, 1, 0], 0.02)), 8);
+      const frames = cert.contraction!;
+
+      expect(frames).toHaveLength(8);
+
+      // Starts at the lift
+      frames[0].forEach((p, i) => expect(Vec3.approxEq(p, cert.lift[i])).toBe(true));
+
+      // Every frame is a closed loop on S²
+      frames.forEach(frame => {
+        expect(Vec3.approxEq(frame[0], frame[frame.length - 1])).toBe(true);
+        frame.forEach(p => expect(Vec3.norm(p)).toBeCloseTo(1));
+      });
+
+      // Ends at a constant loop
+      const last = frames[frames.length - 1];
+      last.forEach(p => expect(Vec3.approxEq(p, last[0])).toBe(true));
+    });
+
+    it('contracts a loop through all 26 cube directions', () => {
+      // Visit every direction, each step to the nearest unvisited one, so the lift keeps them all
+      const remaining: Vec3[] = [];
+      for (let x = -1; x <= 1; x++) {
+        for (let y = -1; y <= 1; y++) {
+          for (let z = -1; z <= 1; z++) {
+            if (x !== 0 || y !== 0 || z !== 0) remaining.push(Vec3.normalize([x, y, z]));
+          }
+        }
+      }
+      const points = [remaining.shift()!];
+      while (remaining.length > 0) {
+        const last = points[points.length - 1];
+        const k = remaining.reduce((best, q, i) => (Vec3.dot(q, last) > Vec3.dot(remaining[best], last) ? i : best), 0);
+        points.push(...remaining.splice(k, 1));
+      }
+      // Return to the start the way it came, so the loop is contractible
+      const loop = createPath([...points, ...points.slice(1, -1).reverse()]);
+      const cert = certifyLoop(loop);
+
+      expect(cert.parity).toBe(PARITY_EVEN);
+      expect(cert.contraction).not.toBeNull();
+      const last = cert.contraction![cert.contraction!.length - 1];
+      last.forEach(p => expect(Vec3.approxEq(p, last[0])).toBe(true));
+    });
+
+    it('rejects an empty loop', () => {
+      expect(() => certifyLoop(createPath([]))).toThrow(/empty/);
+    });
+
+    it('moves each point continuously between frames', () => {
+      const cert = certifyLoop(createPath(greatCircle([0, 0, 1], [1, 0, 0], 2)), 32);
+      const frames = cert.contraction!;
+
+      for (let k = 1; k < frames.length; k++) {
+        frames[k].forEach((p, i) => {
+          expect(Vec3.angle(p, frames[k - 1][i])).toBeLessThan(0.5);
+        });
+      }
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3 } from '@/core/types';
+import { selfIntersections } from '@/core/mesh';
+import {
+  ImmersionId,
+  IMMERSION_POLE,
+  immersionPoint,
+  makeImmersionMesh,
+  makeHemisphereMesh,
+} from '@/core/immersions';
+
+const IMMERSIONS: ImmersionId[] = ['boy', 'crosscap', 'roman'];
+
+describe('immersions module', () => {
+  describe('immersionPoint', () => {
+    it('gives the same point for u and -u', () => {
+      const samples: Vec3[] = [[1, 2, 3], [0.3, -0.5, 0.1], [1, 0, 0], [-2, 1, -0.2]];
+      IMMERSIONS.forEach(immersion => {
+        samples.forEach(u => {
+          expect(Vec3.approxEq(immersionPoint(immersion, u), immersionPoint(immersion, Vec3.neg(u)))).toBe(true);
+        });
+      });
+    });
+
+    it('ignores the length of u', () => {
+      IMMERSIONS.forEach(immersion => {
+        expect(Vec3.approxEq(immersionPoint(immersion, [1, 1, 2]), immersionPoint(immersion, [3, 3, 6]))).toBe(true);
+      });
+    });
+
+    it('identifies the cross-cap pair (x, 0, ±z)', () => {
+      const a = immersionPoint('crosscap', [0.6, 0, 0.8]);
+      const b = immersionPoint('crosscap', [0.6, 0, -0.8]);
+      expect(Vec3.approxEq(a, b)).toBe(true);
+      expect(Vec3.approxEq(a, [0, 0, 0.36])).toBe(true);
+    });
+
+    it('throws for an unknown immersion', () => {
+      expect(() => immersionPoint('klein' as ImmersionId, [0, 0, 1])).toThrow();
+    });
+  });
+
+  describe('makeHemisphereMesh', () => {
+    it('covers the hemisphere around the pole', () => {
+      const mesh = makeHemisphereMesh(8, IMMERSION_POLE);
+      mesh.vertices.forEach(v => {
+        expect(Vec3.norm(v)).toBeCloseTo(1);
+        expect(Vec3.dot(v, IMMERSION_POLE)).toBeGreaterThan(-1e-9);
+      });
+    });
+
+    it('has antipodal vertices across the rim', () => {
+      const detail = 8;
+      const { vertices } = makeHemisphereMesh(detail);
+      const rim = detail * (4 * detail + 1);
+
+      for (let j = 0; j < 2 * detail; j++) {
+        expect(Vec3.approxEq(vertices[rim + j], Vec3.neg(vertices[rim + j + 2 * detail]))).toBe(true);
+      }
+    });
+  });
+
+  describe('makeImmersionMesh', () => {
+    it('maps the hemisphere vertex by vertex', () => {
+      const hemisphere = makeHemisphereMesh(6, IMMERSION_POLE);
+      const mesh = makeImmersionMesh('roman', 6);
+
+      expect(mesh.indices).toEqual(hemisphere.indices);
+      mesh.vertices.forEach((v, i) => {
+        expect(Vec3.approxEq(v, immersionPoint('roman', hemisphere.vertices[i]))).toBe(true);
+      });
+    });
+  });
+
+  describe('selfIntersections', () => {
+    it('finds none on an embedded sphere', () => {
+      expect(selfIntersections(makeHemisphereMesh(8))).toHaveLength(0);
+    });
+
+    it('follows the cross-cap segment on the z-axis', () => {
+      const segments = selfIntersections(makeImmersionMesh('crosscap', 16));
+      expect(segments.length).toBeGreaterThan(0);
+
+      segments.flat().forEach(([x, y, z]) => {
+        expect(Math.hypot(x, y)).toBeLessThan(0.05);
+        expect(z).toBeGreaterThan(-0.05);
+        expect(z).toBeLessThan(1.05);
+      });
+    });
+
+    it('follows the Roman surface segments on the axes', () => {
+      const segments = selfIntersections(makeImmersionMesh('roman', 16));
+      expect(segments.length).toBeGreaterThan(0);
+
+      segments.flat().forEach(p => {
+        const sorted = p.map(Math.abs).sort((a, b) => a - b);
+        expect(Math.hypot(sorted[0], sorted[1])).toBeLessThan(0.1);
+        expect(sorted[2]).toBeLessThan(1.1);
+      });
+    });
+
+    it('finds the double curve of the Boy surface', () => {
+      expect(selfIntersections(makeImmersionMesh('boy', 16)).length).toBeGreaterThan(0);
+    });
+  });
+});
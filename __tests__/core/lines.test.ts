@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3 } from '@/core/types';
+import { classOf, classEquals } from '@/core/quotient';
+import {
+  lineFromNormal,
+  join,
+  meet,
+  pointOnLine,
+  sameLine,
+  polarLine,
+  poleOf,
+  lineCircle
+} from '@/core/lines';
+
+describe('lines module', () => {
+  describe('join', () => {
+    it('gives a line through both points', () => {
+      const p = classOf([1, 2, 0.5]);
+      const q = classOf([-0.3, 1, 2]);
+      const l = join(p, q);
+
+      expect(pointOnLine(p, l)).toBe(true);
+      expect(pointOnLine(q, l)).toBe(true);
+    });
+
+    it('does not depend on the representatives', () => {
+      const p = classOf([1, 0, 1]);
+      const q = classOf([0, 1, 1]);
+      const r = classOf([-1, 0, -1]);
+      expect(sameLine(join(p, q), join(r, q))).toBe(true);
+    });
+
+    it('throws when the points are the same class', () => {
+      expect(() => join(classOf([1, 2, 3]), classOf([-1, -2, -3]))).toThrow();
+    });
+  });
+
+  describe('meet', () => {
+    it('gives the one point on both lines', () => {
+      const l = lineFromNormal([1, 0.2, -0.4]);
+      const m = lineFromNormal([0.1, 1, 0.7]);
+      const p = meet(l, m);
+
+      expect(pointOnLine(p, l)).toBe(true);
+      expect(pointOnLine(p, m)).toBe(true);
+    });
+
+    it('meets parallel lines of the chart z = 1 at infinity', () => {
+      // x = 0 and x = 1 in the chart, i.e. x = 0 and x - z = 0
+      const p = meet(lineFromNormal([1, 0, 0]), lineFromNormal([1, 0, -1]));
+      expect(p.canonical[2]).toBeCloseTo(0);
+      expect(classEquals(p, classOf([0, 1, 0]))).toBe(true);
+    });
+
+    it('throws for a line with itself', () => {
+      const l = lineFromNormal([0, 1, 1]);
+      expect(() => meet(l, lineFromNormal([0, -2, -2]))).toThrow();
+    });
+  });
+
+  describe('duality', () => {
+    it('swaps join and meet through poles and polars', () => {
+      const p = classOf([1, 1, 0.2]);
+      const q = classOf([0.4, -1, 1]);
+      const dual = meet(polarLine(p), polarLine(q));
+      expect(classEquals(dual, poleOf(join(p, q)))).toBe(true);
+    });
+
+    it('keeps incidence with the roles swapped', () => {
+      const p = classOf([0.5, 0.5, 1]);
+      const l = join(p, classOf([1, 0, 0]));
+      expect(pointOnLine(poleOf(l), polarLine(p))).toBe(true);
+    });
+  });
+
+  describe('lineCircle', () => {
+    it('samples a great circle in the plane of the line', () => {
+      const l = lineFromNormal([0.3, -0.5, 0.8]);
+      const circle = lineCircle(l, 32);
+
+      expect(circle).toHaveLength(32);
+      circle.forEach(u => {
+        expect(Vec3.norm(u)).toBeCloseTo(1);
+        expect(pointOnLine(classOf(u), l)).toBe(true);
+      });
+      // Half-way around is the antipode, the same point of ℝP²
+      expect(Vec3.approxEq(circle[16], Vec3.neg(circle[0]))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { Mesh } from '@/core/types';
+import { makeShapeMesh, ShapeId } from '@/core/shapes';
+import { weldVertices } from '@/core/mesh';
+import { buildQuotientComplex } from '@/core/complex';
+import { meshCells } from '@/core/homology';
+import { orientMesh, orientationDoubleCover } from '@/core/orientation';
+
+/**
+ * Euler characteristic of a mesh after welding
+ */
+function eulerCharacteristic(mesh: Mesh): number {
+  const cells = meshCells(mesh);
+  return cells.vertexCount - cells.edges.length + cells.faces.length;
+}
+
+/**
+ * Carries an orientation around a loop of faces and returns the sign it comes back with
+ */
+function transportSign(mesh: Mesh, cycle: number[]): number {
+  const { weld } = weldVertices(mesh);
+  const tri = (t: number) => [0, 1, 2].map(k => weld[mesh.indices[3 * t + k]]);
+  const direction = (t: number[], a: number, b: number) => {
+    const i = t.indexOf(a);
+    return t[(i + 1) % 3] === b ? 1 : -1;
+  };
+
+  let sign = 1;
+  cycle.forEach((f, i) => {
+    const g = cycle[(i + 1) % cycle.length];
+    const [a, b] = tri(f).filter(v => tri(g).includes(v));
+    // Agreeing neighbours run along the shared edge in opposite directions
+    sign *= -direction(tri(f), a, b) * direction(tri(g), a, b);
+  });
+  return sign;
+}
+
+describe('orientation module', () => {
+  describe('orientMesh', () => {
+    it('orients the sphere, cube and torus', () => {
+      (['sphere', 'torus', 'cube'] as ShapeId[]).forEach(shape => {
+        const result = orientMesh(makeShapeMesh(shape, 16));
+        expect(result.orientable).toBe(true);
+        expect(result.reversingCycle).toEqual([]);
+        expect(result.components).toBe(1);
+      });
+    });
+
+    it('flips inconsistently wound triangles back into line', () => {
+      const mesh = makeShapeMesh('cube');
+      const indices = [...mesh.indices];
+      [indices[3], indices[4]] = [indices[4], indices[3]];
+      const result = orientMesh({ vertices: mesh.vertices, indices });
+      expect(result.orientable).toBe(true);
+      expect(result.flips[1]).toBe(-result.flips[0]);
+    });
+
+    it('finds an orientation-reversing cycle on the Möbius strip', () => {
+      const mesh = makeShapeMesh('mobius', 16);
+      const result = orientMesh(mesh);
+      expect(result.orientable).toBe(false);
+      expect(result.reversingCycle.length).toBeGreaterThan(2);
+      expect(transportSign(mesh, result.reversingCycle)).toBe(-1);
+    });
+
+    it('finds an orientation-reversing cycle on the Klein bottle', () => {
+      const mesh = makeShapeMesh('klein', 16);
+      const result = orientMesh(mesh);
+      expect(result.orientable).toBe(false);
+      expect(transportSign(mesh, result.reversingCycle)).toBe(-1);
+    });
+
+    it('finds ℝP² non-orientable', () => {
+      const complex = buildQuotientComplex(makeShapeMesh('sphere', 12));
+      const mesh: Mesh = { vertices: complex.vertices, indices: complex.triangles.flat() };
+      expect(orientMesh(mesh).orientable).toBe(false);
+    });
+
+    it('throws when an edge has more than two triangles', () => {
+      const mesh: Mesh = {
+        vertices: [[0, 0, 0], [1, 0, 0], [0, 1, 0], [0, -1, 0], [0, 0, 1]],
+        indices: [0, 1, 2, 1, 0, 3, 0, 1, 4]
+      };
+      expect(() => orientMesh(mesh)).toThrow();
+    });
+  });
+
+  describe('orientationDoubleCover', () => {
+    it('covers the Möbius strip with an annulus', () => {
+      const mesh = makeShapeMesh('mobius', 16);
+      const cover = orientationDoubleCover(mesh);
+      const result = orientMesh(cover);
+      expect(result.orientable).toBe(true);
+      expect(result.components).toBe(1);
+      expect(eulerCharacteristic(cover)).toBe(0);
+    });
+
+    it('covers the Klein bottle with a torus', () => {
+      const cover = orientationDoubleCover(makeShapeMesh('klein', 16));
+      const result = orientMesh(cover);
+      expect(result.orientable).toBe(true);
+      expect(result.components).toBe(1);
+      expect(eulerCharacteristic(cover)).toBe(0);
+    });
+
+    it('covers ℝP² with a sphere', () => {
+      const complex = buildQuotientComplex(makeShapeMesh('sphere', 12));
+      const mesh: Mesh = { vertices: complex.vertices, indices: complex.triangles.flat() };
+      const cover = orientationDoubleCover(mesh);
+      expect(orientMesh(cover).components).toBe(1);
+      expect(eulerCharacteristic(cover)).toBe(2);
+    });
+
+    it('splits an orientable surface into two sheets', () => {
+      const mesh = makeShapeMesh('sphere', 12);
+      const cover = orientationDoubleCover(mesh);
+      expect(orientMesh(cover).components).toBe(2);
+      expect(cover.indices.length).toBe(2 * meshCells(mesh).faces.length * 3);
+    });
+  });
+});
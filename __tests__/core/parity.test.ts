@@ -13,10 +13,9 @@ import {
   closeLoop,
   concatenatePaths,
   reversePath,
-  windingParity,
   parallelTransport,
-  isNullHomotopic,
   applyParityToVector,
+  parityWalk,
 } from '@/core/parity';
 
 describe('parity module', () => {
@@ -151,7 +150,7 @@ describe('parity module', () => {
       expect(newPath.points[1]).toEqual(newPoint);
     });
 
-    it('preserves parity in simplified implementation', () => {
+    it('keeps parity when the lift stays on the same sheet', () => {
       const path = createPath([[1, 0, 0]]);
       const newPoint: Vec3 = [0, 1, 0];
       const newPath = appendToPath(path, newPoint);
@@ -159,6 +158,23 @@ describe('parity module', () => {
       expect(newPath.parity).toBe(path.parity);
     });
 
+    it('lifts to the representative nearest the previous lift', () => {
+      const path = createPath([[1, 0, 0]]);
+      const newPath = appendToPath(path, [-0.9, 0.1, 0]);
+
+      expect(Vec3.approxEq(newPath.points[1], [0.9, -0.1, 0])).toBe(true);
+    });
+
+    it('flips parity when the lift crosses the canonical seam', () => {
+      // Sweep from +x through +y to -x; the canonical representative of [-x] is +x
+      const path = createPath([[1, 0, 0], [Math.SQRT1_2, Math.SQRT1_2, 0], [0.01, 1, 0]]);
+      expect(path.parity).toBe(PARITY_EVEN);
+
+      const crossed = appendToPath(path, [0.01, -1, 0]);
+      expect(Vec3.approxEq(crossed.points[3], [-0.01, 1, 0])).toBe(true);
+      expect(crossed.parity).toBe(PARITY_ODD);
+    });
+
     it('does not mutate original path', () => {
       const original = createPath([[1, 0, 0]]);
       const newPoint: Vec3 = [0, 1, 0];
@@ -183,6 +199,34 @@ describe('parity module', () => {
       const path = createPath([[1, 0, 0], [0, 1, 0], [0, 0, 1]]);
       expect(closeLoop(path)).toBe(path.parity);
     });
+
+    it('detects a half great circle as the non-trivial loop', () => {
+      // Canonical representatives of a projective line: the lift ends at -x
+      const points: Vec3[] = [];
+      for (let i = 0; i < 12; i++) {
+        const t = (Math.PI * i) / 12;
+        points.push([Math.cos(t), Math.sin(t), 0]);
+      }
+      const path = createPath(points.map(p => (p[0] < 0 ? Vec3.neg(p) : p)));
+
+      expect(closeLoop(path)).toBe(PARITY_ODD);
+    });
+
+    it('detects a full great circle as contractible', () => {
+      const points: Vec3[] = [];
+      for (let i = 0; i < 24; i++) {
+        const t = (2 * Math.PI * i) / 24;
+        points.push([Math.cos(t), Math.sin(t), 0]);
+      }
+
+      expect(closeLoop(createPath(points))).toBe(PARITY_EVEN);
+    });
+
+    it('agrees with the parity of an explicitly closed path', () => {
+      const path = createPath([[1, 0, 0], [0, 1, 0], [-1, 0.01, 0], [1, 0, 0]]);
+      expect(closeLoop(path)).toBe(path.parity);
+      expect(path.parity).toBe(PARITY_ODD);
+    });
   });
 
   describe('concatenatePaths', () => {
@@ -212,6 +256,16 @@ describe('parity module', () => {
       expect(result.parity).toBe(PARITY_EVEN);
     });
 
+    it('re-lifts the second path onto the end of the first', () => {
+      const path1 = createPath([[1, 0, 0], [0.1, 1, 0]]);
+      const path2 = createPath([[0, -1, 0], [-1, 0, 0]]);
+      const result = concatenatePaths(path1, path2);
+
+      expect(Vec3.approxEq(result.points[2], [0, 1, 0])).toBe(true);
+      expect(Vec3.approxEq(result.points[3], [1, 0, 0])).toBe(true);
+      expect(result.parity).toBe(createPath(result.points).parity);
+    });
+
     it('handles even + odd = odd', () => {
       const path1 = { points: [[1, 0, 0] as Vec3], parity: PARITY_EVEN };
       const path2 = { points: [[0, 1, 0] as Vec3], parity: PARITY_ODD };
@@ -255,45 +309,96 @@ describe('parity module', () => {
     });
   });
 
-  describe('windingParity', () => {
-    it('returns even parity (placeholder)', () => {
-      const loop = createPath([[1, 0, 0], [0, 1, 0], [0, 0, 1]]);
-      const point: Vec3 = [1, 1, 1];
+  describe('parallelTransport', () => {
+    const octant = (): Vec3[] => {
+      const points: Vec3[] = [];
+      const arc = (a: Vec3, b: Vec3) => {
+        for (let i = 0; i < 16; i++) {
+          const t = (Math.PI / 2) * (i / 16);
+          points.push(Vec3.add(Vec3.scale(a, Math.cos(t)), Vec3.scale(b, Math.sin(t))));
+        }
+      };
+      arc([1, 0, 0], [0, 1, 0]);
+      arc([0, 1, 0], [0, 0, 1]);
+      arc([0, 0, 1], [1, 0, 0]);
+      return points;
+    };
+
+    it('leaves the vector unchanged along a trivial path', () => {
+      const path = createPath([[1, 0, 0]]);
+      const result = parallelTransport(path, [0, 0, 1]);
 
-      expect(windingParity(loop, point)).toBe(PARITY_EVEN);
+      expect(result.vector).toEqual([0, 0, 1]);
+      expect(result.holonomy).toBeCloseTo(0);
+      expect(result.mirrored).toBe(false);
     });
-  });
 
-  describe('parallelTransport', () => {
-    it('returns initial vector (placeholder)', () => {
-      const path = createPath([[1, 0, 0], [0, 1, 0]]);
-      const vector: Vec3 = [0, 0, 1];
+    it('reads the parity from the lift, not from the given path', () => {
+      const half: Vec3[] = [];
+      for (let i = 0; i <= 16; i++) half.push([Math.cos((Math.PI * i) / 16), Math.sin((Math.PI * i) / 16), 0]);
+
+      expect(parallelTransport({ points: [[1, 0, 0]], parity: PARITY_ODD }, [0, 1, 0]).parity).toBe(PARITY_EVEN);
+      expect(parallelTransport({ ...createPath(half), parity: PARITY_EVEN }, [0, 1, 0]).parity).toBe(PARITY_ODD);
+      expect(() => parallelTransport(createPath([]), [0, 1, 0])).toThrow(/empty/);
+    });
 
-      const result = parallelTransport(path, vector);
+    it('keeps the transported vector tangent and unit length', () => {
+      const path = createPath(octant());
+      const result = parallelTransport(path, [0, 0, 1]);
+      const end = Vec3.normalize(path.points[path.points.length - 1]);
 
-      expect(result.vector).toEqual(vector);
-      expect(result.parity).toBe(path.parity);
+      expect(Vec3.dot(result.vector, end)).toBeCloseTo(0);
+      expect(Vec3.norm(result.vector)).toBeCloseTo(1);
     });
 
-    it('returns path parity', () => {
-      const path = { points: [[1, 0, 0] as Vec3], parity: PARITY_ODD };
-      const vector: Vec3 = [0, 1, 0];
+    it('rotates by the enclosed area around a geodesic triangle', () => {
+      // The octant triangle encloses area π/2
+      const result = parallelTransport(createPath(octant()), [0, 1, 0]);
 
-      const result = parallelTransport(path, vector);
+      expect(Math.abs(result.holonomy)).toBeCloseTo(Math.PI / 2);
+      expect(result.mirrored).toBe(false);
+    });
 
-      expect(result.parity).toBe(PARITY_ODD);
+    it('has no holonomy around a great circle traversed in full', () => {
+      const points: Vec3[] = [];
+      for (let i = 0; i <= 32; i++) {
+        const t = (2 * Math.PI * i) / 32;
+        points.push([Math.cos(t), Math.sin(t), 0]);
+      }
+      const result = parallelTransport(createPath(points), [0, 0, 1]);
+
+      expect(result.holonomy).toBeCloseTo(0);
+      expect(result.mirrored).toBe(false);
     });
-  });
 
-  describe('isNullHomotopic', () => {
-    it('returns true for even parity', () => {
-      const path = createPath([[1, 0, 0], [0, 1, 0]]);
-      expect(isNullHomotopic(path)).toBe(true);
+    it('returns mirrored after a loop that closes on the antipode', () => {
+      const points: Vec3[] = [];
+      for (let i = 0; i <= 16; i++) {
+        const t = (Math.PI * i) / 16;
+        points.push([Math.cos(t), Math.sin(t), 0]);
+      }
+      const path = createPath(points);
+
+      // The direction along the loop comes back unchanged while its partner
+      // u × v comes back reversed: a reflection, which no rotation undoes
+      const along = parallelTransport(path, [0, 1, 0]);
+      expect(along.mirrored).toBe(true);
+      expect(along.holonomy).toBeNull();
+      expect(Vec3.approxEq(along.returnedFrame[0], [0, 1, 0])).toBe(true);
+      expect(Vec3.approxEq(along.returnedFrame[1], Vec3.neg(Vec3.cross([1, 0, 0], [0, 1, 0])))).toBe(true);
+
+      const across = parallelTransport(path, [0, 0, 1]);
+      expect(across.mirrored).toBe(true);
+      expect(across.holonomy).toBeNull();
+      expect(Vec3.approxEq(across.vector, [0, 0, 1])).toBe(true);
+      const [e, f] = across.returnedFrame;
+      expect(Vec3.dot([1, 0, 0], Vec3.cross(e, f))).toBeCloseTo(-1);
     });
 
-    it('returns false for odd parity', () => {
-      const path = { points: [[1, 0, 0] as Vec3], parity: PARITY_ODD };
-      expect(isNullHomotopic(path)).toBe(false);
+    it('keeps the orientation after a loop that closes on the start', () => {
+      const result = parallelTransport(createPath(octant()), [0, 1, 0]);
+      const [e, f] = result.returnedFrame;
+      expect(Vec3.dot([1, 0, 0], Vec3.cross(e, f))).toBeCloseTo(1);
     });
   });
 
@@ -318,6 +423,41 @@ describe('parity module', () => {
     });
   });
 
+  describe('parityWalk', () => {
+    it('brings the frame back mirrored on the Möbius strip and Klein bottle', () => {
+      (['mobius', 'klein'] as const).forEach(shape => {
+        const walk = parityWalk(shape, 48);
+        expect(walk.parity).toBe(PARITY_ODD);
+        expect(walk.mirrored).toBe(true);
+
+        const first = walk.frames[0];
+        const last = walk.frames[walk.frames.length - 1];
+        expect(Vec3.approxEq(last.position, first.position, 1e-9)).toBe(true);
+        expect(Vec3.approxEq(last.across, Vec3.neg(first.across), 1e-9)).toBe(true);
+      });
+    });
+
+    it('brings the frame back unchanged on the torus', () => {
+      const walk = parityWalk('torus', 48);
+      expect(walk.parity).toBe(PARITY_EVEN);
+      expect(walk.mirrored).toBe(false);
+      expect(Vec3.approxEq(walk.frames[48].across, walk.frames[0].across, 1e-9)).toBe(true);
+    });
+
+    it('carries a continuous orthonormal frame', () => {
+      const walk = parityWalk('klein', 48);
+      walk.frames.forEach((frame, i) => {
+        expect(Vec3.norm(frame.across)).toBeCloseTo(1);
+        expect(Vec3.dot(frame.across, frame.tangent)).toBeCloseTo(0);
+        if (i > 0) expect(Vec3.dot(frame.across, walk.frames[i - 1].across)).toBeGreaterThan(0);
+      });
+    });
+
+    it('throws for shapes without a core loop', () => {
+      expect(() => parityWalk('sphere')).toThrow();
+    });
+  });
+
   describe('integration tests - ℤ₂ group properties', () => {
     it('identity element exists', () => {
       const p = PARITY_ODD;
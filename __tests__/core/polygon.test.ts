@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3 } from '@/core/types';
+import { classOf, classEquals, quotientDistance, pointInQuotientCone } from '@/core/quotient';
+import {
+  SquarePoint,
+  POLYGON_WORD,
+  POLYGON_EDGES,
+  squareToSphere,
+  sphereToSquare,
+  pointInSquareCone,
+  createSquarePen,
+  movePen,
+} from '@/core/polygon';
+
+const folded = (p: SquarePoint) => classOf(squareToSphere(p));
+
+describe('polygon module', () => {
+  describe('POLYGON_EDGES', () => {
+    it('spell the boundary word abab', () => {
+      expect(POLYGON_EDGES.map(e => e.label).join('')).toBe(POLYGON_WORD);
+    });
+
+    it('glue edge i to edge i + 2 with matching arrows', () => {
+      [0, 1].forEach(i => {
+        const e = POLYGON_EDGES[i];
+        const partner = POLYGON_EDGES[i + 2];
+        [0, 0.3, 0.5, 1].forEach(s => {
+          const p: SquarePoint = [e.start[0] + (e.end[0] - e.start[0]) * s, e.start[1] + (e.end[1] - e.start[1]) * s];
+          const q: SquarePoint = [
+            partner.start[0] + (partner.end[0] - partner.start[0]) * s,
+            partner.start[1] + (partner.end[1] - partner.start[1]) * s
+          ];
+          expect(classEquals(folded(p), folded(q))).toBe(true);
+        });
+      });
+    });
+  });
+
+  describe('squareToSphere and sphereToSquare', () => {
+    it('are inverse on classes', () => {
+      const v = Vec3.normalize([0.2, -0.7, 0.4]);
+      expect(classEquals(folded(sphereToSquare(v)), classOf(v))).toBe(true);
+    });
+
+    it('send the center to the pole of the canonical hemisphere', () => {
+      expect(Vec3.approxEq(squareToSphere([0, 0]), [1, 0, 0])).toBe(true);
+    });
+  });
+
+  describe('pointInSquareCone', () => {
+    it('matches pointInQuotientCone once folded up', () => {
+      const center = classOf([0.1, 0.8, -0.5]);
+      for (let i = -4; i <= 4; i++) {
+        for (let j = -4; j <= 4; j++) {
+          const p: SquarePoint = [i / 4, j / 4];
+          expect(pointInSquareCone(p, center, 0.6)).toBe(pointInQuotientCone(squareToSphere(p), center, 0.6));
+        }
+      }
+    });
+
+    it('shows a cone on the boundary at both glued edges', () => {
+      const center = classOf(squareToSphere([0, -1]));
+      expect(pointInSquareCone([0, -0.95], center, 0.2)).toBe(true);
+      expect(pointInSquareCone([0, 0.95], center, 0.2)).toBe(true);
+      expect(pointInSquareCone([0, 0], center, 0.2)).toBe(false);
+    });
+  });
+
+  describe('movePen', () => {
+    it('draws straight inside the square', () => {
+      const move = movePen(createSquarePen([0, 0]), [0.3, 0.2]);
+      expect(move.crossings).toHaveLength(0);
+      expect(move.strokes).toHaveLength(1);
+      expect(move.pen.position[0]).toBeCloseTo(0.3);
+      expect(move.pen.position[1]).toBeCloseTo(0.2);
+    });
+
+    it('comes back through the glued edge', () => {
+      const move = movePen(createSquarePen([0.3, -0.9]), [0.1, -0.2]);
+      expect(move.crossings).toEqual(['a']);
+
+      const [first, second] = move.strokes;
+      const exit = first[first.length - 1];
+      const entry = second[0];
+      expect(exit[1]).toBeCloseTo(-1);
+      expect(entry[0]).toBeCloseTo(-exit[0]);
+      expect(entry[1]).toBeCloseTo(1);
+    });
+
+    it('mirrors motion along the crossed edge', () => {
+      const { pen } = movePen(createSquarePen([0.9, 0]), [0.2, 0]);
+      expect(pen.mirror).toEqual([1, -1]);
+
+      const after = movePen(pen, [0, 0.1]).pen.position;
+      expect(after[1]).toBeCloseTo(pen.position[1] - 0.1);
+    });
+
+    it('traces a continuous path on ℝP² across the edge', () => {
+      const start: SquarePoint = [0.3, -0.9];
+      const move = movePen(createSquarePen(start), [0.1, -0.2]);
+      const exit = move.strokes[0][1];
+      const end = move.pen.position;
+
+      const legs = quotientDistance(folded(start), folded(exit)) + quotientDistance(folded(exit), folded(end));
+      expect(quotientDistance(folded(start), folded(end))).toBeGreaterThan(0.97 * legs);
+    });
+
+    it('needs two crossings to undo the mirroring', () => {
+      let pen = createSquarePen([0, 0.5]);
+      pen = movePen(pen, [0, 1]).pen;
+      pen = movePen(pen, [0, 2]).pen;
+      expect(pen.mirror).toEqual([1, 1]);
+    });
+  });
+});
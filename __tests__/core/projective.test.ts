@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3 } from '@/core/types';
+import { Mat3, IDENTITY_MAT3, matVecMul, rotationZ } from '@/core/transforms';
+import { classOf, classEquals, quotientDistance } from '@/core/quotient';
+import {
+  determinant,
+  normalizeProjective,
+  composeProjective,
+  invertProjective,
+  projectiveFromPoints,
+  mapClass,
+  mapLine,
+  roundCone,
+  mapCone,
+  pointInProjectiveCone,
+  projectiveConeBoundary,
+  interpolateProjective
+} from '@/core/projective';
+
+const SHEAR: Mat3 = [1, 0.8, 0, 0, 1, 0, 0, 0, 1];
+const PERSPECTIVE: Mat3 = [1, 0, 0, 0, 1, 0, 0.6, 0.3, 1];
+
+/**
+ * Whether two matrices are the same projective transformation
+ */
+function sameMap(a: Mat3, b: Mat3): boolean {
+  const [na, nb] = [normalizeProjective(a), normalizeProjective(b)];
+  return na.every((x, i) => Math.abs(x - nb[i]) < 1e-9);
+}
+
+describe('projective module', () => {
+  describe('normalizeProjective', () => {
+    it('picks the representative with determinant 1', () => {
+      const m = normalizeProjective([2, 0, 0, 0, 3, 0, 0, 0, -4]);
+      expect(determinant(m)).toBeCloseTo(1);
+      expect(sameMap(m, m.map(x => -5 * x) as Mat3)).toBe(true);
+    });
+
+    it('throws on a singular matrix', () => {
+      expect(() => normalizeProjective([1, 2, 3, 2, 4, 6, 0, 0, 1])).toThrow();
+    });
+  });
+
+  describe('composeProjective and invertProjective', () => {
+    it('composes a map with its inverse to the identity', () => {
+      [SHEAR, PERSPECTIVE, rotationZ(0.7)].forEach(m => {
+        expect(sameMap(composeProjective(m, invertProjective(m)), IDENTITY_MAT3)).toBe(true);
+      });
+    });
+
+    it('applies the second argument first', () => {
+      const u: Vec3 = [0.3, -0.2, 1];
+      const composed = matVecMul(composeProjective(SHEAR, PERSPECTIVE), u);
+      const stepwise = matVecMul(SHEAR, matVecMul(PERSPECTIVE, u));
+      expect(classEquals(classOf(composed), classOf(stepwise))).toBe(true);
+    });
+  });
+
+  describe('projectiveFromPoints', () => {
+    it('sends four points to four points', () => {
+      const from: Vec3[] = [[1, 0, 0], [0, 1, 0], [0, 0, 1], [1, 1, 1]];
+      const to: Vec3[] = [[1, 0.2, 0.1], [-0.3, 1, 0.2], [0.1, -0.4, 1], [0.5, 0.6, -1]];
+      const m = projectiveFromPoints(from, to);
+
+      from.forEach((p, i) => {
+        expect(classEquals(mapClass(m, classOf(p)), classOf(to[i]))).toBe(true);
+      });
+    });
+
+    it('recovers a known map from the images of a frame', () => {
+      const from: Vec3[] = [[1, 0, 1], [0, 1, 2], [-1, 1, 3], [2, -1, 1]];
+      const to = from.map(p => matVecMul(PERSPECTIVE, p));
+      expect(sameMap(projectiveFromPoints(from, to), PERSPECTIVE)).toBe(true);
+    });
+
+    it('throws when three points lie on a line', () => {
+      const from: Vec3[] = [[1, 0, 0], [0, 1, 0], [1, 1, 0], [0, 0, 1]];
+      const to: Vec3[] = [[1, 0, 0], [0, 1, 0], [0, 0, 1], [1, 1, 1]];
+      expect(() => projectiveFromPoints(from, to)).toThrow();
+      expect(() => projectiveFromPoints(to, from)).toThrow();
+    });
+  });
+
+  describe('mapLine', () => {
+    it('keeps incidence between points and lines', () => {
+      const line = classOf([0.2, -1, 0.5]);
+      // Two points on the line, orthogonal to its normal
+      const points: Vec3[] = [[1, 0.2, 0], [0, 0.5, 1]];
+      const image = mapLine(PERSPECTIVE, line);
+
+      points.forEach(p => {
+        expect(Vec3.dot(p, line.canonical)).toBeCloseTo(0);
+        expect(Vec3.dot(mapClass(PERSPECTIVE, classOf(p)).canonical, image.canonical)).toBeCloseTo(0);
+      });
+    });
+  });
+
+  describe('cones', () => {
+    it('reads the aperture back off a round cone', () => {
+      const cone = roundCone(classOf([0, 1, 0]), 0.4);
+      expect(cone.halfAngles[0]).toBeCloseTo(0.4);
+      expect(cone.halfAngles[1]).toBeCloseTo(0.4);
+      expect(classEquals(classOf(cone.center), classOf([0, 1, 0]))).toBe(true);
+    });
+
+    it('matches the round cone membership of pointInQuotientCone', () => {
+      const center = classOf([1, 1, 0]);
+      const cone = roundCone(center, 0.5);
+      const samples: Vec3[] = [[1, 0.9, 0.1], [1, 0, 0], [-1, -1, 0.3], [0, 0, 1]];
+      samples.forEach(p => {
+        expect(pointInProjectiveCone(p, cone)).toBe(quotientDistance(classOf(p), center) <= 0.5);
+      });
+    });
+
+    it('maps a round cone to an elliptical one containing the mapped points', () => {
+      const center = classOf([0.2, 0.3, 1]);
+      const cone = roundCone(center, 0.4);
+      const image = mapCone(SHEAR, cone);
+
+      expect(image.halfAngles[0]).toBeGreaterThan(image.halfAngles[1] + 0.05);
+      projectiveConeBoundary(cone, 24).forEach(p => {
+        const q = matVecMul(SHEAR, p);
+        expect(Vec3.dot(q, matVecMul(image.form, q)) / Vec3.dot(q, q)).toBeCloseTo(0);
+      });
+      expect(pointInProjectiveCone(matVecMul(SHEAR, center.canonical), image)).toBe(true);
+    });
+
+    it('samples the boundary on the conic', () => {
+      const cone = mapCone(PERSPECTIVE, roundCone(classOf([0, 0, 1]), 0.6));
+      projectiveConeBoundary(cone).forEach(p => {
+        expect(Vec3.dot(p, matVecMul(cone.form, p))).toBeCloseTo(0);
+      });
+    });
+  });
+
+  describe('interpolateProjective', () => {
+    it('runs from the identity to the map', () => {
+      expect(sameMap(interpolateProjective(SHEAR, 0), IDENTITY_MAT3)).toBe(true);
+      expect(sameMap(interpolateProjective(SHEAR, 1), SHEAR)).toBe(true);
+      expect(determinant(interpolateProjective(PERSPECTIVE, 0.5))).toBeCloseTo(1);
+    });
+
+    it('stays invertible on the way to a reflection and a half-turn', () => {
+      const reflection: Mat3 = [-1, 0, 0, 0, 1, 0, 0, 0, 1];
+      for (const m of [reflection, rotationZ(Math.PI), composeProjective(SHEAR, rotationZ(Math.PI))]) {
+        for (let i = 0; i <= 20; i++) {
+          expect(determinant(interpolateProjective(m, i / 20))).toBeCloseTo(1, 9);
+        }
+        expect(sameMap(interpolateProjective(m, 0), IDENTITY_MAT3)).toBe(true);
+        expect(sameMap(interpolateProjective(m, 1), m)).toBe(true);
+      }
+    });
+  });
+});
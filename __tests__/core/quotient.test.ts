@@ -10,6 +10,10 @@ import {
   quotientConeWeight,
   getBothRepresentatives,
   directionToClass,
+  lineClassOf,
+  lineQuotientDistance,
+  doubledAngle,
+  lineClassAtDoubledAngle,
 } from '@/core/quotient';
 
 describe('quotient module', () => {
@@ -372,6 +376,68 @@ describe('quotient module', () => {
     });
   });
 
+  describe('lineClassOf', () => {
+    it('chooses the representative at an angle in [0, π)', () => {
+      expect(lineClassOf([-1, 0, 0]).angle).toBeCloseTo(0);
+      expect(lineClassOf([0, -1, 0]).angle).toBeCloseTo(Math.PI / 2);
+      expect(lineClassOf([1, -1, 0]).angle).toBeCloseTo(3 * Math.PI / 4);
+    });
+
+    it('gives the same class for u and -u', () => {
+      const a = lineClassOf([0.3, -0.8, 0]);
+      const b = lineClassOf([-0.3, 0.8, 0]);
+
+      expect(a.angle).toBeCloseTo(b.angle);
+      expect(Vec3.approxEq(a.canonical, b.canonical)).toBe(true);
+      expect(Vec3.approxEq(a.representatives[1], Vec3.neg(a.canonical))).toBe(true);
+    });
+
+    it('projects to the plane and agrees with classOf there', () => {
+      const c = lineClassOf([2, 2, 5]);
+
+      expect(c.canonical[2]).toBe(0);
+      expect(classEquals(c, classOf([1, 1, 0]))).toBe(true);
+    });
+
+    it('falls back to the x-axis without a planar component', () => {
+      expect(lineClassOf([0, 0, 1]).angle).toBe(0);
+    });
+  });
+
+  describe('lineQuotientDistance', () => {
+    it('returns 0 for antipodal representatives', () => {
+      expect(lineQuotientDistance(lineClassOf([1, 2, 0]), lineClassOf([-1, -2, 0]))).toBeCloseTo(0);
+    });
+
+    it('measures across the identification θ ≡ θ + π', () => {
+      const a = lineClassOf([Math.cos(0.1), Math.sin(0.1), 0]);
+      const b = lineClassOf([Math.cos(Math.PI - 0.1), Math.sin(Math.PI - 0.1), 0]);
+
+      expect(lineQuotientDistance(a, b)).toBeCloseTo(0.2);
+    });
+
+    it('agrees with quotientDistance on planar directions', () => {
+      const u: Vec3 = [1, 3, 0];
+      const v: Vec3 = [-2, 1, 0];
+
+      expect(lineQuotientDistance(lineClassOf(u), lineClassOf(v))).toBeCloseTo(quotientDistance(classOf(u), classOf(v)));
+    });
+  });
+
+  describe('doubledAngle', () => {
+    it('doubles the angle onto the circle', () => {
+      expect(doubledAngle(lineClassOf([0, 1, 0]))).toBeCloseTo(Math.PI);
+      expect(doubledAngle(lineClassOf([-1, 1, 0]))).toBeCloseTo(3 * Math.PI / 2);
+    });
+
+    it('is inverted by lineClassAtDoubledAngle', () => {
+      [0, 1, 2.5, 4, 6].forEach(phi => {
+        expect(doubledAngle(lineClassAtDoubledAngle(phi))).toBeCloseTo(phi);
+      });
+      expect(lineClassAtDoubledAngle(2 * Math.PI + 1).angle).toBeCloseTo(0.5);
+    });
+  });
+
   describe('integration tests', () => {
     it('quotient space respects antipodal symmetry', () => {
       const v: Vec3 = [1, 2, 3];
@@ -0,0 +1,253 @@
+import { describe, it, expect } from 'vitest';
+import { Vec3 } from '@/core/types';
+import { PARITY_EVEN, PARITY_ODD } from '@/core/parity';
+import {
+  Quaternion,
+  IDENTITY_QUAT,
+  quaternionFromAxisAngle,
+  quaternionMultiply,
+  quaternionNegate,
+  quaternionDot,
+} from '@/core/transforms';
+import {
+  rotationClassOf,
+  rotationClassEquals,
+  rotationDistance,
+  liftRotationPath,
+  rotationLoopParity,
+  turnPath,
+  beltHomotopy,
+  rotationLog,
+  rotationExp,
+  quaternionSlerp,
+  alignQuaternionSigns,
+  chordalL2Mean,
+  geodesicL1Mean,
+  markleyMean,
+} from '@/core/rotations';
+
+/**
+ * Samples clustered around a center, with every other sample negated.
+ */
+function scatteredSamples(center: Quaternion): Quaternion[] {
+  const offsets: Vec3[] = [[0.1, 0, 0], [-0.1, 0, 0], [0, 0.1, 0], [0, -0.1, 0], [0, 0, 0.1], [0, 0, -0.1]];
+  return offsets.map((v, i) => {
+    const q = quaternionMultiply(center, rotationExp(v));
+    return i % 2 ? quaternionNegate(q) : q;
+  });
+}
+
+describe('rotations module', () => {
+  describe('rotationClassOf', () => {
+    it('gives the same class for q and -q', () => {
+      const q = quaternionFromAxisAngle([1, 2, 3], 2.5);
+      const a = rotationClassOf(q);
+      const b = rotationClassOf(quaternionNegate(q));
+
+      a.canonical.forEach((x, i) => expect(x).toBeCloseTo(b.canonical[i]));
+    });
+
+    it('picks the representative with non-negative w', () => {
+      const q = quaternionFromAxisAngle([0, 1, 0], 3 * Math.PI / 2);
+      expect(q[3]).toBeLessThan(0);
+      expect(rotationClassOf(q).canonical[3]).toBeGreaterThan(0);
+    });
+
+    it('lists both lifts', () => {
+      const cls = rotationClassOf(quaternionFromAxisAngle([1, 0, 0], 1));
+      const [q, negQ] = cls.representatives;
+      expect(quaternionDot(q, negQ)).toBeCloseTo(-1);
+    });
+  });
+
+  describe('rotationClassEquals and rotationDistance', () => {
+    it('identifies q with -q', () => {
+      const q = quaternionFromAxisAngle([1, 1, 0], 0.8);
+      expect(rotationClassEquals(q, quaternionNegate(q))).toBe(true);
+      expect(rotationDistance(q, quaternionNegate(q))).toBeCloseTo(0);
+    });
+
+    it('measures the relative rotation angle', () => {
+      const a = quaternionFromAxisAngle([0, 0, 1], 0.3);
+      const b = quaternionFromAxisAngle([0, 0, 1], 1.0);
+      expect(rotationDistance(a, b)).toBeCloseTo(0.7);
+    });
+
+    it('never exceeds π', () => {
+      const a = IDENTITY_QUAT;
+      const b = quaternionFromAxisAngle([0, 1, 0], 1.9 * Math.PI);
+      expect(rotationDistance(a, b)).toBeCloseTo(0.1 * Math.PI);
+    });
+  });
+
+  describe('liftRotationPath', () => {
+    it('removes sign jumps', () => {
+      const path = turnPath([0, 0, 1], Math.PI, 16).map((q, i) => (i % 2 ? quaternionNegate(q) : q));
+      const lift = liftRotationPath(path);
+
+      for (let i = 1; i < lift.length; i++) {
+        expect(quaternionDot(lift[i - 1], lift[i])).toBeGreaterThan(0);
+      }
+    });
+
+    it('ends on -q after a 2π turn', () => {
+      const start = quaternionFromAxisAngle([1, 0, 0], 0.5);
+      const lift = liftRotationPath(turnPath([0, 1, 0], 2 * Math.PI, 64, start));
+      expect(quaternionDot(lift[lift.length - 1], lift[0])).toBeCloseTo(-1);
+    });
+
+    it('ends on q after a 4π turn', () => {
+      const lift = liftRotationPath(turnPath(Vec3.normalize([1, 1, 1]), 4 * Math.PI, 128));
+      expect(quaternionDot(lift[lift.length - 1], lift[0])).toBeCloseTo(1);
+    });
+  });
+
+  describe('rotationLoopParity', () => {
+    it('is odd for a 2π loop and even for a 4π loop', () => {
+      expect(rotationLoopParity(turnPath([0, 0, 1], 2 * Math.PI))).toBe(PARITY_ODD);
+      expect(rotationLoopParity(turnPath([0, 0, 1], 4 * Math.PI, 128))).toBe(PARITY_EVEN);
+    });
+
+    it('is even for the constant loop', () => {
+      expect(rotationLoopParity([IDENTITY_QUAT, IDENTITY_QUAT])).toBe(PARITY_EVEN);
+    });
+
+    it('throws for a path that does not close', () => {
+      expect(() => rotationLoopParity(turnPath([0, 0, 1], Math.PI))).toThrow();
+    });
+  });
+
+  describe('beltHomotopy', () => {
+    const closes = (q: Quaternion) => rotationDistance(q, IDENTITY_QUAT);
+
+    it('starts at the 4π loop and ends at the constant loop', () => {
+      for (let k = 0; k <= 8; k++) {
+        const t = k / 8;
+        const expected = quaternionFromAxisAngle([0, 0, 1], 4 * Math.PI * t);
+        expect(rotationClassEquals(beltHomotopy(0, t), expected)).toBe(true);
+        expect(closes(beltHomotopy(1, t))).toBeCloseTo(0);
+      }
+    });
+
+    it('keeps both ends fixed for a 4π loop', () => {
+      for (let k = 0; k <= 10; k++) {
+        const s = k / 10;
+        expect(closes(beltHomotopy(s, 0))).toBeCloseTo(0);
+        expect(closes(beltHomotopy(s, 1))).toBeCloseTo(0);
+      }
+    });
+
+    it('lets the end drift for a 2π loop', () => {
+      expect(closes(beltHomotopy(0, 1, 1))).toBeCloseTo(0);
+      expect(closes(beltHomotopy(0.5, 1, 1))).toBeGreaterThan(1);
+    });
+
+    it('is an even loop at every stage for 4π', () => {
+      for (let k = 0; k <= 4; k++) {
+        const s = k / 4;
+        const loop = Array.from({ length: 129 }, (_, i) => beltHomotopy(s, i / 128));
+        expect(rotationLoopParity(loop)).toBe(PARITY_EVEN);
+      }
+    });
+  });
+
+  describe('rotationLog and rotationExp', () => {
+    it('are inverse to each other', () => {
+      const v: Vec3 = [0.3, -0.8, 1.1];
+      expect(Vec3.approxEq(rotationLog(rotationExp(v)), v)).toBe(true);
+    });
+
+    it('give the same rotation vector for q and -q', () => {
+      const q = quaternionFromAxisAngle([1, 2, 2], 2);
+      expect(Vec3.approxEq(rotationLog(q), rotationLog(quaternionNegate(q)))).toBe(true);
+    });
+  });
+
+  describe('quaternionSlerp', () => {
+    it('interpolates the rotation angle', () => {
+      const a = IDENTITY_QUAT;
+      const b = quaternionFromAxisAngle([0, 0, 1], 1.2);
+      expect(rotationDistance(quaternionSlerp(a, b, 0.25), a)).toBeCloseTo(0.3);
+    });
+
+    it('takes the short way when given opposite lifts', () => {
+      const a = quaternionFromAxisAngle([0, 1, 0], 0.2);
+      const b = quaternionNegate(quaternionFromAxisAngle([0, 1, 0], 0.6));
+      const mid = quaternionSlerp(a, b, 0.5);
+
+      expect(rotationClassEquals(mid, quaternionFromAxisAngle([0, 1, 0], 0.4))).toBe(true);
+      expect(quaternionDot(mid, a)).toBeGreaterThan(0);
+    });
+
+    it('returns the endpoints at t = 0 and t = 1', () => {
+      const a = quaternionFromAxisAngle([1, 0, 0], 0.5);
+      const b = quaternionFromAxisAngle([0, 1, 0], 2.0);
+      expect(rotationClassEquals(quaternionSlerp(a, b, 0), a)).toBe(true);
+      expect(rotationClassEquals(quaternionSlerp(a, b, 1), b)).toBe(true);
+    });
+  });
+
+  describe('alignQuaternionSigns', () => {
+    it('counts how many samples were flipped', () => {
+      const samples = scatteredSamples(IDENTITY_QUAT);
+      const result = alignQuaternionSigns(samples);
+
+      expect(result.flipped).toBe(3);
+      expect(result.flippedIndices).toEqual([1, 3, 5]);
+      result.aligned.forEach(q => expect(quaternionDot(q, samples[0])).toBeGreaterThan(0));
+    });
+
+    it('flips nothing for consistent samples', () => {
+      const samples = scatteredSamples(IDENTITY_QUAT).map(q => rotationClassOf(q).canonical);
+      expect(alignQuaternionSigns(samples).flipped).toBe(0);
+    });
+  });
+
+  describe('rotation means', () => {
+    const center = quaternionFromAxisAngle([1, 1, 0], 2.8);
+    const samples = scatteredSamples(center);
+
+    it('recover the center of symmetric samples despite mixed signs', () => {
+      [chordalL2Mean, geodesicL1Mean, markleyMean].forEach(mean => {
+        expect(rotationDistance(mean(samples), center)).toBeLessThan(1e-6);
+      });
+    });
+
+    it('beat the naive component-wise mean', () => {
+      const naive = samples.reduce(
+        (acc, q) => acc.map((x, k) => x + q[k]) as Quaternion,
+        [0, 0, 0, 0] as Quaternion
+      );
+      expect(Math.hypot(...naive)).toBeLessThan(1);
+    });
+
+    it('agree on a single sample', () => {
+      const q = quaternionFromAxisAngle([0, 0, 1], 1);
+      [chordalL2Mean, geodesicL1Mean, markleyMean].forEach(mean => {
+        expect(rotationClassEquals(mean([q]), q)).toBe(true);
+      });
+    });
+
+    it('respect weights', () => {
+      const a = IDENTITY_QUAT;
+      const b = quaternionFromAxisAngle([0, 0, 1], 1);
+      expect(rotationDistance(markleyMean([a, b], [1, 0]), a)).toBeCloseTo(0);
+      expect(rotationDistance(chordalL2Mean([a, b], [1, 1]), a)).toBeCloseTo(0.5);
+    });
+
+    it('L1 resists an outlier better than L2', () => {
+      const cluster = [0, 1, 2, 3].map(i => rotationExp([0.01 * i, 0, 0]));
+      const outlier = rotationExp([0, 2.5, 0]);
+      const data = [...cluster, outlier];
+      const truth = rotationExp([0.015, 0, 0]);
+
+      expect(rotationDistance(geodesicL1Mean(data), truth))
+        .toBeLessThan(rotationDistance(chordalL2Mean(data), truth));
+    });
+
+    it('throw for empty input', () => {
+      expect(() => markleyMean([])).toThrow();
+      expect(() => chordalL2Mean([])).toThrow();
+    });
+  });
+});
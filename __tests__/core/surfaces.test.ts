@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { POLYGON_WORD } from '@/core/polygon';
+import { parseEdgeWord, formatEdgeWord, classifySurface } from '@/core/surfaces';
+
+describe('surfaces module', () => {
+  describe('parseEdgeWord', () => {
+    it('reads letters and inverses', () => {
+      expect(parseEdgeWord('aba⁻¹b⁻¹')).toEqual([
+        { label: 'a', inverse: false },
+        { label: 'b', inverse: false },
+        { label: 'a', inverse: true },
+        { label: 'b', inverse: true },
+      ]);
+    });
+
+    it('accepts ASCII inverse markers and indices', () => {
+      expect(formatEdgeWord(parseEdgeWord("a1 b1 a1^-1 b1'"))).toBe('a₁b₁a₁⁻¹b₁⁻¹');
+    });
+
+    it('throws for empty words and unknown characters', () => {
+      expect(() => parseEdgeWord('  ')).toThrow();
+      expect(() => parseEdgeWord('ab*')).toThrow();
+    });
+  });
+
+  describe('classifySurface', () => {
+    it('recognizes ℝP² from the square word', () => {
+      const result = classifySurface(POLYGON_WORD);
+      expect(result.vertices).toBe(2);
+      expect(result.edges).toBe(2);
+      expect(result.faces).toBe(1);
+      expect(result.eulerCharacteristic).toBe(1);
+      expect(result.orientable).toBe(false);
+      expect(result.symbol).toBe('ℝP²');
+      expect(result.normalForm).toBe('aa');
+    });
+
+    it('recognizes the sphere and the torus', () => {
+      const sphere = classifySurface('aa⁻¹');
+      expect(sphere.eulerCharacteristic).toBe(2);
+      expect(sphere.orientable).toBe(true);
+      expect(sphere.name).toBe('Sphere');
+
+      const torus = classifySurface('aba⁻¹b⁻¹');
+      expect(torus.eulerCharacteristic).toBe(0);
+      expect(torus.orientable).toBe(true);
+      expect(torus.genus).toBe(1);
+      expect(torus.symbol).toBe('T²');
+    });
+
+    it('shows the Klein bottle is ℝP² # ℝP²', () => {
+      ['aabb', 'abab⁻¹'].forEach(word => {
+        const klein = classifySurface(word);
+        expect(klein.eulerCharacteristic).toBe(0);
+        expect(klein.orientable).toBe(false);
+        expect(klein.name).toBe('Klein bottle');
+        expect(klein.connectedSum).toBe('ℝP² # ℝP²');
+        expect(klein.normalForm).toBe('a₁a₁a₂a₂');
+      });
+    });
+
+    it('shows torus # ℝP² = 3ℝP²', () => {
+      const result = classifySurface('aba⁻¹b⁻¹cc');
+      expect(result.eulerCharacteristic).toBe(-1);
+      expect(result.orientable).toBe(false);
+      expect(result.symbol).toBe('3ℝP²');
+    });
+
+    it('finds the genus of a sphere with two handles', () => {
+      const result = classifySurface('aba⁻¹b⁻¹cdc⁻¹d⁻¹');
+      expect(result.genus).toBe(2);
+      expect(result.connectedSum).toBe('T² # T²');
+      expect(result.normalForm).toBe('a₁b₁a₁⁻¹b₁⁻¹a₂b₂a₂⁻¹b₂⁻¹');
+    });
+
+    it('glues several polygons together', () => {
+      // Two triangles glued along all three edges
+      const sphere = classifySurface(['abc', 'c⁻¹b⁻¹a⁻¹']);
+      expect(sphere.faces).toBe(2);
+      expect(sphere.eulerCharacteristic).toBe(2);
+      expect(sphere.orientable).toBe(true);
+
+      // Flipping one face still gives an orientable surface
+      expect(classifySurface(['abc', 'abc']).orientable).toBe(true);
+
+      // Two Möbius bands glued along their boundary
+      expect(classifySurface(['aac', 'bbc⁻¹']).name).toBe('Klein bottle');
+    });
+
+    it('throws unless every edge occurs exactly twice', () => {
+      expect(() => classifySurface('abc')).toThrow();
+      expect(() => classifySurface('aaa')).toThrow();
+    });
+
+    it('throws for disconnected surfaces', () => {
+      expect(() => classifySurface(['aa', 'bb'])).toThrow();
+    });
+  });
+});
@@ -14,6 +14,11 @@ import {
   quaternionFromAxisAngle,
   quaternionToMatrix,
   quaternionRotate,
+  quaternionMultiply,
+  quaternionConjugate,
+  quaternionNegate,
+  quaternionDot,
+  quaternionNormalize,
   createOrbitState,
   orbitToPosition,
   orbitForward,
@@ -336,6 +341,56 @@ describe('transforms module', () => {
       const result = quaternionRotate(q, v);
       expect(Vec3.norm(result)).toBeCloseTo(Vec3.norm(v));
     });
+
+    it('gives the same rotation for q and -q', () => {
+      const q = quaternionFromAxisAngle([1, 2, 3], 1.2);
+      const v: Vec3 = [0.5, -1, 2];
+      expect(Vec3.approxEq(quaternionRotate(quaternionNegate(q), v), quaternionRotate(q, v))).toBe(true);
+    });
+  });
+
+  describe('quaternionMultiply', () => {
+    it('composes rotations, applying the right factor first', () => {
+      const a = quaternionFromAxisAngle([0, 0, 1], Math.PI / 2);
+      const b = quaternionFromAxisAngle([1, 0, 0], Math.PI / 2);
+      const v: Vec3 = [0, 1, 0];
+
+      const composed = quaternionRotate(quaternionMultiply(a, b), v);
+      expect(Vec3.approxEq(composed, quaternionRotate(a, quaternionRotate(b, v)))).toBe(true);
+    });
+
+    it('adds angles about a common axis', () => {
+      const a = quaternionFromAxisAngle([0, 1, 0], 0.4);
+      const b = quaternionFromAxisAngle([0, 1, 0], 0.7);
+      const ab = quaternionMultiply(a, b);
+      const expected = quaternionFromAxisAngle([0, 1, 0], 1.1);
+      ab.forEach((x, i) => expect(x).toBeCloseTo(expected[i]));
+    });
+
+    it('reaches -1 after a full turn', () => {
+      const half = quaternionFromAxisAngle([0, 0, 1], Math.PI);
+      const full = quaternionMultiply(half, half);
+      expect(full[3]).toBeCloseTo(-1);
+    });
+  });
+
+  describe('quaternionConjugate', () => {
+    it('inverts a unit quaternion', () => {
+      const q = quaternionFromAxisAngle([1, -1, 2], 0.9);
+      const product = quaternionMultiply(q, quaternionConjugate(q));
+      product.forEach((x, i) => expect(x).toBeCloseTo(IDENTITY_QUAT[i]));
+    });
+  });
+
+  describe('quaternionDot and quaternionNormalize', () => {
+    it('normalizes to unit length', () => {
+      const q = quaternionNormalize([1, 2, 3, 4]);
+      expect(quaternionDot(q, q)).toBeCloseTo(1);
+    });
+
+    it('returns the identity for the zero quaternion', () => {
+      expect(quaternionNormalize([0, 0, 0, 0])).toEqual(IDENTITY_QUAT);
+    });
   });
 
   describe('createOrbitState', () => {
@@ -0,0 +1,220 @@
+/**
+ * Affine Charts Component
+ *
+ * Shows ℝP² through the three standard affine charts U_x, U_y and U_z, each
+ * a square window of its plane drawn on a 2D canvas. The selection cone is
+ * filled pixel by pixel, the axes of each chart are the lines at infinity of
+ * the other two, and a readout gives the homogeneous coordinates of the
+ * selected class and the transition maps out of the chart it sits best in.
+ *
+ * Pedagogical concept: no chart sees all of ℝP². A class on the line at
+ * infinity of one chart is an ordinary point of another, and a drive-mode
+ * trace running off to infinity in one window crosses an axis in the next.
+ */
+
+import React, { useRef, useEffect, useCallback } from 'react';
+import {
+  Vec3,
+  ChartId,
+  ChartPoint,
+  CHART_IDS,
+  classOf,
+  pointInQuotientCone,
+  chartCoordinates,
+  chartToClass,
+  transitionMap,
+  transitionFormula,
+  bestChart,
+  formatHomogeneous,
+  chartPolylines
+} from '../../core';
+import { hexToRgbVec } from '../ui/colorUtils';
+import { cartesianToSpherical } from '../ui/sphericalNavigation';
+
+/**
+ * Canvas size of each chart in pixels
+ */
+const CHART_SIZE = 132;
+
+/**
+ * Half-width of the window of each chart, in chart coordinates
+ */
+const CHART_EXTENT = 3;
+
+/**
+ * Color of each chart, also used for its line at infinity in the others
+ */
+const CHART_COLORS: Record<ChartId, string> = { x: "#e11d48", y: "#2563eb", z: "#16a34a" };
+
+/**
+ * Color of the window outside the selection
+ */
+const WINDOW_COLOR = "#f1f5f9";
+
+/**
+ * Coordinate names of each chart
+ */
+const CHART_AXES: Record<ChartId, string> = { x: "(y/x, z/x)", y: "(x/y, z/y)", z: "(x/z, y/z)" };
+
+interface AffineChartsViewProps {
+  /**
+   * The selected direction (either representative)
+   */
+  direction: Vec3;
+
+  /**
+   * Aperture of the selection cone in radians
+   */
+  angle: number;
+
+  /**
+   * Color of the selection
+   */
+  color: string;
+
+  /**
+   * Drive-mode traces, one path per drive
+   */
+  traces?: Vec3[][];
+
+  /**
+   * Called with the class clicked in any chart
+   */
+  onUpdate?: (dir: Vec3) => void;
+}
+
+const scale = CHART_SIZE / (2 * CHART_EXTENT);
+const toCanvas = ([a, b]: ChartPoint): [number, number] => [CHART_SIZE / 2 + a * scale, CHART_SIZE / 2 - b * scale];
+const fromCanvas = (px: number, py: number): ChartPoint => [(px - CHART_SIZE / 2) / scale, (CHART_SIZE / 2 - py) / scale];
+
+/**
+ * One chart window
+ */
+const ChartCanvas: React.FC<AffineChartsViewProps & { chart: ChartId }> = ({
+  chart,
+  direction,
+  angle,
+  color,
+  traces = [],
+  onUpdate
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const selected = classOf(direction);
+
+    // Selection region, tested pixel by pixel
+    const image = ctx.createImageData(CHART_SIZE, CHART_SIZE);
+    const lit = hexToRgbVec(color).map(c => Math.round(c * 255));
+    const unlit = hexToRgbVec(WINDOW_COLOR).map(c => Math.round(c * 255));
+    for (let py = 0; py < CHART_SIZE; py++) {
+      for (let px = 0; px < CHART_SIZE; px++) {
+        const u = chartToClass(chart, fromCanvas(px + 0.5, py + 0.5)).canonical;
+        const c = pointInQuotientCone(u, selected, angle) ? lit : unlit;
+        const k = 4 * (py * CHART_SIZE + px);
+        image.data[k] = c[0];
+        image.data[k + 1] = c[1];
+        image.data[k + 2] = c[2];
+        image.data[k + 3] = 255;
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+
+    // Axes: where a kept coordinate vanishes, the line at infinity of its chart
+    const [first, second] = CHART_IDS.filter(id => id !== chart);
+    const axes: [ChartId, ChartPoint, ChartPoint][] = [
+      [second, [-CHART_EXTENT, 0], [CHART_EXTENT, 0]],
+      [first, [0, -CHART_EXTENT], [0, CHART_EXTENT]]
+    ];
+    ctx.lineWidth = 1.5;
+    ctx.setLineDash([4, 3]);
+    axes.forEach(([id, start, end]) => {
+      ctx.strokeStyle = CHART_COLORS[id];
+      ctx.beginPath();
+      ctx.moveTo(...toCanvas(start));
+      ctx.lineTo(...toCanvas(end));
+      ctx.stroke();
+    });
+    ctx.setLineDash([]);
+
+    // Drive-mode traces
+    ctx.strokeStyle = "#475569";
+    traces.forEach(trace => chartPolylines(trace, chart, CHART_EXTENT).forEach(line => {
+      ctx.beginPath();
+      line.map(toCanvas).forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x, y) : ctx.lineTo(x, y)));
+      ctx.stroke();
+    }));
+
+    // The selected class, or a dot at the window's edge in its direction
+    const p = chartCoordinates(direction, chart);
+    ctx.fillStyle = "#2D3436";
+    ctx.font = "bold 9px monospace";
+    if (!p) {
+      ctx.fillText("at ∞", 6, CHART_SIZE - 8);
+    } else if (Math.max(Math.abs(p[0]), Math.abs(p[1])) <= CHART_EXTENT) {
+      const [x, y] = toCanvas(p);
+      ctx.beginPath();
+      ctx.arc(x, y, 4, 0, 2 * Math.PI);
+      ctx.fill();
+    } else {
+      const s = CHART_EXTENT / Math.max(Math.abs(p[0]), Math.abs(p[1]));
+      const [x, y] = toCanvas([p[0] * s * 0.92, p[1] * s * 0.92]);
+      ctx.beginPath();
+      ctx.arc(x, y, 3, 0, 2 * Math.PI);
+      ctx.fill();
+      ctx.fillText("→ ∞", 6, CHART_SIZE - 8);
+    }
+  }, [chart, direction, angle, color, traces]);
+
+  const handlePointer = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const px = ((e.clientX - rect.left) / rect.width) * CHART_SIZE;
+    const py = ((e.clientY - rect.top) / rect.height) * CHART_SIZE;
+    onUpdate?.(chartToClass(chart, fromCanvas(px, py)).canonical);
+  }, [chart, onUpdate]);
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <span className="text-[9px] font-black" style={{ color: CHART_COLORS[chart] }}>
+        U_{chart} · {CHART_AXES[chart]}
+      </span>
+      <canvas
+        ref={canvasRef}
+        width={CHART_SIZE}
+        height={CHART_SIZE}
+        onPointerDown={handlePointer}
+        className="cursor-crosshair rounded-lg border"
+        style={{ borderColor: CHART_COLORS[chart] }}
+      />
+    </div>
+  );
+};
+
+export const AffineChartsView: React.FC<AffineChartsViewProps> = (props) => {
+  const { direction } = props;
+  const home = bestChart(direction);
+  const p = chartCoordinates(direction, home)!;
+  const { theta, phi } = cartesianToSpherical(direction);
+  const format = (q: ChartPoint | null) => (q ? `(${q.map(c => c.toFixed(2)).join(', ')})` : '∞');
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex gap-2">
+        {CHART_IDS.map(chart => <ChartCanvas key={chart} chart={chart} {...props} />)}
+      </div>
+      <div className="text-[9px] font-mono text-slate-600 flex flex-col gap-0.5">
+        <span>
+          [x : y : z] = {formatHomogeneous(direction)} · (θ, φ) = ({((theta * 180) / Math.PI).toFixed(0)}°, {((phi * 180) / Math.PI).toFixed(0)}°)
+        </span>
+        <span>U_{home}: {format(p)}</span>
+        {CHART_IDS.filter(chart => chart !== home).map(chart => (
+          <span key={chart}>
+            U_{home} → U_{chart}: {transitionFormula(home, chart)} = {format(transitionMap(home, chart, p))}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
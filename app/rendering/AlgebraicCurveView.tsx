@@ -0,0 +1,108 @@
+/**
+ * Algebraic Curve Component
+ *
+ * Draws the zero set of a homogeneous polynomial on the sphere, one color
+ * per component of the curve in ℝP². A pseudo-line is a single loop through
+ * antipodes; an oval is drawn twice, once on each sheet. In the hemisphere
+ * model the lower half is drawn faintly, so an oval shows once and a
+ * pseudo-line as an arc whose ends meet the rim at antipodes.
+ *
+ * Pedagogical concept: a curve of odd degree cannot avoid a pseudo-line,
+ * and the components the selection cone meets are counted in ℝP², not on S².
+ */
+
+import React, { useMemo, useEffect } from 'react';
+import * as THREE from 'three';
+import { Vec3, CurveComponent } from '../../core';
+
+/**
+ * Up direction of the hemisphere model
+ */
+const HEMISPHERE_UP: Vec3 = [0, 1, 0];
+
+/**
+ * Color of pseudo-lines
+ */
+const PSEUDOLINE_COLOR = "#0f172a";
+
+/**
+ * Colors of ovals, in turn
+ */
+const OVAL_COLORS = ["#e11d48", "#2563eb", "#d97706", "#7c3aed", "#16a34a", "#db2777"];
+
+interface AlgebraicCurveViewProps {
+  /**
+   * Components of the curve
+   */
+  components: CurveComponent[];
+
+  /**
+   * Whether each component meets the selection cone
+   */
+  highlighted?: boolean[];
+
+  /**
+   * Color of the components meeting the selection cone
+   */
+  color: string;
+
+  /**
+   * Draw the lower hemisphere faintly, as in the hemisphere model
+   */
+  hemisphere?: boolean;
+
+  /**
+   * Radius of the sphere the curve is drawn on
+   */
+  radius?: number;
+}
+
+export const AlgebraicCurveView: React.FC<AlgebraicCurveViewProps> = ({
+  components,
+  highlighted = [],
+  color,
+  hemisphere = false,
+  radius = 1.005
+}) => {
+  // Segments of each component, split into the upper and lower halves
+  const geometries = useMemo(() => components.map(component => {
+    const upper: number[] = [];
+    const lower: number[] = [];
+    component.loops.forEach(loop => loop.forEach((a, i) => {
+      const b = loop[(i + 1) % loop.length];
+      const target = !hemisphere || Vec3.dot(Vec3.add(a, b), HEMISPHERE_UP) >= 0 ? upper : lower;
+      target.push(...Vec3.scale(a, radius), ...Vec3.scale(b, radius));
+    }));
+    const make = (positions: number[]) => {
+      const g = new THREE.BufferGeometry();
+      g.setAttribute('position', new THREE.BufferAttribute(new Float32Array(positions), 3));
+      return g;
+    };
+    return { upper: make(upper), lower: make(lower) };
+  }), [components, hemisphere, radius]);
+
+  useEffect(() => () => geometries.forEach(g => {
+    g.upper.dispose();
+    g.lower.dispose();
+  }), [geometries]);
+
+  let ovals = 0;
+  return (
+    <group>
+      {geometries.map((g, i) => {
+        const base = components[i].kind === 'pseudoline' ? PSEUDOLINE_COLOR : OVAL_COLORS[ovals++ % OVAL_COLORS.length];
+        const stroke = highlighted[i] ? color : base;
+        return (
+          <group key={i}>
+            <lineSegments geometry={g.upper}>
+              <lineBasicMaterial color={stroke} />
+            </lineSegments>
+            <lineSegments geometry={g.lower}>
+              <lineBasicMaterial color={stroke} transparent opacity={0.2} />
+            </lineSegments>
+          </group>
+        );
+      })}
+    </group>
+  );
+};
@@ -0,0 +1,125 @@
+/**
+ * Axial Samples Component
+ *
+ * Plots a dataset of axes, each a quotient class {u, −u}. On the source
+ * sphere both lifts are drawn, one in each color of the antipodal pair; in
+ * the hemisphere model the lift on the upper half is drawn solid and the
+ * other faintly, so each sample shows once.
+ *
+ * Pedagogical concept: data on axes has no preferred sign, and averaging
+ * the raw vectors of opposite lifts cancels them out. Plotted in ℝP², a
+ * cluster of axes near the rim is one cluster, not two.
+ *
+ * Samples are drawn as instanced spheres so large datasets stay cheap.
+ */
+
+import React, { useMemo, useEffect } from 'react';
+import * as THREE from 'three';
+import { Vec3, QuotientClass } from '../../core';
+
+/**
+ * Up direction of the hemisphere model
+ */
+const HEMISPHERE_UP: Vec3 = [0, 1, 0];
+
+/**
+ * Radius of each sample dot
+ */
+const DOT_RADIUS = 0.022;
+
+/**
+ * Color of samples outside the selection cone
+ */
+const IDLE_COLOR = "#334155";
+
+interface AxialSamplesViewProps {
+  /**
+   * The axes to plot
+   */
+  classes: QuotientClass[];
+
+  /**
+   * Color of the canonical lifts, and of the upper lifts in the hemisphere model
+   */
+  color: string;
+
+  /**
+   * Color of the antipodal lifts on the source sphere
+   */
+  negColor: string;
+
+  /**
+   * Whether each sample lies in the selection cone; others are drawn dark
+   */
+  highlighted?: boolean[];
+
+  /**
+   * Draw the lower lifts faintly, as in the hemisphere model
+   */
+  hemisphere?: boolean;
+
+  /**
+   * Radius of the sphere the samples are drawn on
+   */
+  radius?: number;
+}
+
+export const AxialSamplesView: React.FC<AxialSamplesViewProps> = ({
+  classes,
+  color,
+  negColor,
+  highlighted = [],
+  hemisphere = false,
+  radius = 1.01
+}) => {
+  // Lifts split into the two drawn layers: canonical and antipodal, or upper and lower
+  const layers = useMemo(() => {
+    const first: { position: Vec3; lit: boolean }[] = [];
+    const second: { position: Vec3; lit: boolean }[] = [];
+    classes.forEach((c, i) => {
+      const [u, negU] = c.representatives;
+      const lit = highlighted[i] ?? true;
+      const upperFirst = !hemisphere || Vec3.dot(u, HEMISPHERE_UP) >= 0;
+      first.push({ position: Vec3.scale(upperFirst ? u : negU, radius), lit });
+      second.push({ position: Vec3.scale(upperFirst ? negU : u, radius), lit });
+    });
+    return [first, second];
+  }, [classes, highlighted, hemisphere, radius]);
+
+  const geometry = useMemo(() => new THREE.SphereGeometry(DOT_RADIUS, 10, 10), []);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // Writes each layer's positions and colors into its instanced mesh
+  const painters = useMemo(() => {
+    const colors = [color, hemisphere ? color : negColor];
+    return layers.map((dots, k) => (mesh: THREE.InstancedMesh | null) => {
+      if (!mesh) return;
+      const matrix = new THREE.Matrix4();
+      const tint = new THREE.Color();
+      const scale = hemisphere && k === 1 ? 0.6 : 1;
+      dots.forEach((dot, i) => {
+        matrix.makeScale(scale, scale, scale).setPosition(...dot.position);
+        mesh.setMatrixAt(i, matrix);
+        mesh.setColorAt(i, tint.set(dot.lit ? colors[k] : IDLE_COLOR));
+      });
+      mesh.instanceMatrix.needsUpdate = true;
+      if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+    });
+  }, [layers, color, negColor, hemisphere]);
+
+  return (
+    <group>
+      {layers.map((dots, k) => (
+        <instancedMesh
+          key={`${k}-${dots.length}`}
+          args={[geometry, undefined, Math.max(dots.length, 1)]}
+          count={dots.length}
+          renderOrder={45}
+          ref={painters[k]}
+        >
+          <meshBasicMaterial transparent opacity={hemisphere && k === 1 ? 0.35 : 1} />
+        </instancedMesh>
+      ))}
+    </group>
+  );
+};
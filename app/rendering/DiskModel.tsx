@@ -0,0 +1,186 @@
+/**
+ * Disk Model Component
+ *
+ * Draws ℝP² as the closed unit disk on a 2D canvas: the canonical hemisphere
+ * from `classOf`, flattened by an orthographic or equal-area projection.
+ * Opposite boundary points are the same class and are marked with matching
+ * colors.
+ *
+ * Pedagogical concept: the selection cone is filled pixel by pixel from
+ * `pointInQuotientCone`, so it shows its true shape on the disk. A cone that
+ * reaches the rim leaves through one side and comes back in through the
+ * other, and so do drive-mode traces.
+ */
+
+import React, { useRef, useEffect, useCallback } from 'react';
+import {
+  Vec3,
+  DiskProjection,
+  DiskPoint,
+  classOf,
+  pointInQuotientCone,
+  diskPoint,
+  diskToSphere,
+  diskPolylines,
+  diskConeBoundary
+} from '../../core';
+import { hexToRgbVec } from '../ui/colorUtils';
+
+/**
+ * Canvas size in pixels
+ */
+const DISK_SIZE = 220;
+
+/**
+ * Margin between the disk and the canvas edge
+ */
+const DISK_MARGIN = 12;
+
+/**
+ * Colors of the identified boundary pairs
+ */
+const RIM_PAIR_COLORS = ["#e11d48", "#2563eb", "#16a34a", "#d97706", "#7c3aed", "#0891b2"];
+
+/**
+ * Color of the disk outside the selection
+ */
+const DISK_COLOR = "#f1f5f9";
+
+interface DiskModelProps {
+  /**
+   * Orthographic or equal-area projection
+   */
+  projection: DiskProjection;
+
+  /**
+   * The selected direction (either representative)
+   */
+  direction: Vec3;
+
+  /**
+   * Aperture of the selection cone in radians
+   */
+  angle: number;
+
+  /**
+   * Color of the selection
+   */
+  color: string;
+
+  /**
+   * Drive-mode traces, one path per drive
+   */
+  traces?: Vec3[][];
+
+  /**
+   * Called with the canonical representative of the clicked class
+   */
+  onUpdate?: (dir: Vec3) => void;
+}
+
+export const DiskModel: React.FC<DiskModelProps> = ({
+  projection,
+  direction,
+  angle,
+  color,
+  traces = [],
+  onUpdate
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  const radius = DISK_SIZE / 2 - DISK_MARGIN;
+  const toCanvas = useCallback(
+    ([a, b]: DiskPoint): [number, number] => [DISK_SIZE / 2 + a * radius, DISK_SIZE / 2 - b * radius],
+    [radius]
+  );
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const selected = classOf(direction);
+
+    // Selection region, tested pixel by pixel
+    const image = ctx.createImageData(DISK_SIZE, DISK_SIZE);
+    const lit = hexToRgbVec(color).map(c => Math.round(c * 255));
+    const unlit = hexToRgbVec(DISK_COLOR).map(c => Math.round(c * 255));
+    for (let py = 0; py < DISK_SIZE; py++) {
+      for (let px = 0; px < DISK_SIZE; px++) {
+        const p: DiskPoint = [(px + 0.5 - DISK_SIZE / 2) / radius, (DISK_SIZE / 2 - py - 0.5) / radius];
+        if (Math.hypot(p[0], p[1]) > 1) continue;
+        const c = pointInQuotientCone(diskToSphere(p, projection), selected, angle) ? lit : unlit;
+        const k = 4 * (py * DISK_SIZE + px);
+        image.data[k] = c[0];
+        image.data[k + 1] = c[1];
+        image.data[k + 2] = c[2];
+        image.data[k + 3] = 255;
+      }
+    }
+    ctx.putImageData(image, 0, 0);
+
+    const stroke = (polylines: DiskPoint[][], style: string, width: number) => {
+      ctx.strokeStyle = style;
+      ctx.lineWidth = width;
+      polylines.forEach(line => {
+        ctx.beginPath();
+        line.forEach((p, i) => {
+          const [x, y] = toCanvas(p);
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+      });
+    };
+
+    // Boundary circle, with identified pairs marked in matching colors
+    ctx.beginPath();
+    ctx.arc(DISK_SIZE / 2, DISK_SIZE / 2, radius, 0, 2 * Math.PI);
+    ctx.strokeStyle = "#94a3b8";
+    ctx.lineWidth = 1.5;
+    ctx.stroke();
+
+    RIM_PAIR_COLORS.forEach((pairColor, k) => {
+      const theta = (Math.PI * (k + 0.5)) / RIM_PAIR_COLORS.length;
+      [theta, theta + Math.PI].forEach(t => {
+        const [x, y] = toCanvas([Math.cos(t), Math.sin(t)]);
+        ctx.beginPath();
+        ctx.arc(x, y, 3.5, 0, 2 * Math.PI);
+        ctx.fillStyle = pairColor;
+        ctx.fill();
+      });
+    });
+
+    // Cone outline and drive-mode traces
+    stroke(diskConeBoundary(selected, angle, projection), "#2D3436", 1);
+    traces.forEach(trace => stroke(diskPolylines(trace, projection), "#475569", 1.5));
+
+    // The selected class; on the rim it shows at both identified points
+    const marker = diskPoint(direction, projection);
+    const markers = Math.hypot(marker[0], marker[1]) > 1 - 1e-6 ? [marker, [-marker[0], -marker[1]] as DiskPoint] : [marker];
+    markers.forEach(p => {
+      const [x, y] = toCanvas(p);
+      ctx.beginPath();
+      ctx.arc(x, y, 4, 0, 2 * Math.PI);
+      ctx.fillStyle = "#2D3436";
+      ctx.fill();
+    });
+  }, [projection, direction, angle, color, traces, radius, toCanvas]);
+
+  const handlePointer = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const px = ((e.clientX - rect.left) / rect.width) * DISK_SIZE;
+    const py = ((e.clientY - rect.top) / rect.height) * DISK_SIZE;
+    const p: DiskPoint = [(px - DISK_SIZE / 2) / radius, (DISK_SIZE / 2 - py) / radius];
+    if (Math.hypot(p[0], p[1]) > 1) return;
+    onUpdate?.(diskToSphere(p, projection));
+  }, [projection, radius, onUpdate]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={DISK_SIZE}
+      height={DISK_SIZE}
+      onPointerDown={handlePointer}
+      className="cursor-crosshair"
+    />
+  );
+};
@@ -0,0 +1,54 @@
+/**
+ * Face Cycle Component
+ *
+ * Highlights a loop of triangles of a mesh, such as the
+ * orientation-reversing cycle found by `orientMesh`. The faces are drawn
+ * slightly in front of the surface so they show on both of its sides.
+ *
+ * Pedagogical concept: an orientation carried once around this loop comes
+ * back reversed, which is what makes the surface non-orientable.
+ */
+
+import React, { useMemo, useEffect } from 'react';
+import * as THREE from 'three';
+import { Mesh } from '../../core';
+
+interface FaceCycleProps {
+  /**
+   * The mesh the faces belong to
+   */
+  mesh: Mesh;
+
+  /**
+   * Indices of the triangles to highlight
+   */
+  faces: number[];
+
+  /**
+   * Highlight color
+   */
+  color: string;
+}
+
+export const FaceCycle: React.FC<FaceCycleProps> = ({ mesh, faces, color }) => {
+  const geometry = useMemo(() => {
+    const positions = faces.flatMap(t => [0, 1, 2].flatMap(k => mesh.vertices[mesh.indices[3 * t + k]]));
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.BufferAttribute(new Float32Array(positions), 3));
+    return g;
+  }, [mesh, faces]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <mesh geometry={geometry} renderOrder={5}>
+      <meshBasicMaterial
+        color={color}
+        side={THREE.DoubleSide}
+        polygonOffset
+        polygonOffsetFactor={-2}
+        polygonOffsetUnits={-2}
+      />
+    </mesh>
+  );
+};
@@ -0,0 +1,210 @@
+/**
+ * Fundamental Domain Visualization Component
+ *
+ * Draws a Dirichlet fundamental domain of S²/G as a spherical polygon, with
+ * each pair of glued edges sharing a color. Mirror edges (fixed by a
+ * reflection) are drawn in gray, since they are boundary rather than seam.
+ *
+ * Pedagogical concept: the quotient S²/G is the domain with its paired edges
+ * glued. For the antipodal group the domain is a hemisphere and the two
+ * halves of its rim are glued by u ↦ -u, which is ℝP².
+ *
+ * The selection cone is painted onto the domain through its orbit: every
+ * point of the domain within the aperture of some g·u is highlighted, so a
+ * cone crossing a seam reappears at the partner edge.
+ */
+
+import React, { useMemo, useCallback, useEffect } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Vec3, QuotientGroup, FundamentalDomain, orbitOf, domainRepresentative } from '../../core';
+
+/**
+ * Colors assigned to successive edge pairs
+ */
+const PAIR_COLORS = ["#e11d48", "#2563eb", "#16a34a", "#d97706", "#7c3aed", "#0891b2"];
+
+/**
+ * Color of mirror edges
+ */
+const MIRROR_COLOR = "#94a3b8";
+
+/**
+ * Color of domain points outside the selection
+ */
+const DOMAIN_COLOR = "#e2e8f0";
+
+/**
+ * Number of radial rings used to triangulate the domain
+ */
+const DOMAIN_RINGS = 16;
+
+interface FundamentalDomainViewProps {
+  /**
+   * The group whose quotient is shown
+   */
+  group: QuotientGroup;
+
+  /**
+   * A fundamental domain for the group
+   */
+  domain: FundamentalDomain;
+
+  /**
+   * The selected direction (any orbit point)
+   */
+  direction: Vec3;
+
+  /**
+   * Aperture of the selection cone in radians
+   */
+  angle: number;
+
+  /**
+   * Color of the selection
+   */
+  color: string;
+
+  /**
+   * Called with the clicked point on S²
+   */
+  onUpdate?: (dir: Vec3) => void;
+}
+
+/**
+ * Orders the boundary samples of a domain by azimuth about its center.
+ * A Dirichlet domain is convex and contains its center, so this traces the rim once.
+ */
+function boundaryLoop(domain: FundamentalDomain): Vec3[] {
+  const p = domain.center;
+  const helper: Vec3 = Math.abs(p[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+  const e1 = Vec3.normalize(Vec3.cross(p, helper));
+  const e2 = Vec3.cross(p, e1);
+  const azimuth = (v: Vec3) => Math.atan2(Vec3.dot(v, e2), Vec3.dot(v, e1));
+
+  return domain.edges
+    .flatMap(e => e.points)
+    .sort((a, b) => azimuth(a) - azimuth(b));
+}
+
+export const FundamentalDomainView: React.FC<FundamentalDomainViewProps> = ({
+  group,
+  domain,
+  direction,
+  angle,
+  color,
+  onUpdate
+}) => {
+  // Triangulate the domain as a fan of radial strips about its center
+  const surface = useMemo(() => {
+    const rim = boundaryLoop(domain);
+    const positions: Vec3[] = [domain.center];
+    const indices: number[] = [];
+
+    rim.forEach(b => {
+      for (let r = 1; r <= DOMAIN_RINGS; r++) {
+        const t = r / DOMAIN_RINGS;
+        positions.push(Vec3.normalize(Vec3.add(Vec3.scale(domain.center, 1 - t), Vec3.scale(b, t))));
+      }
+    });
+
+    const at = (i: number, r: number) => (r === 0 ? 0 : 1 + (i % rim.length) * DOMAIN_RINGS + (r - 1));
+    for (let i = 0; i < rim.length; i++) {
+      for (let r = 0; r < DOMAIN_RINGS; r++) {
+        if (r === 0) {
+          indices.push(0, at(i, 1), at(i + 1, 1));
+        } else {
+          indices.push(at(i, r), at(i, r + 1), at(i + 1, r + 1));
+          indices.push(at(i, r), at(i + 1, r + 1), at(i + 1, r));
+        }
+      }
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(positions.flat()), 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(positions.length * 3), 3));
+    geometry.setIndex(indices);
+    geometry.computeVertexNormals();
+    return { geometry, positions };
+  }, [domain]);
+
+  // Paint the selection cone through the orbit of the selected direction
+  const orbit = useMemo(() => orbitOf(group, direction), [group, direction]);
+  useEffect(() => {
+    const attribute = surface.geometry.getAttribute('color') as THREE.BufferAttribute;
+    const lit = new THREE.Color(color);
+    const unlit = new THREE.Color(DOMAIN_COLOR);
+    const cosAperture = Math.cos(angle);
+
+    surface.positions.forEach((v, i) => {
+      const inside = orbit.some(g => Vec3.dot(v, g) >= cosAperture);
+      const c = inside ? lit : unlit;
+      attribute.setXYZ(i, c.r, c.g, c.b);
+    });
+    attribute.needsUpdate = true;
+  }, [surface, orbit, angle, color]);
+
+  // Edge polylines, colored by pair
+  const edgeLines = useMemo(() => {
+    const pairColor = new Map<number, string>();
+    return domain.edges.map((edge, i) => {
+      let c = MIRROR_COLOR;
+      if (!edge.mirror) {
+        const key = Math.min(i, edge.partner);
+        if (!pairColor.has(key)) pairColor.set(key, PAIR_COLORS[pairColor.size % PAIR_COLORS.length]);
+        c = pairColor.get(key)!;
+      }
+      return {
+        color: c,
+        array: new Float32Array(edge.points.flatMap(p => Vec3.scale(p, 1.006)))
+      };
+    });
+  }, [domain]);
+
+  const representative = useMemo(
+    () => Vec3.scale(domainRepresentative(group, domain, direction), 1.01),
+    [group, domain, direction]
+  );
+
+  const handlePointer = useCallback((e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    const n = e.point.clone().normalize();
+    onUpdate?.([n.x, n.y, n.z]);
+  }, [onUpdate]);
+
+  return (
+    <group>
+      {/* Domain surface, with the selection painted through the orbit */}
+      <mesh geometry={surface.geometry} onPointerDown={handlePointer}>
+        <meshStandardMaterial vertexColors side={THREE.DoubleSide} roughness={0.6} />
+      </mesh>
+
+      {/* The rest of S², for context */}
+      <mesh>
+        <sphereGeometry args={[0.995, 48, 36]} />
+        <meshBasicMaterial color="#94a3b8" wireframe transparent opacity={0.06} depthWrite={false} />
+      </mesh>
+
+      {/* Paired edges */}
+      {edgeLines.map((line, i) => (
+        <line key={i}>
+          <bufferGeometry>
+            <bufferAttribute
+              attach="attributes-position"
+              count={line.array.length / 3}
+              array={line.array}
+              itemSize={3}
+            />
+          </bufferGeometry>
+          <lineBasicMaterial color={line.color} linewidth={2} />
+        </line>
+      ))}
+
+      {/* Representative of the selected orbit inside the domain */}
+      <mesh position={representative}>
+        <sphereGeometry args={[0.035, 16, 16]} />
+        <meshBasicMaterial color="#2D3436" />
+      </mesh>
+    </group>
+  );
+};
@@ -0,0 +1,159 @@
+/**
+ * Gluing Animation Component
+ *
+ * Deforms the upper hemisphere into the cross-cap at a given progress. The
+ * chords joining each rim point u to its antipode -u shrink to points as the
+ * two halves of the rim are glued together.
+ *
+ * Pedagogical concept: ℝP² is a disk with antipodal boundary points
+ * identified. The selection cone stays painted on the surface throughout,
+ * and a class on the rim shows both of its points until they meet.
+ */
+
+import React, { useMemo, useCallback, useEffect } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import {
+  Vec3,
+  makeGluingMesh,
+  makeHemisphereMesh,
+  gluingClassImages,
+  gluingChords,
+  classOf,
+  pointInQuotientCone
+} from '../../core';
+
+/**
+ * Number of rings sampled over the hemisphere
+ */
+const GLUING_DETAIL = 32;
+
+/**
+ * Number of antipodal rim pairs joined by chords
+ */
+const CHORD_COUNT = 24;
+
+/**
+ * Color of surface points outside the selection
+ */
+const SURFACE_COLOR = "#e2e8f0";
+
+/**
+ * Color of the gluing chords
+ */
+const CHORD_COLOR = "#e11d48";
+
+interface GluingAnimationProps {
+  /**
+   * Gluing progress in [0, 1]
+   */
+  progress: number;
+
+  /**
+   * The selected direction (either representative)
+   */
+  direction: Vec3;
+
+  /**
+   * Aperture of the selection cone in radians
+   */
+  angle: number;
+
+  /**
+   * Color of the selection
+   */
+  color: string;
+
+  /**
+   * Called with the direction of the clicked point
+   */
+  onUpdate?: (dir: Vec3) => void;
+}
+
+export const GluingAnimation: React.FC<GluingAnimationProps> = ({
+  progress,
+  direction,
+  angle,
+  color,
+  onUpdate
+}) => {
+  const sources = useMemo(() => makeHemisphereMesh(GLUING_DETAIL).vertices, []);
+
+  // Topology is fixed; only positions move with progress
+  const geometry = useMemo(() => {
+    const mesh = makeGluingMesh(0, GLUING_DETAIL);
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.BufferAttribute(new Float32Array(mesh.vertices.length * 3), 3));
+    g.setAttribute('color', new THREE.BufferAttribute(new Float32Array(mesh.vertices.length * 3), 3));
+    g.setIndex(mesh.indices);
+    return g;
+  }, []);
+
+  const chords = useMemo(() => new THREE.BufferGeometry(), []);
+
+  useEffect(() => () => {
+    geometry.dispose();
+    chords.dispose();
+  }, [geometry, chords]);
+
+  useEffect(() => {
+    const position = geometry.getAttribute('position') as THREE.BufferAttribute;
+    makeGluingMesh(progress, GLUING_DETAIL).vertices.forEach((v, i) => position.setXYZ(i, v[0], v[1], v[2]));
+    position.needsUpdate = true;
+    geometry.computeVertexNormals();
+    geometry.computeBoundingSphere();
+
+    chords.setAttribute('position', new THREE.BufferAttribute(new Float32Array(gluingChords(progress, CHORD_COUNT).flat(2)), 3));
+  }, [geometry, chords, progress]);
+
+  // Paint the selection cone around [u] through the source directions
+  const selected = useMemo(() => classOf(direction), [direction]);
+  useEffect(() => {
+    const attribute = geometry.getAttribute('color') as THREE.BufferAttribute;
+    const lit = new THREE.Color(color);
+    const unlit = new THREE.Color(SURFACE_COLOR);
+
+    sources.forEach((u, i) => {
+      const c = pointInQuotientCone(u, selected, angle) ? lit : unlit;
+      attribute.setXYZ(i, c.r, c.g, c.b);
+    });
+    attribute.needsUpdate = true;
+  }, [geometry, sources, selected, angle, color]);
+
+  const markers = useMemo(() => gluingClassImages(selected, progress), [selected, progress]);
+
+  // Pick the source direction of the nearest vertex on the clicked face
+  const handlePointer = useCallback((e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    if (!e.face) return;
+    const local = e.object.worldToLocal(e.point.clone());
+    const position = geometry.getAttribute('position');
+    const nearest = [e.face.a, e.face.b, e.face.c].reduce((best, i) => {
+      const d = local.distanceToSquared(new THREE.Vector3().fromBufferAttribute(position, i));
+      return d < best.d ? { i, d } : best;
+    }, { i: e.face.a, d: Infinity });
+    onUpdate?.(sources[nearest.i]);
+  }, [geometry, sources, onUpdate]);
+
+  return (
+    <group>
+      {/* Deforming hemisphere, with the selection cone painted on */}
+      <mesh geometry={geometry} onPointerDown={handlePointer}>
+        <meshStandardMaterial vertexColors side={THREE.DoubleSide} roughness={0.6} transparent opacity={0.85} />
+      </mesh>
+
+      {/* Chords from each rim point to its antipode */}
+      <lineSegments geometry={chords}>
+        <lineBasicMaterial color={CHORD_COLOR} transparent opacity={0.6} />
+      </lineSegments>
+
+      {/* Image points of the selected class */}
+      {markers.map((p, i) => (
+        <mesh key={i} position={p}>
+          <sphereGeometry args={[0.035, 16, 16]} />
+          <meshBasicMaterial color="#2D3436" />
+        </mesh>
+      ))}
+    </group>
+  );
+};
@@ -0,0 +1,155 @@
+/**
+ * Immersion Visualization Component
+ *
+ * Draws ℝP² as a surface in ℝ³ (Boy surface, cross-cap or Roman surface)
+ * rather than as the double cover S². Every class [u] has exactly one image
+ * point, so the selected class is marked once, and the selection cone around
+ * u and -u paints a single patch.
+ *
+ * Pedagogical concept: ℝP² does not embed in ℝ³. The curves where the
+ * surface passes through itself are drawn in dark lines; they are artifacts
+ * of the model, not seams of ℝP².
+ */
+
+import React, { useMemo, useCallback, useEffect } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import {
+  Vec3,
+  ImmersionId,
+  IMMERSION_POLE,
+  immersionPoint,
+  makeImmersionMesh,
+  makeHemisphereMesh,
+  selfIntersections,
+  classOf,
+  pointInQuotientCone
+} from '../../core';
+
+/**
+ * Number of rings sampled over the hemisphere
+ */
+const IMMERSION_DETAIL = 32;
+
+/**
+ * Radius the model is scaled to fit
+ */
+const MODEL_RADIUS = 1.1;
+
+/**
+ * Color of surface points outside the selection
+ */
+const SURFACE_COLOR = "#e2e8f0";
+
+/**
+ * Color of the self-intersection curves
+ */
+const INTERSECTION_COLOR = "#334155";
+
+interface ImmersionModelProps {
+  /**
+   * Which model of ℝP² to draw
+   */
+  immersion: ImmersionId;
+
+  /**
+   * The selected direction (either representative)
+   */
+  direction: Vec3;
+
+  /**
+   * Aperture of the selection cone in radians
+   */
+  angle: number;
+
+  /**
+   * Color of the selection
+   */
+  color: string;
+
+  /**
+   * Called with the direction of the clicked point
+   */
+  onUpdate?: (dir: Vec3) => void;
+}
+
+export const ImmersionModel: React.FC<ImmersionModelProps> = ({
+  immersion,
+  direction,
+  angle,
+  color,
+  onUpdate
+}) => {
+  const sources = useMemo(() => makeHemisphereMesh(IMMERSION_DETAIL, IMMERSION_POLE).vertices, []);
+
+  const surface = useMemo(() => {
+    const mesh = makeImmersionMesh(immersion, IMMERSION_DETAIL);
+    const radius = Math.max(...mesh.vertices.map(Vec3.norm));
+    const scale = MODEL_RADIUS / radius;
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(mesh.vertices.flat()), 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(mesh.vertices.length * 3), 3));
+    geometry.setIndex(mesh.indices);
+    geometry.computeVertexNormals();
+
+    const lines = new THREE.BufferGeometry();
+    lines.setAttribute('position', new THREE.BufferAttribute(new Float32Array(selfIntersections(mesh).flat(2)), 3));
+
+    return { geometry, lines, scale };
+  }, [immersion]);
+
+  useEffect(() => () => {
+    surface.geometry.dispose();
+    surface.lines.dispose();
+  }, [surface]);
+
+  // Paint the selection cone around [u] through the source directions
+  useEffect(() => {
+    const attribute = surface.geometry.getAttribute('color') as THREE.BufferAttribute;
+    const lit = new THREE.Color(color);
+    const unlit = new THREE.Color(SURFACE_COLOR);
+    const selected = classOf(direction);
+
+    sources.forEach((u, i) => {
+      const c = pointInQuotientCone(u, selected, angle) ? lit : unlit;
+      attribute.setXYZ(i, c.r, c.g, c.b);
+    });
+    attribute.needsUpdate = true;
+  }, [surface, sources, direction, angle, color]);
+
+  const marker = useMemo(() => immersionPoint(immersion, direction), [immersion, direction]);
+
+  // Pick the source direction of the nearest vertex on the clicked face
+  const handlePointer = useCallback((e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    if (!e.face) return;
+    const local = e.object.worldToLocal(e.point.clone());
+    const position = surface.geometry.getAttribute('position');
+    const nearest = [e.face.a, e.face.b, e.face.c].reduce((best, i) => {
+      const d = local.distanceToSquared(new THREE.Vector3().fromBufferAttribute(position, i));
+      return d < best.d ? { i, d } : best;
+    }, { i: e.face.a, d: Infinity });
+    onUpdate?.(sources[nearest.i]);
+  }, [surface, sources, onUpdate]);
+
+  return (
+    <group scale={surface.scale}>
+      {/* Surface, with the selection cone painted once per class */}
+      <mesh geometry={surface.geometry} onPointerDown={handlePointer}>
+        <meshStandardMaterial vertexColors side={THREE.DoubleSide} roughness={0.6} transparent opacity={0.85} />
+      </mesh>
+
+      {/* Self-intersection curves */}
+      <lineSegments geometry={surface.lines}>
+        <lineBasicMaterial color={INTERSECTION_COLOR} />
+      </lineSegments>
+
+      {/* The single image point of the selected class */}
+      <mesh position={marker}>
+        <sphereGeometry args={[0.035 / surface.scale, 16, 16]} />
+        <meshBasicMaterial color="#2D3436" />
+      </mesh>
+    </group>
+  );
+};
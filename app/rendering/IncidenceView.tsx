@@ -0,0 +1,130 @@
+/**
+ * Incidence Component
+ *
+ * Draws points and lines of ℝP² on the double cover sphere. A point is drawn
+ * at both of its representatives and a line as its great circle; the half on
+ * the upper hemisphere, the hemisphere model of ℝP², is drawn solid and the
+ * lower half faintly. Clicking the sphere places a point.
+ *
+ * Pedagogical concept: any two distinct lines meet in exactly one point. Two
+ * lines whose upper halves meet on the rim are parallel in the chart above
+ * the hemisphere; the rim is the line at infinity.
+ */
+
+import React, { useMemo, useCallback, useEffect } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import { Vec3, QuotientClass, ProjectiveLine, lineCircle } from '../../core';
+
+/**
+ * Up direction of the hemisphere model
+ */
+const HEMISPHERE_UP: Vec3 = [0, 1, 0];
+
+/**
+ * Color of the lines
+ */
+const LINE_COLOR = "#334155";
+
+/**
+ * Color of the meets of lines
+ */
+const MEET_COLOR = "#e11d48";
+
+/**
+ * Points around each great circle
+ */
+const CIRCLE_SAMPLES = 128;
+
+interface IncidenceViewProps {
+  /**
+   * Points to draw, such as the placed points
+   */
+  points: QuotientClass[];
+
+  /**
+   * Lines to draw, such as the joins of pairs of points
+   */
+  lines: ProjectiveLine[];
+
+  /**
+   * Further points where lines meet
+   */
+  meets: QuotientClass[];
+
+  /**
+   * Color of the points
+   */
+  color: string;
+
+  /**
+   * Called with the direction of a click on the sphere
+   */
+  onAdd?: (dir: Vec3) => void;
+}
+
+export const IncidenceView: React.FC<IncidenceViewProps> = ({ points, lines, meets, color, onAdd }) => {
+  // Segments of every great circle, split into the upper and lower halves
+  const circles = useMemo(() => {
+    const upper: number[] = [];
+    const lower: number[] = [];
+    lines.forEach(l => {
+      const circle = lineCircle(l, CIRCLE_SAMPLES);
+      circle.forEach((a, i) => {
+        const b = circle[(i + 1) % circle.length];
+        const target = Vec3.dot(Vec3.add(a, b), HEMISPHERE_UP) >= 0 ? upper : lower;
+        target.push(...Vec3.scale(a, 1.003), ...Vec3.scale(b, 1.003));
+      });
+    });
+    const make = (positions: number[]) => {
+      const g = new THREE.BufferGeometry();
+      g.setAttribute('position', new THREE.BufferAttribute(new Float32Array(positions), 3));
+      return g;
+    };
+    return { upper: make(upper), lower: make(lower) };
+  }, [lines]);
+
+  useEffect(() => () => {
+    circles.upper.dispose();
+    circles.lower.dispose();
+  }, [circles]);
+
+  const handlePointer = useCallback((e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    const n = e.point.clone().normalize();
+    onAdd?.([n.x, n.y, n.z]);
+  }, [onAdd]);
+
+  // Both representatives, the one on the upper hemisphere larger
+  const dots = (classes: QuotientClass[], dotColor: string, radius: number) =>
+    classes.flatMap((c, i) => c.representatives.map((r, k) => {
+      const upper = Vec3.dot(r, HEMISPHERE_UP) >= 0;
+      return (
+        <mesh key={`${i}-${k}`} position={Vec3.scale(r, 1.01)}>
+          <sphereGeometry args={[upper ? radius : radius * 0.6, 16, 16]} />
+          <meshBasicMaterial color={dotColor} transparent opacity={upper ? 1 : 0.5} />
+        </mesh>
+      );
+    }));
+
+  return (
+    <group>
+      {/* Sphere shell; clicks place points */}
+      <mesh onPointerDown={handlePointer}>
+        <sphereGeometry args={[1, 64, 48]} />
+        <meshStandardMaterial color="#ffffff" transparent opacity={0.25} roughness={0.3} depthWrite={false} />
+      </mesh>
+
+      {/* Lines: solid on the hemisphere model, faint on the other sheet */}
+      <lineSegments geometry={circles.upper}>
+        <lineBasicMaterial color={LINE_COLOR} />
+      </lineSegments>
+      <lineSegments geometry={circles.lower}>
+        <lineBasicMaterial color={LINE_COLOR} transparent opacity={0.2} />
+      </lineSegments>
+
+      {dots(meets, MEET_COLOR, 0.025)}
+      {dots(points, color, 0.04)}
+    </group>
+  );
+};
@@ -0,0 +1,109 @@
+/**
+ * Parity Walk Component
+ *
+ * Carries a frame marker around the core loop of a surface: a dark arrow
+ * along the loop and a colored arrow across it. A faint copy of the starting
+ * frame stays behind, so at the end of the walk the two can be compared.
+ *
+ * Pedagogical concept: on the Möbius strip and the Klein bottle the across
+ * arrow comes back pointing the other way; the frame has been mirrored, and
+ * no continuous choice of "left" survives the loop. On the torus it does.
+ */
+
+import React, { useMemo, useEffect } from 'react';
+import * as THREE from 'three';
+import { Vec3, ParityWalk } from '../../core';
+
+/**
+ * Length of the frame arrows
+ */
+const ARROW_LENGTH = 0.35;
+
+/**
+ * Color of the arrow along the loop
+ */
+const TANGENT_COLOR = "#2D3436";
+
+/**
+ * Color of the core loop
+ */
+const LOOP_COLOR = "#64748b";
+
+interface ParityWalkMarkerProps {
+  /**
+   * The walk to animate
+   */
+  walk: ParityWalk;
+
+  /**
+   * Progress around the loop in [0, 1]
+   */
+  progress: number;
+
+  /**
+   * Color of the across arrow
+   */
+  color: string;
+}
+
+export const ParityWalkMarker: React.FC<ParityWalkMarkerProps> = ({ walk, progress, color }) => {
+  const loop = useMemo(() => new Float32Array(walk.frames.flatMap(f => f.position)), [walk]);
+
+  // Frame between the two nearest steps
+  const frame = useMemo(() => {
+    const steps = walk.frames.length - 1;
+    const x = Math.min(Math.max(progress, 0), 1) * steps;
+    const i = Math.min(Math.floor(x), steps - 1);
+    const t = x - i;
+    const [a, b] = [walk.frames[i], walk.frames[i + 1]];
+    const mix = (p: Vec3, q: Vec3) => Vec3.add(Vec3.scale(p, 1 - t), Vec3.scale(q, t));
+    return {
+      position: mix(a.position, b.position),
+      tangent: Vec3.normalize(mix(a.tangent, b.tangent)),
+      across: Vec3.normalize(mix(a.across, b.across))
+    };
+  }, [walk, progress]);
+
+  const arrow = (origin: Vec3, dir: Vec3, arrowColor: string) =>
+    new THREE.ArrowHelper(new THREE.Vector3(...dir), new THREE.Vector3(...origin), ARROW_LENGTH, arrowColor, 0.08, 0.05);
+
+  const arrows = useMemo(() => {
+    const start = walk.frames[0];
+    const ghost = arrow(start.position, start.across, color);
+    (ghost.line.material as THREE.LineBasicMaterial).transparent = true;
+    (ghost.line.material as THREE.LineBasicMaterial).opacity = 0.3;
+    (ghost.cone.material as THREE.MeshBasicMaterial).transparent = true;
+    (ghost.cone.material as THREE.MeshBasicMaterial).opacity = 0.3;
+    return {
+      ghost,
+      tangent: arrow(frame.position, frame.tangent, TANGENT_COLOR),
+      across: arrow(frame.position, frame.across, color)
+    };
+  }, [walk, frame, color]);
+
+  useEffect(() => () => Object.values(arrows).forEach(a => a.dispose()), [arrows]);
+
+  return (
+    <group>
+      {/* Core loop */}
+      <line>
+        <bufferGeometry>
+          <bufferAttribute
+            attach="attributes-position"
+            count={walk.frames.length}
+            array={loop}
+            itemSize={3}
+          />
+        </bufferGeometry>
+        <lineBasicMaterial color={LOOP_COLOR} />
+      </line>
+
+      {/* Starting frame, left behind for comparison */}
+      <primitive object={arrows.ghost} />
+
+      {/* Carried frame */}
+      <primitive object={arrows.tangent} />
+      <primitive object={arrows.across} />
+    </group>
+  );
+};
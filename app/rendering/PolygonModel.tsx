@@ -0,0 +1,230 @@
+/**
+ * Fundamental Polygon Component
+ *
+ * Draws ℝP² as a square with boundary word abab on a 2D canvas. Edges with
+ * the same letter are glued with matching arrows, and the selection cone is
+ * filled pixel by pixel from the folded-up square, so it agrees with
+ * `pointInQuotientCone`.
+ *
+ * Pedagogical concept: dragging draws a path. A path that leaves through an
+ * edge comes back through its partner, and from then on the pen moves
+ * mirrored along that edge, because the gluing reverses orientation.
+ */
+
+import React, { useRef, useEffect, useCallback, useState } from 'react';
+import {
+  Vec3,
+  SquarePoint,
+  SquarePen,
+  POLYGON_EDGES,
+  classOf,
+  squareToSphere,
+  sphereToSquare,
+  pointInSquareCone,
+  createSquarePen,
+  movePen
+} from '../../core';
+import { hexToRgbVec } from '../ui/colorUtils';
+
+/**
+ * Canvas size in pixels
+ */
+const SQUARE_SIZE = 220;
+
+/**
+ * Margin between the square and the canvas edge
+ */
+const SQUARE_MARGIN = 18;
+
+/**
+ * Colors of the edge letters
+ */
+const EDGE_COLORS = { a: "#e11d48", b: "#2563eb" };
+
+/**
+ * Color of the square outside the selection
+ */
+const SQUARE_COLOR = "#f1f5f9";
+
+interface PolygonModelProps {
+  /**
+   * The selected direction (either representative)
+   */
+  direction: Vec3;
+
+  /**
+   * Aperture of the selection cone in radians
+   */
+  angle: number;
+
+  /**
+   * Color of the selection
+   */
+  color: string;
+
+  /**
+   * Called with the class where the pen is put down
+   */
+  onUpdate?: (dir: Vec3) => void;
+
+  /**
+   * Called with the class under the pen as it moves
+   */
+  onMove?: (dir: Vec3) => void;
+}
+
+export const PolygonModel: React.FC<PolygonModelProps> = ({
+  direction,
+  angle,
+  color,
+  onUpdate,
+  onMove
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const pen = useRef<{ pen: SquarePen; last: [number, number] } | null>(null);
+  const [strokes, setStrokes] = useState<SquarePoint[][]>([]);
+  const [word, setWord] = useState('');
+
+  const half = SQUARE_SIZE / 2 - SQUARE_MARGIN;
+  const toCanvas = useCallback(
+    ([a, b]: SquarePoint): [number, number] => [SQUARE_SIZE / 2 + a * half, SQUARE_SIZE / 2 - b * half],
+    [half]
+  );
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const selected = classOf(direction);
+
+    // Selection region of the folded-up square, tested pixel by pixel
+    ctx.clearRect(0, 0, SQUARE_SIZE, SQUARE_SIZE);
+    const side = 2 * half;
+    const image = ctx.createImageData(side, side);
+    const lit = hexToRgbVec(color).map(c => Math.round(c * 255));
+    const unlit = hexToRgbVec(SQUARE_COLOR).map(c => Math.round(c * 255));
+    for (let py = 0; py < side; py++) {
+      for (let px = 0; px < side; px++) {
+        const p: SquarePoint = [(px + 0.5) / half - 1, 1 - (py + 0.5) / half];
+        const c = pointInSquareCone(p, selected, angle) ? lit : unlit;
+        const k = 4 * (py * side + px);
+        image.data[k] = c[0];
+        image.data[k + 1] = c[1];
+        image.data[k + 2] = c[2];
+        image.data[k + 3] = 255;
+      }
+    }
+    ctx.putImageData(image, SQUARE_MARGIN, SQUARE_MARGIN);
+
+    // Edges with letters and gluing arrows
+    POLYGON_EDGES.forEach(edge => {
+      const [x0, y0] = toCanvas(edge.start);
+      const [x1, y1] = toCanvas(edge.end);
+      ctx.strokeStyle = EDGE_COLORS[edge.label];
+      ctx.fillStyle = EDGE_COLORS[edge.label];
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.moveTo(x0, y0);
+      ctx.lineTo(x1, y1);
+      ctx.stroke();
+
+      const mx = (x0 + x1) / 2;
+      const my = (y0 + y1) / 2;
+      const ux = (x1 - x0) / Math.hypot(x1 - x0, y1 - y0);
+      const uy = (y1 - y0) / Math.hypot(x1 - x0, y1 - y0);
+      ctx.beginPath();
+      ctx.moveTo(mx + 6 * ux, my + 6 * uy);
+      ctx.lineTo(mx - 4 * ux - 5 * uy, my - 4 * uy + 5 * ux);
+      ctx.lineTo(mx - 4 * ux + 5 * uy, my - 4 * uy - 5 * ux);
+      ctx.closePath();
+      ctx.fill();
+
+      // Letter on the outside of the edge
+      ctx.font = 'bold 11px monospace';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(edge.label, mx + 10 * uy, my - 10 * ux);
+    });
+
+    // Drawn paths
+    ctx.strokeStyle = "#475569";
+    ctx.lineWidth = 1.5;
+    strokes.forEach(stroke => {
+      ctx.beginPath();
+      stroke.forEach((p, i) => {
+        const [x, y] = toCanvas(p);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.stroke();
+    });
+
+    // The selected class
+    const [x, y] = toCanvas(sphereToSquare(direction));
+    ctx.beginPath();
+    ctx.arc(x, y, 4, 0, 2 * Math.PI);
+    ctx.fillStyle = "#2D3436";
+    ctx.fill();
+  }, [direction, angle, color, strokes, half, toCanvas]);
+
+  const toSquare = useCallback((e: React.PointerEvent<HTMLCanvasElement>): SquarePoint => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const px = ((e.clientX - rect.left) / rect.width) * SQUARE_SIZE;
+    const py = ((e.clientY - rect.top) / rect.height) * SQUARE_SIZE;
+    return [(px - SQUARE_SIZE / 2) / half, (SQUARE_SIZE / 2 - py) / half];
+  }, [half]);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    const p = toSquare(e);
+    if (Math.abs(p[0]) > 1 || Math.abs(p[1]) > 1) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+
+    const start = createSquarePen(p);
+    pen.current = { pen: start, last: p };
+    setStrokes(prev => [...prev, [start.position]]);
+    setWord('');
+    onUpdate?.(squareToSphere(start.position));
+  }, [toSquare, onUpdate]);
+
+  // The pen follows pointer motion, wrapping through glued edges
+  const handlePointerMove = useCallback((e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!pen.current) return;
+    const p = toSquare(e);
+    const delta: SquarePoint = [p[0] - pen.current.last[0], p[1] - pen.current.last[1]];
+    const move = movePen(pen.current.pen, delta);
+    pen.current = { pen: move.pen, last: p };
+
+    setStrokes(prev => {
+      if (!prev.length) return move.strokes;
+      const [first, ...rest] = move.strokes;
+      const current = [...prev[prev.length - 1], ...first.slice(1)];
+      return [...prev.slice(0, -1), current, ...rest];
+    });
+    if (move.crossings.length) setWord(w => w + move.crossings.join(''));
+    onMove?.(squareToSphere(move.pen.position));
+  }, [toSquare, onMove]);
+
+  const handlePointerUp = useCallback(() => { pen.current = null; }, []);
+
+  return (
+    <div className="flex flex-col items-center gap-1">
+      <canvas
+        ref={canvasRef}
+        width={SQUARE_SIZE}
+        height={SQUARE_SIZE}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        className="cursor-crosshair touch-none"
+      />
+      <div className="flex items-center gap-3 text-[9px] font-mono font-bold text-slate-500">
+        <span>crossed: {word || '—'}</span>
+        <button
+          onClick={() => { setStrokes([]); setWord(''); }}
+          className="px-2 py-0.5 rounded-full border border-slate-300 text-[8px] font-black uppercase hover:border-slate-900"
+        >
+          Clear
+        </button>
+      </div>
+    </div>
+  );
+};
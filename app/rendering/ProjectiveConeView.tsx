@@ -0,0 +1,145 @@
+/**
+ * Projective Cone Component
+ *
+ * Draws a selection region of ℝP² bounded by a conic, such as the image of
+ * the round selection cone under a projective transformation, on the double
+ * cover sphere. Both sheets of the cone are drawn, one around each
+ * representative, as a translucent cone from the origin capped on the sphere.
+ *
+ * Pedagogical concept: a projective map sends circles on the sphere to
+ * conics, so the round cap becomes an ellipse, and the image of the old
+ * center (the marker) is in general no longer the center of the new region.
+ */
+
+import React, { useMemo, useEffect } from 'react';
+import * as THREE from 'three';
+import { Vec3, ProjectiveCone, projectiveConeBoundary } from '../../core';
+
+/**
+ * Boundary directions per sheet
+ */
+const BOUNDARY_SAMPLES = 96;
+
+/**
+ * Rings between the center and the boundary of each cap
+ */
+const CAP_RINGS = 12;
+
+/**
+ * Radius of the caps, just outside the unit sphere
+ */
+const CAP_RADIUS = 1.002;
+
+interface ProjectiveConeViewProps {
+  /**
+   * The region to draw
+   */
+  cone: ProjectiveCone;
+
+  /**
+   * Image Mu of the selected representative; its sheet gets the u color
+   */
+  marker: Vec3;
+
+  /**
+   * Color of the sheet around u
+   */
+  uColor: string;
+
+  /**
+   * Color of the sheet around -u
+   */
+  negUColor: string;
+}
+
+/**
+ * Cap and cone geometry of the sheet around sign · center.
+ */
+function sheetGeometry(cone: ProjectiveCone, sign: 1 | -1) {
+  const boundary = projectiveConeBoundary(cone, BOUNDARY_SAMPLES);
+  const center = Vec3.scale(cone.center, sign);
+
+  // Rings from the center out to the boundary, interpolated before normalizing
+  const cap: number[] = [];
+  const ring = (k: number, i: number): Vec3 => {
+    const b = Vec3.scale(boundary[i % BOUNDARY_SAMPLES], sign);
+    const t = k / CAP_RINGS;
+    return Vec3.scale(Vec3.normalize(Vec3.add(Vec3.scale(center, 1 - t), Vec3.scale(b, t))), CAP_RADIUS);
+  };
+  for (let k = 0; k < CAP_RINGS; k++) {
+    for (let i = 0; i < BOUNDARY_SAMPLES; i++) {
+      cap.push(...ring(k, i), ...ring(k + 1, i), ...ring(k + 1, i + 1));
+      cap.push(...ring(k, i), ...ring(k + 1, i + 1), ...ring(k, i + 1));
+    }
+  }
+
+  const sides: number[] = [];
+  for (let i = 0; i < BOUNDARY_SAMPLES; i++) {
+    sides.push(0, 0, 0, ...ring(CAP_RINGS, i), ...ring(CAP_RINGS, i + 1));
+  }
+
+  const make = (positions: number[]) => {
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.BufferAttribute(new Float32Array(positions), 3));
+    return g;
+  };
+  return { cap: make(cap), sides: make(sides) };
+}
+
+export const ProjectiveConeView: React.FC<ProjectiveConeViewProps> = ({
+  cone,
+  marker,
+  uColor,
+  negUColor
+}) => {
+  // The sheet on the side of u comes first
+  const sheets = useMemo(() => {
+    const sign = Vec3.dot(cone.center, marker) >= 0 ? 1 : -1;
+    return [sheetGeometry(cone, sign), sheetGeometry(cone, sign === 1 ? -1 : 1)];
+  }, [cone, marker]);
+
+  useEffect(() => () => sheets.forEach(s => {
+    s.cap.dispose();
+    s.sides.dispose();
+  }), [sheets]);
+
+  return (
+    <group>
+      {sheets.map((sheet, i) => {
+        const color = i === 0 ? uColor : negUColor;
+        return (
+          <group key={i}>
+            <mesh geometry={sheet.sides} renderOrder={10 + i}>
+              <meshStandardMaterial
+                color={color}
+                transparent
+                opacity={0.35}
+                side={THREE.DoubleSide}
+                depthWrite={false}
+                emissive={color}
+                emissiveIntensity={0.4}
+              />
+            </mesh>
+            <mesh geometry={sheet.cap} renderOrder={12 + i}>
+              <meshStandardMaterial
+                color={color}
+                transparent
+                opacity={0.7}
+                side={THREE.DoubleSide}
+                depthWrite={false}
+                emissive={color}
+                emissiveIntensity={0.2}
+              />
+            </mesh>
+          </group>
+        );
+      })}
+
+      {/* Image of the selected class */}
+      <mesh position={Vec3.scale(Vec3.normalize(marker), CAP_RADIUS)} renderOrder={20}>
+        <sphereGeometry args={[0.035, 16, 16]} />
+        <meshBasicMaterial color="#2D3436" />
+      </mesh>
+    </group>
+  );
+};
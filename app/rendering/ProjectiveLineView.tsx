@@ -0,0 +1,151 @@
+/**
+ * Projective Line Component
+ *
+ * Draws the quotient of a planar object, ℝP¹ = S¹/{±1}, as a circle. A line
+ * at angle θ in the plane sits at angle 2θ on the circle, so a selection of
+ * half-width α about [u] becomes an arc of half-width 2α. A small inner
+ * circle shows the two representatives u and -u that land on the same point.
+ *
+ * Pedagogical concept: doubling the angle is exactly the identification
+ * θ ≡ θ + π, so unlike ℝP² the quotient of the circle is again a circle.
+ */
+
+import React, { useMemo, useCallback, useEffect } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import {
+  Vec3,
+  lineClassOf,
+  doubledAngle,
+  lineClassAtDoubledAngle
+} from '../../core';
+
+/**
+ * Radius of the ℝP¹ circle
+ */
+const CIRCLE_RADIUS = 1;
+
+/**
+ * Radius of the inner circle S¹ carrying the two representatives
+ */
+const COVER_RADIUS = 0.4;
+
+/**
+ * Color of the circles outside the selection
+ */
+const CIRCLE_COLOR = "#cbd5e1";
+
+/**
+ * Color of the marker and the diameter joining u and -u
+ */
+const MARKER_COLOR = "#2D3436";
+
+interface ProjectiveLineViewProps {
+  /**
+   * The selected direction (either representative); only its planar part is used
+   */
+  direction: Vec3;
+
+  /**
+   * Half-width of the selection in ℝP¹, in radians
+   */
+  angle: number;
+
+  /**
+   * Color of the selection and of u
+   */
+  uColor: string;
+
+  /**
+   * Color of -u
+   */
+  negUColor: string;
+
+  /**
+   * Called with the planar direction of the clicked point of the circle
+   */
+  onUpdate?: (dir: Vec3) => void;
+}
+
+export const ProjectiveLineView: React.FC<ProjectiveLineViewProps> = ({
+  direction,
+  angle,
+  uColor,
+  negUColor,
+  onUpdate
+}) => {
+  const selected = useMemo(() => lineClassOf(direction), [direction]);
+  const phi = doubledAngle(selected);
+
+  // The arc covers 2α on each side of 2θ, and the whole circle once 2α ≥ π
+  const arcLength = Math.min(4 * angle, 2 * Math.PI);
+
+  // u is the representative on the side of the given direction
+  const pair = useMemo(() => {
+    const [c, negC] = selected.representatives;
+    return Vec3.dot(c, direction) >= 0 ? [c, negC] : [negC, c];
+  }, [selected, direction]);
+
+  const diameter = useMemo(() => {
+    const [u, negU] = pair;
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.BufferAttribute(new Float32Array([
+      ...Vec3.scale(u, COVER_RADIUS),
+      ...Vec3.scale(negU, COVER_RADIUS)
+    ]), 3));
+    return g;
+  }, [pair]);
+
+  useEffect(() => () => diameter.dispose(), [diameter]);
+
+  // Any click in the plane picks the angle of the point on the circle
+  const handlePointer = useCallback((e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    const local = e.object.worldToLocal(e.point.clone());
+    if (local.lengthSq() < 1e-6) return;
+    onUpdate?.(lineClassAtDoubledAngle(Math.atan2(local.y, local.x)).canonical);
+  }, [onUpdate]);
+
+  return (
+    <group>
+      {/* Click target covering the circle */}
+      <mesh onPointerDown={handlePointer}>
+        <circleGeometry args={[CIRCLE_RADIUS * 1.3, 64]} />
+        <meshBasicMaterial transparent opacity={0} depthWrite={false} />
+      </mesh>
+
+      {/* ℝP¹ as a circle, angles doubled */}
+      <mesh>
+        <torusGeometry args={[CIRCLE_RADIUS, 0.012, 8, 128]} />
+        <meshBasicMaterial color={CIRCLE_COLOR} />
+      </mesh>
+
+      {/* Selection arc around 2θ */}
+      <mesh rotation={[0, 0, phi - arcLength / 2]}>
+        <torusGeometry args={[CIRCLE_RADIUS, 0.035, 8, 96, arcLength]} />
+        <meshBasicMaterial color={uColor} />
+      </mesh>
+
+      {/* The selected point [u] */}
+      <mesh position={[CIRCLE_RADIUS * Math.cos(phi), CIRCLE_RADIUS * Math.sin(phi), 0]}>
+        <sphereGeometry args={[0.05, 16, 16]} />
+        <meshBasicMaterial color={MARKER_COLOR} />
+      </mesh>
+
+      {/* The double cover S¹ with both representatives */}
+      <mesh>
+        <torusGeometry args={[COVER_RADIUS, 0.006, 8, 96]} />
+        <meshBasicMaterial color={CIRCLE_COLOR} />
+      </mesh>
+      <lineSegments geometry={diameter}>
+        <lineBasicMaterial color={MARKER_COLOR} transparent opacity={0.4} />
+      </lineSegments>
+      {pair.map((r, i) => (
+        <mesh key={i} position={Vec3.scale(r, COVER_RADIUS)}>
+          <sphereGeometry args={[0.035, 16, 16]} />
+          <meshBasicMaterial color={i === 0 ? uColor : negUColor} />
+        </mesh>
+      ))}
+    </group>
+  );
+};
@@ -0,0 +1,209 @@
+/**
+ * Quotient Complex Component
+ *
+ * Draws the quotient of a centrally symmetric mesh, built by
+ * `buildQuotientComplex`, on a model of ℝP². Each triangle of the quotient is
+ * drawn once: on the hemisphere model its lift is taken on the upper side, so
+ * the rim is ragged where triangles straddle the equator; on the Boy surface
+ * every vertex is mapped through the immersion.
+ *
+ * Pedagogical concept: the triangles shown are exactly the cells counted in
+ * V - E + F, so the picture is the complex whose Euler characteristic is 1.
+ * A highlighted loop, such as the H₁ generator found by `computeHomology`,
+ * runs from the rim to the opposite rim point on the hemisphere.
+ */
+
+import React, { useMemo, useCallback, useEffect } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import * as THREE from 'three';
+import {
+  Vec3,
+  QuotientComplex,
+  immersionPoint,
+  classOf,
+  pointInQuotientCone
+} from '../../core';
+
+/**
+ * Model of ℝP² the complex is mapped onto
+ */
+export type ComplexTarget = "hemisphere" | "boy";
+
+/**
+ * Radius the model is scaled to fit
+ */
+const MODEL_RADIUS = 1.1;
+
+/**
+ * Up direction of the hemisphere model, as in the antipodal fundamental domain
+ */
+const HEMISPHERE_UP: Vec3 = [0, 1, 0];
+
+/**
+ * Color of faces outside the selection
+ */
+const FACE_COLOR = "#e2e8f0";
+
+/**
+ * Color of the edges of the complex
+ */
+const EDGE_COLOR = "#334155";
+
+/**
+ * Color of the highlighted loop
+ */
+const LOOP_COLOR = "#e11d48";
+
+interface QuotientComplexViewProps {
+  /**
+   * The quotient complex to draw
+   */
+  complex: QuotientComplex;
+
+  /**
+   * Model of ℝP² to draw it on
+   */
+  target: ComplexTarget;
+
+  /**
+   * The selected direction (either representative)
+   */
+  direction: Vec3;
+
+  /**
+   * Aperture of the selection cone in radians
+   */
+  angle: number;
+
+  /**
+   * Color of the selection
+   */
+  color: string;
+
+  /**
+   * Edges of the complex to highlight as a loop
+   */
+  loop?: number[];
+
+  /**
+   * Called with the direction of the clicked vertex
+   */
+  onUpdate?: (dir: Vec3) => void;
+}
+
+export const QuotientComplexView: React.FC<QuotientComplexViewProps> = ({
+  complex,
+  target,
+  direction,
+  angle,
+  color,
+  loop,
+  onUpdate
+}) => {
+  // Corner directions of every triangle, on the upper side for the hemisphere
+  const sources = useMemo(() => complex.lifts.flatMap(lift => {
+    const corners = lift.map(v => Vec3.normalize(v));
+    const centroid = corners.reduce(Vec3.add);
+    return Vec3.dot(centroid, HEMISPHERE_UP) < 0 ? corners.map(Vec3.neg) : corners;
+  }), [complex]);
+
+  const place = useCallback(
+    (u: Vec3): Vec3 => (target === "boy" ? immersionPoint("boy", u) : u),
+    [target]
+  );
+
+  const surface = useMemo(() => {
+    const positions = sources.map(place);
+    const radius = Math.max(...positions.map(Vec3.norm));
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(positions.flat()), 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(positions.length * 3), 3));
+    geometry.computeVertexNormals();
+
+    const edges: Vec3[] = [];
+    for (let i = 0; i < positions.length; i += 3) {
+      edges.push(positions[i], positions[i + 1], positions[i + 1], positions[i + 2], positions[i + 2], positions[i]);
+    }
+    const lines = new THREE.BufferGeometry();
+    lines.setAttribute('position', new THREE.BufferAttribute(new Float32Array(edges.flat()), 3));
+
+    return { geometry, lines, scale: MODEL_RADIUS / radius };
+  }, [sources, place]);
+
+  useEffect(() => () => {
+    surface.geometry.dispose();
+    surface.lines.dispose();
+  }, [surface]);
+
+  // Loop edges, each lifted to the upper side like the triangles
+  const loopLines = useMemo(() => {
+    const segments = (loop ?? []).flatMap(e => {
+      const ends = complex.edgeLifts[e].map(v => Vec3.normalize(v));
+      const upper = Vec3.dot(Vec3.add(ends[0], ends[1]), HEMISPHERE_UP) < 0 ? ends.map(Vec3.neg) : ends;
+      return upper.map(place);
+    });
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(segments.flat()), 3));
+    return geometry;
+  }, [complex, loop, place]);
+
+  useEffect(() => () => loopLines.dispose(), [loopLines]);
+
+  // Paint the selection cone around [u] through the corner directions
+  useEffect(() => {
+    const attribute = surface.geometry.getAttribute('color') as THREE.BufferAttribute;
+    const lit = new THREE.Color(color);
+    const unlit = new THREE.Color(FACE_COLOR);
+    const selected = classOf(direction);
+
+    sources.forEach((u, i) => {
+      const c = pointInQuotientCone(u, selected, angle) ? lit : unlit;
+      attribute.setXYZ(i, c.r, c.g, c.b);
+    });
+    attribute.needsUpdate = true;
+  }, [surface, sources, direction, angle, color]);
+
+  const marker = useMemo(() => {
+    const u = Vec3.normalize(direction);
+    return place(Vec3.dot(u, HEMISPHERE_UP) < 0 ? Vec3.neg(u) : u);
+  }, [direction, place]);
+
+  // Pick the nearest corner of the clicked triangle
+  const handlePointer = useCallback((e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    if (!e.face) return;
+    const local = e.object.worldToLocal(e.point.clone());
+    const position = surface.geometry.getAttribute('position');
+    const nearest = [e.face.a, e.face.b, e.face.c].reduce((best, i) => {
+      const d = local.distanceToSquared(new THREE.Vector3().fromBufferAttribute(position, i));
+      return d < best.d ? { i, d } : best;
+    }, { i: e.face.a, d: Infinity });
+    onUpdate?.(sources[nearest.i]);
+  }, [surface, sources, onUpdate]);
+
+  return (
+    <group scale={surface.scale}>
+      {/* One triangle per antipodal pair */}
+      <mesh geometry={surface.geometry} onPointerDown={handlePointer}>
+        <meshStandardMaterial vertexColors side={THREE.DoubleSide} roughness={0.6} transparent opacity={0.85} />
+      </mesh>
+
+      {/* Edges of the complex */}
+      <lineSegments geometry={surface.lines}>
+        <lineBasicMaterial color={EDGE_COLOR} />
+      </lineSegments>
+
+      {/* Highlighted loop */}
+      <lineSegments geometry={loopLines}>
+        <lineBasicMaterial color={LOOP_COLOR} />
+      </lineSegments>
+
+      {/* The selected class */}
+      <mesh position={marker}>
+        <sphereGeometry args={[0.035 / surface.scale, 16, 16]} />
+        <meshBasicMaterial color="#2D3436" />
+      </mesh>
+    </group>
+  );
+};
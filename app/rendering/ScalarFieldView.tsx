@@ -0,0 +1,56 @@
+/**
+ * Scalar Field Component
+ *
+ * Paints a sphere with a scalar field on a diverging scale, blue through
+ * white to red. Given the even part of a field it shows what descends to
+ * ℝP²: antipodal points always share a color.
+ *
+ * Pedagogical concept: the quotient keeps ½(f(u) + f(−u)) and forgets the
+ * odd part, so an odd field paints the quotient plain white. The sphere is
+ * slightly transparent so the selection cones inside stay visible.
+ */
+
+import React, { useMemo, useEffect } from 'react';
+import * as THREE from 'three';
+import { ScalarField } from '../../core';
+import { divergingColor } from '../ui/colorUtils';
+
+interface ScalarFieldViewProps {
+  /**
+   * The field to paint
+   */
+  field: ScalarField;
+
+  /**
+   * Magnitude painted at full color
+   */
+  scale: number;
+
+  /**
+   * Radius of the sphere, inside the selection shell by default
+   */
+  radius?: number;
+}
+
+export const ScalarFieldView: React.FC<ScalarFieldViewProps> = ({ field, scale, radius = 0.98 }) => {
+  const geometry = useMemo(() => {
+    const g = new THREE.SphereGeometry(radius, 96, 64);
+    const positions = g.getAttribute('position');
+    const colors = new Float32Array(positions.count * 3);
+    for (let i = 0; i < positions.count; i++) {
+      const u = new THREE.Vector3().fromBufferAttribute(positions, i).normalize();
+      const value = field([u.x, u.y, u.z]);
+      colors.set(divergingColor(scale > 0 && Number.isFinite(value) ? value / scale : 0), 3 * i);
+    }
+    g.setAttribute('color', new THREE.BufferAttribute(colors, 3));
+    return g;
+  }, [field, scale, radius]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <mesh geometry={geometry} renderOrder={40}>
+      <meshBasicMaterial vertexColors transparent opacity={0.8} depthWrite={false} />
+    </mesh>
+  );
+};
@@ -0,0 +1,190 @@
+/**
+ * Axial Data Importer Component
+ *
+ * A dialog for importing a table of axes: fault planes by strike and dip,
+ * lineations by trend and plunge, fiber orientations as vectors or sites by
+ * latitude and longitude. Text is pasted or loaded from a CSV or JSON file,
+ * and every row is listed with the quotient class it became or the reason it
+ * was skipped.
+ *
+ * Pedagogical concept: an axis has no arrowhead, so each row becomes the
+ * class {u, −u} and is listed by its canonical representative, the lift
+ * whose first nonzero coordinate is positive.
+ */
+
+import React, { useState } from 'react';
+import { AxialFormat, AngleUnit, AxialDataset, AXIAL_COLUMNS } from '../../core';
+
+const FORMAT_LABELS: Record<AxialFormat, string> = {
+  "vector": "Vectors (x, y, z)",
+  "trend-plunge": "Trend / Plunge",
+  "strike-dip": "Strike / Dip",
+  "lat-lon": "Latitude / Longitude"
+};
+
+/**
+ * A small dataset for each format, in degrees
+ */
+const SAMPLES: Record<AxialFormat, string> = {
+  "vector": "x,y,z\n0.1,0.98,0.05\n-0.12,-0.97,0.1\n0.05,0.99,-0.08\n0.9,0.1,0.4\n-0.88,-0.05,-0.45",
+  "trend-plunge": "trend,plunge\n350,5\n172,8\n5,2\n183,4\n90,60\n95,55",
+  "strike-dip": "strike,dip\n10,80\n190,85\n15,75\n200,88\n120,20\n130,25",
+  "lat-lon": "lat,lon\n60,10\n-58,-170\n62,15\n0,90\n5,-88"
+};
+
+interface AxialDataImporterProps {
+  /**
+   * The data as text
+   */
+  text: string;
+
+  /**
+   * How each row gives an axis
+   */
+  format: AxialFormat;
+
+  /**
+   * Unit of the angles
+   */
+  unit: AngleUnit;
+
+  /**
+   * The rows read from the text, or null if it could not be read at all
+   */
+  dataset: AxialDataset | null;
+
+  /**
+   * Why the text could not be read at all, or null
+   */
+  error: string | null;
+
+  onTextChange: (text: string) => void;
+  onFormatChange: (format: AxialFormat) => void;
+  onUnitChange: (unit: AngleUnit) => void;
+  onClose: () => void;
+}
+
+const formatAxis = (v: number[]) => `[${v.map(c => c.toFixed(3)).join(', ')}]`;
+
+export const AxialDataImporter: React.FC<AxialDataImporterProps> = ({
+  text,
+  format,
+  unit,
+  dataset,
+  error,
+  onTextChange,
+  onFormatChange,
+  onUnitChange,
+  onClose
+}) => {
+  const [fileError, setFileError] = useState<string | null>(null);
+  const failed = dataset ? dataset.rows.filter(row => row.error).length : 0;
+  const problem = fileError ?? error;
+
+  const editText = (content: string) => {
+    setFileError(null);
+    onTextChange(content);
+  };
+
+  const loadFile = (file: File | undefined) => {
+    if (!file) return;
+    file.text()
+      .then(editText)
+      .catch((e: Error) => setFileError(`Could not read ${file.name}: ${e.message}`));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-slate-900/30 backdrop-blur-sm flex items-center justify-center p-8" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-label="Axial Data"
+        className="bg-white rounded-2xl shadow-2xl border border-slate-200 w-full max-w-4xl max-h-full flex flex-col overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="px-6 py-4 border-b border-slate-200 flex items-center justify-between">
+          <span className="text-[10px] font-black uppercase text-slate-500 tracking-widest">Axial Data</span>
+          <button onClick={onClose} className="text-[9px] font-black uppercase text-slate-400 hover:text-slate-900">Close</button>
+        </div>
+
+        <div className="p-6 grid grid-cols-[1fr_1.4fr] gap-6 min-h-0 overflow-hidden">
+          <div className="flex flex-col gap-3 min-h-0">
+            <div className="flex gap-2">
+              <select
+                value={format}
+                onChange={(e) => onFormatChange(e.target.value as AxialFormat)}
+                className="flex-1 bg-white border border-slate-200 rounded-xl p-2 font-bold text-[11px] uppercase outline-none"
+              >
+                {(Object.keys(FORMAT_LABELS) as AxialFormat[]).map(id => (
+                  <option key={id} value={id}>{FORMAT_LABELS[id]}</option>
+                ))}
+              </select>
+              <select
+                value={unit}
+                disabled={format === 'vector'}
+                onChange={(e) => onUnitChange(e.target.value as AngleUnit)}
+                className="bg-white border border-slate-200 rounded-xl p-2 font-bold text-[11px] uppercase outline-none disabled:opacity-40"
+              >
+                <option value="degrees">Degrees</option>
+                <option value="radians">Radians</option>
+              </select>
+            </div>
+            <textarea
+              value={text}
+              onChange={(e) => editText(e.target.value)}
+              placeholder={`CSV or JSON, columns ${AXIAL_COLUMNS[format].map(aliases => aliases[0]).join(', ')}`}
+              spellCheck={false}
+              className={`flex-1 min-h-[240px] bg-white border rounded-xl p-3 font-mono text-[11px] outline-none resize-none ${problem ? 'border-rose-400' : 'border-slate-200 focus:border-slate-500'}`}
+            />
+            <div className="flex gap-2 items-center">
+              <label className="px-3 py-1 rounded-full text-[9px] font-black uppercase border border-slate-300 hover:border-slate-900 cursor-pointer">
+                Load File
+                <input type="file" accept=".csv,.json,.txt" className="hidden" onChange={(e) => loadFile(e.target.files?.[0])} />
+              </label>
+              <button
+                onClick={() => {
+                  onUnitChange('degrees');
+                  editText(SAMPLES[format]);
+                }}
+                className="px-3 py-1 rounded-full text-[9px] font-black uppercase border border-slate-300 hover:border-slate-900"
+              >
+                Sample
+              </button>
+              <button
+                onClick={() => editText('')}
+                className="px-3 py-1 rounded-full text-[9px] font-black uppercase border border-slate-300 hover:border-slate-900"
+              >
+                Clear
+              </button>
+            </div>
+            <span className={`text-[9px] font-mono font-bold ${problem || failed ? 'text-amber-600' : 'text-emerald-600'}`}>
+              {problem ?? (dataset ? `${dataset.classes.length} axes read · ${failed} row${failed === 1 ? '' : 's'} skipped` : 'No data')}
+            </span>
+          </div>
+
+          <div className="border border-slate-200 rounded-xl overflow-auto min-h-0">
+            <table className="w-full font-mono text-[10px] text-left">
+              <thead className="bg-slate-50 text-slate-500 uppercase sticky top-0">
+                <tr>
+                  <th className="px-3 py-2">Line</th>
+                  <th className="px-3 py-2">Row</th>
+                  <th className="px-3 py-2">Axis [u] = ±u</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {dataset?.rows.map(row => (
+                  <tr key={row.line} className={row.error ? 'bg-rose-50/60' : undefined}>
+                    <td className="px-3 py-1.5 text-slate-400">{row.line}</td>
+                    <td className="px-3 py-1.5 text-slate-700 truncate max-w-[180px]" title={row.source}>{row.source}</td>
+                    <td className={`px-3 py-1.5 ${row.error ? 'text-rose-600' : 'text-slate-900'}`}>
+                      {row.class ? `±${formatAxis(row.class.canonical)}` : row.error}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,185 @@
+/**
+ * Fano Plane Component
+ *
+ * A Library tool that draws PG(2, 2), the projective plane over the field
+ * with two elements. Each point [a : b : c] is placed at the barycentric
+ * coordinates (a, b, c) of a triangle, so six lines come out straight and
+ * the seventh, x + y + z = 0, is the circle through the midpoints. Click a
+ * point to see the lines through it, two points to see their join, or a line
+ * to see its points.
+ *
+ * A table below builds PG(2, q) for other small fields and counts what it
+ * finds: q² + q + 1 points and q + 1 points on every line, as for ℝP² with
+ * ℝ replaced by GF(q).
+ */
+
+import React, { useState, useMemo } from 'react';
+import { FinitePoint, finiteProjectivePlane, linesThrough, finiteJoin, incidenceGraph } from '../../core';
+
+/**
+ * Corners of the triangle, where [1 : 0 : 0], [0 : 1 : 0] and [0 : 0 : 1] are drawn
+ */
+const CORNERS: [number, number][] = [[150, 22], [24, 240], [276, 240]];
+
+/**
+ * One color per line of the Fano plane
+ */
+const LINE_COLORS = ["#e11d48", "#2563eb", "#16a34a", "#d97706", "#7c3aed", "#0891b2", "#db2777"];
+
+/**
+ * Field orders listed in the table
+ */
+const FIELD_ORDERS = [2, 3, 4, 5, 7, 8, 9];
+
+const FANO = finiteProjectivePlane(2);
+
+const format = (v: FinitePoint) => `[${v.join(' : ')}]`;
+
+const equation = (n: FinitePoint) =>
+  `${n.flatMap((c, i) => (c === 0 ? [] : [`${c === 1 ? '' : c}${'xyz'[i]}`])).join(' + ')} = 0`;
+
+/**
+ * Screen position of a point from its coordinates read as barycentric weights
+ */
+const position = (v: FinitePoint): [number, number] => {
+  const total = v[0] + v[1] + v[2];
+  return [0, 1].map(k => CORNERS.reduce((sum, corner, i) => sum + v[i] * corner[k], 0) / total) as [number, number];
+};
+
+/**
+ * A line's drawing: the segment through its three points, or the circle
+ * through them when they are not collinear in the picture
+ */
+type LineShape = { kind: 'segment'; from: [number, number]; to: [number, number] }
+  | { kind: 'circle'; center: [number, number]; radius: number };
+
+const lineShape = (onLine: number[]): LineShape => {
+  const [a, b, c] = onLine.map(i => position(FANO.points[i]));
+  const d = 2 * (a[0] * (b[1] - c[1]) + b[0] * (c[1] - a[1]) + c[0] * (a[1] - b[1]));
+  if (Math.abs(d) < 1e-6) {
+    // Collinear: the two points farthest apart are the ends
+    const pairs: [[number, number], [number, number]][] = [[a, b], [b, c], [a, c]];
+    const span = (p: [[number, number], [number, number]]) => Math.hypot(p[0][0] - p[1][0], p[0][1] - p[1][1]);
+    const [from, to] = pairs.reduce((best, p) => (span(p) > span(best) ? p : best));
+    return { kind: 'segment', from, to };
+  }
+  const sq = (p: [number, number]) => p[0] * p[0] + p[1] * p[1];
+  const center: [number, number] = [
+    (sq(a) * (b[1] - c[1]) + sq(b) * (c[1] - a[1]) + sq(c) * (a[1] - b[1])) / d,
+    (sq(a) * (c[0] - b[0]) + sq(b) * (a[0] - c[0]) + sq(c) * (b[0] - a[0])) / d
+  ];
+  return { kind: 'circle', center, radius: Math.hypot(a[0] - center[0], a[1] - center[1]) };
+};
+
+export const FanoPlane: React.FC = () => {
+  const [selectedPoints, setSelectedPoints] = useState<number[]>([]);
+  const [selectedLine, setSelectedLine] = useState<number | null>(null);
+
+  const shapes = useMemo(() => FANO.incidence.map(lineShape), []);
+
+  // Counts found by building each plane, not by formula
+  const table = useMemo(() => FIELD_ORDERS.map(q => {
+    const plane = finiteProjectivePlane(q);
+    return { q, points: plane.points.length, perLine: plane.incidence[0].length, edges: incidenceGraph(plane).edges.length };
+  }), []);
+
+  const handlePoint = (i: number) => {
+    setSelectedLine(null);
+    setSelectedPoints(prev => (prev.includes(i) ? prev.filter(p => p !== i) : [...prev, i].slice(-2)));
+  };
+
+  const handleLine = (j: number) => {
+    setSelectedPoints([]);
+    setSelectedLine(prev => (prev === j ? null : j));
+  };
+
+  // What to highlight, and the sentence describing it
+  const { litLines, litPoints, readout } = useMemo(() => {
+    if (selectedLine !== null) {
+      const onLine = FANO.incidence[selectedLine];
+      return {
+        litLines: [selectedLine],
+        litPoints: onLine,
+        readout: `The line ${equation(FANO.lines[selectedLine])} holds ${onLine.map(i => format(FANO.points[i])).join(', ')}`
+      };
+    }
+    if (selectedPoints.length === 2) {
+      const [a, b] = selectedPoints;
+      const l = finiteJoin(FANO, a, b);
+      const third = FANO.incidence[l].find(i => i !== a && i !== b)!;
+      return {
+        litLines: [l],
+        litPoints: selectedPoints,
+        readout: `${format(FANO.points[a])} and ${format(FANO.points[b])} span ${equation(FANO.lines[l])}, whose third point is ${format(FANO.points[third])}`
+      };
+    }
+    if (selectedPoints.length === 1) {
+      const through = linesThrough(FANO, selectedPoints[0]);
+      return {
+        litLines: through,
+        litPoints: selectedPoints,
+        readout: `${format(FANO.points[selectedPoints[0]])} lies on ${through.map(j => equation(FANO.lines[j])).join(', ')}`
+      };
+    }
+    return { litLines: [] as number[], litPoints: [] as number[], readout: 'Click a point, two points, or a line' };
+  }, [selectedPoints, selectedLine]);
+
+  const anyLit = litLines.length > 0;
+
+  return (
+    <div className="p-6 bg-slate-50 rounded-2xl border border-slate-200">
+      <div className="flex flex-col items-center">
+        <svg viewBox="0 0 300 262" className="w-full max-w-sm select-none">
+          {shapes.map((shape, j) => {
+            const lit = litLines.includes(j);
+            const common = {
+              stroke: LINE_COLORS[j],
+              strokeWidth: lit ? 5 : 3,
+              strokeOpacity: anyLit && !lit ? 0.2 : 1,
+              fill: 'none',
+              className: 'cursor-pointer',
+              onClick: () => handleLine(j)
+            };
+            return shape.kind === 'segment'
+              ? <line key={j} {...common} x1={shape.from[0]} y1={shape.from[1]} x2={shape.to[0]} y2={shape.to[1]} />
+              : <circle key={j} {...common} cx={shape.center[0]} cy={shape.center[1]} r={shape.radius} />;
+          })}
+          {FANO.points.map((v, i) => {
+            const [x, y] = position(v);
+            const lit = litPoints.includes(i);
+            return (
+              <g key={i} className="cursor-pointer" onClick={() => handlePoint(i)}>
+                <circle cx={x} cy={y} r={lit ? 10 : 8} fill={lit ? '#0f172a' : '#ffffff'} stroke="#0f172a" strokeWidth={2} />
+                <text x={x} y={y - 14} textAnchor="middle" className="font-mono" fontSize={10} fill="#334155">
+                  {v.join('')}
+                </text>
+              </g>
+            );
+          })}
+        </svg>
+        <p className="mt-3 text-sm font-mono text-slate-700 text-center min-h-[2.5rem]">{readout}</p>
+      </div>
+
+      <table className="w-full mt-6 text-sm font-mono text-slate-700">
+        <thead>
+          <tr className="text-[9px] font-black uppercase text-slate-400 tracking-widest text-left">
+            <th className="py-1">Field</th>
+            <th>Points = Lines</th>
+            <th>Points per line</th>
+            <th>Incidences</th>
+          </tr>
+        </thead>
+        <tbody>
+          {table.map(row => (
+            <tr key={row.q} className={`border-t border-slate-200 ${row.q === 2 ? 'font-bold' : ''}`}>
+              <td className="py-1">GF({row.q})</td>
+              <td>{row.points}</td>
+              <td>{row.perLine}</td>
+              <td>{row.edges}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
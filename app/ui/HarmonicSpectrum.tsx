@@ -0,0 +1,70 @@
+/**
+ * Harmonic Spectrum Component
+ *
+ * A bar chart of the energy Σₘ (cₗᵐ)² a field has in each degree l of the
+ * real spherical harmonics. Yₗᵐ(−u) = (−1)ˡ Yₗᵐ(u), so only the even degrees
+ * survive on ℝP²: their bars are dark and the odd bars gray, and the
+ * fraction of energy in gray is what the quotient forgets.
+ *
+ * Bars are scaled by the square root of the energy so small degrees stay
+ * visible next to a dominant one.
+ */
+
+import React from 'react';
+import { HarmonicSpectrum as Spectrum, degreeEnergies } from '../../core';
+
+interface HarmonicSpectrumProps {
+  /**
+   * The coefficients of the field
+   */
+  spectrum: Spectrum;
+
+  /**
+   * Whether the odd degrees are drawn as zeroed out
+   */
+  oddZeroed?: boolean;
+}
+
+const WIDTH = 216;
+const HEIGHT = 56;
+
+export const HarmonicSpectrum: React.FC<HarmonicSpectrumProps> = ({ spectrum, oddZeroed = false }) => {
+  const amplitudes = degreeEnergies(spectrum).map(Math.sqrt);
+  const largest = amplitudes.reduce((max, a) => Math.max(max, a), 0);
+  const slot = WIDTH / amplitudes.length;
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT + 12}`} className="w-full">
+      {amplitudes.map((a, l) => {
+        const odd = l % 2 === 1;
+        const height = largest > 0 ? (a / largest) * HEIGHT : 0;
+        return (
+          <g key={l}>
+            <title>{`l = ${l}: energy ${(a * a).toFixed(4)}${odd ? ' (odd, lost on ℝP²)' : ''}`}</title>
+            <rect
+              x={l * slot + 2}
+              y={HEIGHT - height}
+              width={slot - 4}
+              height={height}
+              rx={1.5}
+              fill={odd ? '#cbd5e1' : '#0f172a'}
+              opacity={odd && oddZeroed ? 0.35 : 1}
+              strokeDasharray={odd && oddZeroed ? '2 2' : undefined}
+              stroke={odd && oddZeroed ? '#94a3b8' : 'none'}
+            />
+            <text
+              x={l * slot + slot / 2}
+              y={HEIGHT + 10}
+              textAnchor="middle"
+              className="font-mono"
+              fontSize={8}
+              fill={odd ? '#94a3b8' : '#334155'}
+            >
+              {l}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
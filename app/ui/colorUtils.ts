@@ -80,6 +80,19 @@ export function lerpColor(color1: string, color2: string, t: number): string {
   return rgbVecToHex(interpolated);
 }
 
+/**
+ * Maps a signed value to a diverging color scale: blue for -1, white for 0
+ * and red for +1, so a field and its negative are told apart at a glance
+ *
+ * @param t - Value in [-1, 1]; values outside are clamped
+ * @returns RGB vector [0-1, 0-1, 0-1]
+ */
+export function divergingColor(t: number): Vec3 {
+  const s = Math.max(-1, Math.min(1, t));
+  const end = hexToRgbVec(s < 0 ? '#2563eb' : '#e11d48');
+  return [0, 1, 2].map(k => 1 + (end[k] - 1) * Math.abs(s)) as Vec3;
+}
+
 /**
  * Computes the perceptual brightness of a color (0 to 1)
  * Uses the standard luminance formula
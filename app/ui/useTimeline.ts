@@ -0,0 +1,79 @@
+/**
+ * Timeline Hook
+ *
+ * Drives a progress value in [0, 1] for scrubbable animations. Playing
+ * advances the progress in real time and stops at the end; scrubbing sets it
+ * directly and pauses playback.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+
+export interface Timeline {
+  /**
+   * Current progress in [0, 1]
+   */
+  progress: number;
+
+  /**
+   * Whether the timeline is advancing
+   */
+  playing: boolean;
+
+  /**
+   * Starts playback, rewinding first if the end was reached
+   */
+  play: () => void;
+
+  /**
+   * Stops playback at the current progress
+   */
+  pause: () => void;
+
+  /**
+   * Jumps to a progress value and pauses
+   */
+  scrub: (progress: number) => void;
+}
+
+/**
+ * Creates a timeline that plays from 0 to 1 over a fixed duration.
+ *
+ * @param seconds - Duration of a full play-through
+ * @param initial - Starting progress
+ */
+export function useTimeline(seconds: number, initial = 0): Timeline {
+  const [progress, setProgress] = useState(initial);
+  const [playing, setPlaying] = useState(false);
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const dt = (now - last) / 1000;
+      last = now;
+      setProgress(p => {
+        const next = Math.min(1, p + dt / seconds);
+        if (next >= 1) setPlaying(false);
+        return next;
+      });
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing, seconds]);
+
+  const play = useCallback(() => {
+    setProgress(p => (p >= 1 ? 0 : p));
+    setPlaying(true);
+  }, []);
+
+  const pause = useCallback(() => setPlaying(false), []);
+
+  const scrub = useCallback((value: number) => {
+    setPlaying(false);
+    setProgress(Math.max(0, Math.min(1, value)));
+  }, []);
+
+  return { progress, playing, play, pause, scrub };
+}
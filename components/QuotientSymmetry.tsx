@@ -3,10 +3,30 @@ import React, { useState, useMemo, useRef, useCallback, useEffect } from 'react'
 import { Canvas, ThreeEvent, useFrame, useThree } from '@react-three/fiber';
 import { PerspectiveCamera, Center, Environment, OrbitControls, Edges } from '@react-three/drei';
 import * as THREE from 'three';
-import { Vec3, Mesh, makeShapeMesh, ShapeId } from '../core';
+import { Vec3, Mesh, makeShapeMesh, ShapeId, GroupId, makeQuotientGroup, computeFundamentalDomain, ImmersionId, DiskProjection, buildQuotientComplex, quotientCells, computeHomology, orientMesh, orientationDoubleCover, parityWalk, parityToString, lineClassOf, matVecMul, classOf, ProjectiveMap, ProjectiveCone, projectiveFromPoints, interpolateProjective, roundCone, mapCone, QuotientClass, ProjectiveLine, join, meet, sameLine, classEquals, polarLine, poleOf, parsePolynomial, extractCurve, componentsInCone, formatPolynomial, vertexDirections, parseScalarField, evenPart, validateFieldSymmetry, HarmonicSpectrum as Spectrum, sampleField, projectOntoHarmonics, reconstructHarmonics, oddEnergyFraction, zeroOddDegrees, AxialFormat, AngleUnit, parseAxialData, pointInQuotientCone } from '../core';
 import { AntipodalColorPicker } from '../app/ui/AntipodalColorPicker';
-import { getAntipodalColor } from '../app/ui/colorUtils';
+import { getAntipodalColor, divergingColor } from '../app/ui/colorUtils';
 import { FiberBundles } from '../app/rendering/FiberBundle';
+import { FundamentalDomainView } from '../app/rendering/FundamentalDomain';
+import { ImmersionModel } from '../app/rendering/ImmersionModel';
+import { QuotientComplexView, type ComplexTarget } from '../app/rendering/QuotientComplexView';
+import { GluingAnimation } from '../app/rendering/GluingAnimation';
+import { DiskModel } from '../app/rendering/DiskModel';
+import { PolygonModel } from '../app/rendering/PolygonModel';
+import { FaceCycle } from '../app/rendering/FaceCycle';
+import { ParityWalkMarker } from '../app/rendering/ParityWalkMarker';
+import { ProjectiveLineView } from '../app/rendering/ProjectiveLineView';
+import { ProjectiveConeView } from '../app/rendering/ProjectiveConeView';
+import { IncidenceView } from '../app/rendering/IncidenceView';
+import { AffineChartsView } from '../app/rendering/AffineChartsView';
+import { AlgebraicCurveView } from '../app/rendering/AlgebraicCurveView';
+import { ScalarFieldView } from '../app/rendering/ScalarFieldView';
+import { AxialSamplesView } from '../app/rendering/AxialSamplesView';
+import { useTimeline } from '../app/ui/useTimeline';
+import { SurfaceClassifier } from '../app/ui/SurfaceClassifier';
+import { FanoPlane } from '../app/ui/FanoPlane';
+import { HarmonicSpectrum } from '../app/ui/HarmonicSpectrum';
+import { AxialDataImporter } from '../app/ui/AxialDataImporter';
 import { updatePositionFromWASD, type WASDState } from '../app/ui/sphericalNavigation';
 import { Link } from 'react-router-dom';
 
@@ -14,6 +34,102 @@ import { Link } from 'react-router-dom';
 const THEME_DARK = "#2D3436";
 const INACTIVE_GRAY = "#E2E8F0";
 
+// Shapes lying in the xy-plane, whose quotient is ℝP¹ rather than ℝP²
+const PLANAR_SHAPES: ShapeId[] = ['circle', 'disk', 'triangle', 'square'];
+
+// --- Quotient Panel Models ---
+type QuotientModel = 'cover' | 'gluing' | 'incidence' | GroupId | ImmersionId | ComplexModel;
+
+const IMMERSION_NAMES: Record<ImmersionId, string> = {
+  boy: "Boy Surface",
+  crosscap: "Cross-Cap",
+  roman: "Roman Surface"
+};
+
+const isImmersion = (model: QuotientModel): model is ImmersionId => model in IMMERSION_NAMES;
+
+// The base geometry divided by v ≡ −v, drawn on a model of ℝP²
+type ComplexModel = 'complex-hemisphere' | 'complex-boy';
+
+const COMPLEX_TARGETS: Record<ComplexModel, ComplexTarget> = {
+  'complex-hemisphere': 'hemisphere',
+  'complex-boy': 'boy'
+};
+
+const isComplexModel = (model: QuotientModel): model is ComplexModel => model in COMPLEX_TARGETS;
+
+// Mesh detail of the quotient complex, coarse enough to see its triangles
+const COMPLEX_DETAIL = 12;
+
+// Points placed on the incidence model; the oldest is dropped past the limit
+const MAX_INCIDENCE_POINTS = 6;
+
+// A square in the chart y = 1: opposite sides are parallel and meet on the rim
+const PARALLEL_SQUARE: Vec3[] = [[-0.5, 1, -0.5], [0.5, 1, -0.5], [0.5, 1, 0.5], [-0.5, 1, 0.5]];
+
+// Flat models shown in the inset: the disk in either projection, the square abab, or the three affine charts
+type FlatModel = DiskProjection | 'square' | 'charts';
+
+// Color of the orientation-reversing face loop
+const W1_CYCLE_COLOR = "#e11d48";
+
+// Distance of the orientation double cover sheets from the surface
+const COVER_OFFSET = 0.03;
+
+// Duration of the hemisphere-to-cross-cap gluing animation
+const GLUING_SECONDS = 6;
+
+// Projective maps applied to the selection, each reached from the identity over a few seconds
+type ProjectivePreset = 'identity' | 'stretch' | 'shear' | 'perspective' | 'fourPoint';
+
+const PROJECTIVE_PRESETS: Record<ProjectivePreset, { label: string; map: ProjectiveMap }> = {
+  identity: { label: 'Identity', map: [1, 0, 0, 0, 1, 0, 0, 0, 1] },
+  stretch: { label: 'Stretch diag(2, 1, ½)', map: [2, 0, 0, 0, 1, 0, 0, 0, 0.5] },
+  shear: { label: 'Shear', map: [1, 0.8, 0, 0, 1, 0, 0, 0, 1] },
+  perspective: { label: 'Perspective', map: [1, 0, 0, 0, 1, 0, 0.6, 0.3, 1] },
+  // The standard frame sent to a skewed quadrilateral
+  fourPoint: {
+    label: 'Four-Point Map',
+    map: projectiveFromPoints(
+      [[1, 0, 0], [0, 1, 0], [0, 0, 1], [1, 1, 1]],
+      [[1, 0, 0], [0, 1, 0], [0.4, 0.3, 1], [1.5, 1, 1]]
+    )
+  }
+};
+const PROJECTIVE_SECONDS = 3;
+
+// Shapes with a core loop to carry a frame around, and the duration of one lap
+const PARITY_WALK_SHAPES: ShapeId[] = ['torus', 'mobius', 'klein'];
+const PARITY_WALK_SECONDS = 5;
+
+// Algebraic curves drawn on the sphere, written for the chart y = 1 at the top of the hemisphere
+const CURVE_PRESETS = [
+  { label: 'None', text: '' },
+  { label: 'Line', text: 'x + z - 0.5y' },
+  { label: 'Conic', text: 'x^2 + z^2 - 0.5y^2' },
+  { label: 'Elliptic Cubic', text: 'z^2 y - x^3 + x y^2' },
+  { label: 'Harnack Quartic (4 Ovals)', text: '(x^2 + 4z^2 - y^2)(4x^2 + z^2 - y^2) + 0.05y^4' },
+  { label: 'Nested Quartic', text: '(x^2 + 4z^2 - y^2)(4x^2 + z^2 - y^2) - 0.05y^4' }
+];
+
+// Sphere mesh detail for extracting curves
+const CURVE_DETAIL = 96;
+
+// Scalar fields painted on the object, from even through mixed to odd
+const FIELD_PRESETS = [
+  { label: 'xy', text: 'xy' },
+  { label: 'x² + ½z', text: 'x^2 + 0.5z' },
+  { label: 'z', text: 'z' },
+  { label: 'Waves', text: 'sin(4x) + cos(3yz)' }
+];
+
+// Sphere on which a field is sampled, tested for f(u) = f(−u), scaled and expanded in harmonics
+const FIELD_MESH = makeShapeMesh('sphere', 32);
+const FIELD_SAMPLES = vertexDirections(FIELD_MESH);
+
+// Largest spherical harmonic degree in a field's spectrum
+const HARMONIC_DEGREE = 8;
+
 // --- Assets: High-Fidelity Scientific Icons ---
 const Icon = {
   Home: () => (
@@ -118,6 +234,8 @@ const ObjectMesh = ({
   angle,
   uColor,
   negUColor,
+  image,
+  fieldColors,
   onUpdate
 }: {
   meshData: Mesh,
@@ -125,6 +243,10 @@ const ObjectMesh = ({
   angle: number,
   uColor: string,
   negUColor: string,
+  // Selection moved by a projective map, replacing the round cone
+  image?: { cone: ProjectiveCone, marker: Vec3 } | null,
+  // Per-vertex RGB of a painted scalar field, replacing the inactive gray
+  fieldColors?: Float32Array | null,
   onUpdate?: (dir: Vec3) => void
 }) => {
   const materialRef = useRef<THREE.ShaderMaterial>(null);
@@ -132,10 +254,21 @@ const ObjectMesh = ({
   const { geometry } = useMemo(() => {
     const g = new THREE.BufferGeometry();
     g.setAttribute('position', new THREE.BufferAttribute(new Float32Array(meshData.vertices.flat()), 3));
+    g.setAttribute('fieldColor', new THREE.BufferAttribute(new Float32Array(meshData.vertices.length * 3), 3));
     g.setIndex(meshData.indices);
     g.computeVertexNormals();
     return { geometry: g };
   }, [meshData]);
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  // Field colors are written into the existing attribute rather than a new geometry
+  useEffect(() => {
+    const attribute = geometry.getAttribute('fieldColor') as THREE.BufferAttribute;
+    const colors = attribute.array as Float32Array;
+    if (fieldColors && fieldColors.length === colors.length) colors.set(fieldColors);
+    else colors.fill(0);
+    attribute.needsUpdate = true;
+  }, [geometry, fieldColors]);
 
   useFrame(() => {
     if (materialRef.current) {
@@ -143,6 +276,15 @@ const ObjectMesh = ({
       materialRef.current.uniforms.uAperture.value = angle;
       materialRef.current.uniforms.uColorU.value.set(uColor);
       materialRef.current.uniforms.uColorNegU.value.set(negUColor);
+      materialRef.current.uniforms.uUseForm.value = image ? 1 : 0;
+      materialRef.current.uniforms.uUseField.value = fieldColors ? 1 : 0;
+      if (image) {
+        materialRef.current.uniforms.uForm.value.set(...image.cone.form);
+        // The axis of the sheet holding the image of u
+        const { center } = image.cone;
+        const axis = Vec3.dot(center, image.marker) >= 0 ? center : Vec3.neg(center);
+        materialRef.current.uniforms.uCenter.value.set(...axis);
+      }
     }
   });
 
@@ -153,13 +295,20 @@ const ObjectMesh = ({
       uColorU: { value: new THREE.Color(uColor) },
       uColorNegU: { value: new THREE.Color(negUColor) },
       uInactiveColor: { value: new THREE.Color(INACTIVE_GRAY) },
+      uUseForm: { value: 0 },
+      uForm: { value: new THREE.Matrix3() },
+      uCenter: { value: new THREE.Vector3(0, 1, 0) },
+      uUseField: { value: 0 },
     },
     vertexShader: `
+      attribute vec3 fieldColor;
       varying vec3 vNormal;
       varying vec3 vPosition;
+      varying vec3 vFieldColor;
       void main() {
         vNormal = normalize(normal);
         vPosition = position;
+        vFieldColor = fieldColor;
         gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
       }
     `,
@@ -169,8 +318,13 @@ const ObjectMesh = ({
       uniform vec3 uColorU;
       uniform vec3 uColorNegU;
       uniform vec3 uInactiveColor;
+      uniform float uUseForm;
+      uniform mat3 uForm;
+      uniform vec3 uCenter;
+      uniform float uUseField;
       varying vec3 vNormal;
       varying vec3 vPosition;
+      varying vec3 vFieldColor;
 
       void main() {
         vec3 n = normalize(vNormal);
@@ -186,7 +340,16 @@ const ObjectMesh = ({
         float maskU = smoothstep(cosAperture - edgeWidth, cosAperture + edgeWidth, dotU);
         float maskNegU = smoothstep(cosAperture - edgeWidth, cosAperture + edgeWidth, dotNegU);
 
-        vec3 color = mix(uInactiveColor, uColorU, maskU);
+        // Image of the cone under a projective map: the directions with xᵀQx ≥ 0
+        if (uUseForm > 0.5) {
+          float inside = smoothstep(-edgeWidth, edgeWidth, dot(posDir, uForm * posDir));
+          float side = step(0.0, dot(posDir, uCenter));
+          maskU = inside * side;
+          maskNegU = inside * (1.0 - side);
+        }
+
+        vec3 base = mix(uInactiveColor, vFieldColor, uUseField);
+        vec3 color = mix(base, uColorU, maskU);
         color = mix(color, uColorNegU, maskNegU);
 
         // Subtle Lambertian shading for depth
@@ -251,6 +414,7 @@ const SelectorInstrument = ({
   angle,
   uColor,
   negUColor,
+  image,
   onUpdate,
   driveMode
 }: {
@@ -258,6 +422,7 @@ const SelectorInstrument = ({
   angle: number,
   uColor: string,
   negUColor: string,
+  image?: { cone: ProjectiveCone, marker: Vec3 } | null,
   onUpdate: (dir: Vec3) => void;
   driveMode: boolean;
 }) => {
@@ -279,7 +444,11 @@ const SelectorInstrument = ({
         <meshBasicMaterial transparent opacity={0} />
       </mesh>
 
-      <IdentificationCones direction={direction} angle={angle} uColor={uColor} negUColor={negUColor} />
+      {image ? (
+        <ProjectiveConeView cone={image.cone} marker={image.marker} uColor={uColor} negUColor={negUColor} />
+      ) : (
+        <IdentificationCones direction={direction} angle={angle} uColor={uColor} negUColor={negUColor} />
+      )}
 
       {/* Visual Sphere Shell */}
       <mesh renderOrder={50}>
@@ -338,7 +507,7 @@ interface TelemetryEntry {
   desc: string;
 }
 
-const AnalyticsView = ({ history, fiberCount }: { history: TelemetryEntry[], fiberCount: number }) => {
+const AnalyticsView = ({ history, fiberCount, oddEnergy }: { history: TelemetryEntry[], fiberCount: number, oddEnergy: number | null }) => {
   const [infoGain, setInfoGain] = useState(14.8);
   const [entropy, setEntropy] = useState(0.42);
 
@@ -359,7 +528,7 @@ const AnalyticsView = ({ history, fiberCount }: { history: TelemetryEntry[], fib
           <h2 className="text-xl font-bold text-slate-900 tracking-tight">Operational Telemetry</h2>
         </div>
 
-        <div className="grid grid-cols-3 gap-6 mb-12">
+        <div className="grid grid-cols-4 gap-6 mb-12">
           <div className="p-6 border border-slate-200 rounded-xl bg-slate-50/30 text-left">
             <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest block mb-2">Information Gain</span>
             <div className="flex items-baseline gap-2">
@@ -383,6 +552,14 @@ const AnalyticsView = ({ history, fiberCount }: { history: TelemetryEntry[], fib
               <span className="text-[10px] font-mono font-bold text-blue-600">Active</span>
             </div>
           </div>
+
+          <div className="p-6 border border-slate-200 rounded-xl bg-slate-50/30 text-left">
+            <span className="text-[10px] font-bold text-slate-400 uppercase tracking-widest block mb-2">Odd-Degree Energy</span>
+            <div className="flex items-baseline gap-2">
+              <span className="text-2xl font-bold text-slate-900">{oddEnergy === null ? '—' : `${(100 * oddEnergy).toFixed(1)}%`}</span>
+              <span className="text-[10px] font-mono font-bold text-blue-600">{oddEnergy === null ? 'No field' : 'Lost on ℝP²'}</span>
+            </div>
+          </div>
         </div>
 
         <div className="border border-slate-200 rounded-xl overflow-hidden shadow-sm">
@@ -408,111 +585,148 @@ const AnalyticsView = ({ history, fiberCount }: { history: TelemetryEntry[], fib
 };
 
 // --- View 3: Library (Theory & Abstract) ---
-const LibraryView = () => (
-  <div className="flex-1 bg-white p-12 overflow-y-auto text-left">
-    <article className="max-w-3xl mx-auto">
-      <h1 className="text-4xl font-black tracking-tighter text-slate-900 mb-2">SEAM-VIZ Protocol</h1>
-      <p className="text-base font-serif text-slate-500 italic mb-10 border-b border-slate-100 pb-10">
-        Operationalizing Quotient Geometry Through Commutativity and Action
-      </p>
-
-      <div className="space-y-8 text-slate-700 leading-relaxed text-base">
-        <section>
-          <h2 className="text-2xl font-bold text-slate-900 mb-4">The Pedagogical Problem</h2>
-          <p className="mb-4">
-            Current pedagogy on quotient spaces and the real projective plane ℝP² relies on static diagrams,
-            failing to operationalize how identification affects action and observation. Students learn the
-            formal construction but cannot <em>interact</em> with the quotient map as a computational primitive.
-          </p>
-          <div className="p-8 bg-slate-50 rounded-2xl border-l-4 border-slate-900 italic text-slate-600">
-            "The identification x ≡ −x simultaneously liberates computation and enforces observational symmetry."
-          </div>
-        </section>
-
-        <section>
-          <h2 className="text-2xl font-bold text-slate-900 mb-4">Information-Theoretic Framing</h2>
-          <p className="mb-4">
-            We present <strong>SEAM-VIZ</strong>, an interactive instrument that treats the quotient map
-            π: S² → ℝP² as a computational transform exploiting commutativity rather than a geometric construction.
-            The real projective plane emerges not from gluing, but from declaring an equivalence relation on
-            the direction space.
-          </p>
-          <p className="mb-4">
-            When we identify antipodal points u ≡ −u, we're making an <strong>information-theoretic commitment</strong>:
-            orientation parity becomes unobservable. The quotient space ℝP² is the space of equivalence classes [u],
-            where each class contains exactly two representatives that differ by sign.
-          </p>
-        </section>
-
-        <section>
-          <h2 className="text-2xl font-bold text-slate-900 mb-4">Topology and Orientation Parity</h2>
-          <p className="mb-4">
-            The real projective plane ℝP² is <strong>non-orientable</strong>. This isn't a defect—it's the
-            inevitable consequence of the antipodal identification. You cannot consistently assign "inside" and
-            "outside" or define a continuous normal vector field across the entire space.
-          </p>
-          <div className="p-6 bg-blue-50 rounded-xl border border-blue-200 mb-4">
-            <h3 className="text-lg font-bold text-blue-900 mb-2">Key Topological Properties of ℝP²</h3>
-            <ul className="space-y-2 text-sm">
-              <li><strong>• Non-orientable:</strong> Cannot be embedded in ℝ³ without self-intersection</li>
-              <li><strong>• Compact:</strong> Closed and bounded, with no boundary</li>
-              <li><strong>• Fundamental group:</strong> π₁(ℝP²) ≅ ℤ₂ (detects the double cover)</li>
-              <li><strong>• Euler characteristic:</strong> χ(ℝP²) = 1</li>
-            </ul>
-          </div>
-          <p>
-            The sphere S² is the <strong>universal cover</strong> of ℝP², with covering map π: S² → ℝP²
-            defined by π(u) = π(−u) = [u]. This is a 2:1 covering, meaning each point in ℝP² has exactly
-            two preimages in S².
-          </p>
-        </section>
-
-        <section>
-          <h2 className="text-2xl font-bold text-slate-900 mb-4">The k* Constant and Information Geometry</h2>
-          <p className="mb-4">
-            From Minimum Description Length theory and Kolmogorov complexity, we derive a candidate universal constant:
-          </p>
-          <div className="p-6 bg-amber-50 rounded-xl border border-amber-200 mb-4 text-center">
-            <p className="text-2xl font-mono font-bold text-amber-900">k* = 1/(2 ln 2) ≈ 0.721347520...</p>
-            <p className="text-sm text-amber-700 mt-2">The exchange rate between questions and answers</p>
-          </div>
-          <p className="mb-4">
-            This constant governs the <strong>information geometry</strong> of the quotient operation. When we
-            collapse u and −u into a single equivalence class, we're trading one bit of orientation information
-            for topological structure. The constant k* quantifies this exchange.
-          </p>
-        </section>
-
-        <section>
-          <h2 className="text-2xl font-bold text-slate-900 mb-4">Drive Mode: Navigating the Quotient</h2>
-          <p className="mb-4">
-            The <strong>Drive Mode</strong> allows continuous navigation through the quotient space, making
-            the fiber bundle structure π⁻¹([u]) visible as you traverse ℝP². Each position in the quotient
-            space corresponds to a fiber of two antipodal points in S².
-          </p>
-          <p>
-            As you drive, fiber bundles are drawn in your wake, creating a <strong>visual trace</strong> of
-            the covering map. This operational approach transforms an abstract topological concept into an
-            interactive, explorable mathematical object.
-          </p>
-        </section>
-
-        <section>
-          <h2 className="text-2xl font-bold text-slate-900 mb-4">Pedagogical Philosophy</h2>
-          <p className="mb-4">
-            SEAM-VIZ embodies a philosophy of <strong>honest mathematics</strong>: we don't hide the
-            complexity, but we make it tractable through interaction. The projective plane isn't "simplified"
-            into misleading diagrams—instead, we provide an instrument that reveals its true structure.
-          </p>
-          <div className="p-8 bg-slate-50 rounded-2xl border-l-4 border-slate-900 italic text-slate-600">
-            "You cannot understand a quotient space by looking at it. You must <em>act</em> on it,
-            query it, and observe how the identification constrains your observations."
-          </div>
-        </section>
-      </div>
-    </article>
-  </div>
-);
+const LibraryView = () => {
+  // Homology of the sphere mesh modulo ±1, computed rather than quoted
+  const rp2Homology = useMemo(() => {
+    const cells = quotientCells(buildQuotientComplex(makeShapeMesh('sphere', COMPLEX_DETAIL)));
+    return { z2: computeHomology(cells, 'Z2').betti, q: computeHomology(cells, 'Q').betti };
+  }, []);
+
+  return (
+    <div className="flex-1 bg-white p-12 overflow-y-auto text-left">
+      <article className="max-w-3xl mx-auto">
+        <h1 className="text-4xl font-black tracking-tighter text-slate-900 mb-2">SEAM-VIZ Protocol</h1>
+        <p className="text-base font-serif text-slate-500 italic mb-10 border-b border-slate-100 pb-10">
+          Operationalizing Quotient Geometry Through Commutativity and Action
+        </p>
+
+        <div className="space-y-8 text-slate-700 leading-relaxed text-base">
+          <section>
+            <h2 className="text-2xl font-bold text-slate-900 mb-4">The Pedagogical Problem</h2>
+            <p className="mb-4">
+              Current pedagogy on quotient spaces and the real projective plane ℝP² relies on static diagrams,
+              failing to operationalize how identification affects action and observation. Students learn the
+              formal construction but cannot <em>interact</em> with the quotient map as a computational primitive.
+            </p>
+            <div className="p-8 bg-slate-50 rounded-2xl border-l-4 border-slate-900 italic text-slate-600">
+              "The identification x ≡ −x simultaneously liberates computation and enforces observational symmetry."
+            </div>
+          </section>
+
+          <section>
+            <h2 className="text-2xl font-bold text-slate-900 mb-4">Information-Theoretic Framing</h2>
+            <p className="mb-4">
+              We present <strong>SEAM-VIZ</strong>, an interactive instrument that treats the quotient map
+              π: S² → ℝP² as a computational transform exploiting commutativity rather than a geometric construction.
+              The real projective plane emerges not from gluing, but from declaring an equivalence relation on
+              the direction space.
+            </p>
+            <p className="mb-4">
+              When we identify antipodal points u ≡ −u, we're making an <strong>information-theoretic commitment</strong>:
+              orientation parity becomes unobservable. The quotient space ℝP² is the space of equivalence classes [u],
+              where each class contains exactly two representatives that differ by sign.
+            </p>
+          </section>
+
+          <section>
+            <h2 className="text-2xl font-bold text-slate-900 mb-4">Topology and Orientation Parity</h2>
+            <p className="mb-4">
+              The real projective plane ℝP² is <strong>non-orientable</strong>. This isn't a defect—it's the
+              inevitable consequence of the antipodal identification. You cannot consistently assign "inside" and
+              "outside" or define a continuous normal vector field across the entire space.
+            </p>
+            <div className="p-6 bg-blue-50 rounded-xl border border-blue-200 mb-4">
+              <h3 className="text-lg font-bold text-blue-900 mb-2">Key Topological Properties of ℝP²</h3>
+              <ul className="space-y-2 text-sm">
+                <li><strong>• Non-orientable:</strong> Cannot be embedded in ℝ³ without self-intersection</li>
+                <li><strong>• Compact:</strong> Closed and bounded, with no boundary</li>
+                <li><strong>• Fundamental group:</strong> π₁(ℝP²) ≅ ℤ₂ (detects the double cover)</li>
+                <li>
+                  <strong>• Homology (computed):</strong> the sphere mesh modulo ±1 has Betti numbers{' '}
+                  {rp2Homology.z2.join(', ')} over ℤ₂ and {rp2Homology.q.join(', ')} over ℚ. H₁ is the
+                  abelianization of π₁, and H₁(ℝP²; ℤ₂) = ℤ₂ while H₁(ℝP²; ℚ) = 0: the loop is non-trivial,
+                  but twice it bounds
+                </li>
+                <li><strong>• Euler characteristic:</strong> χ(ℝP²) = 1</li>
+              </ul>
+            </div>
+            <p>
+              The sphere S² is the <strong>universal cover</strong> of ℝP², with covering map π: S² → ℝP²
+              defined by π(u) = π(−u) = [u]. This is a 2:1 covering, meaning each point in ℝP² has exactly
+              two preimages in S².
+            </p>
+          </section>
+
+          <section>
+            <h2 className="text-2xl font-bold text-slate-900 mb-4">Tool: Classifying Glued Surfaces</h2>
+            <p className="mb-4">
+              Every closed surface is a polygon with its edges glued in pairs. The edge word abab is the square
+              model of ℝP²: each boundary point is glued to its antipode. The classification theorem says the
+              Euler characteristic and orientability decide the rest: an orientable surface is a sphere with
+              g handles, and a non-orientable one is a connected sum of k copies of ℝP².
+            </p>
+            <SurfaceClassifier />
+          </section>
+
+          <section>
+            <h2 className="text-2xl font-bold text-slate-900 mb-4">Tool: Projective Planes over Finite Fields</h2>
+            <p className="mb-4">
+              The construction of ℝP² never uses anything special about ℝ. Over any field, a point is a nonzero
+              vector [x : y : z] up to a nonzero scalar and a line is the set of points with ax + by + cz = 0.
+              Over the field GF(2) = {'{0, 1}'} there are seven nonzero vectors and no scalars but 1, so seven
+              points; the line x + y + z = 0 is drawn as a circle only because the picture lives in the real plane.
+              Any two points still lie on exactly one line, and any two lines still meet in exactly one point.
+            </p>
+            <FanoPlane />
+          </section>
+
+          <section>
+            <h2 className="text-2xl font-bold text-slate-900 mb-4">The k* Constant and Information Geometry</h2>
+            <p className="mb-4">
+              From Minimum Description Length theory and Kolmogorov complexity, we derive a candidate universal constant:
+            </p>
+            <div className="p-6 bg-amber-50 rounded-xl border border-amber-200 mb-4 text-center">
+              <p className="text-2xl font-mono font-bold text-amber-900">k* = 1/(2 ln 2) ≈ 0.721347520...</p>
+              <p className="text-sm text-amber-700 mt-2">The exchange rate between questions and answers</p>
+            </div>
+            <p className="mb-4">
+              This constant governs the <strong>information geometry</strong> of the quotient operation. When we
+              collapse u and −u into a single equivalence class, we're trading one bit of orientation information
+              for topological structure. The constant k* quantifies this exchange.
+            </p>
+          </section>
+
+          <section>
+            <h2 className="text-2xl font-bold text-slate-900 mb-4">Drive Mode: Navigating the Quotient</h2>
+            <p className="mb-4">
+              The <strong>Drive Mode</strong> allows continuous navigation through the quotient space, making
+              the fiber bundle structure π⁻¹([u]) visible as you traverse ℝP². Each position in the quotient
+              space corresponds to a fiber of two antipodal points in S².
+            </p>
+            <p>
+              As you drive, fiber bundles are drawn in your wake, creating a <strong>visual trace</strong> of
+              the covering map. This operational approach transforms an abstract topological concept into an
+              interactive, explorable mathematical object.
+            </p>
+          </section>
+
+          <section>
+            <h2 className="text-2xl font-bold text-slate-900 mb-4">Pedagogical Philosophy</h2>
+            <p className="mb-4">
+              SEAM-VIZ embodies a philosophy of <strong>honest mathematics</strong>: we don't hide the
+              complexity, but we make it tractable through interaction. The projective plane isn't "simplified"
+              into misleading diagrams—instead, we provide an instrument that reveals its true structure.
+            </p>
+            <div className="p-8 bg-slate-50 rounded-2xl border-l-4 border-slate-900 italic text-slate-600">
+              "You cannot understand a quotient space by looking at it. You must <em>act</em> on it,
+              query it, and observe how the identification constrains your observations."
+            </div>
+          </section>
+        </div>
+      </article>
+    </div>
+  );
+};
 
 const QuotientSymmetry: React.FC = () => {
   // Page navigation state
@@ -523,6 +737,41 @@ const QuotientSymmetry: React.FC = () => {
   const [currentDir, setCurrentDir] = useState<Vec3>([0, 1, 0]);
   const [uColor, setUColor] = useState("#00e5bc");
 
+  // Quotient panel model: the double cover sphere, a fundamental domain of S²/G,
+  // an immersion of ℝP² in ℝ³, or the hemisphere being glued into a cross-cap
+  const [quotientModel, setQuotientModel] = useState<QuotientModel>('cover');
+  const gluing = useTimeline(GLUING_SECONDS);
+
+  // Projective map applied to the selection, played in from the identity
+  const [projectivePreset, setProjectivePreset] = useState<ProjectivePreset>('identity');
+  const projectiveTimeline = useTimeline(PROJECTIVE_SECONDS);
+
+  // Incidence model: placed points, and whether to show their duals instead
+  const [incidencePoints, setIncidencePoints] = useState<Vec3[]>(PARALLEL_SQUARE);
+  const [incidenceDual, setIncidenceDual] = useState(false);
+
+  // Algebraic curve as typed, empty for none
+  const [curveText, setCurveText] = useState('');
+  const [axialText, setAxialText] = useState('');
+  const [axialFormat, setAxialFormat] = useState<AxialFormat>('trend-plunge');
+  const [axialUnit, setAxialUnit] = useState<AngleUnit>('degrees');
+  const [showAxialData, setShowAxialData] = useState(false);
+
+  // Scalar field f(x, y, z) painted on the object, empty for none
+  const [fieldText, setFieldText] = useState('');
+  const [oddZeroed, setOddZeroed] = useState(false);
+
+  // Parity walk: a frame carried around the core loop of the base geometry
+  const [parityWalkActive, setParityWalkActive] = useState(false);
+  const walkTimeline = useTimeline(PARITY_WALK_SECONDS);
+  const scrubWalk = walkTimeline.scrub;
+
+  // A new shape starts without a walk, so no verdict is shown until it is run
+  useEffect(() => {
+    setParityWalkActive(false);
+    scrubWalk(0);
+  }, [shapeId, scrubWalk]);
+
   // Antipodal color is always computed from uColor
   const negUColor = useMemo(() => getAntipodalColor(uColor), [uColor]);
 
@@ -543,6 +792,15 @@ const QuotientSymmetry: React.FC = () => {
     timestamp: number;
   }>>([]);
 
+  // Drive-mode traces, one path per drive, drawn on the disk model
+  const [driveTraces, setDriveTraces] = useState<Vec3[][]>([]);
+
+  // Flat model inset: disk projection, square or affine charts, or null when hidden
+  const [flatModel, setFlatModel] = useState<FlatModel | null>(null);
+
+  // Object panel shows the orientation double cover of the base geometry instead of the geometry
+  const [showOrientationCover, setShowOrientationCover] = useState(false);
+
   // Telemetry history for Analytics view
   const [telemetryHistory, setTelemetryHistory] = useState<TelemetryEntry[]>([]);
 
@@ -607,8 +865,9 @@ const QuotientSymmetry: React.FC = () => {
       setDriveMode(true);
       addTelemetry("DRIVE_START", `Initialized drive mode at direction [${dir.map(v => v.toFixed(2)).join(', ')}]`);
 
-      // Create initial fiber bundle
+      // Create initial fiber bundle and start a new trace
       const negDir: Vec3 = [-dir[0], -dir[1], -dir[2]];
+      setDriveTraces(prev => [...prev, [dir]]);
       setFiberBundles(prev => [
         ...prev,
         {
@@ -621,9 +880,16 @@ const QuotientSymmetry: React.FC = () => {
     }
   }, [driveMode, uColor, negUColor, addTelemetry]);
 
+  // Clicks on the domain, immersion, complex, gluing and disk models just move the selection
+  const handleModelClick = useCallback((dir: Vec3) => {
+    setCurrentDir(dir);
+    addTelemetry("DIRECTION", `Updated direction to [${dir.map(v => v.toFixed(2)).join(', ')}]`);
+  }, [addTelemetry]);
+
   // Spawn fiber bundle during drive mode
   const spawnFiberBundle = useCallback((dir: Vec3) => {
     const negDir: Vec3 = [-dir[0], -dir[1], -dir[2]];
+    setDriveTraces(prev => (prev.length ? [...prev.slice(0, -1), [...prev[prev.length - 1], dir]] : [[dir]]));
     setFiberBundles(prev => [
       ...prev,
       {
@@ -637,10 +903,248 @@ const QuotientSymmetry: React.FC = () => {
 
   const meshData = useMemo(() => makeShapeMesh(shapeId, 64), [shapeId]);
 
-  const leftPanelTitle = useMemo(() => {
-    const planar = ["circle", "disk", "triangle", "square"];
-    return planar.includes(shapeId) ? "OBJECT IN ℝ² (embedded in ℝ³)" : "OBJECT IN ℝ³";
-  }, [shapeId]);
+  // Orientation of the base geometry, or why it is not a surface
+  const orientation = useMemo(() => {
+    try {
+      return { result: orientMesh(meshData), error: null };
+    } catch (e) {
+      return { result: null, error: (e as Error).message };
+    }
+  }, [meshData]);
+
+  const objectMesh = useMemo(
+    () => (showOrientationCover && orientation.result ? orientationDoubleCover(meshData, COVER_OFFSET) : meshData),
+    [showOrientationCover, orientation, meshData]
+  );
+
+  const walk = useMemo(() => (PARITY_WALK_SHAPES.includes(shapeId) ? parityWalk(shapeId) : null), [shapeId]);
+
+  const orientationCaption = useMemo(() => {
+    if (!orientation.result) return orientation.error;
+    if (showOrientationCover) return 'Orientation double cover: one sheet per side';
+    return orientation.result.orientable ? 'Orientable' : 'Non-orientable · red loop reverses orientation (w₁ ≠ 0)';
+  }, [orientation, showOrientationCover]);
+
+  const planar = PLANAR_SHAPES.includes(shapeId);
+
+  // The selection cone moved by the current projective map, or null for the round cone
+  const projective = useMemo(() => {
+    if (projectivePreset === 'identity' || planar) return { image: null, error: null };
+    try {
+      const map = interpolateProjective(PROJECTIVE_PRESETS[projectivePreset].map, projectiveTimeline.progress);
+      return {
+        image: {
+          cone: mapCone(map, roundCone(classOf(currentDir), halfAngle)),
+          marker: matVecMul(map, currentDir)
+        },
+        error: null
+      };
+    } catch (e) {
+      return { image: null, error: (e as Error).message };
+    }
+  }, [projectivePreset, planar, projectiveTimeline.progress, currentDir, halfAngle]);
+  const projectiveImage = projective.image;
+
+  const immersion = isImmersion(quotientModel) ? quotientModel : null;
+
+  // Components of the algebraic curve, or why the text is not a homogeneous polynomial
+  const curve = useMemo(() => {
+    if (!curveText.trim()) return null;
+    try {
+      const polynomial = parsePolynomial(curveText);
+      return { polynomial, components: extractCurve(polynomial, makeShapeMesh('sphere', CURVE_DETAIL)), error: null };
+    } catch (e) {
+      return { polynomial: null, components: [], error: (e as Error).message };
+    }
+  }, [curveText]);
+
+  // The painted field with its even part, scale, symmetry residual and spectrum, or why it cannot be painted
+  const scalarField = useMemo(() => {
+    if (!fieldText.trim()) return null;
+    try {
+      const f = parseScalarField(fieldText);
+      const symmetry = validateFieldSymmetry(f, FIELD_SAMPLES);
+      const values = sampleField(f, FIELD_SAMPLES);
+      const scale = values.reduce((max, v) => Math.max(max, Math.abs(v)), 0);
+      const spectrum: Spectrum = projectOntoHarmonics(FIELD_MESH, values, HARMONIC_DEGREE);
+      return { f, even: evenPart(f), scale, symmetry, spectrum, oddEnergy: oddEnergyFraction(spectrum), error: null };
+    } catch (e) {
+      return { f: null, even: null, scale: 0, symmetry: null, spectrum: null, oddEnergy: null, error: (e as Error).message };
+    }
+  }, [fieldText]);
+
+  // The field at the direction of each object vertex, or its even-degree reconstruction with the odd degrees zeroed
+  const objectFieldColors = useMemo(() => {
+    if (!scalarField?.f) return null;
+    const { scale, spectrum } = scalarField;
+    const even = oddZeroed && spectrum ? zeroOddDegrees(spectrum) : null;
+    const f = even ? (u: Vec3) => reconstructHarmonics(even, u) : scalarField.f;
+    const colors = new Float32Array(objectMesh.vertices.length * 3);
+    vertexDirections(objectMesh).forEach((u, i) => {
+      const value = f(u);
+      colors.set(divergingColor(scale > 0 && Number.isFinite(value) ? value / scale : 0), 3 * i);
+    });
+    return colors;
+  }, [scalarField, objectMesh, oddZeroed]);
+
+  // Which components the selection cone meets
+  const curveHits = useMemo(
+    () => (curve ? curve.components.map(c => componentsInCone([c], classOf(currentDir), halfAngle) > 0) : []),
+    [curve, currentDir, halfAngle]
+  );
+
+  // Imported axes, one quotient class per readable row, or why the text cannot be read
+  const axialData = useMemo(() => {
+    if (!axialText.trim()) return null;
+    try {
+      return { dataset: parseAxialData(axialText, axialFormat, axialUnit), error: null };
+    } catch (e) {
+      return { dataset: null, error: (e as Error).message };
+    }
+  }, [axialText, axialFormat, axialUnit]);
+
+  // Which imported axes lie in the selection cone
+  const axialHits = useMemo(() => {
+    if (!axialData?.dataset) return [];
+    const center = classOf(currentDir);
+    return axialData.dataset.classes.map(c => pointInQuotientCone(c.canonical, center, halfAngle));
+  }, [axialData, currentDir, halfAngle]);
+
+  // Quotient complex of the base geometry with its H₁, or why it has none
+  const quotientComplex = useMemo(() => {
+    if (!isComplexModel(quotientModel)) return null;
+    try {
+      const complex = buildQuotientComplex(makeShapeMesh(shapeId, COMPLEX_DETAIL));
+      const cells = quotientCells(complex);
+      const homology = { z2: computeHomology(cells, 'Z2'), q: computeHomology(cells, 'Q') };
+      return { complex, homology, target: COMPLEX_TARGETS[quotientModel], error: null };
+    } catch (e) {
+      return { complex: null, homology: null, target: COMPLEX_TARGETS[quotientModel], error: (e as Error).message };
+    }
+  }, [quotientModel, shapeId]);
+
+  // Lines through each pair of placed points and the points where those lines meet
+  const incidence = useMemo(() => {
+    if (quotientModel !== 'incidence') return null;
+    const points = incidencePoints.map(classOf);
+    const lines: ProjectiveLine[] = [];
+    points.forEach((p, i) => points.slice(0, i).forEach(q => {
+      const l = join(p, q);
+      if (!lines.some(m => sameLine(l, m))) lines.push(l);
+    }));
+
+    // Distinct lines meet exactly once; collect where, beyond the placed points
+    let pairs = 0;
+    let atInfinity = 0;
+    const meets: QuotientClass[] = [];
+    lines.forEach((l, i) => lines.slice(0, i).forEach(m => {
+      const x = meet(l, m);
+      pairs++;
+      if (Math.abs(x.canonical[1]) < 1e-9) atInfinity++;
+      if (![...points, ...meets].some(c => classEquals(c, x))) meets.push(x);
+    }));
+    return { points, lines, meets, pairs, atInfinity };
+  }, [quotientModel, incidencePoints]);
+
+  // Places a point on the incidence model, ignoring repeats of a placed class
+  const handleIncidenceClick = useCallback((dir: Vec3) => {
+    const c = classOf(dir);
+    if (incidencePoints.some(p => classEquals(classOf(p), c))) return;
+    setIncidencePoints(prev => [...prev, dir].slice(-MAX_INCIDENCE_POINTS));
+    addTelemetry("INCIDENCE", `Placed point [${dir.map(v => v.toFixed(2)).join(', ')}]`);
+  }, [incidencePoints, addTelemetry]);
+
+  const quotientDomain = useMemo(() => {
+    if (quotientModel === 'cover' || quotientModel === 'gluing' || quotientModel === 'incidence' || isImmersion(quotientModel) || isComplexModel(quotientModel)) return null;
+    const group = makeQuotientGroup(quotientModel);
+    // Center the antipodal domain on +Y so it is the upper hemisphere
+    const domain = computeFundamentalDomain(group, quotientModel === 'antipodal' ? [0, 1, 0] : undefined);
+    return { group, domain };
+  }, [quotientModel]);
+
+  const quotientPanelTitle = useMemo(() => {
+    if (planar) {
+      const degrees = (lineClassOf(currentDir).angle * 180) / Math.PI;
+      return {
+        title: 'Projective Line (ℝP¹ ≅ S¹)',
+        caption: `Angle doubled: ${degrees.toFixed(0)}° ↦ ${(2 * degrees).toFixed(0)}°`
+      };
+    }
+    if (quotientDomain) {
+      return { title: `Fundamental Domain (S²/${quotientDomain.group.name})`, caption: 'Same-colored edges are glued' };
+    }
+    if (immersion) return { title: `${IMMERSION_NAMES[immersion]} (ℝP² in ℝ³)`, caption: 'Dark curves: self-intersection' };
+    if (quotientModel === 'gluing') return { title: 'Gluing u ≡ −u (Hemisphere → Cross-Cap)', caption: 'Chords join points to be glued' };
+    if (incidence) {
+      const { points, lines, pairs, atInfinity } = incidence;
+      return {
+        title: incidenceDual ? 'Dual Plane (Points ↔ Lines)' : 'Points and Lines (Join / Meet)',
+        caption: incidenceDual
+          ? `${points.length} polar lines · ${lines.length} poles of joins, one per pair of lines`
+          : `${points.length} points · ${lines.length} lines · each of ${pairs} line pairs meets once` +
+            (atInfinity ? ` · ${atInfinity} on the rim, at infinity` : '')
+      };
+    }
+    if (quotientComplex) {
+      const title = `Quotient Complex (${shapeId} / ±1 on ${quotientComplex.target === 'boy' ? 'Boy Surface' : 'Hemisphere'})`;
+      const { complex, homology } = quotientComplex;
+      if (!complex || !homology) return { title, caption: quotientComplex.error };
+      const { cover, quotient } = complex;
+      return {
+        title,
+        caption: `V − E + F: ${cover.vertices} − ${cover.edges} + ${cover.faces} = ${cover.eulerCharacteristic} → ` +
+          `${quotient.vertices} − ${quotient.edges} + ${quotient.faces} = ${quotient.eulerCharacteristic}` +
+          (complex.degenerate.length ? ` · ${complex.degenerate.length} degenerate triangles dropped` : '') +
+          ` · dim H₁ over ℤ₂ / ℚ: ${homology.z2.betti[1]} / ${homology.q.betti[1]}` +
+          (homology.z2.betti[1] ? ' (red: ℤ₂ generator)' : '')
+      };
+    }
+    if (projective.error) {
+      return {
+        title: `Quotient Manifold (ℝP²) · ${PROJECTIVE_PRESETS[projectivePreset].label}`,
+        caption: `Cannot map the cone: ${projective.error} · showing the round cone`
+      };
+    }
+    if (projectiveImage) {
+      const [major, minor] = projectiveImage.cone.halfAngles.map(a => ((a * 180) / Math.PI).toFixed(0));
+      return {
+        title: `Quotient Manifold (ℝP²) · ${PROJECTIVE_PRESETS[projectivePreset].label}`,
+        caption: `Image of the cone: half-angles ${major}° × ${minor}° · marker: image of u`
+      };
+    }
+    if (scalarField?.symmetry) {
+      const { symmetric, residual } = scalarField.symmetry;
+      return {
+        title: 'Quotient Manifold (ℝP²) · Even Part ½(f(u) + f(−u))',
+        caption: symmetric
+          ? 'f(u) = f(−u): the whole field descends'
+          : `Odd part dropped · residual max |f(u) − f(−u)| = ${residual.toFixed(3)}`
+      };
+    }
+    if (axialData?.dataset?.classes.length) {
+      const { classes, rows } = axialData.dataset;
+      const met = axialHits.filter(Boolean).length;
+      return {
+        title: `Quotient Manifold (ℝP²) · ${classes.length} Axes`,
+        caption: `${met} of ${classes.length} axes in the cone` +
+          (rows.length > classes.length ? ` · ${rows.length - classes.length} rows skipped` : '')
+      };
+    }
+    if (curve?.error) return { title: 'Quotient Manifold (ℝP²)', caption: curve.error };
+    if (curve?.polynomial) {
+      const { polynomial, components } = curve;
+      const ovals = components.filter(c => c.kind === 'oval').length;
+      const met = curveHits.filter(Boolean).length;
+      return {
+        title: `Quotient Manifold (ℝP²) · Degree-${polynomial.degree} Curve`,
+        caption: `${ovals} oval${ovals === 1 ? '' : 's'} · ${components.length - ovals} pseudo-line` +
+          `${components.length - ovals === 1 ? '' : 's'} · cone meets ${met} of ${components.length}`
+      };
+    }
+    return { title: 'Quotient Manifold (ℝP²)', caption: 'Map: π(x) ≡ π(−x)' };
+  }, [planar, currentDir, quotientDomain, immersion, quotientModel, incidence, incidenceDual, quotientComplex, shapeId, projective, projectivePreset, scalarField, axialData, axialHits, curve, curveHits]);
+
+  const leftPanelTitle = planar ? "OBJECT IN ℝ² (embedded in ℝ³)" : "OBJECT IN ℝ³";
 
   return (
     <div className="flex flex-col h-screen bg-white text-slate-800 font-sans antialiased">
@@ -700,7 +1204,94 @@ const QuotientSymmetry: React.FC = () => {
               <section className="flex-1 relative rounded-[2.5rem] bg-white/40 border border-white/50 overflow-hidden shadow-inner">
                 <div className="absolute top-8 left-10 z-10 pointer-events-none">
                   <h2 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.4em]">{leftPanelTitle}</h2>
-                  <p className="text-[8px] text-slate-300 mt-1">Double-Cover Space (S²)</p>
+                  <p className="text-[8px] text-slate-300 mt-1">Double-Cover Space ({planar ? 'S¹' : 'S²'})</p>
+                  <p className="text-[8px] text-slate-400 mt-1 font-bold">{orientationCaption}</p>
+                </div>
+                <button
+                  onClick={() => setShowOrientationCover(!showOrientationCover)}
+                  className={`absolute bottom-8 left-10 z-10 px-4 py-1.5 rounded-full text-[9px] font-black uppercase border transition-all ${showOrientationCover ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-700 border-slate-300 hover:border-slate-900'}`}
+                >
+                  Orientation Cover
+                </button>
+                {walk && (
+                  <div className="absolute bottom-8 left-52 z-10 flex items-center gap-3">
+                    <button
+                      onClick={() => {
+                        if (parityWalkActive) {
+                          setParityWalkActive(false);
+                          scrubWalk(0);
+                          addTelemetry("PARITY_WALK", `Stopped parity walk on ${shapeId}`);
+                        } else {
+                          setParityWalkActive(true);
+                          walkTimeline.play();
+                          addTelemetry("PARITY_WALK", `Started parity walk on ${shapeId}`);
+                        }
+                      }}
+                      className={`px-4 py-1.5 rounded-full text-[9px] font-black uppercase border transition-all ${parityWalkActive ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-700 border-slate-300 hover:border-slate-900'}`}
+                    >
+                      Parity Walk
+                    </button>
+                    {parityWalkActive && (
+                      <span className="text-[9px] font-mono font-bold text-slate-500">
+                        {walkTimeline.progress < 1
+                          ? `lap ${(walkTimeline.progress * 100).toFixed(0)}%`
+                          : `parity ${parityToString(walk.parity)} · frame ${walk.mirrored ? 'mirrored' : 'unchanged'}`}
+                      </span>
+                    )}
+                  </div>
+                )}
+                <div className="absolute bottom-8 right-8 z-10 bg-white/90 border border-slate-200 rounded-2xl shadow-sm p-3 flex flex-col gap-2 w-60">
+                  <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Scalar Field f(x, y, z)</span>
+                  <input
+                    value={fieldText}
+                    onChange={(e) => setFieldText(e.target.value)}
+                    placeholder="e.g. x^2 - yz"
+                    spellCheck={false}
+                    className={`bg-white border rounded-xl px-3 py-1.5 font-mono text-[11px] outline-none transition-all ${scalarField?.error ? 'border-rose-400' : 'border-slate-200 focus:border-slate-500'}`}
+                  />
+                  <div className="flex flex-wrap gap-1">
+                    {[...FIELD_PRESETS, { label: 'Clear', text: '' }].map(preset => (
+                      <button
+                        key={preset.label}
+                        onClick={() => {
+                          setFieldText(preset.text);
+                          addTelemetry("FIELD", `Painted field ${preset.text || 'none'}`);
+                        }}
+                        className={`px-2 py-0.5 rounded-full text-[8px] font-black border transition-all ${preset.text && fieldText === preset.text ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-700 border-slate-300 hover:border-slate-900'}`}
+                      >
+                        {preset.label}
+                      </button>
+                    ))}
+                  </div>
+                  {scalarField && (
+                    <span className={`text-[9px] font-mono font-bold ${scalarField.symmetry?.symmetric ? 'text-emerald-600' : 'text-amber-600'}`}>
+                      {scalarField.error
+                        ?? (scalarField.symmetry!.symmetric
+                          ? 'Even: f descends to ℝP²'
+                          : `Not antipodally invariant: max |f(u) − f(−u)| = ${scalarField.symmetry!.residual.toFixed(3)} ` +
+                            `(odd part up to ${(50 * scalarField.symmetry!.relativeResidual).toFixed(0)}% of max |f|)`)}
+                    </span>
+                  )}
+                  {scalarField?.spectrum && (
+                    <>
+                      <div className="flex items-center justify-between">
+                        <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Spectrum by Degree l</span>
+                        <button
+                          onClick={() => {
+                            setOddZeroed(!oddZeroed);
+                            addTelemetry("FIELD", oddZeroed ? 'Restored odd degrees' : 'Zeroed odd degrees');
+                          }}
+                          className={`px-2 py-0.5 rounded-full text-[8px] font-black border transition-all ${oddZeroed ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-700 border-slate-300 hover:border-slate-900'}`}
+                        >
+                          Zero Odd Degrees
+                        </button>
+                      </div>
+                      <HarmonicSpectrum spectrum={scalarField.spectrum} oddZeroed={oddZeroed} />
+                      <span className="text-[9px] font-mono font-bold text-slate-500">
+                        {`${(100 * scalarField.oddEnergy!).toFixed(1)}% of the energy is in odd degrees`}
+                      </span>
+                    </>
+                  )}
                 </div>
                 <Canvas shadows dpr={[1, 2]}>
                   <PerspectiveCamera makeDefault position={[3.5, 2.5, 4.5]} fov={35} />
@@ -710,16 +1301,30 @@ const QuotientSymmetry: React.FC = () => {
                   <directionalLight position={[5, 10, 5]} intensity={1.5} castShadow />
                   <Center>
                     <ObjectMesh
-                      meshData={meshData}
+                      meshData={objectMesh}
                       direction={currentDir}
                       angle={halfAngle}
                       uColor={uColor}
                       negUColor={negUColor}
+                      image={projectiveImage}
+                      fieldColors={objectFieldColors}
                       onUpdate={(dir) => {
                         setCurrentDir(dir);
                         addTelemetry("DIRECTION", `Updated direction to [${dir.map(v => v.toFixed(2)).join(', ')}]`);
                       }}
                     />
+                    {curve && shapeId === 'sphere' && !showOrientationCover && (
+                      <AlgebraicCurveView components={curve.components} highlighted={curveHits} color={uColor} />
+                    )}
+                    {axialData?.dataset && shapeId === 'sphere' && !showOrientationCover && (
+                      <AxialSamplesView classes={axialData.dataset.classes} highlighted={axialHits} color={uColor} negColor={negUColor} />
+                    )}
+                    {walk && parityWalkActive && (
+                      <ParityWalkMarker walk={walk} progress={walkTimeline.progress} color={uColor} />
+                    )}
+                    {!showOrientationCover && orientation.result && !orientation.result.orientable && (
+                      <FaceCycle mesh={meshData} faces={orientation.result.reversingCycle} color={W1_CYCLE_COLOR} />
+                    )}
                   </Center>
                 </Canvas>
               </section>
@@ -727,14 +1332,108 @@ const QuotientSymmetry: React.FC = () => {
               {/* Projective Selector */}
               <section className="flex-1 relative rounded-[2.5rem] bg-white shadow-xl overflow-hidden border border-slate-100/50">
                 <div className="absolute top-8 right-10 z-10 text-right pointer-events-none">
-                  <h2 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.4em]">Quotient Manifold (ℝP²)</h2>
+                  <h2 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.4em]">
+                    {quotientPanelTitle.title}
+                  </h2>
                   <div className="flex flex-col gap-1 mt-2">
-                    <span className="text-[9px] font-bold text-slate-300 uppercase italic">Map: π(x) ≡ π(−x)</span>
+                    <span className="text-[9px] font-bold text-slate-300 uppercase italic">
+                      {quotientPanelTitle.caption}
+                    </span>
                   </div>
                 </div>
 
+                {/* Incidence Controls */}
+                {!planar && incidence && (
+                  <div className="absolute top-8 left-10 z-10 flex items-center gap-2 bg-white/90 border border-slate-200 rounded-full px-4 py-2 shadow-sm">
+                    {[
+                      { label: 'Dual View', active: incidenceDual, onClick: () => setIncidenceDual(!incidenceDual) },
+                      { label: 'Parallel Square', active: false, onClick: () => setIncidencePoints(PARALLEL_SQUARE) },
+                      { label: 'Clear', active: false, onClick: () => setIncidencePoints([]) }
+                    ].map(btn => (
+                      <button
+                        key={btn.label}
+                        onClick={btn.onClick}
+                        className={`px-3 py-1 rounded-full text-[8px] font-black uppercase border transition-all ${btn.active ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-700 border-slate-300 hover:border-slate-900'}`}
+                      >
+                        {btn.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {/* Gluing Timeline */}
+                {!planar && quotientModel === 'gluing' && (
+                  <div className="absolute top-8 left-10 z-10 flex items-center gap-4 bg-white/90 border border-slate-200 rounded-full px-5 py-2 shadow-sm">
+                    <button
+                      onClick={gluing.playing ? gluing.pause : gluing.play}
+                      className="px-4 py-1.5 rounded-full text-[9px] font-black uppercase bg-slate-900 text-white hover:bg-slate-700 transition-all"
+                    >
+                      {gluing.playing ? 'Pause' : 'Play'}
+                    </button>
+                    <input
+                      type="range" min="0" max="1" step="0.005"
+                      value={gluing.progress}
+                      onChange={(e) => gluing.scrub(parseFloat(e.target.value))}
+                      className="w-40 accent-slate-800"
+                    />
+                    <span className="text-[9px] font-mono font-bold text-slate-500 w-10">
+                      t={gluing.progress.toFixed(2)}
+                    </span>
+                  </div>
+                )}
+
+                {/* Flat Model Inset, for the ℝP² models */}
+                {!planar && (
+                  <div className="absolute bottom-8 right-8 z-10 bg-white/90 border border-slate-200 rounded-2xl shadow-sm p-3 flex flex-col items-center gap-2">
+                    <div className="flex items-center gap-1">
+                      <span className="text-[9px] font-black uppercase text-slate-400 tracking-widest mr-2">Flat Model</span>
+                      {[
+                        { id: 'orthographic' as const, label: 'Disk' },
+                        { id: 'equalArea' as const, label: 'Equal-Area' },
+                        { id: 'square' as const, label: 'Square abab' },
+                        { id: 'charts' as const, label: 'Charts' },
+                        { id: null, label: flatModel ? 'Hide' : 'Show' }
+                      ].map(btn => (
+                        <button
+                          key={btn.label}
+                          onClick={() => setFlatModel(btn.id ?? (flatModel ? null : 'orthographic'))}
+                          className={`px-3 py-1 rounded-full text-[8px] font-black uppercase border transition-all ${btn.id && flatModel === btn.id ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-700 border-slate-300 hover:border-slate-900'}`}
+                        >
+                          {btn.label}
+                        </button>
+                      ))}
+                    </div>
+                    {flatModel === 'charts' ? (
+                      <AffineChartsView
+                        direction={currentDir}
+                        angle={halfAngle}
+                        color={uColor}
+                        traces={driveTraces}
+                        onUpdate={handleModelClick}
+                      />
+                    ) : flatModel === 'square' ? (
+                      <PolygonModel
+                        direction={currentDir}
+                        angle={halfAngle}
+                        color={uColor}
+                        onUpdate={handleModelClick}
+                        onMove={setCurrentDir}
+                      />
+                    ) : flatModel && (
+                      <DiskModel
+                        projection={flatModel}
+                        direction={currentDir}
+                        angle={halfAngle}
+                        color={uColor}
+                        traces={driveTraces}
+                        onUpdate={handleModelClick}
+                      />
+                    )}
+                  </div>
+                )}
+
                 {/* Drive Mode UI Indicator */}
-                {driveMode && (
+                {driveMode && !planar && (
                   <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 z-20 pointer-events-none">
                     <div className="bg-black/80 text-white px-6 py-3 rounded-lg text-center backdrop-blur-sm">
                       <div className="text-sm font-bold mb-1">DRIVE MODE ACTIVE</div>
@@ -756,20 +1455,96 @@ const QuotientSymmetry: React.FC = () => {
                   <pointLight position={[10, 10, 10]} intensity={1} />
                   <Center>
                     <DriveController
-                      active={driveMode}
+                      active={driveMode && !planar}
                       keys={wasdKeys}
                       currentPosition={currentDir}
                       onPositionUpdate={setCurrentDir}
                       onFiberSpawn={spawnFiberBundle}
                     />
-                    <SelectorInstrument
-                      direction={currentDir}
-                      angle={halfAngle}
-                      uColor={uColor}
-                      negUColor={negUColor}
-                      onUpdate={handleQuotientClick}
-                      driveMode={driveMode}
-                    />
+                    {planar ? (
+                      <ProjectiveLineView
+                        direction={currentDir}
+                        angle={halfAngle}
+                        uColor={uColor}
+                        negUColor={negUColor}
+                        onUpdate={handleModelClick}
+                      />
+                    ) : quotientDomain ? (
+                      <FundamentalDomainView
+                        group={quotientDomain.group}
+                        domain={quotientDomain.domain}
+                        direction={currentDir}
+                        angle={halfAngle}
+                        color={uColor}
+                        onUpdate={handleModelClick}
+                      />
+                    ) : immersion ? (
+                      <ImmersionModel
+                        immersion={immersion}
+                        direction={currentDir}
+                        angle={halfAngle}
+                        color={uColor}
+                        onUpdate={handleModelClick}
+                      />
+                    ) : quotientComplex ? (
+                      quotientComplex.complex && (
+                        <QuotientComplexView
+                          complex={quotientComplex.complex}
+                          target={quotientComplex.target}
+                          direction={currentDir}
+                          angle={halfAngle}
+                          color={uColor}
+                          loop={quotientComplex.homology?.z2.generators[1][0]?.cells}
+                          onUpdate={handleModelClick}
+                        />
+                      )
+                    ) : incidence ? (
+                      incidenceDual ? (
+                        <IncidenceView
+                          points={incidence.lines.map(poleOf)}
+                          lines={incidence.points.map(polarLine)}
+                          meets={[]}
+                          color={uColor}
+                        />
+                      ) : (
+                        <IncidenceView
+                          points={incidence.points}
+                          lines={incidence.lines}
+                          meets={incidence.meets}
+                          color={uColor}
+                          onAdd={handleIncidenceClick}
+                        />
+                      )
+                    ) : quotientModel === 'gluing' ? (
+                      <GluingAnimation
+                        progress={gluing.progress}
+                        direction={currentDir}
+                        angle={halfAngle}
+                        color={uColor}
+                        onUpdate={handleModelClick}
+                      />
+                    ) : (
+                      <>
+                        <SelectorInstrument
+                          direction={currentDir}
+                          angle={halfAngle}
+                          uColor={uColor}
+                          negUColor={negUColor}
+                          image={projectiveImage}
+                          onUpdate={handleQuotientClick}
+                          driveMode={driveMode}
+                        />
+                        {scalarField?.even && (
+                          <ScalarFieldView field={scalarField.even} scale={scalarField.scale} />
+                        )}
+                        {curve && (
+                          <AlgebraicCurveView components={curve.components} highlighted={curveHits} color={uColor} hemisphere />
+                        )}
+                        {axialData?.dataset && (
+                          <AxialSamplesView classes={axialData.dataset.classes} highlighted={axialHits} color={uColor} negColor={negUColor} hemisphere />
+                        )}
+                      </>
+                    )}
                     <FiberBundles bundles={fiberBundles} maxBundles={5} />
                   </Center>
                 </Canvas>
@@ -795,15 +1570,37 @@ const QuotientSymmetry: React.FC = () => {
 
         {/* Analytics View */}
         {page === 'analytics' && (
-          <AnalyticsView history={telemetryHistory} fiberCount={fiberBundles.length} />
+          <AnalyticsView history={telemetryHistory} fiberCount={fiberBundles.length} oddEnergy={scalarField?.oddEnergy ?? null} />
         )}
 
         {/* Library View */}
         {page === 'library' && <LibraryView />}
 
+        {page === 'lab' && showAxialData && (
+          <AxialDataImporter
+            text={axialText}
+            format={axialFormat}
+            unit={axialUnit}
+            dataset={axialData?.dataset ?? null}
+            error={axialData?.error ?? null}
+            onTextChange={setAxialText}
+            onFormatChange={(format) => {
+              setAxialFormat(format);
+              addTelemetry("AXIAL", `Reading axes as ${format}`);
+            }}
+            onUnitChange={setAxialUnit}
+            onClose={() => {
+              setShowAxialData(false);
+              if (axialData?.dataset) {
+                addTelemetry("AXIAL", `Plotted ${axialData.dataset.classes.length} axes`);
+              }
+            }}
+          />
+        )}
+
         {/* Controls Footer - Only shown in Laboratory view */}
         {page === 'lab' && (
-          <footer className="px-14 py-6 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-8 items-center border-t border-slate-200/40 bg-white/90 backdrop-blur-md z-20">
+          <footer className="px-14 py-6 grid grid-cols-1 md:grid-cols-2 lg:grid-cols-8 gap-8 items-center border-t border-slate-200/40 bg-white/90 backdrop-blur-md z-20">
             <div className="flex flex-col gap-2">
               <label className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Base Geometry</label>
               <select
@@ -811,6 +1608,8 @@ const QuotientSymmetry: React.FC = () => {
                 onChange={(e) => {
                   const newShape = e.target.value as ShapeId;
                   setShapeId(newShape);
+                  // Planar shapes only see the direction's line in the plane
+                  if (PLANAR_SHAPES.includes(newShape)) setCurrentDir(lineClassOf(currentDir).canonical);
                   addTelemetry("SHAPE_CHANGE", `Changed geometry to ${newShape}`);
                 }}
                 className="bg-white/90 border border-slate-200 rounded-xl p-3 font-bold text-[11px] uppercase cursor-pointer outline-none hover:border-slate-400 transition-all shadow-sm"
@@ -827,9 +1626,114 @@ const QuotientSymmetry: React.FC = () => {
                   <option value="pyramid">Pyramid</option>
                   <option value="torus">Torus</option>
                 </optgroup>
+                <optgroup label="NON-ORIENTABLE">
+                  <option value="mobius">Möbius Strip</option>
+                  <option value="klein">Klein Bottle (Figure-8)</option>
+                </optgroup>
+              </select>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <label className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Quotient Model</label>
+              <select
+                value={quotientModel}
+                disabled={planar}
+                onChange={(e) => {
+                  const model = e.target.value as QuotientModel;
+                  setQuotientModel(model);
+                  addTelemetry("QUOTIENT_MODEL", `Changed quotient model to ${model}`);
+                }}
+                className="bg-white/90 border border-slate-200 rounded-xl p-3 font-bold text-[11px] uppercase cursor-pointer outline-none hover:border-slate-400 transition-all shadow-sm"
+              >
+                <option value="cover">Double Cover (S²)</option>
+                <option value="gluing">Gluing: Hemisphere → Cross-Cap</option>
+                <option value="incidence">Points and Lines (Join / Meet)</option>
+                <optgroup label="FUNDAMENTAL DOMAIN">
+                  <option value="antipodal">ℝP² (Hemisphere)</option>
+                  <option value="reflection">Reflection z ≡ −z</option>
+                  <option value="cyclic4">Cyclic C₄</option>
+                  <option value="dihedral3">Dihedral D₃</option>
+                  <option value="tetrahedral">Tetrahedral T</option>
+                  <option value="octahedral">Octahedral O</option>
+                  <option value="icosahedral">Icosahedral I</option>
+                </optgroup>
+                <optgroup label="IMMERSION IN ℝ³">
+                  {(Object.keys(IMMERSION_NAMES) as ImmersionId[]).map(id => (
+                    <option key={id} value={id}>{IMMERSION_NAMES[id]}</option>
+                  ))}
+                </optgroup>
+                <optgroup label="QUOTIENT COMPLEX (BASE / ±1)">
+                  <option value="complex-hemisphere">Complex on Hemisphere</option>
+                  <option value="complex-boy">Complex on Boy Surface</option>
+                </optgroup>
               </select>
             </div>
 
+            <div className="flex flex-col gap-2">
+              <label className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Projective Map</label>
+              <select
+                value={projectivePreset}
+                disabled={planar}
+                onChange={(e) => {
+                  const preset = e.target.value as ProjectivePreset;
+                  setProjectivePreset(preset);
+                  projectiveTimeline.scrub(0);
+                  projectiveTimeline.play();
+                  addTelemetry("PROJECTIVE_MAP", `Applied projective map ${preset}`);
+                }}
+                className="bg-white/90 border border-slate-200 rounded-xl p-3 font-bold text-[11px] uppercase cursor-pointer outline-none hover:border-slate-400 transition-all shadow-sm"
+              >
+                {(Object.keys(PROJECTIVE_PRESETS) as ProjectivePreset[]).map(id => (
+                  <option key={id} value={id}>{PROJECTIVE_PRESETS[id].label}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <label className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Algebraic Curve</label>
+              <select
+                value={CURVE_PRESETS.some(preset => preset.text === curveText) ? curveText : 'custom'}
+                disabled={planar}
+                onChange={(e) => {
+                  if (e.target.value === 'custom') return;
+                  setCurveText(e.target.value);
+                  addTelemetry("CURVE", `Drew curve ${e.target.value || 'none'}`);
+                }}
+                className="bg-white/90 border border-slate-200 rounded-xl p-3 font-bold text-[11px] uppercase cursor-pointer outline-none hover:border-slate-400 transition-all shadow-sm"
+              >
+                {CURVE_PRESETS.map(preset => (
+                  <option key={preset.label} value={preset.text}>{preset.label}</option>
+                ))}
+                {!CURVE_PRESETS.some(preset => preset.text === curveText) && <option value="custom">Custom</option>}
+              </select>
+              <input
+                value={curveText}
+                disabled={planar}
+                onChange={(e) => setCurveText(e.target.value)}
+                placeholder="f(x, y, z) = 0"
+                spellCheck={false}
+                title={curve?.polynomial ? formatPolynomial(curve.polynomial) : curve?.error ?? undefined}
+                className={`bg-white/90 border rounded-xl px-3 py-1.5 font-mono text-[11px] outline-none transition-all ${curve?.error ? 'border-rose-400' : 'border-slate-200 focus:border-slate-500'}`}
+              />
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <label className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Axial Data</label>
+              <button
+                onClick={() => setShowAxialData(true)}
+                className="bg-white/90 border border-slate-200 rounded-xl p-3 font-bold text-[11px] uppercase cursor-pointer outline-none hover:border-slate-400 transition-all shadow-sm"
+              >
+                Import Axes
+              </button>
+              <span className={`text-[9px] font-mono font-bold ${axialData?.error ? 'text-rose-600' : 'text-slate-500'}`}>
+                {axialData?.error
+                  ? 'Data could not be read'
+                  : axialData?.dataset
+                    ? `${axialData.dataset.classes.length} of ${axialData.dataset.rows.length} rows plotted`
+                    : 'No data'}
+              </span>
+            </div>
+
             <div className="flex flex-col gap-2">
               <label className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Aperture θ</label>
               <div className="py-1">
@@ -863,6 +1767,7 @@ const QuotientSymmetry: React.FC = () => {
                   setHalfAngle(0.4);
                   setUColor("#00e5bc");
                   setFiberBundles([]);
+                  setDriveTraces([]);
                   addTelemetry("RESET", "System recalibrated to default state");
                 }}
                 className="px-8 py-3 bg-slate-800 text-white font-black text-[9px] uppercase rounded-full hover:bg-slate-700 transition-all shadow-lg active:scale-95"
@@ -0,0 +1,447 @@
+import React, { useState, useMemo, useRef, useEffect, useCallback } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { PerspectiveCamera, OrbitControls } from '@react-three/drei';
+import * as THREE from 'three';
+import { Link } from 'react-router-dom';
+import {
+  Vec3,
+  Quaternion,
+  IDENTITY_QUAT,
+  quaternionFromAxisAngle,
+  quaternionMultiply,
+  quaternionNegate,
+  quaternionNormalize,
+  quaternionDot,
+  quaternionRotate,
+  rotationDistance,
+  beltHomotopy,
+  rotationLoopParity,
+  PARITY_EVEN
+} from '../core';
+import { getAntipodalColor } from '../app/ui/colorUtils';
+
+// --- Semantic Constants ---
+const THEME_DARK = "#2D3436";
+const LIFT_COLOR = "#00e5bc";
+const TRACE_LIMIT = 600;
+const RIBBON_SAMPLES = 96;
+const ANIMATION_SECONDS = 4;
+
+type Mode = 'drag' | 'turn' | 'belt' | 'plate';
+
+/**
+ * Places a unit quaternion in the solid ball model of S³.
+ *
+ * q = (sin(θ/2)·n, cos(θ/2)) with θ ∈ [0, 2π] maps to (θ / 2π)·n. The center is
+ * +1, the boundary sphere is collapsed to -1, and the inner half-ball (w ≥ 0)
+ * is one copy of SO(3) ≅ ℝP³. The lifts q and -q land at radii r and 1 - r on
+ * opposite rays.
+ */
+function liftToBall(q: Quaternion): Vec3 {
+  const v: Vec3 = [q[0], q[1], q[2]];
+  const s = Vec3.norm(v);
+  if (s < 1e-9) return q[3] >= 0 ? [0, 0, 0] : [0, 0, 1];
+  const theta = 2 * Math.atan2(s, q[3]);
+  return Vec3.scale(v, theta / (2 * Math.PI) / s);
+}
+
+/**
+ * Builds line-segment positions for a lifted path in the ball model,
+ * breaking the polyline where it passes through -1 (the collapsed boundary).
+ */
+function traceSegments(lift: Quaternion[]): Float32Array {
+  const points = lift.map(liftToBall);
+  const out: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    if (Vec3.norm(Vec3.sub(points[i - 1], points[i])) > 0.5) continue;
+    out.push(...points[i - 1], ...points[i]);
+  }
+  return new Float32Array(out);
+}
+
+const Segments = ({ positions, color, opacity = 1 }: { positions: Float32Array, color: string, opacity?: number }) => {
+  const geometry = useMemo(() => {
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    return g;
+  }, [positions]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <lineSegments geometry={geometry}>
+      <lineBasicMaterial color={color} transparent opacity={opacity} />
+    </lineSegments>
+  );
+};
+
+/**
+ * A plate with a marked frame, oriented by a quaternion.
+ */
+const Plate = ({ rotation, position = [0, 0, 0], scale = 1 }: { rotation: Quaternion, position?: Vec3, scale?: number }) => {
+  const quaternion = useMemo(() => new THREE.Quaternion(...rotation), [rotation]);
+
+  return (
+    <group position={position} quaternion={quaternion} scale={scale}>
+      <mesh>
+        <cylinderGeometry args={[0.9, 0.9, 0.08, 48]} />
+        <meshStandardMaterial color="#f8fafc" roughness={0.4} />
+      </mesh>
+      <mesh position={[0.55, 0.06, 0]}>
+        <boxGeometry args={[0.6, 0.05, 0.12]} />
+        <meshStandardMaterial color="#e11d48" />
+      </mesh>
+      <mesh position={[0, 0.06, 0.55]}>
+        <boxGeometry args={[0.12, 0.05, 0.6]} />
+        <meshStandardMaterial color="#2563eb" />
+      </mesh>
+    </group>
+  );
+};
+
+/**
+ * A belt whose cross-section at parameter u ∈ [0, 1] is rotated by frameAt(u).
+ */
+const Ribbon = ({ frameAt }: { frameAt: (u: number) => Quaternion }) => {
+  const geometry = useMemo(() => {
+    const positions: number[] = [];
+    const indices: number[] = [];
+    for (let i = 0; i <= RIBBON_SAMPLES; i++) {
+      const u = i / RIBBON_SAMPLES;
+      const center: Vec3 = [-1.6 + 3.2 * u, 0, 0];
+      const half = quaternionRotate(frameAt(u), [0, 0, 0.22]);
+      positions.push(...Vec3.add(center, half), ...Vec3.sub(center, half));
+      if (i > 0) {
+        const a = 2 * (i - 1);
+        indices.push(a, a + 1, a + 2, a + 1, a + 3, a + 2);
+      }
+    }
+    const g = new THREE.BufferGeometry();
+    g.setAttribute('position', new THREE.BufferAttribute(new Float32Array(positions), 3));
+    g.setIndex(indices);
+    g.computeVertexNormals();
+    return g;
+  }, [frameAt]);
+
+  useEffect(() => () => geometry.dispose(), [geometry]);
+
+  return (
+    <mesh geometry={geometry}>
+      <meshStandardMaterial color="#f59e0b" side={THREE.DoubleSide} roughness={0.5} />
+    </mesh>
+  );
+};
+
+const RotationLab: React.FC = () => {
+  const [mode, setMode] = useState<Mode>('drag');
+  const [turns, setTurns] = useState<1 | 2>(2);
+  const [progress, setProgress] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  // The tracked lift q ∈ S³ and its continuous history
+  const [q, setQ] = useState<Quaternion>(IDENTITY_QUAT);
+  const [trace, setTrace] = useState<Quaternion[]>([IDENTITY_QUAT]);
+  const turnStart = useRef<Quaternion>(IDENTITY_QUAT);
+
+  const negColor = useMemo(() => getAntipodalColor(LIFT_COLOR), []);
+
+  // The lift always moves continuously, so appending it keeps the trace a lift
+  const pushLift = useCallback((next: Quaternion) => {
+    setQ(next);
+    setTrace(prev => [...prev, next].slice(-TRACE_LIMIT));
+  }, []);
+
+  // Drag to rotate: horizontal drags turn about +Y, vertical drags about +X
+  const dragFrom = useRef<[number, number] | null>(null);
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (mode !== 'drag') return;
+    dragFrom.current = [e.clientX, e.clientY];
+  };
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (!dragFrom.current) return;
+    const dx = e.clientX - dragFrom.current[0];
+    const dy = e.clientY - dragFrom.current[1];
+    dragFrom.current = [e.clientX, e.clientY];
+    const length = Math.hypot(dx, dy);
+    if (length < 1e-6) return;
+
+    const step = quaternionFromAxisAngle([dy, dx, 0], length * 0.01);
+    pushLift(quaternionNormalize(quaternionMultiply(step, q)));
+  };
+  const onPointerUp = () => { dragFrom.current = null; };
+
+  // Animation clock for the turn, belt and plate modes
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const dt = (now - last) / 1000;
+      last = now;
+      setProgress(p => {
+        const next = Math.min(1, p + dt / ANIMATION_SECONDS);
+        if (next >= 1) setPlaying(false);
+        return next;
+      });
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing]);
+
+  // Turn mode: a continuous turn of turns·2π about +Y from the current rotation
+  useEffect(() => {
+    if (mode !== 'turn') return;
+    const step = quaternionFromAxisAngle([0, 1, 0], turns * 2 * Math.PI * progress);
+    pushLift(quaternionMultiply(step, turnStart.current));
+  }, [mode, turns, progress, pushLift]);
+
+  const startAnimation = (next: Mode) => {
+    if (next === 'drag') {
+      setMode('drag');
+      setPlaying(false);
+      return;
+    }
+    if (next === 'turn') {
+      turnStart.current = q;
+      setTrace([q]);
+    }
+    setMode(next);
+    setProgress(0);
+    setPlaying(true);
+  };
+
+  // Belt trick: deform the belt (s = progress); plate trick: turn the plate (t = progress)
+  const beltFrame = useCallback(
+    (u: number) => beltHomotopy(progress, u, turns, [1, 0, 0]),
+    [progress, turns]
+  );
+  const armFrame = useCallback(
+    (u: number) => beltHomotopy(1 - u, progress, turns, [1, 0, 0]),
+    [progress, turns]
+  );
+
+  const trickLoop = useMemo(() => {
+    if (mode === 'belt') return Array.from({ length: 129 }, (_, i) => beltFrame(i / 128));
+    if (mode === 'plate') return Array.from({ length: 129 }, (_, i) => armFrame(i / 128));
+    return [];
+  }, [mode, beltFrame, armFrame]);
+
+  // The class in π₁(SO(3)) of the loop both tricks deform: the plate's turns·2π at s = 0
+  const contractible = useMemo(() => {
+    const loop = Array.from({ length: 129 }, (_, i) => beltHomotopy(0, i / 128, turns, [1, 0, 0]));
+    return rotationLoopParity(loop) === PARITY_EVEN;
+  }, [turns]);
+
+  // How far the free end of the belt (or the arm, on return) is from the identity
+  const endDrift = useMemo(() => {
+    if (mode === 'belt') return rotationDistance(beltHomotopy(progress, 1, turns, [1, 0, 0]), IDENTITY_QUAT);
+    if (mode === 'plate') {
+      let worst = 0;
+      for (let i = 0; i <= 32; i++) {
+        worst = Math.max(worst, rotationDistance(beltHomotopy(1 - i / 32, 1, turns, [1, 0, 0]), IDENTITY_QUAT));
+      }
+      return worst;
+    }
+    return 0;
+  }, [mode, progress, turns]);
+
+  const sheet = quaternionDot(q, trace[0]) >= 0 ? '+q₀' : '−q₀';
+  const negQ = quaternionNegate(q);
+  const angle = rotationDistance(q, IDENTITY_QUAT);
+
+  const tracePositions = useMemo(() => traceSegments(mode === 'belt' || mode === 'plate' ? trickLoop : trace), [mode, trickLoop, trace]);
+  const mirrorPositions = useMemo(
+    () => traceSegments((mode === 'belt' || mode === 'plate' ? trickLoop : trace).map(quaternionNegate)),
+    [mode, trickLoop, trace]
+  );
+
+  const plateRotation = mode === 'belt'
+    ? beltHomotopy(progress, 1, turns, [1, 0, 0])
+    : mode === 'plate'
+      ? beltHomotopy(0, progress, turns, [1, 0, 0])
+      : q;
+
+  return (
+    <div className="flex flex-col h-screen bg-white text-slate-800 font-sans antialiased">
+      <header className="h-14 border-b border-slate-200 flex items-center justify-between px-6 shrink-0 z-50 bg-white/80 backdrop-blur-md">
+        <div className="flex items-center gap-6">
+          <Link to="/" className="text-slate-950 font-black tracking-tighter text-sm hover:opacity-75 transition-opacity">
+            SEAM-VIZ
+          </Link>
+          <span className="h-4 w-px bg-slate-200" />
+          <span className="text-[10px] font-black uppercase tracking-widest text-slate-500">Rotation Laboratory</span>
+        </div>
+        <div className="text-[10px] font-mono font-bold text-slate-300">MOD: SO3_RP3</div>
+      </header>
+
+      <main className="flex-1 overflow-hidden flex flex-col bg-slate-50/50">
+        <div className="px-8 pt-8 text-left">
+          <h2 className="text-xl font-bold text-slate-900 tracking-tight">S³ → SO(3) ≅ ℝP³</h2>
+          <p className="text-xs text-slate-500 mt-1 uppercase tracking-widest font-medium">
+            A rotation is the pair {'{q, −q}'}: the same identification as u ≡ −u, one dimension up
+          </p>
+        </div>
+
+        <div className="flex-1 flex flex-col md:flex-row p-8 gap-8 overflow-hidden">
+          {/* The rotation itself */}
+          <section
+            className="flex-1 relative rounded-[2.5rem] bg-white/40 border border-white/50 overflow-hidden shadow-inner"
+            onPointerDown={onPointerDown}
+            onPointerMove={onPointerMove}
+            onPointerUp={onPointerUp}
+            onPointerLeave={onPointerUp}
+          >
+            <div className="absolute top-8 left-10 z-10 pointer-events-none">
+              <h2 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.4em]">Rotation in SO(3)</h2>
+              <p className="text-[8px] text-slate-300 mt-1">
+                {mode === 'drag' ? 'Drag to rotate the plate' : mode === 'belt' ? 'Belt trick' : mode === 'plate' ? 'Plate trick' : 'Continuous turn'}
+              </p>
+            </div>
+            <Canvas dpr={[1, 2]}>
+              <PerspectiveCamera makeDefault position={[0, 1.5, 5.5]} fov={35} />
+              <ambientLight intensity={0.8} />
+              <directionalLight position={[5, 10, 5]} intensity={1.2} />
+              {mode === 'belt' || mode === 'plate' ? (
+                <group>
+                  <Ribbon frameAt={mode === 'belt' ? beltFrame : armFrame} />
+                  <mesh position={[-1.7, 0, 0]}>
+                    <boxGeometry args={[0.2, 0.7, 0.7]} />
+                    <meshStandardMaterial color={THEME_DARK} />
+                  </mesh>
+                  <Plate rotation={plateRotation} position={[1.75, 0, 0]} scale={0.5} />
+                </group>
+              ) : (
+                <Plate rotation={plateRotation} />
+              )}
+            </Canvas>
+          </section>
+
+          {/* The double cover */}
+          <section className="flex-1 relative rounded-[2.5rem] bg-white shadow-xl overflow-hidden border border-slate-100/50">
+            <div className="absolute top-8 right-10 z-10 text-right pointer-events-none">
+              <h2 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.4em]">Double Cover (S³)</h2>
+              <div className="flex flex-col gap-1 mt-2">
+                <span className="text-[9px] font-bold text-slate-300 uppercase italic">Center: +1 · Outer sphere: −1</span>
+                <span className="text-[9px] font-bold text-slate-300 uppercase italic">Inner ball: w ≥ 0</span>
+              </div>
+            </div>
+            <Canvas dpr={[1, 2]}>
+              <PerspectiveCamera makeDefault position={[0, 0, 3.6]} fov={35} />
+              <OrbitControls enableDamping rotateSpeed={0.5} enablePan={false} enableZoom={false} />
+              <ambientLight intensity={0.6} />
+              <mesh>
+                <sphereGeometry args={[1, 48, 36]} />
+                <meshBasicMaterial color="#94a3b8" wireframe transparent opacity={0.06} depthWrite={false} />
+              </mesh>
+              <mesh>
+                <sphereGeometry args={[0.5, 32, 24]} />
+                <meshBasicMaterial color="#94a3b8" transparent opacity={0.08} depthWrite={false} />
+              </mesh>
+              <Segments positions={tracePositions} color={LIFT_COLOR} />
+              <Segments positions={mirrorPositions} color={negColor} opacity={0.5} />
+              {mode !== 'belt' && mode !== 'plate' && (
+                <>
+                  <mesh position={liftToBall(q)}>
+                    <sphereGeometry args={[0.045, 16, 16]} />
+                    <meshBasicMaterial color={LIFT_COLOR} />
+                  </mesh>
+                  <mesh position={liftToBall(negQ)}>
+                    <sphereGeometry args={[0.045, 16, 16]} />
+                    <meshBasicMaterial color={negColor} />
+                  </mesh>
+                </>
+              )}
+              <mesh>
+                <sphereGeometry args={[0.02, 12, 12]} />
+                <meshBasicMaterial color={THEME_DARK} />
+              </mesh>
+            </Canvas>
+          </section>
+        </div>
+
+        {/* Readout */}
+        <div className="mx-8 mb-4 bg-white border border-slate-200 rounded-lg shadow flex divide-x divide-slate-100 overflow-hidden">
+          {(mode === 'belt' || mode === 'plate'
+            ? [
+                { label: 'Loop', val: turns === 2 ? '4π' : '2π' },
+                { label: mode === 'belt' ? 'Deformation s' : 'Time t', val: progress.toFixed(2) },
+                { label: mode === 'belt' ? 'Plate drift' : 'Arm twist on return', val: `${(endDrift * 180 / Math.PI).toFixed(1)}°` },
+                { label: 'Verdict', val: contractible ? 'Contracts (ends fixed)' : 'Cannot contract', col: contractible ? 'text-emerald-600' : 'text-rose-600' }
+              ]
+            : [
+                { label: 'q', val: q.map(x => x.toFixed(3)).join(', ') },
+                { label: '−q', val: negQ.map(x => x.toFixed(3)).join(', ') },
+                { label: 'Angle', val: `${(angle * 180 / Math.PI).toFixed(1)}°` },
+                { label: 'Lift', val: `on ${sheet}`, col: sheet === '+q₀' ? 'text-emerald-600' : 'text-rose-600' }
+              ]
+          ).map((m, i) => (
+            <div key={i} className="flex-1 px-6 py-3 flex flex-col items-center">
+              <span className="text-[8px] font-black text-slate-400 uppercase tracking-widest mb-1">{m.label}</span>
+              <span className={`text-xs font-mono font-bold ${m.col || 'text-slate-900'}`}>{m.val}</span>
+            </div>
+          ))}
+        </div>
+      </main>
+
+      {/* Controls */}
+      <footer className="px-14 py-5 flex flex-wrap gap-4 items-center border-t border-slate-200/40 bg-white/90 backdrop-blur-md">
+        <div className="flex flex-col gap-2">
+          <label className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Loop</label>
+          <select
+            value={turns}
+            onChange={(e) => setTurns(Number(e.target.value) as 1 | 2)}
+            className="bg-white/90 border border-slate-200 rounded-xl p-3 font-bold text-[11px] uppercase cursor-pointer outline-none hover:border-slate-400 transition-all shadow-sm"
+          >
+            <option value={1}>2π (one turn)</option>
+            <option value={2}>4π (two turns)</option>
+          </select>
+        </div>
+
+        {[
+          { id: 'drag' as const, label: 'Drag' },
+          { id: 'turn' as const, label: 'Turn' },
+          { id: 'belt' as const, label: 'Belt Trick' },
+          { id: 'plate' as const, label: 'Plate Trick' }
+        ].map(btn => (
+          <button
+            key={btn.id}
+            onClick={() => startAnimation(btn.id)}
+            className={`px-6 py-3 rounded-full text-[9px] font-black uppercase border transition-all ${mode === btn.id ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-700 border-slate-300 hover:border-slate-900'}`}
+          >
+            {btn.label}
+          </button>
+        ))}
+
+        {mode !== 'drag' && (
+          <div className="flex flex-col gap-2 min-w-[200px]">
+            <label className="text-[9px] font-black uppercase text-slate-400 tracking-widest">Timeline</label>
+            <input
+              type="range" min="0" max="1" step="0.005"
+              value={progress}
+              onChange={(e) => { setPlaying(false); setProgress(parseFloat(e.target.value)); }}
+              className="w-full accent-slate-800"
+            />
+          </div>
+        )}
+
+        <div className="flex-1" />
+
+        <button
+          onClick={() => {
+            setMode('drag');
+            setPlaying(false);
+            setProgress(0);
+            setQ(IDENTITY_QUAT);
+            setTrace([IDENTITY_QUAT]);
+          }}
+          className="px-8 py-3 bg-slate-800 text-white font-black text-[9px] uppercase rounded-full hover:bg-slate-700 transition-all shadow-lg active:scale-95"
+        >
+          Reset
+        </button>
+      </footer>
+    </div>
+  );
+};
+
+export default RotationLab;
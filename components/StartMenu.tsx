@@ -157,6 +157,44 @@ const StartMenu: React.FC = () => {
               <span>Launch Laboratory</span>
             </button>
           </Link>
+
+          <Link to="/rotations" style={{ textDecoration: 'none', width: '100%', maxWidth: '500px' }}>
+            <button style={{
+              width: '100%',
+              padding: '1.5rem 2rem',
+              fontSize: '1rem',
+              fontWeight: 'bold',
+              backgroundColor: 'rgba(255, 255, 255, 0.1)',
+              color: 'white',
+              border: '2px solid rgba(255, 255, 255, 0.2)',
+              borderRadius: '12px',
+              cursor: 'pointer',
+              transition: 'all 0.3s',
+              backdropFilter: 'blur(10px)',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              gap: '1rem',
+              textTransform: 'uppercase',
+              letterSpacing: '0.1em',
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.backgroundColor = 'rgba(59, 130, 246, 0.3)';
+              e.currentTarget.style.borderColor = 'rgba(59, 130, 246, 0.6)';
+              e.currentTarget.style.transform = 'translateY(-4px)';
+              e.currentTarget.style.boxShadow = '0 8px 24px rgba(59, 130, 246, 0.3)';
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.backgroundColor = 'rgba(255, 255, 255, 0.1)';
+              e.currentTarget.style.borderColor = 'rgba(255, 255, 255, 0.2)';
+              e.currentTarget.style.transform = 'translateY(0)';
+              e.currentTarget.style.boxShadow = 'none';
+            }}
+            >
+              <Icon.Laboratory />
+              <span>Rotations: SO(3) ≅ ℝP³</span>
+            </button>
+          </Link>
         </div>
 
         <div style={{
@@ -0,0 +1,266 @@
+/**
+ * Axial Data Module
+ *
+ * Many measured directions are axes rather than vectors: a fault plane's
+ * pole, a fiber's orientation or a principal eigenvector is the same datum
+ * whether it points one way or the other. An axis is therefore a point of
+ * ℝP², and this module reads tables of axes into quotient classes through
+ * `classOf`, one per row.
+ *
+ * Rows may be given as
+ * - vector: x, y, z in scene coordinates, taken as is
+ * - trend-plunge: azimuth clockwise from north, and angle below horizontal
+ * - strike-dip: a plane by the right-hand rule, read as its pole
+ * - lat-lon: latitude and longitude on the globe
+ *
+ * Angles are read in the scene frame, with +y up, +x east and -z north, so
+ * vertical axes sit at the pole of the hemisphere model and the north pole of
+ * the globe is +y, with longitude 0 along +x.
+ *
+ * Text may be CSV (separated by commas, semicolons, tabs or spaces, with an
+ * optional header row naming the columns) or JSON (an array of number arrays
+ * or of objects keyed by column name). Rows that cannot be read are kept
+ * with an error, so one bad row does not spoil a dataset.
+ */
+
+import { Vec3, QuotientClass } from "./types";
+import { classOf } from "./quotient";
+
+/**
+ * How each row gives an axis
+ */
+export type AxialFormat = "vector" | "trend-plunge" | "strike-dip" | "lat-lon";
+
+/**
+ * Unit of the angles in a row
+ */
+export type AngleUnit = "degrees" | "radians";
+
+/**
+ * One row of an axial dataset
+ */
+export interface AxialRow {
+  /**
+   * Line of the CSV text, or position in the JSON array, counting from 1
+   */
+  line: number;
+
+  /**
+   * The row as written
+   */
+  source: string;
+
+  /**
+   * The numbers read from the row, in the order of the format's columns
+   */
+  values: number[];
+
+  /**
+   * The axis, or null if the row could not be read
+   */
+  class: QuotientClass | null;
+
+  /**
+   * Why the row could not be read, or null
+   */
+  error: string | null;
+}
+
+/**
+ * An axial dataset read from text
+ */
+export interface AxialDataset {
+  /**
+   * How the rows give axes
+   */
+  format: AxialFormat;
+
+  /**
+   * Unit of the angles
+   */
+  unit: AngleUnit;
+
+  /**
+   * Every data row, read or not
+   */
+  rows: AxialRow[];
+
+  /**
+   * Axes of the rows that were read
+   */
+  classes: QuotientClass[];
+}
+
+/**
+ * Columns of each format, each with the header names it accepts
+ */
+export const AXIAL_COLUMNS: Record<AxialFormat, string[][]> = {
+  "vector": [["x"], ["y"], ["z"]],
+  "trend-plunge": [["trend", "azimuth"], ["plunge"]],
+  "strike-dip": [["strike"], ["dip"]],
+  "lat-lon": [["lat", "latitude"], ["lon", "lng", "long", "longitude"]]
+};
+
+const NUMBER = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/i;
+
+/**
+ * Turns the numbers of one row into a direction.
+ *
+ * @param format - How the row gives an axis
+ * @param values - The row's numbers, in the order of the format's columns
+ * @param unit - Unit of the angles
+ * @returns A nonzero vector along the axis
+ * @throws Error if an angle is out of range or the vector is zero
+ */
+export function axialDirection(format: AxialFormat, values: number[], unit: AngleUnit): Vec3 {
+  const rad = (a: number) => (unit === "degrees" ? (a * Math.PI) / 180 : a);
+  const show = (a: number) => (unit === "degrees" ? `${a}°` : `${a} rad`);
+  const limit = unit === "degrees" ? 90 : Math.PI / 2;
+  const range = (name: string, a: number, lo: number) => {
+    if (a < lo || a > limit) throw new Error(`${name} ${show(a)} is outside [${show(lo)}, ${show(limit)}]`);
+  };
+
+  // Trend and plunge in radians to a unit vector, east x, up y, north -z
+  const down = (trend: number, plunge: number): Vec3 => {
+    const horizontal = Math.cos(plunge);
+    return [horizontal * Math.sin(trend), -Math.sin(plunge), -horizontal * Math.cos(trend)];
+  };
+
+  switch (format) {
+    case "vector": {
+      const v = values as Vec3;
+      if (Vec3.norm(v) < 1e-12) throw new Error("A zero vector has no axis");
+      return v;
+    }
+    case "trend-plunge": {
+      const [trend, plunge] = values;
+      range("Plunge", plunge, -limit);
+      return down(rad(trend), rad(plunge));
+    }
+    case "strike-dip": {
+      // The pole plunges 90° - dip, opposite the dip direction strike + 90°
+      const [strike, dip] = values;
+      range("Dip", dip, 0);
+      return down(rad(strike) - Math.PI / 2, Math.PI / 2 - rad(dip));
+    }
+    case "lat-lon": {
+      const [lat, lon] = values;
+      range("Latitude", lat, -limit);
+      const [phi, lambda] = [rad(lat), rad(lon)];
+      return [Math.cos(phi) * Math.cos(lambda), Math.sin(phi), -Math.cos(phi) * Math.sin(lambda)];
+    }
+  }
+}
+
+/**
+ * Reads one row from its fields.
+ */
+function readRow(line: number, source: string, fields: string[], format: AxialFormat, unit: AngleUnit): AxialRow {
+  const count = AXIAL_COLUMNS[format].length;
+  const row: AxialRow = { line, source, values: [], class: null, error: null };
+  try {
+    if (fields.length < count) throw new Error(`Expected ${count} numbers but found ${fields.length}`);
+    row.values = fields.slice(0, count).map(field => {
+      if (!NUMBER.test(field.trim())) throw new Error(`"${field}" is not a number`);
+      return Number(field);
+    });
+    row.class = classOf(axialDirection(format, row.values, unit));
+  } catch (e) {
+    row.error = (e as Error).message;
+  }
+  return row;
+}
+
+/**
+ * Finds the position of each of a format's columns in a header row.
+ *
+ * @throws Error naming a column the header lacks
+ */
+function headerColumns(header: string[], format: AxialFormat): number[] {
+  const names = header.map(name => name.trim().toLowerCase());
+  return AXIAL_COLUMNS[format].map(aliases => {
+    const k = names.findIndex(name => aliases.includes(name));
+    if (k < 0) throw new Error(`The header has no ${aliases[0]} column`);
+    return k;
+  });
+}
+
+/**
+ * Reads CSV text, one row per line.
+ */
+function readCsv(text: string, format: AxialFormat, unit: AngleUnit): AxialRow[] {
+  const lines = text.split(/\r?\n/)
+    .map((source, i) => ({ line: i + 1, source: source.trim() }))
+    .filter(({ source }) => source !== "" && !source.startsWith("#"));
+  const split = (source: string) => source.split(/\s*[,;\t]\s*|\s+/).filter(field => field !== "");
+
+  // A first row is a header if it has no number at all or names a column;
+  // otherwise it is data, and a bad field is that row's error
+  let columns: number[] | null = null;
+  if (lines.length > 0) {
+    const first = split(lines[0].source);
+    const aliases = AXIAL_COLUMNS[format].flat();
+    if (first.every(field => !NUMBER.test(field)) || first.some(field => aliases.includes(field.toLowerCase()))) {
+      columns = headerColumns(first, format);
+      lines.shift();
+    }
+  }
+
+  return lines.map(({ line, source }) => {
+    const fields = split(source);
+    const picked = columns ? columns.filter(k => k < fields.length).map(k => fields[k]) : fields;
+    return readRow(line, source, picked, format, unit);
+  });
+}
+
+/**
+ * Reads JSON text, an array of rows.
+ */
+function readJson(text: string, format: AxialFormat, unit: AngleUnit): AxialRow[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Invalid JSON: ${(e as Error).message}`);
+  }
+  if (!Array.isArray(data)) throw new Error("JSON data must be an array of rows");
+
+  return data.map((item, i) => {
+    const source = JSON.stringify(item) ?? String(item);
+    let fields: string[];
+    if (Array.isArray(item)) {
+      fields = item.map(String);
+    } else if (item !== null && typeof item === "object") {
+      const entries = Object.entries(item).map(([key, value]) => [key.toLowerCase(), value] as const);
+      fields = AXIAL_COLUMNS[format].flatMap(aliases => {
+        const entry = entries.find(([key]) => aliases.includes(key));
+        return entry ? [String(entry[1])] : [];
+      });
+    } else {
+      fields = [];
+    }
+    return readRow(i + 1, source, fields, format, unit);
+  });
+}
+
+/**
+ * Reads a table of axes from CSV or JSON text.
+ *
+ * Text starting with [ is read as JSON and anything else as CSV. Each row
+ * becomes a quotient class or keeps the reason it could not be read.
+ *
+ * @param text - The data
+ * @param format - How each row gives an axis
+ * @param unit - Unit of the angles, ignored for vectors
+ * @returns The rows and the axes read from them
+ * @throws Error if the JSON is invalid or a CSV header lacks a column
+ */
+export function parseAxialData(text: string, format: AxialFormat, unit: AngleUnit = "degrees"): AxialDataset {
+  const rows = text.trim().startsWith("[") ? readJson(text, format, unit) : readCsv(text, format, unit);
+  return {
+    format,
+    unit,
+    rows,
+    classes: rows.flatMap(row => (row.class ? [row.class] : []))
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * Affine Charts Module
+ *
+ * ℝP² is covered by three affine planes, the standard charts. The chart U_x
+ * holds the classes [x : y : z] with x ≠ 0 and gives each the coordinates
+ * (y/x, z/x), which do not depend on the representative; U_y and U_z are
+ * alike. What a chart misses, the classes with x = 0, is its line at
+ * infinity, and every class lies in at least one chart.
+ *
+ * Where two charts overlap their coordinates are related by a transition
+ * map. From U_z to U_x, for instance, (u, v) = (x/z, y/z) goes to
+ * (y/x, z/x) = (v/u, 1/u): a path running off to infinity in U_z, with u
+ * growing without bound, comes to the axis v' = 0 of U_x and stays finite.
+ */
+
+import { Vec3, QuotientClass } from "./types";
+import { classOf } from "./quotient";
+
+export type ChartId = "x" | "y" | "z";
+
+/**
+ * The three standard charts, in coordinate order
+ */
+export const CHART_IDS: ChartId[] = ["x", "y", "z"];
+
+/**
+ * Coordinates of a point in an affine chart
+ */
+export type ChartPoint = [number, number];
+
+/**
+ * Index of the coordinate a chart divides by
+ */
+const CHART_AXIS: Record<ChartId, number> = { x: 0, y: 1, z: 2 };
+
+/**
+ * Indices of the two coordinates a chart keeps, in order
+ */
+function keptAxes(chart: ChartId): [number, number] {
+  const [a, b] = [0, 1, 2].filter(i => i !== CHART_AXIS[chart]);
+  return [a, b];
+}
+
+/**
+ * Coordinates of a class in an affine chart.
+ *
+ * @param v - Any representative of the class
+ * @param chart - The chart
+ * @param eps - Threshold below which the class lies on the chart's line at infinity
+ * @returns The chart coordinates, or null if the class is at infinity in this chart
+ */
+export function chartCoordinates(v: Vec3, chart: ChartId, eps = 1e-9): ChartPoint | null {
+  const u = Vec3.normalize(v);
+  const d = u[CHART_AXIS[chart]];
+  if (Math.abs(d) < eps) return null;
+  const [a, b] = keptAxes(chart);
+  return [u[a] / d, u[b] / d];
+}
+
+/**
+ * The class at a point of an affine chart.
+ *
+ * @param chart - The chart
+ * @param p - Chart coordinates
+ * @returns The class with 1 in the chart's coordinate and p in the other two
+ */
+export function chartToClass(chart: ChartId, p: ChartPoint): QuotientClass {
+  return classOf(homogeneousOf(chart, p));
+}
+
+/**
+ * Changes coordinates from one chart to another.
+ *
+ * @param from - The chart p is given in
+ * @param to - The chart to express it in
+ * @param p - Coordinates in the first chart
+ * @returns Coordinates in the second chart, or null if the point is at infinity there
+ */
+export function transitionMap(from: ChartId, to: ChartId, p: ChartPoint): ChartPoint | null {
+  return chartCoordinates(homogeneousOf(from, p), to);
+}
+
+/**
+ * Writes a transition map as a formula in the coordinates (u, v) of the first chart.
+ *
+ * @param from - The source chart
+ * @param to - The target chart
+ * @returns A formula such as "(u, v) ↦ (v/u, 1/u)"
+ */
+export function transitionFormula(from: ChartId, to: ChartId): string {
+  const symbols = ["", "", ""];
+  symbols[CHART_AXIS[from]] = "1";
+  const [a, b] = keptAxes(from);
+  [symbols[a], symbols[b]] = ["u", "v"];
+
+  const divisor = symbols[CHART_AXIS[to]];
+  const quotient = (s: string) => (divisor === "1" ? s : `${s}/${divisor}`);
+  const [c, d] = keptAxes(to);
+  return `(u, v) ↦ (${quotient(symbols[c])}, ${quotient(symbols[d])})`;
+}
+
+/**
+ * The chart a class sits most comfortably in, with both coordinates in [-1, 1].
+ *
+ * @param v - Any representative of the class
+ * @returns The chart dividing by the largest coordinate
+ */
+export function bestChart(v: Vec3): ChartId {
+  const magnitudes = v.map(Math.abs);
+  return CHART_IDS[magnitudes.indexOf(Math.max(...magnitudes))];
+}
+
+/**
+ * Homogeneous coordinates [x : y : z] of a class, scaled so the largest
+ * coordinate has magnitude 1 and the canonical representative's sign.
+ *
+ * @param v - Any representative of the class
+ * @returns The scaled coordinates
+ */
+export function homogeneousCoordinates(v: Vec3): Vec3 {
+  const u = classOf(v).canonical;
+  const largest = Math.max(...u.map(Math.abs));
+  return Vec3.scale(u, 1 / largest);
+}
+
+/**
+ * Formats the homogeneous coordinates of a class.
+ *
+ * @param v - Any representative of the class
+ * @param digits - Decimal places
+ * @returns A string such as "[1.00 : -0.50 : 0.25]"
+ */
+export function formatHomogeneous(v: Vec3, digits = 2): string {
+  // Adding 0 turns -0 into 0
+  return `[${homogeneousCoordinates(v).map(c => (c + 0).toFixed(digits)).join(" : ")}]`;
+}
+
+/**
+ * Converts a path on S² into polylines in an affine chart.
+ *
+ * A path crossing the chart's line at infinity leaves on one side and comes
+ * back from the other, so it is split there, and parts beyond the window are
+ * dropped.
+ *
+ * @param path - Points of the path, as any representatives
+ * @param chart - The chart
+ * @param extent - Half-width of the square window of the chart drawn
+ * @returns Polylines in chart coordinates
+ */
+export function chartPolylines(path: Vec3[], chart: ChartId, extent: number): ChartPoint[][] {
+  const polylines: ChartPoint[][] = [];
+  let current: ChartPoint[] = [];
+  let lastSign = 0;
+
+  // Continuous lift, as in diskPolylines, so a sign change means a crossing
+  let last: Vec3 | null = null;
+  path.forEach(point => {
+    let u = Vec3.normalize(point);
+    if (last && Vec3.dot(last, u) < 0) u = Vec3.neg(u);
+    last = u;
+
+    const p = chartCoordinates(u, chart);
+    const sign = Math.sign(u[CHART_AXIS[chart]]);
+    const visible = p !== null && Math.abs(p[0]) <= extent && Math.abs(p[1]) <= extent;
+
+    if (!visible || sign !== lastSign) {
+      if (current.length > 1) polylines.push(current);
+      current = [];
+    }
+    if (visible) current.push(p);
+    lastSign = sign;
+  });
+
+  if (current.length > 1) polylines.push(current);
+  return polylines;
+}
+
+/**
+ * The representative with 1 in the chart's coordinate and p in the other two.
+ */
+function homogeneousOf(chart: ChartId, p: ChartPoint): Vec3 {
+  const v: Vec3 = [0, 0, 0];
+  v[CHART_AXIS[chart]] = 1;
+  const [a, b] = keptAxes(chart);
+  [v[a], v[b]] = p;
+  return v;
+}
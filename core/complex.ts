@@ -0,0 +1,212 @@
+/**
+ * Quotient Complex Module
+ *
+ * This module builds the quotient of a centrally symmetric triangle mesh by
+ * the antipodal map v ↦ -v. Vertices, edges and triangles are merged with
+ * their antipodes, so a triangulated sphere becomes a triangulated ℝP² and
+ * its Euler characteristic halves from 2 to 1.
+ *
+ * Meshes from `makeShapeMesh` repeat vertices along seams and contain
+ * collapsed triangles at poles, so coincident vertices are welded first.
+ * Triangles that collapse, either already on the welded mesh or only after
+ * the antipodal identification, are reported rather than counted.
+ */
+
+import { Vec3, Mesh } from "./types";
+import { weldVertices } from "./mesh";
+
+/**
+ * Counts of a cell complex
+ */
+export interface EulerCounts {
+  vertices: number;
+  edges: number;
+  faces: number;
+
+  /**
+   * V - E + F
+   */
+  eulerCharacteristic: number;
+}
+
+/**
+ * A triangle that does not survive as a 2-cell
+ */
+export interface DegenerateTriangle {
+  /**
+   * Index of the triangle in the original mesh
+   */
+  triangle: number;
+
+  /**
+   * "cover" if it has repeated vertices after welding, "quotient" if it only
+   * collapses once antipodal vertices are merged
+   */
+  stage: "cover" | "quotient";
+}
+
+/**
+ * The quotient of a mesh by v ↦ -v
+ */
+export interface QuotientComplex {
+  /**
+   * One representative position per quotient vertex
+   */
+  vertices: Vec3[];
+
+  /**
+   * Quotient edges, as oriented pairs of quotient vertices
+   */
+  edges: [number, number][];
+
+  /**
+   * For each edge, the representative lift to the mesh, as welded positions
+   */
+  edgeLifts: [Vec3, Vec3][];
+
+  /**
+   * Quotient triangles, one per antipodal pair of triangles
+   */
+  triangles: [number, number, number][];
+
+  /**
+   * For each triangle, the representative lift to the mesh, as welded positions
+   */
+  lifts: [Vec3, Vec3, Vec3][];
+
+  /**
+   * For each triangle, its sides 0→1, 1→2 and 2→0 as quotient edges, with
+   * sign +1 where the side runs along the edge's orientation
+   */
+  sides: { edge: number; sign: 1 | -1 }[][];
+
+  /**
+   * Quotient vertex of each original mesh vertex
+   */
+  vertexClass: number[];
+
+  /**
+   * Counts of the welded mesh
+   */
+  cover: EulerCounts;
+
+  /**
+   * Counts of the quotient
+   */
+  quotient: EulerCounts;
+
+  /**
+   * Triangles dropped as degenerate
+   */
+  degenerate: DegenerateTriangle[];
+}
+
+/**
+ * Builds the quotient complex of a centrally symmetric mesh.
+ *
+ * @param mesh - A mesh invariant under v ↦ -v, e.g. the sphere or cube
+ * @param eps - Distance below which vertices are welded
+ * @returns The quotient complex with Euler counts before and after
+ * @throws If some vertex or triangle has no antipode in the mesh, or a vertex is fixed by v ↦ -v
+ */
+export function buildQuotientComplex(mesh: Mesh, eps = 1e-6): QuotientComplex {
+  const { positions, weld, indexOf } = weldVertices(mesh, eps);
+
+  // Pair each welded vertex with its antipode
+  const antipode = positions.map((v, i) => {
+    const j = indexOf(Vec3.neg(v));
+    if (j === undefined) {
+      throw new Error(`Mesh is not centrally symmetric: no antipode for vertex ${i}`);
+    }
+    if (j === i) {
+      throw new Error(`Vertex ${i} is fixed by v ↦ -v; the antipodal map must act freely`);
+    }
+    return j;
+  });
+
+  // Quotient vertices, numbered in order of first appearance
+  const classOfWelded = new Array<number>(positions.length).fill(-1);
+  const vertices: Vec3[] = [];
+  positions.forEach((v, i) => {
+    if (classOfWelded[i] !== -1) return;
+    classOfWelded[i] = classOfWelded[antipode[i]] = vertices.length;
+    vertices.push(v);
+  });
+
+  const degenerate: DegenerateTriangle[] = [];
+  const coverEdges = new Set<string>();
+  const coverFaces = new Map<string, number>();
+  // Each edge orbit keeps the welded lift it was first seen with, which fixes its orientation
+  const quotientEdges = new Map<string, { index: number; lift: [number, number] }>();
+  const quotientFaces = new Map<string, { triangle: [number, number, number]; lift: [Vec3, Vec3, Vec3]; sides: { edge: number; sign: 1 | -1 }[] }>();
+  const pairKey = (a: number, b: number) => (a < b ? `${a},${b}` : `${b},${a}`);
+  const tripleKey = (t: number[]) => [...t].sort((a, b) => a - b).join(",");
+
+  for (let t = 0; t < mesh.indices.length / 3; t++) {
+    const tri = [0, 1, 2].map(k => weld[mesh.indices[3 * t + k]]);
+    if (new Set(tri).size < 3) {
+      degenerate.push({ triangle: t, stage: "cover" });
+      continue;
+    }
+
+    const classes = tri.map(i => classOfWelded[i]) as [number, number, number];
+    const coverKey = tripleKey(tri);
+    const isNewCoverFace = !coverFaces.has(coverKey);
+    if (isNewCoverFace) coverFaces.set(coverKey, t);
+    [[0, 1], [1, 2], [2, 0]].forEach(([a, b]) => coverEdges.add(pairKey(tri[a], tri[b])));
+
+    if (new Set(classes).size < 3) {
+      degenerate.push({ triangle: t, stage: "quotient" });
+      continue;
+    }
+
+    // A cell and its antipodal copy give one quotient cell
+    const sides = [[0, 1], [1, 2], [2, 0]].map(([a, b]) => {
+      const edge = pairKey(tri[a], tri[b]);
+      const mirror = pairKey(antipode[tri[a]], antipode[tri[b]]);
+      const orbit = edge < mirror ? edge : mirror;
+      if (!quotientEdges.has(orbit)) {
+        quotientEdges.set(orbit, { index: quotientEdges.size, lift: [tri[a], tri[b]] });
+      }
+      const { index, lift } = quotientEdges.get(orbit)!;
+      const forward = (lift[0] === tri[a] && lift[1] === tri[b]) ||
+        (lift[0] === antipode[tri[a]] && lift[1] === antipode[tri[b]]);
+      return { edge: index, sign: (forward ? 1 : -1) as 1 | -1 };
+    });
+
+    const mirror = tripleKey(tri.map(i => antipode[i]));
+    const orbit = coverKey < mirror ? coverKey : mirror;
+    if (isNewCoverFace && !quotientFaces.has(orbit)) {
+      quotientFaces.set(orbit, { triangle: classes, lift: tri.map(i => positions[i]) as [Vec3, Vec3, Vec3], sides });
+    }
+  }
+
+  coverFaces.forEach((t, face) => {
+    const mirror = tripleKey(face.split(",").map(i => antipode[Number(i)]));
+    if (!coverFaces.has(mirror)) {
+      throw new Error(`Mesh is not centrally symmetric: triangle ${t} has no antipodal triangle`);
+    }
+  });
+
+  const counts = (v: number, e: number, f: number): EulerCounts => ({
+    vertices: v,
+    edges: e,
+    faces: f,
+    eulerCharacteristic: v - e + f
+  });
+
+  const faces = [...quotientFaces.values()];
+  const edges = [...quotientEdges.values()];
+  return {
+    vertices,
+    edges: edges.map(e => [classOfWelded[e.lift[0]], classOfWelded[e.lift[1]]] as [number, number]),
+    edgeLifts: edges.map(e => [positions[e.lift[0]], positions[e.lift[1]]] as [Vec3, Vec3]),
+    triangles: faces.map(f => f.triangle),
+    lifts: faces.map(f => f.lift),
+    sides: faces.map(f => f.sides),
+    vertexClass: weld.map(i => classOfWelded[i]),
+    cover: counts(positions.length, coverEdges.size, coverFaces.size),
+    quotient: counts(vertices.length, quotientEdges.size, quotientFaces.size),
+    degenerate
+  };
+}
@@ -0,0 +1,395 @@
+/**
+ * Algebraic Curves Module
+ *
+ * A homogeneous polynomial f(x, y, z) of degree d satisfies
+ * f(λv) = λᵈ f(v), so whether f vanishes depends only on the class [v] and
+ * its zero set is a curve in ℝP². On the double cover the zero set is a
+ * union of loops, which the antipodal map permutes.
+ *
+ * A loop carried to itself by v ↦ -v is a pseudo-line: it closes up only
+ * after passing through both representatives, and like a projective line it
+ * does not separate ℝP². Two loops swapped by v ↦ -v make one oval, which
+ * bounds a disk. For odd d, f(-v) = -f(v): v ↦ -v swaps where f is positive
+ * with where it is negative, and the curve between them has a pseudo-line.
+ * For even d, f(-v) = f(v) and every component is an oval.
+ *
+ * Harnack's bound allows at most (d - 1)(d - 2)/2 + 1 components; a quartic
+ * perturbed from two ellipses reaches it with four ovals.
+ */
+
+import { Vec3, Mesh, QuotientClass } from "./types";
+import { classOf, pointInQuotientCone } from "./quotient";
+import { weldVertices } from "./mesh";
+
+/**
+ * A term c · xᵃ yᵇ zᶜ
+ */
+export interface Monomial {
+  coefficient: number;
+
+  /**
+   * Exponents of x, y and z
+   */
+  exponents: [number, number, number];
+}
+
+/**
+ * A homogeneous polynomial in x, y and z
+ */
+export interface HomogeneousPolynomial {
+  /**
+   * The common degree of every term
+   */
+  degree: number;
+
+  /**
+   * Nonzero terms, x-heaviest first
+   */
+  terms: Monomial[];
+}
+
+/**
+ * A connected component of a curve in ℝP², with its loops on S²
+ */
+export interface CurveComponent {
+  /**
+   * "pseudoline" for a loop that is its own antipode, "oval" for a pair of
+   * antipodal loops
+   */
+  kind: "oval" | "pseudoline";
+
+  /**
+   * Closed loops of points on S²: one for a pseudo-line, two for an oval
+   */
+  loops: Vec3[][];
+}
+
+/**
+ * Largest degree accepted, which keeps products of powers small
+ */
+export const MAX_CURVE_DEGREE = 12;
+
+/**
+ * Coefficients below this are dropped as zero
+ */
+const COEFFICIENT_EPS = 1e-12;
+
+/**
+ * Values of f below this at a vertex are treated as zero
+ */
+const VALUE_EPS = 1e-12;
+
+/**
+ * Distance within which two loop points are taken as antipodes
+ */
+const ANTIPODE_EPS = 1e-6;
+
+const SUPERSCRIPTS = "⁰¹²³⁴⁵⁶⁷⁸⁹";
+
+/**
+ * A polynomial during parsing: coefficients keyed by "a,b,c"
+ */
+type Terms = Map<string, number>;
+
+const constant = (c: number): Terms => new Map([["0,0,0", c]]);
+
+function addTerms(p: Terms, q: Terms, sign = 1): Terms {
+  const sum = new Map(p);
+  q.forEach((c, key) => sum.set(key, (sum.get(key) ?? 0) + sign * c));
+  return sum;
+}
+
+function multiplyTerms(p: Terms, q: Terms): Terms {
+  const product: Terms = new Map();
+  p.forEach((a, keyA) => q.forEach((b, keyB) => {
+    const ea = keyA.split(",").map(Number);
+    const eb = keyB.split(",").map(Number);
+    const key = ea.map((e, i) => e + eb[i]).join(",");
+    product.set(key, (product.get(key) ?? 0) + a * b);
+  }));
+  return product;
+}
+
+function degreeOf(key: string): number {
+  return key.split(",").map(Number).reduce((a, b) => a + b, 0);
+}
+
+/**
+ * Highest degree among the terms, an upper bound that ignores cancellation
+ */
+function termsDegree(p: Terms): number {
+  let degree = 0;
+  p.forEach((_, key) => { degree = Math.max(degree, degreeOf(key)); });
+  return degree;
+}
+
+/**
+ * Parses a homogeneous polynomial in x, y and z.
+ *
+ * Accepts sums, products (with * or by juxtaposition, as in 2xy),
+ * parentheses, and integer powers written with ^ or superscripts, so
+ * "(x^2 + 4y^2 - z^2)(4x² + y² - z²) + 0.05z^4" is a quartic. A digit
+ * directly after a variable, as in x2, is rejected.
+ *
+ * @param text - The polynomial
+ * @returns The polynomial with like terms collected
+ * @throws Error on a syntax error, a digit after a variable, a degree over the limit, a zero polynomial, or terms of different degrees
+ */
+export function parsePolynomial(text: string): HomogeneousPolynomial {
+  const source = text.replace(/−/g, "-").replace(/·/g, "*");
+  let pos = 0;
+
+  const skip = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+  };
+  const peek = () => {
+    skip();
+    return source[pos];
+  };
+  const fail = (message: string): never => {
+    throw new Error(`${message} at position ${pos + 1} of "${text}"`);
+  };
+
+  const startsAtom = (ch: string | undefined) => ch !== undefined && /[0-9.xyz(]/.test(ch);
+
+  const exponent = (): number => {
+    skip();
+    if (source[pos] === "^") {
+      pos++;
+      skip();
+      const match = /^\d+/.exec(source.slice(pos));
+      if (!match) return fail("Expected an integer exponent");
+      pos += match[0].length;
+      return Number(match[0]);
+    }
+    let digits = "";
+    while (pos < source.length && SUPERSCRIPTS.includes(source[pos])) {
+      digits += SUPERSCRIPTS.indexOf(source[pos]);
+      pos++;
+    }
+    return digits ? Number(digits) : 1;
+  };
+
+  const atom = (): Terms => {
+    const ch = peek();
+    if (ch === "(") {
+      pos++;
+      const inner = expression();
+      if (peek() !== ")") fail("Expected )");
+      pos++;
+      return inner;
+    }
+    if (ch === "x" || ch === "y" || ch === "z") {
+      pos++;
+      // "x2" reads as neither x² nor 2x without a guess, so it is refused
+      if (/[0-9.]/.test(source[pos] ?? "")) fail(`Write ${ch}^${source[pos]} for a power, not ${ch}${source[pos]}`);
+      const e = [0, 0, 0];
+      e["xyz".indexOf(ch)] = 1;
+      return new Map([[e.join(","), 1]]);
+    }
+    const match = /^(\d+\.?\d*|\.\d+)/.exec(source.slice(pos));
+    if (!match) return fail(ch === undefined ? "Unexpected end" : `Unexpected "${ch}"`);
+    pos += match[0].length;
+    return constant(Number(match[0]));
+  };
+
+  // Products are checked against the degree limit before they are expanded
+  const product = (p: Terms, q: Terms): Terms => {
+    const degree = termsDegree(p) + termsDegree(q);
+    if (degree > MAX_CURVE_DEGREE) fail(`Degree ${degree} exceeds the limit of ${MAX_CURVE_DEGREE}`);
+    return multiplyTerms(p, q);
+  };
+
+  const power = (): Terms => {
+    const base = atom();
+    const n = exponent();
+    if (n > MAX_CURVE_DEGREE) fail(`Exponent ${n} exceeds the degree limit of ${MAX_CURVE_DEGREE}`);
+    const degree = termsDegree(base) * n;
+    if (degree > MAX_CURVE_DEGREE) fail(`Degree ${degree} exceeds the limit of ${MAX_CURVE_DEGREE}`);
+    let result = constant(1);
+    for (let i = 0; i < n; i++) result = multiplyTerms(result, base);
+    return result;
+  };
+
+  const term = (): Terms => {
+    let result = power();
+    for (;;) {
+      if (peek() === "*") {
+        pos++;
+        result = product(result, power());
+      } else if (startsAtom(peek())) {
+        result = product(result, power());
+      } else {
+        return result;
+      }
+    }
+  };
+
+  const expression = (): Terms => {
+    let result: Terms = new Map();
+    let sign = 1;
+    if (peek() === "-" || peek() === "+") {
+      sign = source[pos] === "-" ? -1 : 1;
+      pos++;
+    }
+    result = addTerms(result, term(), sign);
+    while (peek() === "+" || peek() === "-") {
+      sign = source[pos] === "-" ? -1 : 1;
+      pos++;
+      result = addTerms(result, term(), sign);
+    }
+    return result;
+  };
+
+  const terms = expression();
+  if (pos < source.length) fail(`Unexpected "${source[pos]}"`);
+
+  const nonzero = [...terms].filter(([, c]) => Math.abs(c) > COEFFICIENT_EPS);
+  if (nonzero.length === 0) throw new Error(`"${text}" is the zero polynomial, which vanishes everywhere`);
+
+  const degrees = [...new Set(nonzero.map(([key]) => degreeOf(key)))].sort((a, b) => a - b);
+  if (degrees.length > 1) {
+    throw new Error(`"${text}" is not homogeneous: it has terms of degrees ${degrees.join(", ")}`);
+  }
+  if (degrees[0] > MAX_CURVE_DEGREE) throw new Error(`Degree ${degrees[0]} exceeds the limit of ${MAX_CURVE_DEGREE}`);
+
+  const monomials = nonzero.map(([key, coefficient]) => ({
+    coefficient,
+    exponents: key.split(",").map(Number) as [number, number, number]
+  }));
+  monomials.sort((a, b) =>
+    b.exponents[0] - a.exponents[0] || b.exponents[1] - a.exponents[1] || b.exponents[2] - a.exponents[2]
+  );
+  return { degree: degrees[0], terms: monomials };
+}
+
+/**
+ * Evaluates a polynomial at a vector.
+ *
+ * @param p - The polynomial
+ * @param v - The point
+ * @returns f(v); f(-v) = (-1)ᵈ f(v)
+ */
+export function evaluatePolynomial(p: HomogeneousPolynomial, v: Vec3): number {
+  return p.terms.reduce(
+    (sum, { coefficient, exponents }) => sum + coefficient * v[0] ** exponents[0] * v[1] ** exponents[1] * v[2] ** exponents[2],
+    0
+  );
+}
+
+/**
+ * Writes a polynomial with superscript powers.
+ *
+ * @param p - The polynomial
+ * @returns A string such as "x² + y² − 0.5z²", which parsePolynomial accepts
+ */
+export function formatPolynomial(p: HomogeneousPolynomial): string {
+  const superscript = (n: number) => (n === 1 ? "" : String(n).split("").map(d => SUPERSCRIPTS[Number(d)]).join(""));
+  return p.terms.map(({ coefficient, exponents }, i) => {
+    const variables = exponents.map((e, k) => (e === 0 ? "" : `${"xyz"[k]}${superscript(e)}`)).join("");
+    const magnitude = Number(Math.abs(coefficient).toPrecision(4));
+    const body = magnitude === 1 && variables ? variables : `${magnitude}${variables}`;
+    if (i === 0) return coefficient < 0 ? `−${body}` : body;
+    return coefficient < 0 ? ` − ${body}` : ` + ${body}`;
+  }).join("");
+}
+
+/**
+ * Value of f at a unit vector, with zeros broken consistently across
+ * antipodes: toward + for even degree, and toward the sign of the
+ * representative for odd degree, so that the sign pattern keeps the symmetry.
+ */
+function signedValue(p: HomogeneousPolynomial, u: Vec3): number {
+  const f = evaluatePolynomial(p, u);
+  if (Math.abs(f) > VALUE_EPS) return f;
+  if (p.degree % 2 === 0) return VALUE_EPS;
+  return Vec3.dot(classOf(u).canonical, u) > 0 ? VALUE_EPS : -VALUE_EPS;
+}
+
+/**
+ * Extracts the zero set of a polynomial on a sphere mesh by marching
+ * triangles, and groups its loops into components of the curve in ℝP².
+ *
+ * @param p - The polynomial
+ * @param mesh - A centrally symmetric triangulated sphere, such as makeShapeMesh("sphere", n) for even n
+ * @returns The pseudo-lines and ovals of the curve
+ * @throws Error if a loop has no antipodal loop, so the mesh is not symmetric
+ */
+export function extractCurve(p: HomogeneousPolynomial, mesh: Mesh): CurveComponent[] {
+  const { positions, weld } = weldVertices(mesh);
+  const directions = positions.map(v => Vec3.normalize(v));
+  const values = directions.map(u => signedValue(p, u));
+
+  // Each edge where f changes sign holds one crossing; each triangle links two
+  const crossings = new Map<string, Vec3>();
+  const neighbors = new Map<string, string[]>();
+  const crossingOn = (i: number, j: number): string => {
+    const key = i < j ? `${i},${j}` : `${j},${i}`;
+    if (!crossings.has(key)) {
+      const t = values[i] / (values[i] - values[j]);
+      crossings.set(key, Vec3.normalize(Vec3.add(directions[i], Vec3.scale(Vec3.sub(directions[j], directions[i]), t))));
+      neighbors.set(key, []);
+    }
+    return key;
+  };
+
+  for (let t = 0; t < mesh.indices.length; t += 3) {
+    const [a, b, c] = [0, 1, 2].map(k => weld[mesh.indices[t + k]]);
+    if (a === b || b === c || c === a) continue;
+    const ends = ([[a, b], [b, c], [c, a]] as [number, number][])
+      .filter(([i, j]) => values[i] > 0 !== values[j] > 0)
+      .map(([i, j]) => crossingOn(i, j));
+    if (ends.length !== 2) continue;
+    neighbors.get(ends[0])!.push(ends[1]);
+    neighbors.get(ends[1])!.push(ends[0]);
+  }
+
+  // Walk each loop of crossings
+  const loops: Vec3[][] = [];
+  const visited = new Set<string>();
+  neighbors.forEach((_, start) => {
+    if (visited.has(start)) return;
+    const loop: Vec3[] = [];
+    let prev: string | undefined;
+    let current: string | undefined = start;
+    while (current !== undefined && !visited.has(current)) {
+      visited.add(current);
+      loop.push(crossings.get(current)!);
+      const [n1, n2] = neighbors.get(current)!;
+      const next: string | undefined = n1 !== prev ? n1 : n2;
+      prev = current;
+      current = next;
+    }
+    if (loop.length > 2) loops.push(loop);
+  });
+
+  // Pair each loop with the loop through its antipode
+  const components: CurveComponent[] = [];
+  const paired = new Set<number>();
+  loops.forEach((loop, i) => {
+    if (paired.has(i)) return;
+    const antipode = Vec3.neg(loop[0]);
+    const j = loops.findIndex((other, k) =>
+      !paired.has(k) && other.some(q => Vec3.approxEq(q, antipode, ANTIPODE_EPS))
+    );
+    if (j < 0) throw new Error(`Loop ${i} of the curve has no antipodal loop: the mesh must be centrally symmetric`);
+    paired.add(i);
+    paired.add(j);
+    components.push(j === i ? { kind: "pseudoline", loops: [loop] } : { kind: "oval", loops: [loop, loops[j]] });
+  });
+  return components;
+}
+
+/**
+ * Counts the components of a curve that meet a selection cone.
+ *
+ * @param components - Components from extractCurve
+ * @param center - The class at the center of the cone
+ * @param aperture - Half-angle of the cone in radians
+ * @returns How many components have a point inside the cone
+ */
+export function componentsInCone(components: CurveComponent[], center: QuotientClass, aperture: number): number {
+  return components.filter(c =>
+    c.loops.some(loop => loop.some(u => pointInQuotientCone(u, center, aperture)))
+  ).length;
+}
@@ -0,0 +1,35 @@
+/**
+ * Disjoint Sets Module
+ *
+ * A disjoint-set forest over the integers 0 … n - 1, stored as a parent
+ * array in which each root is its own parent. Gluing builds surfaces by
+ * merging corners and faces, and orienting a mesh merges the corners of its
+ * two orientation copies; both read off the classes from the roots.
+ *
+ * Internal to the core: not part of the public API.
+ */
+
+/**
+ * Finds the representative of i in a disjoint-set forest.
+ */
+export function findSet(parent: number[], i: number): number {
+  while (parent[i] !== i) {
+    parent[i] = parent[parent[i]];
+    i = parent[i];
+  }
+  return i;
+}
+
+/**
+ * Merges the sets of i and j.
+ */
+export function unionSets(parent: number[], i: number, j: number): void {
+  parent[findSet(parent, i)] = findSet(parent, j);
+}
+
+/**
+ * Counts the sets of a disjoint-set forest.
+ */
+export function countSets(parent: number[]): number {
+  return parent.filter((_, i) => findSet(parent, i) === i).length;
+}
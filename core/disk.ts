@@ -0,0 +1,157 @@
+/**
+ * Disk Model Module
+ *
+ * This module draws ℝP² as the closed unit disk: the canonical hemisphere
+ * x ≥ 0 chosen by `classOf`, projected flat. Interior points of the disk are
+ * single classes; opposite points p and -p of the boundary circle are the
+ * same class, since they come from a rim point u and its antipode -u.
+ *
+ * Disk coordinates show the hemisphere as seen from +x with +y up, so a
+ * point (x, y, z) lands in the direction (-z, y).
+ *
+ * Projections:
+ * - Orthographic: radius sin φ, where φ is the angle from +x
+ * - Equal-area (Lambert azimuthal): radius √2·sin(φ/2), so equal areas of ℝP²
+ *   cover equal areas of the disk
+ */
+
+import { Vec3, QuotientClass } from "./types";
+import { classOf } from "./quotient";
+
+export type DiskProjection = "orthographic" | "equalArea";
+
+/**
+ * A point of the unit disk
+ */
+export type DiskPoint = [number, number];
+
+/**
+ * Projects a quotient class onto the disk.
+ *
+ * @param v - Any representative of the class
+ * @param projection - Orthographic or equal-area
+ * @returns The disk point of the canonical representative
+ */
+export function diskPoint(v: Vec3, projection: DiskProjection): DiskPoint {
+  return projectUpper(classOf(v).canonical, projection);
+}
+
+/**
+ * Recovers the canonical representative of the class at a disk point.
+ *
+ * @param p - A point of the closed unit disk
+ * @param projection - Orthographic or equal-area
+ * @returns A unit vector with x ≥ 0
+ */
+export function diskToSphere(p: DiskPoint, projection: DiskProjection): Vec3 {
+  const r = Math.hypot(p[0], p[1]);
+  if (r > 1 + 1e-9) {
+    throw new Error(`Point (${p[0]}, ${p[1]}) lies outside the unit disk`);
+  }
+
+  const phi = projection === "orthographic"
+    ? Math.asin(Math.min(1, r))
+    : 2 * Math.asin(Math.min(1, r) / Math.SQRT2);
+  if (r === 0) return [1, 0, 0];
+
+  const s = Math.sin(phi) / r;
+  return [Math.cos(phi), p[1] * s, -p[0] * s];
+}
+
+/**
+ * Draws a path of classes on the disk, wrapping at the boundary.
+ *
+ * The path is lifted continuously to S². Whenever the lift crosses the rim
+ * x = 0 the current polyline ends on the boundary and a new one starts at the
+ * opposite boundary point, which is the same class.
+ *
+ * @param path - Representatives of the classes along the path
+ * @param projection - Orthographic or equal-area
+ * @returns Polylines inside the disk, in order
+ */
+export function diskPolylines(path: Vec3[], projection: DiskProjection): DiskPoint[][] {
+  if (path.length === 0) return [];
+
+  // Continuous lift, as in createPath: each point takes the sign nearest the last
+  const lifted: Vec3[] = [Vec3.normalize(path[0])];
+  for (let i = 1; i < path.length; i++) {
+    const v = Vec3.normalize(path[i]);
+    lifted.push(Vec3.dot(lifted[i - 1], v) < 0 ? Vec3.neg(v) : v);
+  }
+
+  const side = (v: Vec3) => (v[0] >= 0 ? 1 : -1);
+  let sign = side(lifted[0]);
+  let current: DiskPoint[] = [projectUpper(Vec3.scale(lifted[0], sign), projection)];
+  const polylines: DiskPoint[][] = [current];
+
+  for (let i = 1; i < lifted.length; i++) {
+    const a = lifted[i - 1];
+    const b = lifted[i];
+
+    if (side(b) !== sign) {
+      // Leave through the rim and come back in at the opposite point
+      const t = a[0] / (a[0] - b[0]);
+      const crossing = Vec3.add(a, Vec3.scale(Vec3.sub(b, a), t));
+      const rim = Vec3.normalize([0, crossing[1], crossing[2]]);
+
+      current.push(projectUpper(Vec3.scale(rim, sign), projection));
+      sign = side(b);
+      current = [projectUpper(Vec3.scale(rim, sign), projection)];
+      polylines.push(current);
+    }
+    current.push(projectUpper(Vec3.scale(b, sign), projection));
+  }
+
+  return polylines;
+}
+
+/**
+ * Draws the boundary of a selection cone on the disk.
+ *
+ * A cone whose boundary circle stays inside the hemisphere is a single closed
+ * curve. A cone crossing the rim splits into arcs on opposite sides of the
+ * disk, each ending on the boundary.
+ *
+ * @param qClass - The class at the center of the cone
+ * @param aperture - The half-angle of the cone in radians
+ * @param projection - Orthographic or equal-area
+ * @param samples - Number of points on the boundary circle
+ * @returns Polylines inside the disk
+ */
+export function diskConeBoundary(
+  qClass: QuotientClass,
+  aperture: number,
+  projection: DiskProjection,
+  samples = 128
+): DiskPoint[][] {
+  const u = qClass.canonical;
+  const e1 = Vec3.normalize(Vec3.cross(u, Math.abs(u[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0]));
+  const e2 = Vec3.cross(u, e1);
+
+  const circle = Array.from({ length: samples + 1 }, (_, k) => {
+    const theta = (2 * Math.PI * k) / samples;
+    const inPlane = Vec3.add(Vec3.scale(e1, Math.cos(theta)), Vec3.scale(e2, Math.sin(theta)));
+    return Vec3.add(Vec3.scale(u, Math.cos(aperture)), Vec3.scale(inPlane, Math.sin(aperture)));
+  });
+
+  // The circle is closed, so its last arc continues into its first
+  const polylines = diskPolylines(circle, projection);
+  if (polylines.length > 1) {
+    const last = polylines.pop()!;
+    polylines[0] = [...last, ...polylines[0].slice(1)];
+  }
+  return polylines;
+}
+
+/**
+ * Projects a point with x ≥ 0 onto the disk.
+ */
+function projectUpper(v: Vec3, projection: DiskProjection): DiskPoint {
+  const [x, y, z] = v;
+  const r = Math.hypot(y, z);
+  if (r < 1e-12) return [0, 0];
+
+  const phi = Math.atan2(r, Math.max(0, x));
+  const radius = projection === "orthographic" ? Math.sin(phi) : Math.SQRT2 * Math.sin(phi / 2);
+  return [(-z / r) * radius, (y / r) * radius];
+}
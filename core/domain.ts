@@ -0,0 +1,330 @@
+/**
+ * Fundamental Domain Module
+ *
+ * This module computes a Dirichlet fundamental domain for a finite group G
+ * acting on S², together with the gluing of its edges.
+ *
+ * Key Concept: Dirichlet Domains
+ * Fix a point p with trivial stabilizer. The Dirichlet domain of p is the set
+ * of points at least as close to p as to any other point of its orbit:
+ *
+ *   D = { x ∈ S² : x · p ≥ x · (g·p) for all g ∈ G }
+ *
+ * Each constraint is a hemisphere, so D is a convex spherical polygon. Every
+ * orbit meets D, and D tiles S² under G. The edge lying on the circle of g is
+ * carried by g⁻¹ onto the edge of g⁻¹; gluing paired edges recovers S²/G.
+ *
+ * For the antipodal group the domain is a hemisphere whose boundary circle is
+ * glued to itself by u ↦ -u, the classical model of ℝP².
+ */
+
+import { Vec3 } from './types';
+import { Mat3, IDENTITY_MAT3, matMul, matVecMul } from './transforms';
+import { QuotientGroup } from './groups';
+
+/**
+ * An edge of a fundamental domain
+ */
+export interface DomainEdge {
+  /**
+   * Start vertex of the edge (equal to `end` for a full great circle)
+   */
+  start: Vec3;
+
+  /**
+   * End vertex of the edge
+   */
+  end: Vec3;
+
+  /**
+   * Unit normal of the edge's great circle, pointing into the domain
+   */
+  normal: Vec3;
+
+  /**
+   * Points sampled along the edge, from start to end
+   */
+  points: Vec3[];
+
+  /**
+   * Index of the edge this one is glued to (its own index for a mirror edge)
+   */
+  partner: number;
+
+  /**
+   * The group element carrying this edge onto its partner
+   */
+  gluing: Mat3;
+
+  /**
+   * Whether the edge is fixed pointwise by its gluing (a reflection mirror),
+   * in which case it is a boundary of the quotient rather than a seam
+   */
+  mirror: boolean;
+}
+
+/**
+ * A fundamental domain for a finite group acting on S²
+ */
+export interface FundamentalDomain {
+  /**
+   * The Dirichlet center p
+   */
+  center: Vec3;
+
+  /**
+   * Vertices of the spherical polygon, in counter-clockwise order about the center
+   */
+  vertices: Vec3[];
+
+  /**
+   * Edges of the polygon with their pairings
+   */
+  edges: DomainEdge[];
+
+  /**
+   * The area of the domain, 4π / |G|
+   */
+  area: number;
+}
+
+/**
+ * Tolerance for constraint and incidence tests
+ */
+const DOMAIN_EPS = 1e-7;
+
+/**
+ * A point with trivial stabilizer under all the standard groups
+ */
+const DEFAULT_CENTER: Vec3 = Vec3.normalize([0.1234, 0.8765, 0.4321]);
+
+/**
+ * A Dirichlet constraint x · normal ≥ 0, remembering the element that produced it.
+ */
+interface Constraint {
+  normal: Vec3;
+  element: Mat3;
+}
+
+/**
+ * Tests whether a point satisfies every constraint.
+ */
+function satisfiesAll(x: Vec3, constraints: Constraint[]): boolean {
+  return constraints.every(c => Vec3.dot(x, c.normal) >= -DOMAIN_EPS);
+}
+
+/**
+ * Finds the inverse of a group element among the group's elements.
+ */
+function inverseOf(group: QuotientGroup, g: Mat3): Mat3 {
+  const inverse = group.elements.find(h =>
+    matMul(g, h).every((x, i) => Math.abs(x - IDENTITY_MAT3[i]) < 1e-6)
+  );
+  if (!inverse) throw new Error(`Group ${group.name} is not closed under inverses`);
+  return inverse;
+}
+
+/**
+ * Samples the arc of a great circle from a to b passing through m.
+ *
+ * @param a - Start of the arc
+ * @param b - End of the arc (equal to a for the full circle)
+ * @param m - A point strictly inside the arc
+ * @param segments - Samples per radian
+ */
+function sampleArc(a: Vec3, b: Vec3, m: Vec3, segments = 24): Vec3[] {
+  const e2 = Vec3.normalize(Vec3.sub(m, Vec3.scale(a, Vec3.dot(m, a))));
+  let span = Math.atan2(Vec3.dot(b, e2), Vec3.dot(b, a));
+  if (span <= DOMAIN_EPS) span += 2 * Math.PI;
+
+  const count = Math.max(2, Math.ceil(span * segments));
+  const points: Vec3[] = [];
+  for (let i = 0; i <= count; i++) {
+    const t = (span * i) / count;
+    points.push(Vec3.add(Vec3.scale(a, Math.cos(t)), Vec3.scale(e2, Math.sin(t))));
+  }
+  return points;
+}
+
+/**
+ * Orders an edge so that the domain lies to its left when seen from outside S².
+ */
+function orient(start: Vec3, end: Vec3, mid: Vec3, normal: Vec3): [Vec3, Vec3] {
+  const tangent = Vec3.sub(mid, start);
+  const left = Vec3.cross(mid, tangent);
+  return Vec3.dot(left, normal) >= 0 ? [start, end] : [end, start];
+}
+
+/**
+ * Computes the Dirichlet fundamental domain of a finite group acting on S².
+ *
+ * @param group - A finite group
+ * @param center - The Dirichlet center; must have a trivial stabilizer
+ * @returns The domain as a spherical polygon with paired edges
+ * @throws Error if the center is fixed by a non-identity element
+ */
+export function computeFundamentalDomain(
+  group: QuotientGroup,
+  center: Vec3 = DEFAULT_CENTER
+): FundamentalDomain {
+  const p = Vec3.normalize(center);
+
+  const constraints: Constraint[] = group.elements.slice(1).map(g => {
+    const diff = Vec3.sub(p, matVecMul(g, p));
+    if (Vec3.norm(diff) < DOMAIN_EPS) {
+      throw new Error('Dirichlet center must have a trivial stabilizer');
+    }
+    return { normal: Vec3.normalize(diff), element: g };
+  });
+
+  // Vertices: intersections of constraint circles lying in the domain
+  const vertices: Vec3[] = [];
+  for (let i = 0; i < constraints.length; i++) {
+    for (let j = i + 1; j < constraints.length; j++) {
+      const axis = Vec3.cross(constraints[i].normal, constraints[j].normal);
+      if (Vec3.norm(axis) < DOMAIN_EPS) continue;
+
+      const v = Vec3.normalize(axis);
+      for (const candidate of [v, Vec3.neg(v)]) {
+        if (satisfiesAll(candidate, constraints) && !vertices.some(w => Vec3.approxEq(w, candidate, 1e-6))) {
+          vertices.push(candidate);
+        }
+      }
+    }
+  }
+
+  // Order vertices counter-clockwise about the center
+  const e1 = Vec3.normalize(Vec3.cross(p, Math.abs(p[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0]));
+  const e2 = Vec3.cross(p, e1);
+  vertices.sort((a, b) =>
+    Math.atan2(Vec3.dot(a, e2), Vec3.dot(a, e1)) - Math.atan2(Vec3.dot(b, e2), Vec3.dot(b, e1))
+  );
+
+  // Edges: for each constraint, the arc of its circle lying in the domain
+  interface RawEdge { start: Vec3; end: Vec3; mid: Vec3; constraint: Constraint }
+  const raw: RawEdge[] = [];
+  for (const c of constraints) {
+    const onCircle = vertices.filter(v => Math.abs(Vec3.dot(v, c.normal)) < 1e-6);
+
+    if (onCircle.length === 0) {
+      // Full great circle: only possible when this is the sole active constraint
+      const start = Vec3.normalize(Vec3.cross(c.normal, e1));
+      const probe = Vec3.cross(c.normal, start);
+      if (satisfiesAll(start, constraints) && satisfiesAll(probe, constraints)) {
+        raw.push({ start, end: start, mid: probe, constraint: c });
+      }
+      continue;
+    }
+    if (onCircle.length !== 2) continue;
+
+    const [a, b] = onCircle;
+    const m = Vec3.dot(a, b) < -1 + 1e-9
+      ? Vec3.normalize(Vec3.cross(c.normal, a))
+      : Vec3.normalize(Vec3.add(a, b));
+    for (const mid of [m, Vec3.neg(m)]) {
+      if (satisfiesAll(mid, constraints)) {
+        raw.push({ start: a, end: b, mid, constraint: c });
+        break;
+      }
+    }
+  }
+
+  // Pair edges: the edge of g is carried by g⁻¹ onto the edge of g⁻¹
+  const edges: DomainEdge[] = [];
+  const indexOfRaw = (g: Mat3) => raw.findIndex(r => r.constraint.element === g);
+  const placed = new Map<number, number>();
+
+  raw.forEach((r, i) => {
+    if (placed.has(i)) return;
+    const g = r.constraint.element;
+    const gInv = inverseOf(group, g);
+    const j = indexOfRaw(gInv);
+
+    const makeEdge = (start: Vec3, end: Vec3, mid: Vec3, normal: Vec3, gluing: Mat3): DomainEdge => {
+      const [s, e] = orient(start, end, mid, normal);
+      return { start: s, end: e, normal, points: sampleArc(s, e, mid), partner: -1, gluing, mirror: false };
+    };
+
+    if (j !== i) {
+      const first = edges.length;
+      edges.push(makeEdge(r.start, r.end, r.mid, r.constraint.normal, gInv));
+      const partnerRaw = raw[j];
+      edges.push(makeEdge(partnerRaw.start, partnerRaw.end, partnerRaw.mid, partnerRaw.constraint.normal, g));
+      edges[first].partner = first + 1;
+      edges[first + 1].partner = first;
+      placed.set(i, first);
+      placed.set(j, first + 1);
+      return;
+    }
+
+    // Self-paired edge (g is an involution)
+    const fixesEdge = Vec3.approxEq(matVecMul(g, r.mid), r.mid, 1e-6) &&
+      Vec3.approxEq(matVecMul(g, r.start), r.start, 1e-6);
+    if (fixesEdge) {
+      const edge = makeEdge(r.start, r.end, r.mid, r.constraint.normal, g);
+      edge.mirror = true;
+      edge.partner = edges.length;
+      placed.set(i, edges.length);
+      edges.push(edge);
+      return;
+    }
+
+    // g reverses the edge: split it at a point swapped with its image and pair the halves
+    const full = Vec3.approxEq(r.start, r.end, 1e-9);
+    const split = full ? Vec3.neg(r.start) : r.mid;
+    const firstMid = full ? r.mid : Vec3.normalize(Vec3.add(r.start, r.mid));
+    const secondMid = full ? Vec3.neg(r.mid) : Vec3.normalize(Vec3.add(r.mid, r.end));
+
+    const first = edges.length;
+    edges.push(makeEdge(r.start, split, firstMid, r.constraint.normal, g));
+    edges.push(makeEdge(split, r.end, secondMid, r.constraint.normal, g));
+    edges[first].partner = first + 1;
+    edges[first + 1].partner = first;
+    placed.set(i, first);
+  });
+
+  return {
+    center: p,
+    vertices,
+    edges,
+    area: (4 * Math.PI) / group.elements.length
+  };
+}
+
+/**
+ * Tests if a point lies in a fundamental domain.
+ *
+ * @param domain - A fundamental domain
+ * @param v - A unit vector on S²
+ * @returns true if v satisfies all of the domain's edge constraints
+ */
+export function pointInDomain(domain: FundamentalDomain, v: Vec3): boolean {
+  const u = Vec3.normalize(v);
+  return domain.edges.every(e => Vec3.dot(u, e.normal) >= -DOMAIN_EPS);
+}
+
+/**
+ * Finds the representative of an orbit lying in a fundamental domain.
+ *
+ * In a Dirichlet domain this is simply the orbit point closest to the center.
+ *
+ * @param group - The group the domain was computed for
+ * @param domain - A Dirichlet fundamental domain
+ * @param v - Any non-zero vector
+ * @returns The orbit point of v inside the domain
+ */
+export function domainRepresentative(
+  group: QuotientGroup,
+  domain: FundamentalDomain,
+  v: Vec3
+): Vec3 {
+  const u = Vec3.normalize(v);
+  let best = u;
+  for (const g of group.elements) {
+    const candidate = matVecMul(g, u);
+    if (Vec3.dot(candidate, domain.center) > Vec3.dot(best, domain.center)) {
+      best = candidate;
+    }
+  }
+  return best;
+}
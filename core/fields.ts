@@ -0,0 +1,187 @@
+/**
+ * Scalar Fields Module
+ *
+ * A scalar field f on S² descends to a function on ℝP² exactly when
+ * f(u) = f(-u) for every u. Any f splits uniquely as f = f₊ + f₋ with
+ *
+ *   f₊(u) = (f(u) + f(-u)) / 2   (even: f₊(-u) = f₊(u))
+ *   f₋(u) = (f(u) - f(-u)) / 2   (odd: f₋(-u) = -f₋(u))
+ *
+ * The even part is the best ℝP² approximation of f, and the odd part is
+ * what the quotient cannot see: an odd f vanishes after averaging over each
+ * class {u, -u}. x² and xy are even; x, and x³ + y, are odd.
+ *
+ * Fields are typed as expressions in x, y and z, evaluated at unit vectors.
+ */
+
+import { Vec3 } from "./types";
+
+/**
+ * A real function of a direction
+ */
+export type ScalarField = (u: Vec3) => number;
+
+/**
+ * Functions an expression may call
+ */
+const FUNCTIONS: Record<string, (t: number) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  exp: Math.exp,
+  log: Math.log,
+  sqrt: Math.sqrt,
+  abs: Math.abs
+};
+
+/**
+ * Parses an expression in x, y and z into a scalar field.
+ *
+ * Accepts numbers, the constant pi, + - * / and ^, parentheses, the
+ * functions sin, cos, tan, exp, log, sqrt and abs, and multiplication by
+ * juxtaposition, so "2xy + sin(3z)" is read as 2·x·y + sin(3·z).
+ *
+ * @param text - The expression
+ * @returns The field it defines
+ * @throws Error on a syntax error or an unknown name
+ */
+export function parseScalarField(text: string): ScalarField {
+  const source = text.replace(/−/g, "-").replace(/·/g, "*");
+  let pos = 0;
+
+  const peek = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+    return source[pos];
+  };
+  const fail = (message: string): never => {
+    throw new Error(`${message} at position ${pos + 1} of "${text}"`);
+  };
+
+  const startsPrimary = (ch: string | undefined) => ch !== undefined && /[0-9.a-z(]/i.test(ch);
+
+  const primary = (): ScalarField => {
+    const ch = peek();
+    if (ch === "(") {
+      pos++;
+      const inner = expression();
+      if (peek() !== ")") fail("Expected )");
+      pos++;
+      return inner;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)/.exec(source.slice(pos));
+    if (number) {
+      pos += number[0].length;
+      const c = Number(number[0]);
+      return () => c;
+    }
+
+    const name = /^[a-z]+/i.exec(source.slice(pos));
+    if (!name) return fail(ch === undefined ? "Unexpected end" : `Unexpected "${ch}"`);
+    const word = name[0].toLowerCase();
+    pos += word.length;
+
+    if (word in FUNCTIONS) {
+      if (peek() !== "(") fail(`Expected ( after ${word}`);
+      const g = FUNCTIONS[word];
+      const argument = primary();
+      return u => g(argument(u));
+    }
+    if (word === "pi") return () => Math.PI;
+    // A run of variables such as xyz is their product
+    if (/^[xyz]+$/.test(word)) {
+      const axes = word.split("").map(v => "xyz".indexOf(v));
+      return u => axes.reduce((p, k) => p * u[k], 1);
+    }
+    pos -= word.length;
+    return fail(`Unknown name "${word}"`);
+  };
+
+  const power = (): ScalarField => {
+    const base = primary();
+    if (peek() !== "^") return base;
+    pos++;
+    const exponent = unary();
+    return u => base(u) ** exponent(u);
+  };
+
+  const unary = (): ScalarField => {
+    const ch = peek();
+    if (ch === "-" || ch === "+") {
+      pos++;
+      const operand = unary();
+      return ch === "-" ? u => -operand(u) : operand;
+    }
+    return power();
+  };
+
+  const term = (): ScalarField => {
+    let result = unary();
+    for (;;) {
+      const ch = peek();
+      if (ch === "*" || ch === "/") {
+        pos++;
+        const [left, right] = [result, unary()];
+        result = ch === "*" ? u => left(u) * right(u) : u => left(u) / right(u);
+      } else if (startsPrimary(ch)) {
+        const [left, right] = [result, power()];
+        result = u => left(u) * right(u);
+      } else {
+        return result;
+      }
+    }
+  };
+
+  const expression = (): ScalarField => {
+    let result = term();
+    for (;;) {
+      const ch = peek();
+      if (ch !== "+" && ch !== "-") return result;
+      pos++;
+      const [left, right] = [result, term()];
+      result = ch === "+" ? u => left(u) + right(u) : u => left(u) - right(u);
+    }
+  };
+
+  const field = expression();
+  if (peek() !== undefined) fail(`Unexpected "${source[pos]}"`);
+  return field;
+}
+
+/**
+ * The even part of a field, which descends to ℝP².
+ *
+ * @param f - A field
+ * @returns u ↦ (f(u) + f(-u)) / 2
+ */
+export function evenPart(f: ScalarField): ScalarField {
+  return u => (f(u) + f(Vec3.neg(u))) / 2;
+}
+
+/**
+ * The odd part of a field, which averages to zero over every class.
+ *
+ * @param f - A field
+ * @returns u ↦ (f(u) - f(-u)) / 2
+ */
+export function oddPart(f: ScalarField): ScalarField {
+  return u => (f(u) - f(Vec3.neg(u))) / 2;
+}
+
+/**
+ * Evaluates a field at a list of directions.
+ *
+ * @param f - A field
+ * @param directions - Unit vectors, e.g. from vertexDirections
+ * @returns The value at each direction
+ * @throws Error if the field is not a finite number somewhere
+ */
+export function sampleField(f: ScalarField, directions: Vec3[]): number[] {
+  return directions.map(u => {
+    const value = f(u);
+    if (!Number.isFinite(value)) {
+      throw new Error(`The field is not finite at [${u.map(c => c.toFixed(2)).join(", ")}]`);
+    }
+    return value;
+  });
+}
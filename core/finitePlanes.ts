@@ -0,0 +1,363 @@
+/**
+ * Finite Projective Planes Module
+ *
+ * Nothing in the construction of ℝP² needs the real numbers. Over any field
+ * F a point of the projective plane is a nonzero vector of F³ up to a nonzero
+ * scalar, and a line is the set of points whose dot product with a fixed
+ * nonzero vector vanishes. Over the finite field GF(q) this gives PG(2, q),
+ * with q² + q + 1 points, as many lines, q + 1 points on every line and q + 1
+ * lines through every point.
+ *
+ * Where `classOf` picks the representative whose first nonzero coordinate is
+ * positive, here the first nonzero coordinate is scaled to 1: over GF(q) a
+ * class has q - 1 representatives rather than two. The smallest plane,
+ * PG(2, 2), is the Fano plane of 7 points and 7 lines.
+ *
+ * Field elements are the integers 0 … q - 1. For q = pᵏ an element stands
+ * for the polynomial over GF(p) whose coefficients are its base-p digits,
+ * and products are taken modulo a monic irreducible polynomial of degree k.
+ */
+
+/**
+ * The finite field GF(q), given by its addition and multiplication tables
+ */
+export interface FiniteField {
+  /**
+   * Number of elements q = pᵏ
+   */
+  order: number;
+
+  /**
+   * The prime p
+   */
+  characteristic: number;
+
+  /**
+   * The exponent k
+   */
+  degree: number;
+
+  /**
+   * add[a][b] = a + b
+   */
+  add: number[][];
+
+  /**
+   * mul[a][b] = a · b
+   */
+  mul: number[][];
+}
+
+/**
+ * Homogeneous coordinates [x : y : z] over GF(q), with entries in 0 … q - 1
+ */
+export type FinitePoint = [number, number, number];
+
+/**
+ * The projective plane PG(2, q)
+ */
+export interface FinitePlane {
+  /**
+   * The field of coordinates
+   */
+  field: FiniteField;
+
+  /**
+   * Normalized representatives of the points: [1 : a : b], then [0 : 1 : b], then [0 : 0 : 1]
+   */
+  points: FinitePoint[];
+
+  /**
+   * Normalized normals of the lines, in the same order as the points
+   */
+  lines: FinitePoint[];
+
+  /**
+   * Indices of the points on each line, increasing
+   */
+  incidence: number[][];
+}
+
+/**
+ * The incidence (Levi) graph of a plane: one vertex per point, then one per
+ * line, with an edge wherever a point lies on a line
+ */
+export interface IncidenceGraph {
+  /**
+   * Number of vertices; points are 0 … n - 1 and lines are n … 2n - 1
+   */
+  vertexCount: number;
+
+  /**
+   * Edges as [point vertex, line vertex]
+   */
+  edges: [number, number][];
+}
+
+/**
+ * Largest field order accepted, which keeps the plane small enough to draw
+ */
+export const MAX_FIELD_ORDER = 32;
+
+/**
+ * Writes q as pᵏ.
+ *
+ * @param q - An integer
+ * @returns [p, k], or null if q is not a prime power
+ */
+function primePower(q: number): [number, number] | null {
+  if (!Number.isInteger(q) || q < 2) return null;
+  let p = 2;
+  while (q % p !== 0) p++;
+  let k = 0;
+  for (let r = q; r > 1; r /= p) {
+    if (r % p !== 0) return null;
+    k++;
+  }
+  return [p, k];
+}
+
+/**
+ * Base-p digits of an element, lowest first: its polynomial coefficients.
+ */
+function digitsOf(a: number, p: number, k: number): number[] {
+  return Array.from({ length: k }, (_, i) => Math.floor(a / p ** i) % p);
+}
+
+/**
+ * The element with the given polynomial coefficients.
+ */
+function elementOf(digits: number[], p: number): number {
+  return digits.reduce((sum, d, i) => sum + d * p ** i, 0);
+}
+
+/**
+ * Multiplication table of GF(p)[t] modulo the monic polynomial
+ * tᵏ + c(t), where c holds the lower coefficients.
+ */
+function multiplicationTable(p: number, k: number, c: number[]): number[][] {
+  const q = p ** k;
+  return Array.from({ length: q }, (_, a) => Array.from({ length: q }, (_, b) => {
+    const x = digitsOf(a, p, k);
+    const y = digitsOf(b, p, k);
+    const product = new Array(2 * k - 1).fill(0);
+    x.forEach((xi, i) => y.forEach((yj, j) => {
+      product[i + j] = (product[i + j] + xi * yj) % p;
+    }));
+    // Reduce with tᵏ = -c(t), from the top degree down
+    for (let d = 2 * k - 2; d >= k; d--) {
+      const lead = product[d];
+      product[d] = 0;
+      for (let i = 0; i < k; i++) {
+        product[d - k + i] = (product[d - k + i] + (p - lead) * c[i]) % p;
+      }
+    }
+    return elementOf(product.slice(0, k), p);
+  }));
+}
+
+/**
+ * Builds the finite field with q elements.
+ *
+ * The modulus is the first monic polynomial of degree k, in the order of its
+ * lower coefficients as an element, whose table has no zero divisors.
+ *
+ * @param q - A prime power no larger than MAX_FIELD_ORDER
+ * @returns The field with its addition and multiplication tables
+ * @throws Error if q is not a prime power or is too large
+ */
+export function finiteField(q: number): FiniteField {
+  const factored = primePower(q);
+  if (!factored) throw new Error(`No field has ${q} elements: the order must be a prime power`);
+  if (q > MAX_FIELD_ORDER) throw new Error(`Field order ${q} exceeds the limit of ${MAX_FIELD_ORDER}`);
+  const [p, k] = factored;
+
+  const add = Array.from({ length: q }, (_, a) => Array.from({ length: q }, (_, b) => {
+    const x = digitsOf(a, p, k);
+    const y = digitsOf(b, p, k);
+    return elementOf(x.map((xi, i) => (xi + y[i]) % p), p);
+  }));
+
+  // A monic modulus is irreducible exactly when every nonzero element has an inverse
+  for (let lower = 0; lower < q; lower++) {
+    const mul = multiplicationTable(p, k, digitsOf(lower, p, k));
+    const isField = mul.every((row, a) => a === 0 || row.includes(1));
+    if (isField) return { order: q, characteristic: p, degree: k, add, mul };
+  }
+  throw new Error(`No irreducible polynomial of degree ${k} over GF(${p})`);
+}
+
+/**
+ * The additive inverse of an element.
+ *
+ * @param field - The field
+ * @param a - An element
+ * @returns -a
+ */
+export function fieldNegate(field: FiniteField, a: number): number {
+  return field.add[a].indexOf(0);
+}
+
+/**
+ * The multiplicative inverse of an element.
+ *
+ * @param field - The field
+ * @param a - A nonzero element
+ * @returns a⁻¹
+ * @throws Error if a is zero
+ */
+export function fieldInverse(field: FiniteField, a: number): number {
+  if (a === 0) throw new Error("Zero has no inverse");
+  return field.mul[a].indexOf(1);
+}
+
+/**
+ * Dot product of two vectors over the field.
+ *
+ * @param field - The field
+ * @param a - First vector
+ * @param b - Second vector
+ * @returns a₀b₀ + a₁b₁ + a₂b₂
+ */
+export function finiteDot(field: FiniteField, a: FinitePoint, b: FinitePoint): number {
+  return a.reduce((sum, ai, i) => field.add[sum][field.mul[ai][b[i]]], 0);
+}
+
+/**
+ * Cross product of two vectors over the field: the normal of their join, or
+ * the point where two lines meet.
+ */
+function finiteCross(field: FiniteField, a: FinitePoint, b: FinitePoint): FinitePoint {
+  const { add, mul } = field;
+  const minus = (x: number, y: number) => add[x][fieldNegate(field, y)];
+  return [
+    minus(mul[a[1]][b[2]], mul[a[2]][b[1]]),
+    minus(mul[a[2]][b[0]], mul[a[0]][b[2]]),
+    minus(mul[a[0]][b[1]], mul[a[1]][b[0]])
+  ];
+}
+
+/**
+ * The canonical representative of a class: the scalar multiple whose first
+ * nonzero coordinate is 1.
+ *
+ * @param field - The field
+ * @param v - Any nonzero vector
+ * @returns The normalized vector
+ * @throws Error if v is zero, which represents no point
+ */
+export function normalizeFinite(field: FiniteField, v: FinitePoint): FinitePoint {
+  const lead = v.find(x => x !== 0);
+  if (lead === undefined) throw new Error("The zero vector is not a point of the projective plane");
+  const s = fieldInverse(field, lead);
+  return [field.mul[s][v[0]], field.mul[s][v[1]], field.mul[s][v[2]]];
+}
+
+/**
+ * Builds the projective plane PG(2, q).
+ *
+ * @param q - A prime power no larger than MAX_FIELD_ORDER
+ * @returns The plane with its points, lines and incidence
+ */
+export function finiteProjectivePlane(q: number): FinitePlane {
+  const field = finiteField(q);
+
+  // Each class once: [1 : a : b], then [0 : 1 : b], then [0 : 0 : 1]
+  const points: FinitePoint[] = [];
+  for (let a = 0; a < q; a++) {
+    for (let b = 0; b < q; b++) points.push([1, a, b]);
+  }
+  for (let b = 0; b < q; b++) points.push([0, 1, b]);
+  points.push([0, 0, 1]);
+
+  // Lines are the same classes, read as normals
+  const lines = points.map(p => [...p] as FinitePoint);
+  const incidence = lines.map(l =>
+    points.flatMap((p, i) => (finiteDot(field, p, l) === 0 ? [i] : []))
+  );
+
+  return { field, points, lines, incidence };
+}
+
+/**
+ * Index of the point of a plane represented by a vector.
+ *
+ * @param plane - The plane
+ * @param v - Any nonzero representative
+ * @returns The index into plane.points, which also indexes the line with normal v
+ */
+export function finitePointIndex(plane: FinitePlane, v: FinitePoint): number {
+  const [x, y, z] = normalizeFinite(plane.field, v);
+  const q = plane.field.order;
+  if (x === 1) return y * q + z;
+  if (y === 1) return q * q + z;
+  return q * q + q;
+}
+
+/**
+ * Tests whether a point lies on a line.
+ *
+ * @param plane - The plane
+ * @param point - Index of the point
+ * @param line - Index of the line
+ * @returns True if the point is on the line
+ */
+export function isIncident(plane: FinitePlane, point: number, line: number): boolean {
+  return finiteDot(plane.field, plane.points[point], plane.lines[line]) === 0;
+}
+
+/**
+ * The lines through a point.
+ *
+ * @param plane - The plane
+ * @param point - Index of the point
+ * @returns Indices of the q + 1 lines through it, increasing
+ */
+export function linesThrough(plane: FinitePlane, point: number): number[] {
+  return plane.incidence.flatMap((onLine, j) => (onLine.includes(point) ? [j] : []));
+}
+
+/**
+ * The line through two distinct points.
+ *
+ * @param plane - The plane
+ * @param a - Index of the first point
+ * @param b - Index of the second point
+ * @returns Index of the line
+ * @throws Error if the points are the same
+ */
+export function finiteJoin(plane: FinitePlane, a: number, b: number): number {
+  if (a === b) throw new Error("A point has no unique line through it and itself");
+  return finitePointIndex(plane, finiteCross(plane.field, plane.points[a], plane.points[b]));
+}
+
+/**
+ * The point where two distinct lines meet.
+ *
+ * @param plane - The plane
+ * @param l - Index of the first line
+ * @param m - Index of the second line
+ * @returns Index of the point
+ * @throws Error if the lines are the same
+ */
+export function finiteMeet(plane: FinitePlane, l: number, m: number): number {
+  if (l === m) throw new Error("A line does not meet itself in a single point");
+  return finitePointIndex(plane, finiteCross(plane.field, plane.lines[l], plane.lines[m]));
+}
+
+/**
+ * Builds the incidence graph of a plane.
+ *
+ * Every vertex has degree q + 1, and since two points share exactly one line
+ * the graph has no 4-cycles.
+ *
+ * @param plane - The plane
+ * @returns The bipartite graph of points and lines
+ */
+export function incidenceGraph(plane: FinitePlane): IncidenceGraph {
+  const n = plane.points.length;
+  const edges: [number, number][] = [];
+  plane.incidence.forEach((onLine, j) => onLine.forEach(i => edges.push([i, n + j])));
+  edges.sort((e, f) => e[0] - f[0] || e[1] - f[1]);
+  return { vertexCount: 2 * n, edges };
+}
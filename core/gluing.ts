@@ -0,0 +1,88 @@
+/**
+ * Gluing Module
+ *
+ * This module deforms the closed upper hemisphere z ≥ 0 into the cross-cap,
+ * showing how a disk with antipodal boundary points identified becomes a
+ * closed surface.
+ *
+ * The deformation is the straight-line homotopy
+ *
+ *   H(u, t) = (1 - t)·u + t·c(u),   c(x, y, z) = (yz, 2xy, x² - y²)
+ *
+ * At t = 0 it is the hemisphere itself; at t = 1 it is the cross-cap, where
+ * c(u) = c(-u) glues each rim point to its antipode. In between, the rim
+ * points u and -u sit exactly 2(1 - t) apart, closing at a uniform rate.
+ */
+
+import { Vec3, Mesh, QuotientClass } from "./types";
+import { immersionPoint, makeHemisphereMesh } from "./immersions";
+import { Segment } from "./mesh";
+
+/**
+ * Tolerance for a direction lying on the rim z = 0
+ */
+const RIM_EPS = 1e-9;
+
+/**
+ * Computes the position of a hemisphere point at a stage of the gluing.
+ *
+ * @param u - A point of the closed upper hemisphere (z ≥ 0)
+ * @param t - Gluing progress, clamped to [0, 1]
+ * @returns The deformed position in ℝ³
+ */
+export function gluingPoint(u: Vec3, t: number): Vec3 {
+  const s = Vec3.clamp(t, 0, 1);
+  const v = Vec3.normalize(u);
+  return Vec3.add(Vec3.scale(v, 1 - s), Vec3.scale(immersionPoint("crosscap", v), s));
+}
+
+/**
+ * Generates the deformed hemisphere at a stage of the gluing.
+ *
+ * Vertex i is the image of vertex i of `makeHemisphereMesh(detail)`.
+ *
+ * @param t - Gluing progress in [0, 1]
+ * @param detail - Number of rings of the hemisphere
+ * @returns The deformed mesh
+ */
+export function makeGluingMesh(t: number, detail = 32): Mesh {
+  const hemisphere = makeHemisphereMesh(detail);
+  return {
+    vertices: hemisphere.vertices.map(u => gluingPoint(u, t)),
+    indices: hemisphere.indices
+  };
+}
+
+/**
+ * Finds where a quotient class appears at a stage of the gluing.
+ *
+ * An interior class has a single point in the hemisphere. A class on the
+ * rim has two, u and -u, which close up and coincide at t = 1.
+ *
+ * @param qClass - The quotient class
+ * @param t - Gluing progress in [0, 1]
+ * @returns One or two image points
+ */
+export function gluingClassImages(qClass: QuotientClass, t: number): Vec3[] {
+  const [u, negU] = qClass.representatives;
+  if (Math.abs(u[2]) <= RIM_EPS) return [gluingPoint(u, t), gluingPoint(negU, t)];
+  return [gluingPoint(u[2] > 0 ? u : negU, t)];
+}
+
+/**
+ * Generates chords joining each rim point to its antipodal partner.
+ *
+ * Each chord has length 2(1 - t), so the chords shrink to points as the
+ * gluing completes.
+ *
+ * @param t - Gluing progress in [0, 1]
+ * @param count - Number of antipodal pairs
+ * @returns One segment per pair
+ */
+export function gluingChords(t: number, count = 16): Segment[] {
+  return Array.from({ length: count }, (_, k) => {
+    const theta = (Math.PI * k) / count;
+    const u: Vec3 = [Math.cos(theta), Math.sin(theta), 0];
+    return [gluingPoint(u, t), gluingPoint(Vec3.neg(u), t)] as Segment;
+  });
+}
@@ -0,0 +1,377 @@
+/**
+ * Finite Group Quotients
+ *
+ * This module generalizes the antipodal identification u ≡ -u to the quotient
+ * S²/G by any finite subgroup G of O(3). A group is given by `Mat3` generators;
+ * the module closes them into the full group and provides the same operations
+ * that `quotient.ts` provides for ℝP²: orbit classes with canonical
+ * representatives, quotient distance, and cone membership.
+ *
+ * Key invariant: an operation on an orbit class [u] must treat every point of
+ * the orbit G·u identically. The antipodal quotient is the instance
+ * G = {I, -I}, and agrees with `classOf` and `quotientDistance`.
+ *
+ * Examples:
+ * - Reflection z ≡ -z (order 2): S²/G is a closed hemisphere (a disk)
+ * - Cyclic Cₙ and dihedral Dₙ rotation groups (orders n and 2n)
+ * - Tetrahedral T, octahedral O, icosahedral I rotation groups (12, 24, 60)
+ */
+
+import { Vec3, OrbitClass } from './types';
+import { Mat3, IDENTITY_MAT3, matMul, matVecMul, rotationAxisAngle } from './transforms';
+
+/**
+ * A finite subgroup of O(3) acting on S²
+ */
+export interface QuotientGroup {
+  /**
+   * A short human-readable name (e.g. "C₃", "O", "ℤ₂ (antipodal)")
+   */
+  name: string;
+
+  /**
+   * The generators the group was built from
+   */
+  generators: Mat3[];
+
+  /**
+   * All elements of the group, identity first
+   */
+  elements: Mat3[];
+}
+
+/**
+ * Largest group order accepted when closing generators. The polyhedral groups
+ * have order at most 120 (Iₕ); the rest of the room is for the cyclic and
+ * dihedral families, whose orders are unbounded, and the limit stops the
+ * closure of generators of an infinite group.
+ */
+const MAX_GROUP_ORDER = 1024;
+
+/**
+ * Tolerance used when deciding whether two group elements or orbit points coincide
+ */
+const GROUP_EPS = 1e-6;
+
+/**
+ * Tolerance for ties between coordinates when choosing a canonical orbit
+ * point. It is twice the zero threshold of `classOf`, so that u and -u tie on
+ * a coordinate exactly when `classOf` treats that coordinate as zero.
+ */
+const LEX_EPS = 2e-12;
+
+/**
+ * The golden ratio, used by the icosahedral group
+ */
+const PHI = (1 + Math.sqrt(5)) / 2;
+
+/**
+ * Computes a hash key for a matrix, rounding entries so that numerically equal
+ * matrices share a key.
+ *
+ * @param m - A 3x3 matrix
+ * @returns A string key
+ */
+function matrixKey(m: Mat3): string {
+  return m.map(x => Math.round(x / GROUP_EPS) || 0).join(',');
+}
+
+/**
+ * Compares two vectors lexicographically with a tolerance.
+ *
+ * @param a - First vector
+ * @param b - Second vector
+ * @returns A positive number if a > b, negative if a < b, 0 if approximately equal
+ */
+function compareLex(a: Vec3, b: Vec3): number {
+  for (let k = 0; k < 3; k++) {
+    if (a[k] > b[k] + LEX_EPS) return 1;
+    if (a[k] < b[k] - LEX_EPS) return -1;
+  }
+  return 0;
+}
+
+/**
+ * Creates a finite group by closing a set of generators under multiplication.
+ *
+ * @param generators - Orthogonal matrices generating the group
+ * @param name - A human-readable name for the group
+ * @returns The group with all of its elements enumerated
+ * @throws Error if the generators do not close into a finite group
+ */
+export function createQuotientGroup(generators: Mat3[], name: string): QuotientGroup {
+  const elements: Mat3[] = [IDENTITY_MAT3];
+  const seen = new Set<string>([matrixKey(IDENTITY_MAT3)]);
+
+  // Breadth-first closure: every element is a word in the generators
+  for (let i = 0; i < elements.length; i++) {
+    for (const g of generators) {
+      const product = matMul(g, elements[i]);
+      const key = matrixKey(product);
+      if (seen.has(key)) continue;
+
+      seen.add(key);
+      elements.push(product);
+      if (elements.length > MAX_GROUP_ORDER) {
+        throw new Error(`Generators of ${name} do not generate a finite group`);
+      }
+    }
+  }
+
+  return { name, generators, elements };
+}
+
+/**
+ * Returns the order |G| of a group.
+ *
+ * @param group - A finite group
+ * @returns The number of elements
+ */
+export function groupOrder(group: QuotientGroup): number {
+  return group.elements.length;
+}
+
+/**
+ * Enumerates the orbit G·v of a point on S².
+ *
+ * Points with a non-trivial stabilizer (e.g. on a rotation axis) have fewer
+ * than |G| orbit points; duplicates are removed.
+ *
+ * @param group - A finite group
+ * @param v - Any non-zero vector (will be normalized)
+ * @returns The distinct orbit points
+ */
+export function orbitOf(group: QuotientGroup, v: Vec3): Vec3[] {
+  const u = Vec3.normalize(v);
+  const points: Vec3[] = [];
+
+  for (const g of group.elements) {
+    const p = matVecMul(g, u);
+    if (!points.some(q => Vec3.approxEq(p, q, GROUP_EPS))) {
+      points.push(p);
+    }
+  }
+
+  return points;
+}
+
+/**
+ * Creates the orbit class [v] = G·v.
+ *
+ * The canonical representative is the lexicographically largest orbit point.
+ * For the antipodal group this is the representative with positive first
+ * non-zero coordinate, matching `classOf`.
+ *
+ * @param group - A finite group
+ * @param v - Any non-zero vector
+ * @returns The orbit class, canonical representative first
+ */
+export function orbitClassOf(group: QuotientGroup, v: Vec3): OrbitClass {
+  const points = orbitOf(group, v);
+  const canonical = points.reduce((best, p) => (compareLex(p, best) > 0 ? p : best));
+
+  return {
+    canonical,
+    representatives: [canonical, ...points.filter(p => p !== canonical)]
+  };
+}
+
+/**
+ * Tests if two orbit classes are the same point of S²/G.
+ *
+ * @param group - A finite group
+ * @param a - First orbit class
+ * @param b - Second orbit class
+ * @param eps - Epsilon threshold for floating-point comparison
+ * @returns true if b's canonical representative lies in a's orbit
+ */
+export function orbitClassEquals(
+  group: QuotientGroup,
+  a: OrbitClass,
+  b: OrbitClass,
+  eps = 1e-6
+): boolean {
+  return group.elements.some(g => Vec3.approxEq(matVecMul(g, a.canonical), b.canonical, eps));
+}
+
+/**
+ * Computes the distance between two orbit classes in S²/G.
+ *
+ *   d([u], [v]) = min over g ∈ G of ∠(u, g·v)
+ *
+ * For the antipodal group this is arccos(|u · v|), as in `quotientDistance`.
+ *
+ * @param group - A finite group
+ * @param a - First orbit class
+ * @param b - Second orbit class
+ * @returns The distance in radians
+ */
+export function orbitDistance(group: QuotientGroup, a: OrbitClass, b: OrbitClass): number {
+  let best = Math.PI;
+  for (const g of group.elements) {
+    best = Math.min(best, Vec3.angle(a.canonical, matVecMul(g, b.canonical)));
+  }
+  return best;
+}
+
+/**
+ * Tests if a point on S² lies within a cone around an orbit class.
+ *
+ * The cone around [u] with aperture θ is the union of the cones of half-angle θ
+ * around every orbit point g·u, taken over the group rather than the listed
+ * representatives.
+ *
+ * @param group - A finite group
+ * @param point - A unit vector on S²
+ * @param center - The orbit class at the center of the cone
+ * @param aperture - The half-angle of the cone in radians
+ * @returns true if the point lies within the cone
+ */
+export function pointInOrbitCone(
+  group: QuotientGroup,
+  point: Vec3,
+  center: OrbitClass,
+  aperture: number
+): boolean {
+  return group.elements.some(g => Vec3.angle(point, matVecMul(g, center.canonical)) <= aperture);
+}
+
+// ============================================================================
+// Standard Groups
+// ============================================================================
+
+/**
+ * The point reflection -I
+ */
+const INVERSION: Mat3 = [
+  -1, 0, 0,
+  0, -1, 0,
+  0, 0, -1
+];
+
+/**
+ * Picks a unit vector perpendicular to the given axis.
+ */
+function perpendicular(axis: Vec3): Vec3 {
+  const a = Vec3.normalize(axis);
+  const helper: Vec3 = Math.abs(a[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+  return Vec3.normalize(Vec3.cross(a, helper));
+}
+
+/**
+ * Adds the point reflection -I to a group's generators, e.g. O → Oₕ.
+ *
+ * @param group - A finite rotation group
+ * @returns The group generated by G and -I
+ */
+export function withInversion(group: QuotientGroup): QuotientGroup {
+  return createQuotientGroup([...group.generators, INVERSION], `${group.name} × {±1}`);
+}
+
+/**
+ * The antipodal group {I, -I}, whose quotient is ℝP².
+ */
+export function antipodalGroup(): QuotientGroup {
+  return createQuotientGroup([INVERSION], 'ℤ₂ (antipodal)');
+}
+
+/**
+ * The group generated by the reflection in the plane with the given normal.
+ * With normal [0, 0, 1] this is the identification z ≡ -z.
+ *
+ * @param normal - Normal of the mirror plane
+ */
+export function reflectionGroup(normal: Vec3 = [0, 0, 1]): QuotientGroup {
+  const [x, y, z] = Vec3.normalize(normal);
+  const mirror: Mat3 = [
+    1 - 2 * x * x, -2 * x * y, -2 * x * z,
+    -2 * x * y, 1 - 2 * y * y, -2 * y * z,
+    -2 * x * z, -2 * y * z, 1 - 2 * z * z
+  ];
+  return createQuotientGroup([mirror], 'ℤ₂ (reflection)');
+}
+
+/**
+ * The cyclic group Cₙ of rotations by multiples of 2π/n about an axis.
+ *
+ * @param n - Order of the group (n ≥ 1)
+ * @param axis - Rotation axis
+ */
+export function cyclicGroup(n: number, axis: Vec3 = [0, 0, 1]): QuotientGroup {
+  return createQuotientGroup([rotationAxisAngle(axis, (2 * Math.PI) / n)], `C${n}`);
+}
+
+/**
+ * The dihedral group Dₙ: Cₙ about an axis plus half-turns about n perpendicular axes.
+ *
+ * @param n - Order of the cyclic part (n ≥ 1)
+ * @param axis - Principal rotation axis
+ */
+export function dihedralGroup(n: number, axis: Vec3 = [0, 0, 1]): QuotientGroup {
+  return createQuotientGroup(
+    [rotationAxisAngle(axis, (2 * Math.PI) / n), rotationAxisAngle(perpendicular(axis), Math.PI)],
+    `D${n}`
+  );
+}
+
+/**
+ * The tetrahedral rotation group T (order 12).
+ */
+export function tetrahedralGroup(): QuotientGroup {
+  return createQuotientGroup(
+    [rotationAxisAngle([1, 1, 1], (2 * Math.PI) / 3), rotationAxisAngle([0, 0, 1], Math.PI)],
+    'T'
+  );
+}
+
+/**
+ * The octahedral rotation group O (order 24), the rotations of the cube.
+ */
+export function octahedralGroup(): QuotientGroup {
+  return createQuotientGroup(
+    [rotationAxisAngle([1, 1, 1], (2 * Math.PI) / 3), rotationAxisAngle([0, 0, 1], Math.PI / 2)],
+    'O'
+  );
+}
+
+/**
+ * The icosahedral rotation group I (order 60), for the icosahedron with
+ * vertices at the cyclic permutations of (0, ±1, ±φ).
+ */
+export function icosahedralGroup(): QuotientGroup {
+  return createQuotientGroup(
+    [rotationAxisAngle([0, 1, PHI], (2 * Math.PI) / 5), rotationAxisAngle([1, 1, 1], (2 * Math.PI) / 3)],
+    'I'
+  );
+}
+
+/**
+ * Identifiers for the standard groups offered in the UI
+ */
+export type GroupId =
+  | 'antipodal'
+  | 'reflection'
+  | 'cyclic4'
+  | 'dihedral3'
+  | 'tetrahedral'
+  | 'octahedral'
+  | 'icosahedral';
+
+/**
+ * Builds one of the standard groups by identifier.
+ *
+ * @param id - A standard group identifier
+ * @returns The group
+ */
+export function makeQuotientGroup(id: GroupId): QuotientGroup {
+  switch (id) {
+    case 'antipodal': return antipodalGroup();
+    case 'reflection': return reflectionGroup();
+    case 'cyclic4': return cyclicGroup(4);
+    case 'dihedral3': return dihedralGroup(3);
+    case 'tetrahedral': return tetrahedralGroup();
+    case 'octahedral': return octahedralGroup();
+    case 'icosahedral': return icosahedralGroup();
+    default: throw new Error(`Unknown group: ${id}`);
+  }
+}
@@ -0,0 +1,216 @@
+/**
+ * Spherical Harmonics Module
+ *
+ * The real spherical harmonics Yₗᵐ, for degrees l = 0, 1, 2, … and orders
+ * -l ≤ m ≤ l, are an orthonormal basis of functions on S². Each has the
+ * parity of its degree:
+ *
+ *   Yₗᵐ(-u) = (-1)ˡ Yₗᵐ(u)
+ *
+ * so a function on S² descends to ℝP² exactly when its odd-degree
+ * coefficients vanish, and the even degrees are a basis of functions on
+ * ℝP². Zeroing the odd degrees of a function leaves its even part
+ * ½(f(u) + f(-u)); the energy in the odd degrees is what the quotient loses.
+ *
+ * Coefficients are stored flat, Yₗᵐ at index l² + l + m. Here u = (x, y, z)
+ * with z = cos θ the polar axis and φ = atan2(y, x).
+ */
+
+import { Vec3, Mesh } from "./types";
+
+/**
+ * Coefficients of a function in the real spherical harmonics up to a degree
+ */
+export interface HarmonicSpectrum {
+  /**
+   * The largest degree L
+   */
+  maxDegree: number;
+
+  /**
+   * (L + 1)² coefficients, the one of Yₗᵐ at index l² + l + m
+   */
+  coefficients: number[];
+}
+
+/**
+ * Largest degree accepted, which keeps the factorials in the normalization exact enough
+ */
+export const MAX_HARMONIC_DEGREE = 16;
+
+/**
+ * Index of the coefficient of Yₗᵐ.
+ *
+ * @param l - Degree
+ * @param m - Order, with |m| ≤ l
+ * @returns l² + l + m
+ */
+export function harmonicIndex(l: number, m: number): number {
+  return l * l + l + m;
+}
+
+function assertDegree(maxDegree: number): void {
+  if (!Number.isInteger(maxDegree) || maxDegree < 0 || maxDegree > MAX_HARMONIC_DEGREE) {
+    throw new Error(`Degree ${maxDegree} must be an integer from 0 to ${MAX_HARMONIC_DEGREE}`);
+  }
+}
+
+/**
+ * (l - m)! / (l + m)!
+ */
+function factorialRatio(l: number, m: number): number {
+  let ratio = 1;
+  for (let k = l - m + 1; k <= l + m; k++) ratio /= k;
+  return ratio;
+}
+
+/**
+ * Evaluates every real spherical harmonic up to a degree at one direction.
+ *
+ * Associated Legendre functions Pₗᵐ(cos θ) come from the usual recurrence in
+ * l for each m, and are multiplied by cos mφ or sin mφ and normalized.
+ *
+ * @param u - A direction, normalized here
+ * @param maxDegree - The largest degree L
+ * @returns (L + 1)² values, Yₗᵐ(u) at index l² + l + m
+ */
+export function harmonicBasis(u: Vec3, maxDegree: number): number[] {
+  assertDegree(maxDegree);
+  const n = Vec3.normalize(u);
+  const x = n[2];
+  const s = Math.hypot(n[0], n[1]);
+  const phi = Math.atan2(n[1], n[0]);
+  const values = new Array((maxDegree + 1) ** 2).fill(0);
+
+  // Pₘᵐ = (2m - 1)!! sinᵐ θ, without the Condon-Shortley sign
+  let pmm = 1;
+  for (let m = 0; m <= maxDegree; m++) {
+    if (m > 0) pmm *= (2 * m - 1) * s;
+
+    let previous = 0;
+    let current = pmm;
+    for (let l = m; l <= maxDegree; l++) {
+      if (l === m + 1) {
+        previous = current;
+        current = x * (2 * m + 1) * pmm;
+      } else if (l > m + 1) {
+        const next = ((2 * l - 1) * x * current - (l + m - 1) * previous) / (l - m);
+        previous = current;
+        current = next;
+      }
+
+      const k = Math.sqrt(((2 * l + 1) / (4 * Math.PI)) * factorialRatio(l, m));
+      if (m === 0) {
+        values[harmonicIndex(l, 0)] = k * current;
+      } else {
+        values[harmonicIndex(l, m)] = Math.SQRT2 * k * Math.cos(m * phi) * current;
+        values[harmonicIndex(l, -m)] = Math.SQRT2 * k * Math.sin(m * phi) * current;
+      }
+    }
+  }
+  return values;
+}
+
+/**
+ * Evaluates one real spherical harmonic.
+ *
+ * @param l - Degree
+ * @param m - Order, with |m| ≤ l
+ * @param u - A direction
+ * @returns Yₗᵐ(u)
+ * @throws Error if |m| > l
+ */
+export function realSphericalHarmonic(l: number, m: number, u: Vec3): number {
+  if (!Number.isInteger(m) || Math.abs(m) > l) throw new Error(`Order ${m} is out of range for degree ${l}`);
+  return harmonicBasis(u, l)[harmonicIndex(l, m)];
+}
+
+/**
+ * Projects a function sampled at the vertices of a mesh onto the spherical
+ * harmonics up to a degree.
+ *
+ * Each vertex is weighted by a third of the area its triangles cover once
+ * pushed out to the unit sphere, and the weights are scaled to total 4π, so
+ * the sum approximates ∫ f Yₗᵐ over the directions the mesh covers.
+ *
+ * @param mesh - The mesh the function was sampled on, e.g. the sphere
+ * @param values - The function at each mesh vertex
+ * @param maxDegree - The largest degree L
+ * @returns The coefficients
+ * @throws Error if the values do not match the vertices, or the mesh covers no area
+ */
+export function projectOntoHarmonics(mesh: Mesh, values: number[], maxDegree: number): HarmonicSpectrum {
+  assertDegree(maxDegree);
+  if (values.length !== mesh.vertices.length) {
+    throw new Error(`Expected ${mesh.vertices.length} samples, one per vertex, but got ${values.length}`);
+  }
+
+  const directions = mesh.vertices.map(v => Vec3.normalize(v));
+  const weights = new Array(directions.length).fill(0);
+  for (let t = 0; t < mesh.indices.length; t += 3) {
+    const [a, b, c] = [0, 1, 2].map(k => mesh.indices[t + k]);
+    const area = Vec3.norm(Vec3.cross(Vec3.sub(directions[b], directions[a]), Vec3.sub(directions[c], directions[a]))) / 2;
+    [a, b, c].forEach(i => (weights[i] += area / 3));
+  }
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total === 0) throw new Error("The mesh covers no area of the sphere");
+
+  const coefficients = new Array((maxDegree + 1) ** 2).fill(0);
+  directions.forEach((u, i) => {
+    if (weights[i] === 0) return;
+    const w = (weights[i] * 4 * Math.PI) / total;
+    harmonicBasis(u, maxDegree).forEach((y, k) => (coefficients[k] += w * values[i] * y));
+  });
+  return { maxDegree, coefficients };
+}
+
+/**
+ * Evaluates the function a spectrum describes.
+ *
+ * @param spectrum - The coefficients
+ * @param u - A direction
+ * @returns Σ cₗᵐ Yₗᵐ(u)
+ */
+export function reconstructHarmonics(spectrum: HarmonicSpectrum, u: Vec3): number {
+  const basis = harmonicBasis(u, spectrum.maxDegree);
+  return spectrum.coefficients.reduce((sum, c, k) => sum + c * basis[k], 0);
+}
+
+/**
+ * The energy in each degree.
+ *
+ * @param spectrum - The coefficients
+ * @returns Σₘ (cₗᵐ)² for l = 0 … L
+ */
+export function degreeEnergies(spectrum: HarmonicSpectrum): number[] {
+  return Array.from({ length: spectrum.maxDegree + 1 }, (_, l) => {
+    let energy = 0;
+    for (let m = -l; m <= l; m++) energy += spectrum.coefficients[harmonicIndex(l, m)] ** 2;
+    return energy;
+  });
+}
+
+/**
+ * The fraction of a function's energy in odd degrees, which quotienting by
+ * u ≡ -u discards.
+ *
+ * @param spectrum - The coefficients
+ * @returns A number in [0, 1]; 0 for a function on ℝP² and for the zero function
+ */
+export function oddEnergyFraction(spectrum: HarmonicSpectrum): number {
+  const energies = degreeEnergies(spectrum);
+  const total = energies.reduce((sum, e) => sum + e, 0);
+  const odd = energies.reduce((sum, e, l) => (l % 2 === 1 ? sum + e : sum), 0);
+  return total > 0 ? odd / total : 0;
+}
+
+/**
+ * Zeroes the odd degrees of a spectrum, leaving the even part of its function.
+ *
+ * @param spectrum - The coefficients
+ * @returns A spectrum that describes a function on ℝP²
+ */
+export function zeroOddDegrees(spectrum: HarmonicSpectrum): HarmonicSpectrum {
+  const coefficients = spectrum.coefficients.map((c, k) => (Math.floor(Math.sqrt(k)) % 2 === 1 ? 0 : c));
+  return { maxDegree: spectrum.maxDegree, coefficients };
+}
@@ -0,0 +1,281 @@
+/**
+ * Homology Module
+ *
+ * This module computes the simplicial homology H₀, H₁, H₂ of a triangulated
+ * surface by reducing its boundary matrices, with coefficients in ℤ₂ or ℚ.
+ * Each homology class comes with a representative cycle.
+ *
+ * For ℝP² the two coefficient rings disagree: H₁(ℝP²; ℤ₂) = ℤ₂ is generated
+ * by the image of a half great circle, while H₁(ℝP²; ℚ) = 0, because twice
+ * that loop bounds. H₁ with integer coefficients is the abelianization of
+ * π₁, so the ℤ₂ class is the shadow of π₁(ℝP²) ≅ ℤ₂.
+ *
+ * Ranks over ℚ are computed modulo the prime RATIONAL_PRIME, which
+ * agrees with ℚ unless the complex has torsion of that order.
+ */
+
+import { Mesh } from "./types";
+import { weldVertices } from "./mesh";
+import { QuotientComplex } from "./complex";
+
+/**
+ * Coefficient ring for homology
+ */
+export type Coefficients = "Z2" | "Q";
+
+/**
+ * Prime field standing in for ℚ; small enough that products stay exact
+ */
+export const RATIONAL_PRIME = 1000003;
+
+/**
+ * A 2-dimensional cell complex with triangular faces
+ */
+export interface CellComplex {
+  /**
+   * Number of vertices
+   */
+  vertexCount: number;
+
+  /**
+   * Edges as oriented pairs [tail, head]
+   */
+  edges: [number, number][];
+
+  /**
+   * For each face, its three sides as edges, with sign +1 where the side
+   * runs along the edge's orientation
+   */
+  faces: { edge: number; sign: 1 | -1 }[][];
+}
+
+/**
+ * A chain: cells of one dimension with coefficients
+ */
+export interface Chain {
+  dimension: 0 | 1 | 2;
+
+  /**
+   * Indices of the cells with nonzero coefficient
+   */
+  cells: number[];
+
+  /**
+   * Coefficients of those cells (±1 or small integers for ℚ, 1 for ℤ₂)
+   */
+  coefficients: number[];
+}
+
+/**
+ * Homology of a cell complex
+ */
+export interface HomologyResult {
+  coefficients: Coefficients;
+
+  /**
+   * Betti numbers [b₀, b₁, b₂]: dimensions of H₀, H₁, H₂
+   */
+  betti: [number, number, number];
+
+  /**
+   * Representative cycles of a basis of H₀, H₁, H₂
+   */
+  generators: [Chain[], Chain[], Chain[]];
+}
+
+/**
+ * Builds the cell complex of a triangle mesh, welding coincident vertices
+ * and dropping collapsed or repeated triangles.
+ *
+ * @param mesh - A triangle mesh
+ * @returns The simplicial complex of the mesh
+ */
+export function meshCells(mesh: Mesh): CellComplex {
+  const { positions, weld } = weldVertices(mesh);
+  const edgeIndex = new Map<string, number>();
+  const edges: [number, number][] = [];
+  const faces: CellComplex["faces"] = [];
+  const seen = new Set<string>();
+
+  for (let t = 0; t < mesh.indices.length / 3; t++) {
+    const tri = [0, 1, 2].map(k => weld[mesh.indices[3 * t + k]]);
+    const key = [...tri].sort((a, b) => a - b).join(",");
+    if (new Set(tri).size < 3 || seen.has(key)) continue;
+    seen.add(key);
+
+    // Edges run from the lower to the higher vertex index
+    faces.push([[0, 1], [1, 2], [2, 0]].map(([a, b]) => {
+      const [lo, hi] = tri[a] < tri[b] ? [tri[a], tri[b]] : [tri[b], tri[a]];
+      const k = `${lo},${hi}`;
+      if (!edgeIndex.has(k)) {
+        edgeIndex.set(k, edges.length);
+        edges.push([lo, hi]);
+      }
+      return { edge: edgeIndex.get(k)!, sign: (tri[a] === lo ? 1 : -1) as 1 | -1 };
+    }));
+  }
+
+  return { vertexCount: positions.length, edges, faces };
+}
+
+/**
+ * Builds the cell complex of an antipodal quotient. Edges of the quotient
+ * may share both endpoints, so faces refer to edges rather than vertices.
+ *
+ * @param complex - A quotient complex from `buildQuotientComplex`
+ * @returns The cell complex of the quotient
+ */
+export function quotientCells(complex: QuotientComplex): CellComplex {
+  return {
+    vertexCount: complex.vertices.length,
+    edges: complex.edges,
+    faces: complex.sides
+  };
+}
+
+/**
+ * Computes H₀, H₁ and H₂ with representative cycles.
+ *
+ * The boundary matrices are reduced column by column, adding earlier
+ * columns to clear the lowest nonzero entry. A cell whose reduced column is
+ * zero carries a cycle; the cycle is a homology generator unless its cell is
+ * later paired as the lowest entry of a boundary.
+ *
+ * @param cells - A cell complex
+ * @param coefficients - "Z2" or "Q"
+ * @returns Betti numbers and representative cycles
+ */
+export function computeHomology(cells: CellComplex, coefficients: Coefficients): HomologyResult {
+  const p = coefficients === "Z2" ? 2 : RATIONAL_PRIME;
+  const mod = (x: number) => ((x % p) + p) % p;
+
+  const edgeBoundaries = cells.edges.map(([tail, head]) => {
+    const column = new Map<number, number>();
+    if (tail !== head) {
+      column.set(head, 1);
+      column.set(tail, mod(-1));
+    }
+    return column;
+  });
+
+  const faceBoundaries = cells.faces.map(sides => {
+    const column = new Map<number, number>();
+    sides.forEach(({ edge, sign }) => {
+      const value = mod((column.get(edge) ?? 0) + sign);
+      if (value) column.set(edge, value);
+      else column.delete(edge);
+    });
+    return column;
+  });
+
+  const vertexCycles = Array.from({ length: cells.vertexCount }, (_, i) => new Map([[i, 1]]));
+  const edgeReduction = reduceColumns(edgeBoundaries, p);
+  const faceReduction = reduceColumns(faceBoundaries, p);
+
+  // Generators in dimension k: k-cycles not paired with a (k+1)-boundary
+  const essential = (cycles: (Map<number, number> | null)[], paired: Set<number>, dimension: 0 | 1 | 2): Chain[] =>
+    cycles.flatMap((cycle, i) => (cycle && !paired.has(i) ? [toChain(cycle, dimension, p)] : []));
+
+  const generators: [Chain[], Chain[], Chain[]] = [
+    essential(vertexCycles, edgeReduction.pivots, 0),
+    essential(edgeReduction.cycles, faceReduction.pivots, 1),
+    essential(faceReduction.cycles, new Set(), 2)
+  ];
+
+  return {
+    coefficients,
+    betti: generators.map(g => g.length) as [number, number, number],
+    generators
+  };
+}
+
+/**
+ * Reduces boundary columns over ℤ/p.
+ *
+ * @returns The rows used as pivots, and for each column whose reduction
+ * vanished, the combination of columns giving that cycle (null otherwise)
+ */
+function reduceColumns(columns: Map<number, number>[], p: number): {
+  pivots: Set<number>;
+  cycles: (Map<number, number> | null)[];
+} {
+  const pivotColumn = new Map<number, number>();
+  const reduced: Map<number, number>[] = [];
+  const combinations: Map<number, number>[] = [];
+  const cycles: (Map<number, number> | null)[] = [];
+
+  columns.forEach((original, j) => {
+    const column = new Map(original);
+    const combination = new Map([[j, 1]]);
+
+    let low = lowestRow(column);
+    while (low !== -1 && pivotColumn.has(low)) {
+      const k = pivotColumn.get(low)!;
+      // Clear the pivot: column -= (column[low] / reduced[k][low]) · reduced[k]
+      const factor = (column.get(low)! * inverse(reduced[k].get(low)!, p)) % p;
+      addScaled(column, reduced[k], p - factor, p);
+      addScaled(combination, combinations[k], p - factor, p);
+      low = lowestRow(column);
+    }
+
+    reduced[j] = column;
+    combinations[j] = combination;
+    if (low === -1) {
+      cycles.push(combination);
+    } else {
+      cycles.push(null);
+      pivotColumn.set(low, j);
+    }
+  });
+
+  return { pivots: new Set(pivotColumn.keys()), cycles };
+}
+
+/**
+ * Adds factor · source to target over ℤ/p, in place.
+ */
+function addScaled(target: Map<number, number>, source: Map<number, number>, factor: number, p: number): void {
+  source.forEach((value, row) => {
+    const sum = ((target.get(row) ?? 0) + factor * value) % p;
+    if (sum) target.set(row, sum);
+    else target.delete(row);
+  });
+}
+
+/**
+ * Largest row with a nonzero entry, or -1 for the zero column.
+ */
+function lowestRow(column: Map<number, number>): number {
+  let low = -1;
+  column.forEach((_, row) => { if (row > low) low = row; });
+  return low;
+}
+
+/**
+ * Multiplicative inverse modulo the prime p.
+ */
+function inverse(a: number, p: number): number {
+  let [r0, r1] = [a % p, p];
+  let [s0, s1] = [1, 0];
+  while (r1) {
+    const q = Math.floor(r0 / r1);
+    [r0, r1] = [r1, r0 - q * r1];
+    [s0, s1] = [s1, s0 - q * s1];
+  }
+  return ((s0 % p) + p) % p;
+}
+
+/**
+ * Converts a sparse cycle to a chain with signed coefficients.
+ */
+function toChain(cycle: Map<number, number>, dimension: 0 | 1 | 2, p: number): Chain {
+  const cells = [...cycle.keys()].sort((a, b) => a - b);
+  return {
+    dimension,
+    cells,
+    coefficients: cells.map(c => {
+      const value = cycle.get(c)!;
+      return value > p / 2 ? value - p : value;
+    })
+  };
+}
@@ -0,0 +1,278 @@
+/**
+ * Homotopy Module
+ *
+ * This module decides the homotopy class of closed polylines in ℝP² and
+ * produces certificates that can be checked independently.
+ *
+ * Key Concept: Lifting Decides Everything
+ * π₁(ℝP²) ≅ ℤ₂. A loop in ℝP² lifts to a path on S² that either closes up
+ * (the loop is contractible) or ends at the antipode of its start (the loop is
+ * the non-trivial element). The lift is computed by the parity module, so this
+ * module only has to read off its endpoints and, when the loop is trivial,
+ * exhibit an explicit contraction.
+ *
+ * Removing a point class [p] from ℝP² leaves a Möbius band, whose fundamental
+ * group is ℤ. The linking number of a loop with [p] is its class in that group:
+ * the number of half-turns the lift makes around the axis through ±p.
+ */
+
+import { Vec3, Parity, PathWithParity } from './types';
+import { classOf } from './quotient';
+import { PARITY_EVEN, PARITY_ODD, createPath, closeLoop } from './parity';
+
+/**
+ * A certificate for the homotopy class of a closed loop in ℝP²
+ */
+export interface HomotopyCertificate {
+  /**
+   * The class of the loop in π₁(ℝP²) ≅ ℤ₂
+   */
+  parity: Parity;
+
+  /**
+   * The continuous lift of the loop to S², including the closing point
+   */
+  lift: Vec3[];
+
+  /**
+   * The lifted endpoints [ℓ(0), ℓ(1)]: equal for a contractible loop,
+   * antipodal for a non-contractible one
+   */
+  endpoints: [Vec3, Vec3];
+
+  /**
+   * A contraction witness: a sequence of closed lifted loops, starting at
+   * `lift` and ending at a constant loop. Null when the loop is not contractible.
+   */
+  contraction: Vec3[][] | null;
+}
+
+/**
+ * Computes the closed lift of a loop: the continuous lift of its points
+ * followed by the lift of the closing point.
+ *
+ * @param loop - A closed path
+ * @returns Unit vectors along the lift; the last one is ±(first one)
+ */
+function closedLift(loop: PathWithParity): Vec3[] {
+  const lift = createPath(loop.points).points.map(p => Vec3.normalize(p));
+  if (lift.length === 0) return lift;
+
+  const start = lift[0];
+  const end = lift[lift.length - 1];
+  const closing = Vec3.dot(end, start) < 0 ? Vec3.neg(start) : start;
+
+  return [...lift, closing];
+}
+
+/**
+ * Computes the angular distance from a point to a great-circle arc.
+ *
+ * @param q - A unit vector
+ * @param a - Start of the arc (unit vector)
+ * @param b - End of the arc (unit vector)
+ * @returns The distance in radians
+ */
+function distanceToArc(q: Vec3, a: Vec3, b: Vec3): number {
+  const normal = Vec3.cross(a, b);
+  const endpointDistance = Math.min(Vec3.angle(q, a), Vec3.angle(q, b));
+  if (Vec3.norm(normal) < 1e-12) return endpointDistance;
+
+  const n = Vec3.normalize(normal);
+  const inPlane = Vec3.sub(q, Vec3.scale(n, Vec3.dot(q, n)));
+  if (Vec3.norm(inPlane) < 1e-12) return Math.PI / 2;
+
+  // The foot of the perpendicular lies on the arc iff it is between a and b
+  const foot = Vec3.normalize(inPlane);
+  const within =
+    Vec3.dot(Vec3.cross(a, foot), n) >= 0 &&
+    Vec3.dot(Vec3.cross(foot, b), n) >= 0;
+
+  return within ? Math.asin(Vec3.clamp(Math.abs(Vec3.dot(q, n)), 0, 1)) : endpointDistance;
+}
+
+/**
+ * Clearance from a polyline at which a candidate direction is accepted
+ * without trying a finer candidate set
+ */
+const MIN_CLEARANCE = 1e-3;
+
+/**
+ * Sizes of the successively finer Fibonacci candidate sets
+ */
+const CANDIDATE_COUNTS = [64, 256, 1024, 4096];
+
+/**
+ * The 26 directions of the cube's faces, edges and corners.
+ */
+function cubeDirections(): Vec3[] {
+  const directions: Vec3[] = [];
+  for (let x = -1; x <= 1; x++) {
+    for (let y = -1; y <= 1; y++) {
+      for (let z = -1; z <= 1; z++) {
+        if (x !== 0 || y !== 0 || z !== 0) directions.push(Vec3.normalize([x, y, z]));
+      }
+    }
+  }
+  return directions;
+}
+
+/**
+ * Spreads n directions evenly over S² along a Fibonacci spiral. Their
+ * irrational spacing keeps them off any of the symmetric directions a
+ * polyline is likely to be drawn through.
+ */
+function fibonacciDirections(n: number): Vec3[] {
+  const golden = Math.PI * (3 - Math.sqrt(5));
+  return Array.from({ length: n }, (_, i) => {
+    const z = 1 - (2 * i + 1) / n;
+    const r = Math.sqrt(1 - z * z);
+    return [r * Math.cos(golden * i), r * Math.sin(golden * i), z] as Vec3;
+  });
+}
+
+/**
+ * Finds a direction on S² that stays as far as possible from a polyline.
+ *
+ * A polyline covers no area, but it can pass through every direction of any
+ * fixed finite set. The 26 directions of the cube are tried first, then
+ * Fibonacci sets of increasing size, until one direction clears the polyline
+ * by MIN_CLEARANCE; otherwise the farthest direction seen is returned.
+ *
+ * @param polyline - Unit vectors joined by geodesic arcs
+ * @returns The candidate direction farthest from the polyline, and its distance
+ */
+function farthestDirection(polyline: Vec3[]): { direction: Vec3; distance: number } {
+  let best = { direction: [0, 0, 1] as Vec3, distance: -1 };
+
+  for (const candidates of [cubeDirections(), ...CANDIDATE_COUNTS.map(fibonacciDirections)]) {
+    for (const q of candidates) {
+      let distance = Infinity;
+      for (let i = 1; i < polyline.length; i++) {
+        distance = Math.min(distance, distanceToArc(q, polyline[i - 1], polyline[i]));
+      }
+      if (polyline.length === 1) distance = Vec3.angle(q, polyline[0]);
+
+      if (distance > best.distance) best = { direction: q, distance };
+    }
+    if (best.distance >= MIN_CLEARANCE) break;
+  }
+
+  return best;
+}
+
+/**
+ * Determines the homotopy class of a closed loop in ℝP².
+ *
+ * @param loop - A closed path (the closing segment is added implicitly)
+ * @returns PARITY_EVEN if the loop is contractible, PARITY_ODD otherwise
+ */
+export function homotopyClass(loop: PathWithParity): Parity {
+  return closeLoop(loop);
+}
+
+/**
+ * Tests if a path is "null-homotopic" (contractible to a point) in ℝP².
+ *
+ * A loop is null-homotopic exactly when its lift to S² closes up.
+ *
+ * @param path - A closed path
+ * @returns true if the path is null-homotopic
+ */
+export function isNullHomotopic(path: PathWithParity): boolean {
+  return homotopyClass(path) === PARITY_EVEN;
+}
+
+/**
+ * Computes the linking number of a loop with a point class [p].
+ *
+ * This is the class of the loop in π₁(ℝP² ∖ [p]) ≅ ℤ: the signed number of
+ * half-turns the lift makes around the axis through the canonical
+ * representative of [p]. A projective line not through [p] has linking
+ * number ±1; a small loop around [p] has ±2; a small loop elsewhere has 0.
+ * Its parity always agrees with `homotopyClass`.
+ *
+ * @param loop - A closed path that avoids [p]
+ * @param point - Any representative of the point class
+ * @returns The linking number
+ * @throws Error if the loop passes through [p]
+ */
+export function linkingNumber(loop: PathWithParity, point: Vec3): number {
+  const axis = classOf(point).canonical;
+  const lift = closedLift(loop);
+  let total = 0;
+
+  for (let i = 1; i < lift.length; i++) {
+    const a = lift[i - 1];
+    const b = lift[i];
+    if (distanceToArc(axis, a, b) < 1e-9 || distanceToArc(Vec3.neg(axis), a, b) < 1e-9) {
+      throw new Error('Loop passes through the point class');
+    }
+
+    // Signed change in azimuth about the axis along this arc (each arc is at most 90°)
+    const pa = Vec3.sub(a, Vec3.scale(axis, Vec3.dot(a, axis)));
+    const pb = Vec3.sub(b, Vec3.scale(axis, Vec3.dot(b, axis)));
+    total += Math.atan2(Vec3.dot(axis, Vec3.cross(pa, pb)), Vec3.dot(pa, pb));
+  }
+
+  const halfTurns = Math.round(total / Math.PI);
+  return halfTurns === 0 ? 0 : halfTurns; // Avoid reporting -0
+}
+
+/**
+ * Computes the "winding parity" of a loop around a point class.
+ *
+ * This is the number of full turns the lift makes around the axis through ±p,
+ * mod 2: whether the lifted loop separates p from -p. A loop that is not
+ * contractible in ℝP² only closes in S² after two traversals, so its doubled
+ * lift is used, and it always winds oddly.
+ *
+ * @param loop - A closed path that avoids [p]
+ * @param point - Any representative of the point class
+ * @returns The winding parity (mod 2)
+ */
+export function windingParity(loop: PathWithParity, point: Vec3): Parity {
+  const m = linkingNumber(loop, point);
+  const turns = m % 2 === 0 ? m / 2 : m;
+  return Math.abs(turns) % 2 === 0 ? PARITY_EVEN : PARITY_ODD;
+}
+
+/**
+ * Produces a certificate for the homotopy class of a closed loop.
+ *
+ * When the lift closes up, the contraction witness pushes the lifted loop
+ * along straight lines in ℝ³ towards a point c, renormalizing onto S². This
+ * never passes through the origin because c is chosen with -c off the loop.
+ *
+ * @param loop - A closed path
+ * @param frames - Number of frames in the contraction witness (at least 2)
+ * @returns The homotopy certificate
+ * @throws Error if the loop has no points
+ */
+export function certifyLoop(loop: PathWithParity, frames = 16): HomotopyCertificate {
+  const lift = closedLift(loop);
+  if (lift.length === 0) throw new Error('Cannot certify an empty loop');
+  const parity = homotopyClass(loop);
+
+  const endpoints: [Vec3, Vec3] = [lift[0], lift[lift.length - 1]];
+  if (parity === PARITY_ODD) {
+    return { parity, lift, endpoints, contraction: null };
+  }
+
+  const avoided = farthestDirection(lift);
+  if (avoided.distance < 1e-9) {
+    return { parity, lift, endpoints, contraction: null };
+  }
+
+  const target = Vec3.neg(avoided.direction);
+  const count = Math.max(2, frames);
+  const contraction: Vec3[][] = [];
+  for (let k = 0; k < count; k++) {
+    const s = k / (count - 1);
+    contraction.push(
+      lift.map(p => Vec3.normalize(Vec3.add(Vec3.scale(p, 1 - s), Vec3.scale(target, s))))
+    );
+  }
+
+  return { parity, lift, endpoints, contraction };
+}
@@ -0,0 +1,158 @@
+/**
+ * Immersions Module
+ *
+ * This module provides models of ℝP² in ℝ³: maps f: S² → ℝ³ with
+ * f(u) = f(-u), so that each class [u] has a single image point. ℝP² cannot
+ * be embedded in ℝ³, so every model self-intersects.
+ *
+ * Models:
+ * - Boy surface (Bryant–Kusner parametrization): an immersion, with a triple
+ *   point and a three-lobed curve of self-intersection
+ * - Cross-cap: a segment of self-intersection ending in two pinch points
+ * - Steiner Roman surface: three segments of self-intersection meeting in a
+ *   triple point, with six pinch points
+ *
+ * Meshes are sampled over a hemisphere, which meets every class once except on
+ * the rim, where u and -u map to the same point. The hemisphere is centered on a
+ * tilted pole so that no grid line runs along a curve of self-intersection.
+ */
+
+import { Vec3, Mesh } from "./types";
+
+export type ImmersionId = "boy" | "crosscap" | "roman";
+
+/**
+ * Pole of the hemisphere sampled by `makeImmersionMesh`
+ */
+export const IMMERSION_POLE: Vec3 = Vec3.normalize([0.31, 0.17, 1]);
+
+/**
+ * Computes the image of the class [u] on an immersion.
+ *
+ * @param immersion - Which model of ℝP²
+ * @param u - Any non-zero vector; u and -u give the same point
+ * @returns The image point in ℝ³
+ */
+export function immersionPoint(immersion: ImmersionId, u: Vec3): Vec3 {
+  const v = Vec3.normalize(u);
+  switch (immersion) {
+    case "boy": return boyPoint(v);
+    case "crosscap": return crossCapPoint(v);
+    case "roman": return romanPoint(v);
+    default: throw new Error(`Unknown immersion: ${immersion}`);
+  }
+}
+
+/**
+ * Generates a mesh of an immersion by mapping the upper hemisphere.
+ *
+ * Vertex i of the result is the image of vertex i of
+ * `makeHemisphereMesh(detail, IMMERSION_POLE)`, so the hemisphere mesh gives
+ * the source direction of every vertex.
+ *
+ * @param immersion - Which model of ℝP²
+ * @param detail - Number of rings (the rim has 4·detail segments)
+ * @returns The immersed mesh
+ */
+export function makeImmersionMesh(immersion: ImmersionId, detail = 32): Mesh {
+  const hemisphere = makeHemisphereMesh(detail, IMMERSION_POLE);
+  return {
+    vertices: hemisphere.vertices.map(u => immersionPoint(immersion, u)),
+    indices: hemisphere.indices
+  };
+}
+
+/**
+ * Generates the closed hemisphere u · pole ≥ 0 as a polar grid.
+ *
+ * Row 0 is the pole; the last row is the rim, where vertex j and vertex
+ * j + 2·detail are antipodal.
+ *
+ * @param detail - Number of rings
+ * @param pole - Center of the hemisphere
+ * @returns The hemisphere mesh on S²
+ */
+export function makeHemisphereMesh(detail = 32, pole: Vec3 = [0, 0, 1]): Mesh {
+  const segments = 4 * detail;
+  const vertices: Vec3[] = [];
+  const indices: number[] = [];
+
+  const n = Vec3.normalize(pole);
+  const e1 = Vec3.normalize(Vec3.cross(n, Math.abs(n[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0]));
+  const e2 = Vec3.cross(n, e1);
+
+  for (let i = 0; i <= detail; i++) {
+    const phi = (Math.PI / 2) * (i / detail);
+    for (let j = 0; j <= segments; j++) {
+      const theta = (2 * Math.PI * j) / segments;
+      const inPlane = Vec3.add(Vec3.scale(e1, Math.cos(theta)), Vec3.scale(e2, Math.sin(theta)));
+      vertices.push(Vec3.add(Vec3.scale(n, Math.cos(phi)), Vec3.scale(inPlane, Math.sin(phi))));
+    }
+  }
+  for (let i = 0; i < detail; i++) {
+    for (let j = 0; j < segments; j++) {
+      const a = i * (segments + 1) + j;
+      const b = a + (segments + 1);
+      if (i > 0) indices.push(a, b, a + 1);
+      indices.push(b, b + 1, a + 1);
+    }
+  }
+  return { vertices, indices };
+}
+
+/**
+ * Boy surface, Bryant–Kusner parametrization.
+ *
+ * With w = (x + iy) / (1 + z) the stereographic coordinate of the upper
+ * representative (|w| ≤ 1):
+ *
+ *   g₁ = -3/2 Im[w(1 - w⁴) / D],  g₂ = -3/2 Re[w(1 + w⁴) / D],
+ *   g₃ = Im[(1 + w⁶) / D] - 1/2,   D = w⁶ + √5·w³ - 1
+ *
+ * and the point is g / |g|².
+ */
+function boyPoint(u: Vec3): Vec3 {
+  const [x, y, z] = u[2] < 0 ? Vec3.neg(u) : u;
+  const w = { re: x / (1 + z), im: y / (1 + z) };
+
+  const mul = (a: Complex, b: Complex): Complex => ({ re: a.re * b.re - a.im * b.im, im: a.re * b.im + a.im * b.re });
+  const div = (a: Complex, b: Complex): Complex => {
+    const d = b.re * b.re + b.im * b.im;
+    return { re: (a.re * b.re + a.im * b.im) / d, im: (a.im * b.re - a.re * b.im) / d };
+  };
+
+  const w2 = mul(w, w);
+  const w3 = mul(w2, w);
+  const w4 = mul(w2, w2);
+  const w6 = mul(w3, w3);
+  const denominator = { re: w6.re + Math.sqrt(5) * w3.re - 1, im: w6.im + Math.sqrt(5) * w3.im };
+
+  const g1 = -1.5 * div(mul(w, { re: 1 - w4.re, im: -w4.im }), denominator).im;
+  const g2 = -1.5 * div(mul(w, { re: 1 + w4.re, im: w4.im }), denominator).re;
+  const g3 = div({ re: 1 + w6.re, im: w6.im }, denominator).im - 0.5;
+
+  const g = g1 * g1 + g2 * g2 + g3 * g3;
+  return [g1 / g, g2 / g, g3 / g];
+}
+
+interface Complex { re: number; im: number }
+
+/**
+ * Cross-cap: (x, y, z) ↦ (yz, 2xy, x² - y²).
+ *
+ * (x, 0, z) and (x, 0, -z) share the image (0, 0, x²), giving a segment of
+ * self-intersection from (0, 0, 0) to (0, 0, 1).
+ */
+function crossCapPoint([x, y, z]: Vec3): Vec3 {
+  return [y * z, 2 * x * y, x * x - y * y];
+}
+
+/**
+ * Steiner Roman surface: (x, y, z) ↦ 2·(yz, xz, xy).
+ *
+ * Self-intersects along the three coordinate axes for |t| ≤ 1, meeting in a
+ * triple point at the origin.
+ */
+function romanPoint([x, y, z]: Vec3): Vec3 {
+  return [2 * y * z, 2 * x * z, 2 * x * y];
+}
@@ -23,7 +23,9 @@ export type {
   Ray,
   Cone,
   Mesh,
+  OrbitClass,
   QuotientClass,
+  LineClass,
   QuotientSelection,
   SelectionIntent,
   RenderDirective,
@@ -31,6 +33,7 @@ export type {
   PathWithParity,
   QuotientAction,
   PullbackResult,
+  FieldSymmetry,
   SourceEffect
 } from './types';
 
@@ -48,9 +51,50 @@ export {
   quotientConeWeight,
   getBothRepresentatives,
   directionToClass,
-  assertCommutativity
+  assertCommutativity,
+  lineClassOf,
+  lineQuotientDistance,
+  doubledAngle,
+  lineClassAtDoubledAngle
 } from './quotient';
 
+// ============================================================================
+// Finite Group Quotients
+// ============================================================================
+
+export type { QuotientGroup, GroupId } from './groups';
+
+export {
+  createQuotientGroup,
+  groupOrder,
+  orbitOf,
+  orbitClassOf,
+  orbitClassEquals,
+  orbitDistance,
+  pointInOrbitCone,
+  withInversion,
+  antipodalGroup,
+  reflectionGroup,
+  cyclicGroup,
+  dihedralGroup,
+  tetrahedralGroup,
+  octahedralGroup,
+  icosahedralGroup,
+  makeQuotientGroup
+} from './groups';
+
+// ============================================================================
+// Fundamental Domains
+// ============================================================================
+
+export type { DomainEdge, FundamentalDomain } from './domain';
+
+export {
+  computeFundamentalDomain,
+  pointInDomain,
+  domainRepresentative
+} from './domain';
+
 // ============================================================================
 // Calibration
 // ============================================================================
@@ -102,6 +146,11 @@ export {
   quaternionFromAxisAngle,
   quaternionToMatrix,
   quaternionRotate,
+  quaternionMultiply,
+  quaternionConjugate,
+  quaternionNegate,
+  quaternionDot,
+  quaternionNormalize,
   createOrbitState,
   orbitToPosition,
   orbitForward,
@@ -110,6 +159,91 @@ export {
   raySphereIntersection
 } from './transforms';
 
+// ============================================================================
+// Affine Charts, Projective Lines and Transformations
+// ============================================================================
+
+export type { ChartId, ChartPoint } from './charts';
+
+export {
+  CHART_IDS,
+  chartCoordinates,
+  chartToClass,
+  transitionMap,
+  transitionFormula,
+  bestChart,
+  homogeneousCoordinates,
+  formatHomogeneous,
+  chartPolylines
+} from './charts';
+
+export type { ProjectiveLine } from './lines';
+
+export {
+  lineFromNormal,
+  join,
+  meet,
+  pointOnLine,
+  sameLine,
+  polarLine,
+  poleOf,
+  lineCircle
+} from './lines';
+
+export type { ProjectiveMap, ProjectiveCone } from './projective';
+
+export {
+  determinant,
+  normalizeProjective,
+  composeProjective,
+  invertProjective,
+  projectiveFromPoints,
+  mapClass,
+  mapLine,
+  roundCone,
+  mapCone,
+  pointInProjectiveCone,
+  projectiveConeBoundary,
+  interpolateProjective
+} from './projective';
+
+// ============================================================================
+// Finite Projective Planes
+// ============================================================================
+
+export type { FiniteField, FinitePoint, FinitePlane, IncidenceGraph } from './finitePlanes';
+
+export {
+  MAX_FIELD_ORDER,
+  finiteField,
+  fieldNegate,
+  fieldInverse,
+  finiteDot,
+  normalizeFinite,
+  finiteProjectivePlane,
+  finitePointIndex,
+  isIncident,
+  linesThrough,
+  finiteJoin,
+  finiteMeet,
+  incidenceGraph
+} from './finitePlanes';
+
+// ============================================================================
+// Algebraic Curves
+// ============================================================================
+
+export type { Monomial, HomogeneousPolynomial, CurveComponent } from './curves';
+
+export {
+  MAX_CURVE_DEGREE,
+  parsePolynomial,
+  evaluatePolynomial,
+  formatPolynomial,
+  extractCurve,
+  componentsInCone
+} from './curves';
+
 // ============================================================================
 // Selection
 // ============================================================================
@@ -132,6 +266,49 @@ export {
   selectClass
 } from './selection';
 
+// ============================================================================
+// Scalar Fields
+// ============================================================================
+
+export type { ScalarField } from './fields';
+
+export {
+  parseScalarField,
+  evenPart,
+  oddPart,
+  sampleField
+} from './fields';
+
+// ============================================================================
+// Spherical Harmonics
+// ============================================================================
+
+export type { HarmonicSpectrum } from './harmonics';
+
+export {
+  MAX_HARMONIC_DEGREE,
+  harmonicIndex,
+  harmonicBasis,
+  realSphericalHarmonic,
+  projectOntoHarmonics,
+  reconstructHarmonics,
+  degreeEnergies,
+  oddEnergyFraction,
+  zeroOddDegrees
+} from './harmonics';
+
+// ============================================================================
+// Axial Data
+// ============================================================================
+
+export type { AxialFormat, AngleUnit, AxialRow, AxialDataset } from './axial';
+
+export {
+  AXIAL_COLUMNS,
+  axialDirection,
+  parseAxialData
+} from './axial';
+
 // ============================================================================
 // Pullback
 // ============================================================================
@@ -139,6 +316,7 @@ export {
 export {
   pullbackAction,
   validateSymmetry,
+  validateFieldSymmetry,
   composePullbacks,
   createPullbackResult,
   getEffects,
@@ -150,6 +328,8 @@ export {
 // Parity
 // ============================================================================
 
+export type { TransportResult, ParityWalk } from './parity';
+
 export {
   PARITY_EVEN,
   PARITY_ODD,
@@ -163,20 +343,112 @@ export {
   closeLoop,
   concatenatePaths,
   reversePath,
-  windingParity,
   parallelTransport,
-  isNullHomotopic,
-  applyParityToVector
+  applyParityToVector,
+  parityWalk
 } from './parity';
 
+// ============================================================================
+// Homotopy
+// ============================================================================
+
+export type { HomotopyCertificate } from './homotopy';
+
+export {
+  homotopyClass,
+  isNullHomotopic,
+  linkingNumber,
+  windingParity,
+  certifyLoop
+} from './homotopy';
+
+// ============================================================================
+// Rotations (SO(3) ≅ ℝP³)
+// ============================================================================
+
+export type { RotationClass, SignAlignment } from './rotations';
+
+export {
+  rotationClassOf,
+  rotationClassEquals,
+  rotationDistance,
+  liftRotationPath,
+  rotationLoopParity,
+  turnPath,
+  beltHomotopy,
+  rotationLog,
+  rotationExp,
+  quaternionSlerp,
+  alignQuaternionSigns,
+  chordalL2Mean,
+  geodesicL1Mean,
+  markleyMean
+} from './rotations';
+
 // ============================================================================
 // Mesh and Shapes
 // ============================================================================
 
-export { vertexDirections } from './mesh';
+export type { Segment, WeldedVertices } from './mesh';
+export { vertexDirections, weldVertices, selfIntersections } from './mesh';
+
+export type { ShapeId, LoopFrame } from './shapes';
+export { makeShapeMesh, coreLoopFrame } from './shapes';
+
+export type { EulerCounts, DegenerateTriangle, QuotientComplex } from './complex';
+export { buildQuotientComplex } from './complex';
+
+export type { Coefficients, CellComplex, Chain, HomologyResult } from './homology';
+export {
+  RATIONAL_PRIME,
+  meshCells,
+  quotientCells,
+  computeHomology
+} from './homology';
 
-export type { ShapeId } from './shapes';
-export { makeShapeMesh } from './shapes';
+export type { OrientationResult } from './orientation';
+export { orientMesh, orientationDoubleCover } from './orientation';
+
+export type { ImmersionId } from './immersions';
+export {
+  IMMERSION_POLE,
+  immersionPoint,
+  makeImmersionMesh,
+  makeHemisphereMesh
+} from './immersions';
+
+export type { DiskProjection, DiskPoint } from './disk';
+export {
+  diskPoint,
+  diskToSphere,
+  diskPolylines,
+  diskConeBoundary
+} from './disk';
+
+export type { SquarePoint, PolygonEdge, SquarePen, PenMove } from './polygon';
+export {
+  POLYGON_WORD,
+  POLYGON_EDGES,
+  squareToSphere,
+  sphereToSquare,
+  pointInSquareCone,
+  createSquarePen,
+  movePen
+} from './polygon';
+
+export type { EdgeLetter, SurfaceClassification } from './surfaces';
+export {
+  parseEdgeWord,
+  formatEdgeWord,
+  classifySurface
+} from './surfaces';
+
+export {
+  gluingPoint,
+  makeGluingMesh,
+  gluingClassImages,
+  gluingChords
+} from './gluing';
 
 // ============================================================================
 // Version Information
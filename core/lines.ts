@@ -0,0 +1,134 @@
+/**
+ * Projective Lines Module
+ *
+ * A line of ℝP² is a plane through the origin of ℝ³. It meets S² in a great
+ * circle, whose antipodal points are identified, and it is stored as the
+ * class [n] of its normal: the points on it are the classes [u] with u · n = 0.
+ *
+ * Storing lines as classes makes points and lines the same kind of object,
+ * and incidence u · n = 0 is symmetric in the two. This is projective
+ * duality: the pole of a line is a point, the polar of a point is a line, and
+ * every statement about points and lines stays true with the roles swapped.
+ *
+ * Both join and meet are cross products. Two distinct points lie on exactly
+ * one line, and two distinct lines meet in exactly one point, with no
+ * exception for parallel lines: those meet on the line at infinity.
+ */
+
+import { Vec3, QuotientClass } from './types';
+import { classOf, classEquals } from './quotient';
+
+/**
+ * A line of ℝP², given by the class [n] of the normal of its plane
+ */
+export type ProjectiveLine = QuotientClass;
+
+/**
+ * Creates the line with a given normal.
+ *
+ * @param normal - Any non-zero normal of the plane
+ * @returns The line {[u] : u · normal = 0}
+ */
+export function lineFromNormal(normal: Vec3): ProjectiveLine {
+  return classOf(normal);
+}
+
+/**
+ * The line through two distinct points.
+ *
+ * @param p - First point
+ * @param q - Second point
+ * @param eps - Threshold on |p × q| below which the points coincide
+ * @returns The line [p × q]
+ * @throws If the points are the same class
+ */
+export function join(p: QuotientClass, q: QuotientClass, eps = 1e-9): ProjectiveLine {
+  const n = Vec3.cross(p.canonical, q.canonical);
+  if (Vec3.norm(n) < eps) {
+    throw new Error('Cannot join a point to itself: the line through it is not unique');
+  }
+  return classOf(n);
+}
+
+/**
+ * The point where two distinct lines meet.
+ *
+ * @param l - First line
+ * @param m - Second line
+ * @param eps - Threshold on |l × m| below which the lines coincide
+ * @returns The point [l × m]
+ * @throws If the lines are the same
+ */
+export function meet(l: ProjectiveLine, m: ProjectiveLine, eps = 1e-9): QuotientClass {
+  const u = Vec3.cross(l.canonical, m.canonical);
+  if (Vec3.norm(u) < eps) {
+    throw new Error('Cannot meet a line with itself: the intersection is the whole line');
+  }
+  return classOf(u);
+}
+
+/**
+ * Tests if a point lies on a line.
+ *
+ * @param p - A point
+ * @param l - A line
+ * @param eps - Tolerance on u · n for unit representatives
+ * @returns true if p is incident to l
+ */
+export function pointOnLine(p: QuotientClass, l: ProjectiveLine, eps = 1e-9): boolean {
+  return Math.abs(Vec3.dot(p.canonical, l.canonical)) < eps;
+}
+
+/**
+ * Tests if two lines are the same line.
+ *
+ * @param l - First line
+ * @param m - Second line
+ * @param eps - Epsilon threshold for comparing the normals
+ * @returns true if the normals are the same class
+ */
+export function sameLine(l: ProjectiveLine, m: ProjectiveLine, eps = 1e-6): boolean {
+  return classEquals(l, m, eps);
+}
+
+/**
+ * The dual line of a point, whose normal is the point: its polar.
+ *
+ * @param p - A point
+ * @returns The line with normal p
+ */
+export function polarLine(p: QuotientClass): ProjectiveLine {
+  return classOf(p.canonical);
+}
+
+/**
+ * The dual point of a line, its normal direction: its pole.
+ *
+ * @param l - A line
+ * @returns The point [n]
+ */
+export function poleOf(l: ProjectiveLine): QuotientClass {
+  return classOf(l.canonical);
+}
+
+/**
+ * Samples a line as a great circle on S².
+ *
+ * Both halves are returned: a half-circle already meets every point of the
+ * line once, and its endpoints are antipodal, hence the same point of ℝP².
+ *
+ * @param l - A line
+ * @param samples - Number of points around the circle
+ * @returns Unit vectors around the great circle, not repeating the first
+ */
+export function lineCircle(l: ProjectiveLine, samples = 128): Vec3[] {
+  const n = l.canonical;
+  // Any vector not parallel to n gives the first in-plane axis
+  const helper: Vec3 = Math.abs(n[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+  const a = Vec3.normalize(Vec3.cross(n, helper));
+  const b = Vec3.cross(n, a);
+  return Array.from({ length: samples }, (_, i) => {
+    const t = (2 * Math.PI * i) / samples;
+    return Vec3.add(Vec3.scale(a, Math.cos(t)), Vec3.scale(b, Math.sin(t)));
+  });
+}
@@ -10,3 +10,174 @@ import { Vec3, Mesh } from "./types";
 export function vertexDirections(mesh: Mesh): Vec3[] {
   return mesh.vertices.map(v => Vec3.normalize(v));
 }
+
+/**
+ * Vertices of a mesh with coincident positions merged
+ */
+export interface WeldedVertices {
+  /**
+   * One position per welded vertex
+   */
+  positions: Vec3[];
+
+  /**
+   * Welded vertex of each original mesh vertex
+   */
+  weld: number[];
+
+  /**
+   * Finds the welded vertex at a position, if any
+   */
+  indexOf: (v: Vec3) => number | undefined;
+}
+
+/**
+ * Merges mesh vertices that lie within eps of each other, such as the
+ * repeated seam and pole vertices of a latitude-longitude sphere.
+ *
+ * @param mesh - A mesh
+ * @param eps - Distance below which vertices are merged
+ * @returns Welded positions and the map from mesh vertices to them
+ */
+export function weldVertices(mesh: Mesh, eps = 1e-6): WeldedVertices {
+  const key = (v: Vec3) => v.map(x => Math.round(x / eps) || 0).join(",");
+  const welded = new Map<string, number>();
+  const positions: Vec3[] = [];
+  const weld = mesh.vertices.map(v => {
+    const k = key(v);
+    if (!welded.has(k)) {
+      welded.set(k, positions.length);
+      positions.push(v);
+    }
+    return welded.get(k)!;
+  });
+
+  return { positions, weld, indexOf: v => welded.get(key(v)) };
+}
+
+/**
+ * A line segment in ℝ³
+ */
+export type Segment = [Vec3, Vec3];
+
+/**
+ * Cuts a triangle with a plane n · x = d.
+ *
+ * @returns The segment of the triangle lying in the plane, or null
+ */
+function cutTriangle(tri: [Vec3, Vec3, Vec3], n: Vec3, d: number, eps: number): Segment | null {
+  const dist = tri.map(v => Vec3.dot(n, v) - d);
+  const points: Vec3[] = [];
+
+  for (let i = 0; i < 3; i++) {
+    const j = (i + 1) % 3;
+    if (Math.abs(dist[i]) <= eps) points.push(tri[i]);
+    if ((dist[i] > eps && dist[j] < -eps) || (dist[i] < -eps && dist[j] > eps)) {
+      const t = dist[i] / (dist[i] - dist[j]);
+      points.push(Vec3.add(tri[i], Vec3.scale(Vec3.sub(tri[j], tri[i]), t)));
+    }
+  }
+
+  if (points.length < 2) return null;
+  return [points[0], points[points.length - 1]];
+}
+
+/**
+ * Intersects two triangles in general position.
+ *
+ * @returns The segment where they cross, or null
+ */
+function intersectTriangles(a: [Vec3, Vec3, Vec3], b: [Vec3, Vec3, Vec3], eps: number): Segment | null {
+  const na = Vec3.cross(Vec3.sub(a[1], a[0]), Vec3.sub(a[2], a[0]));
+  const nb = Vec3.cross(Vec3.sub(b[1], b[0]), Vec3.sub(b[2], b[0]));
+  const dir = Vec3.cross(na, nb);
+  if (Vec3.norm(dir) <= eps * Vec3.norm(na) * Vec3.norm(nb)) return null;
+
+  const sa = cutTriangle(a, Vec3.normalize(nb), Vec3.dot(Vec3.normalize(nb), b[0]), eps);
+  if (!sa) return null;
+  const sb = cutTriangle(b, Vec3.normalize(na), Vec3.dot(Vec3.normalize(na), a[0]), eps);
+  if (!sb) return null;
+
+  // Both segments lie on the line of intersection of the two planes; overlap them
+  const t = (p: Vec3) => Vec3.dot(p, dir);
+  const [a0, a1] = t(sa[0]) <= t(sa[1]) ? sa : [sa[1], sa[0]];
+  const [b0, b1] = t(sb[0]) <= t(sb[1]) ? sb : [sb[1], sb[0]];
+  const start = t(a0) >= t(b0) ? a0 : b0;
+  const end = t(a1) <= t(b1) ? a1 : b1;
+
+  if (t(end) - t(start) <= eps * Vec3.norm(dir)) return null;
+  return [start, end];
+}
+
+/**
+ * Finds the self-intersection of a mesh as a set of segments.
+ *
+ * Pairs of triangles sharing an edge position (neighbors, or neighbors
+ * across a seam of duplicated vertices) are skipped; pairs sharing a single
+ * vertex only meet there and give no segment. Candidate pairs are found with a
+ * uniform grid over triangle bounding boxes.
+ *
+ * @param mesh - A triangle mesh
+ * @param eps - Tolerance for coincident vertices and degenerate crossings
+ * @returns Segments along which the mesh passes through itself
+ */
+export function selfIntersections(mesh: Mesh, eps = 1e-9): Segment[] {
+  const triangles: [Vec3, Vec3, Vec3][] = [];
+  for (let i = 0; i < mesh.indices.length; i += 3) {
+    triangles.push([mesh.vertices[mesh.indices[i]], mesh.vertices[mesh.indices[i + 1]], mesh.vertices[mesh.indices[i + 2]]]);
+  }
+  if (triangles.length === 0) return [];
+
+  // Vertex positions, merged so that seam-duplicated vertices compare equal
+  const key = (v: Vec3) => v.map(x => Math.round(x / 1e-6) || 0).join(',');
+  const keys = triangles.map(tri => tri.map(key));
+
+  // Uniform grid sized so each cell holds a few triangles
+  const lo: Vec3 = [Infinity, Infinity, Infinity];
+  const hi: Vec3 = [-Infinity, -Infinity, -Infinity];
+  mesh.vertices.forEach(v => {
+    for (let k = 0; k < 3; k++) {
+      lo[k] = Math.min(lo[k], v[k]);
+      hi[k] = Math.max(hi[k], v[k]);
+    }
+  });
+  const cellsPerAxis = Math.max(1, Math.round(Math.cbrt(triangles.length)));
+  const size = Math.max(...hi.map((h, k) => h - lo[k])) / cellsPerAxis || 1;
+  const cell = (x: number, k: number) => Math.floor((x - lo[k]) / size);
+
+  const grid = new Map<string, number[]>();
+  triangles.forEach((tri, i) => {
+    const min = [0, 1, 2].map(k => cell(Math.min(tri[0][k], tri[1][k], tri[2][k]), k));
+    const max = [0, 1, 2].map(k => cell(Math.max(tri[0][k], tri[1][k], tri[2][k]), k));
+    for (let x = min[0]; x <= max[0]; x++) {
+      for (let y = min[1]; y <= max[1]; y++) {
+        for (let z = min[2]; z <= max[2]; z++) {
+          const id = `${x},${y},${z}`;
+          const bucket = grid.get(id);
+          if (bucket) bucket.push(i);
+          else grid.set(id, [i]);
+        }
+      }
+    }
+  });
+
+  const segments: Segment[] = [];
+  const tested = new Set<number>();
+  for (const bucket of grid.values()) {
+    for (let p = 0; p < bucket.length; p++) {
+      for (let q = p + 1; q < bucket.length; q++) {
+        const i = Math.min(bucket[p], bucket[q]);
+        const j = Math.max(bucket[p], bucket[q]);
+        const pair = i * triangles.length + j;
+        if (tested.has(pair)) continue;
+        tested.add(pair);
+
+        if (keys[i].filter(k => keys[j].includes(k)).length >= 2) continue;
+        const segment = intersectTriangles(triangles[i], triangles[j], eps);
+        if (segment) segments.push(segment);
+      }
+    }
+  }
+
+  return segments;
+}
@@ -0,0 +1,245 @@
+/**
+ * Orientation Module
+ *
+ * This module orients the triangles of a mesh consistently, propagating an
+ * orientation from face to face across shared edges. Two neighbouring faces
+ * agree when they traverse their common edge in opposite directions.
+ *
+ * Propagation fails exactly on non-orientable surfaces. The failure is
+ * witnessed by a loop of faces along which the orientation comes back
+ * reversed: a cycle on which the first Stiefel-Whitney class w₁ is nonzero,
+ * such as the core circle of a Möbius strip.
+ *
+ * The orientation double cover has two copies of each face, one per
+ * orientation, glued wherever the orientations agree. It is connected
+ * exactly when the surface is non-orientable: the double cover of the Möbius
+ * strip is an annulus, of the Klein bottle a torus, and of ℝP² the sphere.
+ */
+
+import { Vec3, Mesh } from "./types";
+import { weldVertices } from "./mesh";
+import { findSet, unionSets } from "./disjointSets";
+
+/**
+ * Result of orienting a mesh
+ */
+export interface OrientationResult {
+  /**
+   * Whether all faces can be oriented compatibly
+   */
+  orientable: boolean;
+
+  /**
+   * For each triangle, +1 to keep its winding and -1 to reverse it; 0 for
+   * triangles that are collapsed or repeat another
+   */
+  flips: (1 | -1 | 0)[];
+
+  /**
+   * An orientation-reversing loop of triangles, each sharing an edge with
+   * the next and the last with the first; empty if the mesh is orientable
+   */
+  reversingCycle: number[];
+
+  /**
+   * Number of connected components
+   */
+  components: number;
+}
+
+/**
+ * Faces of a mesh on welded vertices, with the faces around each edge
+ */
+interface FaceAdjacency {
+  /**
+   * Welded corners of each triangle, or null if it is skipped
+   */
+  faces: (number[] | null)[];
+
+  /**
+   * Welded vertex positions
+   */
+  positions: Vec3[];
+
+  /**
+   * For each edge [lo, hi], its faces and whether each runs lo → hi
+   */
+  edges: { ends: [number, number]; sides: { face: number; forward: boolean }[] }[];
+}
+
+/**
+ * Orients the triangles of a mesh.
+ *
+ * @param mesh - A triangle mesh of a surface, possibly with boundary
+ * @returns Flips giving a consistent orientation, or an orientation-reversing cycle
+ * @throws If an edge is shared by more than two triangles
+ */
+export function orientMesh(mesh: Mesh): OrientationResult {
+  const { faces, edges } = faceAdjacency(mesh);
+
+  // Neighbours across each edge, with the relative sign they must have
+  const neighbours: { face: number; sign: 1 | -1 }[][] = faces.map(() => []);
+  edges.forEach(({ sides }) => {
+    if (sides.length !== 2) return;
+    const [p, q] = sides;
+    // Agreement means opposite directions along the edge, so equal directions need a flip
+    const sign = (p.forward === q.forward ? -1 : 1) as 1 | -1;
+    neighbours[p.face].push({ face: q.face, sign });
+    neighbours[q.face].push({ face: p.face, sign });
+  });
+
+  const flips: (1 | -1 | 0)[] = faces.map(() => 0);
+  const parent: number[] = faces.map(() => -1);
+  let conflict: [number, number] | null = null;
+  let components = 0;
+
+  for (let root = 0; root < faces.length; root++) {
+    if (!faces[root] || flips[root] !== 0) continue;
+    components++;
+    flips[root] = 1;
+    const queue = [root];
+    while (queue.length) {
+      const f = queue.shift()!;
+      for (const { face: g, sign } of neighbours[f]) {
+        const required = (flips[f] * sign) as 1 | -1;
+        if (flips[g] === 0) {
+          flips[g] = required;
+          parent[g] = f;
+          queue.push(g);
+        } else if (flips[g] !== required && !conflict) {
+          conflict = [f, g];
+        }
+      }
+    }
+  }
+
+  return {
+    orientable: conflict === null,
+    flips,
+    reversingCycle: conflict ? treeCycle(parent, conflict) : [],
+    components
+  };
+}
+
+/**
+ * Builds the orientation double cover of a mesh.
+ *
+ * Each face appears twice, once with each winding; the copies are pushed
+ * apart along their normals by offset, so the cover is drawn as the boundary
+ * of a thin neighbourhood of the surface.
+ *
+ * @param mesh - A triangle mesh of a surface, possibly with boundary
+ * @param offset - Distance of each sheet from the surface
+ * @returns The double cover, an orientable mesh with twice the faces
+ * @throws If an edge is shared by more than two triangles
+ */
+export function orientationDoubleCover(mesh: Mesh, offset = 0.02): Mesh {
+  const { faces, positions, edges } = faceAdjacency(mesh);
+
+  // Copy 2f keeps the winding of face f, copy 2f + 1 reverses it
+  const corner = (copy: number, vertex: number) => 3 * copy + faces[copy >> 1]!.indexOf(vertex);
+  const parent = Array.from({ length: 6 * faces.length }, (_, i) => i);
+
+  edges.forEach(({ ends, sides }) => {
+    if (sides.length !== 2) return;
+    const [p, q] = sides;
+    [0, 1].forEach(s => {
+      // Copies are glued when they run along the edge in opposite directions
+      const t = p.forward === q.forward ? 1 - s : s;
+      ends.forEach(v => unionSets(parent, corner(2 * p.face + s, v), corner(2 * q.face + t, v)));
+    });
+  });
+
+  const normal = (f: number) => {
+    const [a, b, c] = faces[f]!.map(i => positions[i]);
+    return Vec3.normalize(Vec3.cross(Vec3.sub(b, a), Vec3.sub(c, a)));
+  };
+
+  // One cover vertex per class of corners, offset along the mean sheet normal
+  const vertexOf = new Map<number, number>();
+  const vertices: Vec3[] = [];
+  const normals: Vec3[] = [];
+  const indices: number[] = [];
+
+  faces.forEach((face, f) => {
+    if (!face) return;
+    [0, 1].forEach(s => {
+      const copy = 2 * f + s;
+      const n = s === 0 ? normal(f) : Vec3.neg(normal(f));
+      const corners = face.map(v => {
+        const root = findSet(parent, corner(copy, v));
+        if (!vertexOf.has(root)) {
+          vertexOf.set(root, vertices.length);
+          vertices.push(positions[v]);
+          normals.push([0, 0, 0]);
+        }
+        const index = vertexOf.get(root)!;
+        normals[index] = Vec3.add(normals[index], n);
+        return index;
+      });
+      indices.push(...(s === 0 ? corners : [corners[0], corners[2], corners[1]]));
+    });
+  });
+
+  return {
+    vertices: vertices.map((v, i) => Vec3.add(v, Vec3.scale(Vec3.normalize(normals[i]), offset))),
+    indices
+  };
+}
+
+/**
+ * Welds a mesh and lists the faces around each edge.
+ */
+function faceAdjacency(mesh: Mesh): FaceAdjacency {
+  const { positions, weld } = weldVertices(mesh);
+  const seen = new Set<string>();
+  const edgeIndex = new Map<string, number>();
+  const edges: FaceAdjacency["edges"] = [];
+
+  const faces = Array.from({ length: mesh.indices.length / 3 }, (_, t) => {
+    const tri = [0, 1, 2].map(k => weld[mesh.indices[3 * t + k]]);
+    const key = [...tri].sort((a, b) => a - b).join(",");
+    if (new Set(tri).size < 3 || seen.has(key)) return null;
+    seen.add(key);
+
+    [[0, 1], [1, 2], [2, 0]].forEach(([a, b]) => {
+      const [lo, hi] = tri[a] < tri[b] ? [tri[a], tri[b]] : [tri[b], tri[a]];
+      const k = `${lo},${hi}`;
+      if (!edgeIndex.has(k)) {
+        edgeIndex.set(k, edges.length);
+        edges.push({ ends: [lo, hi], sides: [] });
+      }
+      const edge = edges[edgeIndex.get(k)!];
+      edge.sides.push({ face: t, forward: tri[a] === lo });
+      if (edge.sides.length > 2) {
+        throw new Error(`Edge ${k} is shared by more than two triangles; the mesh is not a surface`);
+      }
+    });
+    return tri;
+  });
+
+  return { faces, positions, edges };
+}
+
+/**
+ * Closes the tree paths from the two faces of a non-tree edge into a loop.
+ */
+function treeCycle(parent: number[], [f, g]: [number, number]): number[] {
+  const up = (start: number) => {
+    const path = [start];
+    while (parent[path[path.length - 1]] !== -1) path.push(parent[path[path.length - 1]]);
+    return path;
+  };
+
+  const fromF = up(f);
+  const ancestors = new Set(fromF);
+  const fromG: number[] = [];
+  let node = g;
+  while (!ancestors.has(node)) {
+    fromG.push(node);
+    node = parent[node];
+  }
+
+  // f, ..., common ancestor, ..., g; g is adjacent to f
+  return [...fromF.slice(0, fromF.indexOf(node) + 1), ...fromG.reverse()];
+}
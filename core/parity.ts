@@ -9,14 +9,84 @@
  * The real projective plane ℝP² is non-orientable. When you traverse a loop that
  * wraps around the projective structure, you can return with a flipped orientation.
  *
- * This module provides the infrastructure for tracking this phenomenon, even though
- * V1 of SEAM-VIZ doesn't expose it in the UI. It's designed for future features like:
+ * Paths are stored as continuous lifts to S²: every appended point is replaced by
+ * the representative nearest the previous one, and the parity records whether the
+ * lift has changed sheet relative to the canonical representatives. This module
+ * is designed for features like:
  * - Path tracing with orientation awareness
  * - Frame transport (parallel transport of tangent vectors)
  * - Loop detection (identifying whether a closed path flips orientation)
+ *
+ * Homotopy questions about closed paths (contractibility, winding around a
+ * class) are answered by the homotopy module, which builds on these lifts.
  */
 
 import { Vec3, Parity, PathWithParity } from './types';
+import { classOf } from './quotient';
+import { rotationAxisAngle, matVecMul } from './transforms';
+import { ShapeId, LoopFrame, coreLoopFrame } from './shapes';
+
+/**
+ * The result of parallel transporting a tangent vector along a path
+ */
+export interface TransportResult {
+  /**
+   * The transported vector, tangent to S² at the last lifted point
+   */
+  vector: Vec3;
+
+  /**
+   * The class of the closed loop in π₁(ℝP²), read from whether the lift
+   * closes on the start or on its antipode
+   */
+  parity: Parity;
+
+  /**
+   * The unit frame (e, u × e) at the start u, with e along the initial
+   * vector, carried around the closed loop and back to the tangent plane at u
+   */
+  returnedFrame: [Vec3, Vec3];
+
+  /**
+   * The holonomy of the closed loop: the signed angle (radians, in (-π, π])
+   * from the initial vector to the vector brought back to the start, measured
+   * counter-clockwise about the starting point. Null when the frame comes
+   * back mirrored, since a reflection is not a rotation by any angle
+   */
+  holonomy: number | null;
+
+  /**
+   * Whether the returned frame has the opposite orientation to the start
+   * frame: left and right have swapped
+   */
+  mirrored: boolean;
+}
+
+/**
+ * A frame carried once around the core loop of a surface
+ */
+export interface ParityWalk {
+  /**
+   * Frames at evenly spaced steps, the last back at the start; each across
+   * vector is the continuous lift, so the last may be the negated first
+   */
+  frames: LoopFrame[];
+
+  /**
+   * The across directions as a path in ℝP²
+   */
+  path: PathWithParity;
+
+  /**
+   * The ℤ₂ class of the closed loop of across directions
+   */
+  parity: Parity;
+
+  /**
+   * Whether the frame came back mirrored
+   */
+  mirrored: boolean;
+}
 
 /**
  * The identity element in ℤ₂ (no flip)
@@ -95,58 +165,103 @@ export function antipodalTransitionParity(from: Vec3, to: Vec3): Parity {
 }
 
 /**
- * Creates a path with zero parity (orientation-preserving).
+ * Determines which sheet of the double cover S² → ℝP² a lifted point lies on.
+ *
+ * Sheet 0 is the canonical section chosen by `classOf` (first non-zero
+ * coordinate positive); sheet 1 is its antipode. The section is discontinuous
+ * along its seam, so a continuous lift changes sheet exactly when it crosses it.
+ *
+ * @param v - A lifted point (need not be normalized)
+ * @returns 0 if v lies on the canonical sheet, 1 otherwise
+ */
+function sheetOf(v: Vec3): Parity {
+  const canonical = classOf(v).canonical;
+  return Vec3.dot(v, canonical) >= 0 ? PARITY_EVEN : PARITY_ODD;
+}
+
+/**
+ * Lifts a point to the representative nearest the previous lift.
+ *
+ * Of the two representatives {v, -v}, the continuous lift always takes the one
+ * within 90° of where it currently is.
+ *
+ * @param previous - The previous lifted point
+ * @param v - Any representative of the next class
+ * @returns v or -v, whichever is closer to previous
+ */
+function liftNear(previous: Vec3, v: Vec3): Vec3 {
+  return Vec3.dot(previous, v) < 0 ? Vec3.neg(v) : v;
+}
+
+/**
+ * Creates a path by continuously lifting the given points.
  *
- * @param points - The points along the path
- * @returns A path with even parity
+ * Each point after the first is replaced by whichever representative lies
+ * nearest the previous lift, so `points` always holds a continuous path on S².
+ *
+ * @param points - Representatives of the classes along the path
+ * @returns The lifted path with its accumulated parity
  */
 export function createPath(points: Vec3[]): PathWithParity {
-  return {
-    points,
-    parity: PARITY_EVEN
-  };
+  return points.reduce<PathWithParity>(
+    (path, point) => appendToPath(path, point),
+    { points: [], parity: PARITY_EVEN }
+  );
 }
 
 /**
- * Appends a point to a path, updating the parity if needed.
+ * Appends a point to a path, lifting it continuously and updating the parity.
  *
- * This is a simplified version that doesn't actually compute parity changes.
- * A full implementation would analyze the geometry of the path to determine
- * if an orientation flip occurred.
+ * The new point is lifted to the representative nearest the previous lift.
+ * The parity flips whenever that lift has to jump to the antipode of the
+ * canonical representative, i.e. whenever the lift changes sheet. It therefore
+ * always records whether the current lift sits on the same sheet as the start
+ * of the path, which at a closed loop is exactly its class in π₁(ℝP²) ≅ ℤ₂.
  *
  * @param path - The current path
- * @param newPoint - The point to append
- * @returns A new path with the point added
+ * @param newPoint - Any representative of the class to append
+ * @returns A new path with the lifted point added
  */
 export function appendToPath(path: PathWithParity, newPoint: Vec3): PathWithParity {
+  if (path.points.length === 0) {
+    return { points: [newPoint], parity: PARITY_EVEN };
+  }
+
+  const previous = path.points[path.points.length - 1];
+  const lifted = liftNear(previous, newPoint);
+  const sheetChange = composeParity(sheetOf(previous), sheetOf(lifted));
+
   return {
-    points: [...path.points, newPoint],
-    parity: path.parity // Keep same parity (simplified)
+    points: [...path.points, lifted],
+    parity: composeParity(path.parity, sheetChange)
   };
 }
 
 /**
  * Closes a path by connecting the last point back to the first.
  *
- * Returns the accumulated parity, which tells you whether the loop is
- * orientation-preserving (even) or orientation-reversing (odd).
+ * The closing segment is lifted like any other step. If the lift comes back to
+ * the starting point the loop is contractible (even); if it arrives at the
+ * antipode of the start the loop is the non-trivial element of π₁(ℝP²) (odd).
  *
  * @param path - A path to close
- * @returns The parity of the closed loop
+ * @returns The ℤ₂ class of the closed loop
  */
 export function closeLoop(path: PathWithParity): Parity {
   if (path.points.length < 2) {
     return PARITY_EVEN; // Trivial loop
   }
 
-  // In a full implementation, we'd analyze the path geometry here
-  // For now, just return the accumulated parity
-  return path.parity;
+  return appendToPath(path, path.points[0]).parity;
 }
 
 /**
  * Concatenates two paths, composing their parities.
  *
+ * The second path is re-lifted as a whole so that it starts on the sheet
+ * nearest the end of the first. The parity of the result is the composition
+ * of both parities and the sheet change across the junction.
+ *
  * @param path1 - First path
  * @param path2 - Second path
  * @returns A new path that is the concatenation of the two
@@ -155,9 +270,17 @@ export function concatenatePaths(
   path1: PathWithParity,
   path2: PathWithParity
 ): PathWithParity {
+  if (path1.points.length === 0) return path2;
+  if (path2.points.length === 0) return path1;
+
+  const end = path1.points[path1.points.length - 1];
+  const flip = Vec3.dot(end, path2.points[0]) < 0;
+  const points2 = flip ? path2.points.map(p => Vec3.neg(p)) : path2.points;
+  const junction = composeParity(sheetOf(end), sheetOf(points2[0]));
+
   return {
-    points: [...path1.points, ...path2.points],
-    parity: composeParity(path1.parity, path2.parity)
+    points: [...path1.points, ...points2],
+    parity: composeParity(composeParity(path1.parity, path2.parity), junction)
   };
 }
 
@@ -177,57 +300,116 @@ export function reversePath(path: PathWithParity): PathWithParity {
 }
 
 /**
- * Computes the "winding parity" of a loop around a point.
+ * Transports a tangent vector along a single geodesic segment of S².
  *
- * This is a placeholder for future implementation. In full generality,
- * this would use homotopy theory to determine the topological winding number
- * modulo 2.
+ * Along a great-circle arc the Levi-Civita connection is the rotation about
+ * the arc's axis, so the discrete transport is exact for piecewise-geodesic paths.
  *
- * @param loop - A closed path
- * @param point - A point on the sphere
- * @returns The winding parity (mod 2)
+ * @param from - Start of the segment (unit vector)
+ * @param to - End of the segment (unit vector)
+ * @param v - A vector tangent to S² at `from`
+ * @returns The transported vector, tangent to S² at `to`
  */
-export function windingParity(loop: PathWithParity, point: Vec3): Parity {
-  // Placeholder: always return even
-  // Full implementation would use algebraic topology
-  return PARITY_EVEN;
+function transportSegment(from: Vec3, to: Vec3, v: Vec3): Vec3 {
+  const axis = Vec3.cross(from, to);
+  if (Vec3.norm(axis) < 1e-12) return v; // Degenerate segment
+
+  const rotated = matVecMul(rotationAxisAngle(axis, Vec3.angle(from, to)), v);
+  // Re-project to suppress drift off the tangent plane
+  return Vec3.sub(rotated, Vec3.scale(to, Vec3.dot(rotated, to)));
 }
 
 /**
  * Parallel transports a vector along a path in ℝP².
  *
- * This is a placeholder for a more sophisticated feature. Parallel transport
- * in projective space can flip orientation when you complete certain loops.
+ * The path is lifted to S² and the unit frame (e, u × e), with e along the
+ * vector, is carried along each geodesic segment by discrete Levi-Civita
+ * transport, which rotates it and so keeps its orientation. The loop is closed the same way `closeLoop` closes
+ * it. If the lift comes back to the start, the returned frame differs from
+ * the initial one by a rotation through the enclosed area (Gauss–Bonnet). If
+ * the lift closes on the antipode, the frame is carried back through the
+ * differential of u ↦ -u; the orientation of S² at -u is the opposite of that
+ * at u, so the returned frame has negative determinant against the start
+ * frame: left and right have swapped, and there is no holonomy angle.
  *
  * @param path - The path to transport along
- * @param initialVector - The starting tangent vector
- * @returns The transported vector and the accumulated parity
+ * @param initialVector - The starting vector (projected onto the tangent plane at the start)
+ * @returns The transported vector, returned frame, holonomy angle and mirroring flag
+ * @throws Error if the path has no points
  */
 export function parallelTransport(
   path: PathWithParity,
   initialVector: Vec3
-): { vector: Vec3; parity: Parity } {
-  // Placeholder: just return the initial vector
-  // Full implementation would use differential geometry
+): TransportResult {
+  const lift = createPath(path.points).points.map(p => Vec3.normalize(p));
+
+  if (lift.length === 0) throw new Error('Cannot transport along an empty path');
+
+  const start = lift[0];
+  const v0 = Vec3.sub(initialVector, Vec3.scale(start, Vec3.dot(initialVector, start)));
+  const length = Vec3.norm(v0);
+
+  // A unit frame (e, u × e) along v0, or along any tangent direction if v0 vanishes
+  const helper: Vec3 = Math.abs(start[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+  const e0 = length > 1e-12 ? Vec3.scale(v0, 1 / length) : Vec3.normalize(Vec3.cross(start, helper));
+  const f0 = Vec3.cross(start, e0);
+
+  let [e, f] = [e0, f0];
+  for (let i = 1; i < lift.length; i++) {
+    [e, f] = [transportSegment(lift[i - 1], lift[i], e), transportSegment(lift[i - 1], lift[i], f)];
+  }
+  const vector = Vec3.scale(e, length);
+
+  // Close the loop, bringing the frame back through u ↦ -u if the lift ends on the antipode
+  const end = lift[lift.length - 1];
+  const closing = liftNear(end, start);
+  const antipodal = Vec3.dot(closing, start) < 0;
+  const arrived = [transportSegment(end, closing, e), transportSegment(end, closing, f)];
+  const returnedFrame = (antipodal ? arrived.map(Vec3.neg) : arrived) as [Vec3, Vec3];
+
+  // Orientation of each frame about the outward normal at the start
+  const orientation = (a: Vec3, b: Vec3) => Vec3.dot(start, Vec3.cross(a, b));
+  const mirrored = orientation(...returnedFrame) * orientation(e0, f0) < 0;
+
+  const holonomy = mirrored ? null : Math.atan2(
+    Vec3.dot(start, Vec3.cross(e0, returnedFrame[0])),
+    Vec3.dot(e0, returnedFrame[0])
+  );
+
   return {
-    vector: initialVector,
-    parity: path.parity
+    vector,
+    parity: antipodal ? PARITY_ODD : PARITY_EVEN,
+    returnedFrame,
+    holonomy,
+    mirrored
   };
 }
 
 /**
- * Tests if a path is "null-homotopic" (contractible to a point) in ℝP².
- *
- * A path is null-homotopic if its parity is even and it doesn't wrap around
- * the projective structure.
- *
- * @param path - A closed path
- * @returns true if the path is null-homotopic
+ * Carries a frame once around the core loop of a surface.
+ *
+ * The across vector of the frame spans a line through the origin, so the
+ * walk traces a loop in ℝP², tracked as a `PathWithParity`. On the Möbius
+ * strip and the Klein bottle that loop is the non-trivial class: the
+ * continuous lift ends on the negated start and the frame comes back
+ * mirrored. On the torus it is even.
+ *
+ * @param shape - "torus", "mobius" or "klein"
+ * @param steps - Number of steps around the loop
+ * @returns The carried frames and the parity of the walk
+ * @throws If the shape has no core loop
  */
-export function isNullHomotopic(path: PathWithParity): boolean {
-  // Simple heuristic: even parity suggests contractibility
-  // Full implementation would need more geometric analysis
-  return path.parity === PARITY_EVEN;
+export function parityWalk(shape: ShapeId, steps = 64): ParityWalk {
+  const samples = Array.from({ length: steps + 1 }, (_, i) => coreLoopFrame(shape, (2 * Math.PI * i) / steps));
+  // The last sample is the start again, so the path is already a closed loop
+  const path = createPath(samples.map(f => f.across));
+
+  return {
+    frames: samples.map((f, i) => ({ ...f, across: path.points[i] })),
+    path,
+    parity: path.parity,
+    mirrored: isFlipped(path.parity)
+  };
 }
 
 /**
@@ -261,12 +443,7 @@ export function applyParityToVector(vector: Vec3, parity: Parity): Vec3 {
  * - Parity tracks the accumulated effect of w₁ along a path
  *
  * Pedagogical Value:
- * Even though SEAM-VIZ V1 doesn't expose parity in the UI, the infrastructure
- * is here so that future extensions can demonstrate:
- * - Möbius strip embeddings (1D non-orientability)
- * - Klein bottle projections (2D non-orientability)
- * - Frame rotation paradoxes (orientation flip after loop)
- *
- * By building this module now, we ensure that V2 features can plug in cleanly
- * without requiring architectural changes.
+ * The lab's parity walk (`parityWalk`) uses these paths to carry a frame
+ * around the Möbius strip and the Klein bottle, where it comes back mirrored,
+ * and around the torus, where it does not.
  */
@@ -0,0 +1,229 @@
+/**
+ * Fundamental Polygon Module
+ *
+ * This module models ℝP² as the square [-1, 1]² with boundary word abab:
+ * each boundary point p is glued to -p. Read counterclockwise from the
+ * bottom-left corner, the edges are a, b, a, b, and the two copies of each
+ * letter point the same way around the square.
+ *
+ * Folding the square up onto ℝP² goes through the disk model: a radial
+ * stretch takes the square onto the unit disk (keeping p ↦ -p), and the
+ * equal-area disk projection takes the disk onto the canonical hemisphere.
+ *
+ * A path leaving through one edge comes back through its partner. Because
+ * the gluing reverses orientation, motion along the edge is mirrored on the
+ * other side: crossing a horizontal edge flips the horizontal direction of
+ * travel, crossing a vertical edge flips the vertical one.
+ */
+
+import { Vec3, QuotientClass } from "./types";
+import { pointInQuotientCone } from "./quotient";
+import { DiskPoint, diskPoint, diskToSphere } from "./disk";
+
+/**
+ * A point of the square [-1, 1]²
+ */
+export type SquarePoint = [number, number];
+
+/**
+ * A labelled, directed edge of the fundamental polygon
+ */
+export interface PolygonEdge {
+  /**
+   * Edge letter in the boundary word
+   */
+  label: "a" | "b";
+
+  /**
+   * Tail of the arrow
+   */
+  start: SquarePoint;
+
+  /**
+   * Head of the arrow
+   */
+  end: SquarePoint;
+}
+
+/**
+ * Boundary word of the square, read counterclockwise
+ */
+export const POLYGON_WORD = "abab";
+
+/**
+ * Edges of the square in boundary order: bottom, right, top, left.
+ * Edge i + 2 is edge i under p ↦ -p, with the same arrow.
+ */
+export const POLYGON_EDGES: PolygonEdge[] = [
+  { label: "a", start: [-1, -1], end: [1, -1] },
+  { label: "b", start: [1, -1], end: [1, 1] },
+  { label: "a", start: [1, 1], end: [-1, 1] },
+  { label: "b", start: [-1, 1], end: [-1, -1] }
+];
+
+/**
+ * A pen drawing on the square, with the mirroring picked up at each crossing
+ */
+export interface SquarePen {
+  /**
+   * Current position in the square
+   */
+  position: SquarePoint;
+
+  /**
+   * Signs applied to the horizontal and vertical components of motion
+   */
+  mirror: [1 | -1, 1 | -1];
+}
+
+/**
+ * The result of moving a pen
+ */
+export interface PenMove {
+  /**
+   * The pen after the move
+   */
+  pen: SquarePen;
+
+  /**
+   * Pieces of the stroke inside the square; a new piece starts at each crossing
+   */
+  strokes: SquarePoint[][];
+
+  /**
+   * Letters of the edges crossed, in order
+   */
+  crossings: ("a" | "b")[];
+}
+
+/**
+ * Folds a point of the square onto ℝP².
+ *
+ * @param p - A point of the square
+ * @returns The canonical representative of its class
+ */
+export function squareToSphere(p: SquarePoint): Vec3 {
+  return diskToSphere(squareToDisk(p), "equalArea");
+}
+
+/**
+ * Finds the point of the square for a quotient class.
+ *
+ * @param v - Any representative of the class
+ * @returns The square point; boundary classes give one of their two points
+ */
+export function sphereToSquare(v: Vec3): SquarePoint {
+  return diskToSquare(diskPoint(v, "equalArea"));
+}
+
+/**
+ * Tests if a point of the square lies in a selection cone once folded up.
+ *
+ * @param p - A point of the square
+ * @param center - The quotient class at the center of the cone
+ * @param aperture - The half-angle of the cone in radians
+ * @returns true if the folded point lies within the cone
+ */
+export function pointInSquareCone(p: SquarePoint, center: QuotientClass, aperture: number): boolean {
+  return pointInQuotientCone(squareToSphere(p), center, aperture);
+}
+
+/**
+ * Creates a pen at a point of the square, with unmirrored motion.
+ *
+ * @param position - Starting point
+ * @returns A new pen
+ */
+export function createSquarePen(position: SquarePoint): SquarePen {
+  return { position: clampToSquare(position), mirror: [1, 1] };
+}
+
+/**
+ * Moves a pen by a displacement, wrapping through glued edges.
+ *
+ * The displacement is mirrored by the pen's current state. When the pen hits
+ * an edge it continues from the glued point -p, and the component of motion
+ * along that edge is flipped for the rest of the move and all later moves.
+ *
+ * @param pen - The pen to move
+ * @param delta - Displacement in the pen's own frame
+ * @returns The moved pen, the stroke pieces and the crossed edge letters
+ */
+export function movePen(pen: SquarePen, delta: SquarePoint): PenMove {
+  let position = pen.position;
+  let mirror = pen.mirror;
+  let remaining: SquarePoint = [delta[0] * mirror[0], delta[1] * mirror[1]];
+  const strokes: SquarePoint[][] = [[position]];
+  const crossings: ("a" | "b")[] = [];
+
+  // Each pass either finishes the move or crosses one edge
+  for (let guard = 0; guard < 64; guard++) {
+    const target: SquarePoint = [position[0] + remaining[0], position[1] + remaining[1]];
+    const hit = firstExit(position, remaining);
+
+    if (!hit) {
+      strokes[strokes.length - 1].push(target);
+      position = target;
+      break;
+    }
+
+    const exit: SquarePoint = [position[0] + remaining[0] * hit.t, position[1] + remaining[1] * hit.t];
+    strokes[strokes.length - 1].push(exit);
+    crossings.push(hit.axis === 1 ? "a" : "b");
+
+    // Re-enter at the glued point, with the motion along the edge mirrored
+    position = [-exit[0], -exit[1]];
+    const left: SquarePoint = [remaining[0] * (1 - hit.t), remaining[1] * (1 - hit.t)];
+    if (hit.axis === 1) {
+      remaining = [-left[0], left[1]];
+      mirror = [(mirror[0] * -1) as 1 | -1, mirror[1]];
+    } else {
+      remaining = [left[0], -left[1]];
+      mirror = [mirror[0], (mirror[1] * -1) as 1 | -1];
+    }
+    strokes.push([position]);
+  }
+
+  return { pen: { position: clampToSquare(position), mirror }, strokes, crossings };
+}
+
+/**
+ * Finds where a move from inside the square first leaves it.
+ *
+ * @returns The fraction of the move and the axis of the edge normal
+ *          (0 for the vertical edges, 1 for the horizontal ones), or null
+ */
+function firstExit(p: SquarePoint, d: SquarePoint): { t: number; axis: 0 | 1 } | null {
+  let best: { t: number; axis: 0 | 1 } | null = null;
+  for (const axis of [0, 1] as const) {
+    if (d[axis] === 0) continue;
+    const wall = d[axis] > 0 ? 1 : -1;
+    const t = (wall - p[axis]) / d[axis];
+    if (t >= 0 && t < 1 && (!best || t < best.t)) best = { t, axis };
+  }
+  return best;
+}
+
+function clampToSquare(p: SquarePoint): SquarePoint {
+  return [Math.max(-1, Math.min(1, p[0])), Math.max(-1, Math.min(1, p[1]))];
+}
+
+/**
+ * Stretches the square radially onto the unit disk.
+ */
+function squareToDisk(p: SquarePoint): DiskPoint {
+  const euclidean = Math.hypot(p[0], p[1]);
+  if (euclidean === 0) return [0, 0];
+  const scale = Math.max(Math.abs(p[0]), Math.abs(p[1])) / euclidean;
+  return [p[0] * scale, p[1] * scale];
+}
+
+/**
+ * Inverse of `squareToDisk`.
+ */
+function diskToSquare(d: DiskPoint): SquarePoint {
+  const chebyshev = Math.max(Math.abs(d[0]), Math.abs(d[1]));
+  if (chebyshev === 0) return [0, 0];
+  const scale = Math.hypot(d[0], d[1]) / chebyshev;
+  return clampToSquare([d[0] * scale, d[1] * scale]);
+}
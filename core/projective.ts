@@ -0,0 +1,372 @@
+/**
+ * Projective Transformations Module
+ *
+ * This module implements the projective group PGL(3) acting on ℝP². A
+ * projective transformation is an invertible `Mat3` up to a nonzero scale:
+ * M and λM move every class [u] to the same class [Mu]. Rotations, the maps in
+ * `transforms.ts`, are the orthogonal subgroup; general projective maps also
+ * stretch, shear and put lines at infinity into view.
+ *
+ * Scale is fixed by taking the representative with determinant 1, which is
+ * unique because -M has determinant -det M in three dimensions.
+ *
+ * Lines of ℝP² are planes through the origin and are stored as the class of
+ * their normal (see `lines.ts`), so a line moves by the inverse transpose. A selection cone
+ * becomes the quadratic form xᵀQx ≥ 0; a projective map sends it to another
+ * form of the same signature, a cone with an elliptical cross-section whose
+ * axis is in general not the image of the original center.
+ */
+
+import { Vec3, QuotientClass } from './types';
+import { Mat3, matMul, matVecMul, transpose, rotationAxisAngle } from './transforms';
+import { classOf } from './quotient';
+import { ProjectiveLine } from './lines';
+
+/**
+ * A projective transformation of ℝP², an invertible matrix up to scale
+ */
+export type ProjectiveMap = Mat3;
+
+/**
+ * A region of ℝP² bounded by a conic: the directions x with xᵀQx ≥ 0 for a
+ * form Q with one positive and two negative eigenvalues.
+ */
+export interface ProjectiveCone {
+  /**
+   * The symmetric form Q, scaled so its largest eigenvalue magnitude is 1
+   */
+  form: Mat3;
+
+  /**
+   * Unit axis of the cone, the eigenvector of the positive eigenvalue
+   */
+  center: Vec3;
+
+  /**
+   * Unit directions of the major and minor axes of the cross-section
+   */
+  axes: [Vec3, Vec3];
+
+  /**
+   * Angles from the center to the boundary along each axis, major first
+   */
+  halfAngles: [number, number];
+}
+
+/**
+ * Determinant of a 3x3 matrix.
+ *
+ * @param m - A 3x3 matrix in row-major order
+ * @returns det m
+ */
+export function determinant(m: Mat3): number {
+  return (
+    m[0] * (m[4] * m[8] - m[5] * m[7]) -
+    m[1] * (m[3] * m[8] - m[5] * m[6]) +
+    m[2] * (m[3] * m[7] - m[4] * m[6])
+  );
+}
+
+/**
+ * Scales a projective transformation to its determinant-1 representative.
+ *
+ * @param m - An invertible matrix
+ * @param eps - Threshold below which the matrix counts as singular, relative to its size
+ * @returns The multiple of m with determinant 1
+ * @throws If m is singular
+ */
+export function normalizeProjective(m: Mat3, eps = 1e-9): ProjectiveMap {
+  const det = determinant(m);
+  const size = Math.max(...m.map(Math.abs));
+  if (Math.abs(det) <= eps * size ** 3) {
+    throw new Error('Matrix is singular and is not a projective transformation');
+  }
+  const scale = 1 / Math.cbrt(det);
+  return m.map(x => x * scale) as Mat3;
+}
+
+/**
+ * Composes two projective transformations.
+ *
+ * @param a - Transformation applied second
+ * @param b - Transformation applied first
+ * @returns The transformation a ∘ b
+ */
+export function composeProjective(a: ProjectiveMap, b: ProjectiveMap): ProjectiveMap {
+  return normalizeProjective(matMul(a, b));
+}
+
+/**
+ * Inverts a projective transformation.
+ *
+ * The adjugate is the inverse up to the scale det m, which is all a
+ * projective map needs.
+ *
+ * @param m - A projective transformation
+ * @returns Its inverse
+ * @throws If m is singular
+ */
+export function invertProjective(m: ProjectiveMap): ProjectiveMap {
+  return normalizeProjective(adjugate(m));
+}
+
+/**
+ * Builds the projective transformation sending four points to four points.
+ *
+ * Each quadruple must be in general position: no three of its points on a
+ * line. The map is then unique up to scale.
+ *
+ * @param from - Four source classes, given by any representatives
+ * @param to - Their four images
+ * @returns The transformation with [M from[i]] = [to[i]]
+ * @throws If either quadruple has three points on a line
+ */
+export function projectiveFromPoints(from: Vec3[], to: Vec3[]): ProjectiveMap {
+  if (from.length !== 4 || to.length !== 4) {
+    throw new Error('A projective transformation is fixed by exactly four point correspondences');
+  }
+  // Each maps the standard frame e₁, e₂, e₃, e₁ + e₂ + e₃ to a quadruple
+  const a = frameMap(from);
+  const b = frameMap(to);
+  return normalizeProjective(matMul(b, adjugate(a)));
+}
+
+/**
+ * Moves a point of ℝP² by a projective transformation.
+ *
+ * @param m - A projective transformation
+ * @param c - A quotient class [u]
+ * @returns The class [Mu]
+ */
+export function mapClass(m: ProjectiveMap, c: QuotientClass): QuotientClass {
+  return classOf(matVecMul(m, c.canonical));
+}
+
+/**
+ * Moves a line of ℝP² by a projective transformation.
+ *
+ * @param m - A projective transformation
+ * @param line - The line, as the class of its normal n
+ * @returns The image line, the class of M⁻ᵀn
+ */
+export function mapLine(m: ProjectiveMap, line: ProjectiveLine): ProjectiveLine {
+  return classOf(matVecMul(transpose(adjugate(m)), line.canonical));
+}
+
+/**
+ * The round cone of half-angle aperture around a quotient class, as a form.
+ *
+ * @param center - The quotient class at the center of the cone
+ * @param aperture - The half-angle of the cone in radians, below π/2
+ * @returns The cone |u · x| ≥ cos(aperture)
+ * @throws If the aperture is not in (0, π/2)
+ */
+export function roundCone(center: QuotientClass, aperture: number): ProjectiveCone {
+  if (!(aperture > 0 && aperture < Math.PI / 2)) {
+    throw new Error(`Cone aperture ${aperture} is outside (0, π/2)`);
+  }
+  const u = center.canonical;
+  const c2 = Math.cos(aperture) ** 2;
+  // Q = uuᵀ - cos²θ I
+  const form = [0, 1, 2].flatMap(i => [0, 1, 2].map(j => u[i] * u[j] - (i === j ? c2 : 0))) as Mat3;
+  return coneOfForm(form);
+}
+
+/**
+ * Moves a cone by a projective transformation.
+ *
+ * The image of {x : xᵀQx ≥ 0} is {y : yᵀ M⁻ᵀQM⁻¹ y ≥ 0}.
+ *
+ * @param m - A projective transformation
+ * @param cone - The cone to move
+ * @returns The image cone
+ */
+export function mapCone(m: ProjectiveMap, cone: ProjectiveCone): ProjectiveCone {
+  const inverse = invertProjective(m);
+  return coneOfForm(matMul(transpose(inverse), matMul(cone.form, inverse)));
+}
+
+/**
+ * Tests if a direction lies in a cone.
+ *
+ * @param point - Any representative of a class
+ * @param cone - The cone
+ * @param eps - Tolerance on the boundary
+ * @returns true if [point] lies in the cone or on its boundary
+ */
+export function pointInProjectiveCone(point: Vec3, cone: ProjectiveCone, eps = 1e-9): boolean {
+  const p = Vec3.normalize(point);
+  return Vec3.dot(p, matVecMul(cone.form, p)) >= -eps;
+}
+
+/**
+ * Samples the boundary of a cone on the side of its center.
+ *
+ * @param cone - The cone
+ * @param samples - Number of boundary directions
+ * @returns Unit directions around the boundary conic
+ */
+export function projectiveConeBoundary(cone: ProjectiveCone, samples = 64): Vec3[] {
+  const [major, minor] = cone.axes;
+  const [a, b] = cone.halfAngles.map(Math.tan);
+  return Array.from({ length: samples }, (_, i) => {
+    const t = (2 * Math.PI * i) / samples;
+    return Vec3.normalize(Vec3.add(
+      cone.center,
+      Vec3.add(Vec3.scale(major, a * Math.cos(t)), Vec3.scale(minor, b * Math.sin(t)))
+    ));
+  });
+}
+
+/**
+ * Interpolates from the identity to a projective transformation.
+ *
+ * The determinant-1 representative splits as M = RS, a rotation R times a
+ * symmetric positive definite stretch S (the polar decomposition). The path
+ * turns by the fraction t of R's angle about its axis and stretches by S^t,
+ * so every matrix on it has determinant 1. A straight path (1 - t)I + tM can
+ * instead pass through a singular matrix, as it does halfway to a
+ * half-turn or to a reflection such as diag(-1, 1, 1).
+ *
+ * @param m - A projective transformation
+ * @param t - Progress in [0, 1]
+ * @returns The transformation at time t
+ */
+export function interpolateProjective(m: ProjectiveMap, t: number): ProjectiveMap {
+  const target = normalizeProjective(m);
+  const { values, vectors } = symmetricEigen(matMul(transpose(target), target));
+  // S^t and S⁻¹ from the eigenvalues of MᵀM = S²
+  const stretch = symmetricPower(values, vectors, t / 2);
+  const rotation = matMul(target, symmetricPower(values, vectors, -1 / 2));
+  const { axis, angle } = rotationAxisAngleOf(rotation);
+  return normalizeProjective(matMul(rotationAxisAngle(axis, t * angle), stretch));
+}
+
+/**
+ * The symmetric matrix with the given eigenvectors and eigenvalues raised
+ * to a power.
+ */
+function symmetricPower(values: number[], vectors: Vec3[], power: number): Mat3 {
+  const result: Mat3 = [0, 0, 0, 0, 0, 0, 0, 0, 0];
+  values.forEach((value, k) => {
+    const scale = value ** power;
+    const v = vectors[k];
+    for (let i = 0; i < 3; i++) {
+      for (let j = 0; j < 3; j++) result[3 * i + j] += scale * v[i] * v[j];
+    }
+  });
+  return result;
+}
+
+/**
+ * Axis and angle in [0, π] of a rotation matrix.
+ */
+function rotationAxisAngleOf(r: Mat3): { axis: Vec3; angle: number } {
+  const cos = Math.max(-1, Math.min(1, (r[0] + r[4] + r[8] - 1) / 2));
+  const angle = Math.acos(cos);
+  const skew: Vec3 = [r[7] - r[5], r[2] - r[6], r[3] - r[1]];
+  if (Vec3.norm(skew) > 1e-6) return { axis: Vec3.normalize(skew), angle };
+  if (cos > 0) return { axis: [1, 0, 0], angle: 0 };
+  // Near a half-turn R + I is twice the projection onto the axis
+  const columns: Vec3[] = [0, 1, 2].map(j => [
+    r[j] + (j === 0 ? 1 : 0),
+    r[3 + j] + (j === 1 ? 1 : 0),
+    r[6 + j] + (j === 2 ? 1 : 0)
+  ]);
+  const axis = columns.reduce((a, b) => (Vec3.norm(b) > Vec3.norm(a) ? b : a));
+  return { axis: Vec3.normalize(axis), angle };
+}
+
+/**
+ * Adjugate of a 3x3 matrix, det m times its inverse.
+ */
+function adjugate(m: Mat3): Mat3 {
+  return [
+    m[4] * m[8] - m[5] * m[7], m[2] * m[7] - m[1] * m[8], m[1] * m[5] - m[2] * m[4],
+    m[5] * m[6] - m[3] * m[8], m[0] * m[8] - m[2] * m[6], m[2] * m[3] - m[0] * m[5],
+    m[3] * m[7] - m[4] * m[6], m[1] * m[6] - m[0] * m[7], m[0] * m[4] - m[1] * m[3]
+  ];
+}
+
+/**
+ * The matrix sending the standard frame to four points in general position.
+ */
+function frameMap(points: Vec3[]): Mat3 {
+  const [p, q, r, s] = points;
+  const basis: Mat3 = [p[0], q[0], r[0], p[1], q[1], r[1], p[2], q[2], r[2]];
+  const det = determinant(basis);
+  const size = Math.max(...points.map(Vec3.norm));
+  if (Math.abs(det) <= 1e-9 * size ** 3) {
+    throw new Error('Three of the four points lie on a line');
+  }
+
+  // Weights with λ₁p + λ₂q + λ₃r = s; a zero weight puts s on a line with two others
+  const weights = matVecMul(adjugate(basis), s).map(w => w / det);
+  if (weights.some(w => Math.abs(w) <= 1e-9 * size)) {
+    throw new Error('Three of the four points lie on a line');
+  }
+  return basis.map((x, i) => x * weights[i % 3]) as Mat3;
+}
+
+/**
+ * Reads the center, axes and half-angles off a form of signature (1, 2).
+ */
+function coneOfForm(form: Mat3): ProjectiveCone {
+  const { values, vectors } = symmetricEigen(form);
+  const scale = Math.max(...values.map(Math.abs));
+  const [l1, l2, l3] = values.map(v => v / scale);
+  if (!(l1 > 0 && l2 < 0 && l3 < 0)) {
+    throw new Error('Form does not bound a cone: it needs one positive and two negative eigenvalues');
+  }
+
+  return {
+    form: form.map(x => x / scale) as Mat3,
+    center: vectors[0],
+    // The smaller negative eigenvalue gives the wider opening
+    axes: [vectors[1], vectors[2]],
+    halfAngles: [Math.atan(Math.sqrt(l1 / -l2)), Math.atan(Math.sqrt(l1 / -l3))]
+  };
+}
+
+/**
+ * Eigen-decomposition of a symmetric 3x3 matrix by Jacobi rotations,
+ * eigenvalues in decreasing order.
+ */
+function symmetricEigen(m: Mat3): { values: number[]; vectors: Vec3[] } {
+  const a = [[m[0], m[1], m[2]], [m[3], m[4], m[5]], [m[6], m[7], m[8]]];
+  const v = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    const off = a[0][1] ** 2 + a[0][2] ** 2 + a[1][2] ** 2;
+    if (off < 1e-24) break;
+    for (const [p, q] of [[0, 1], [0, 2], [1, 2]]) {
+      if (Math.abs(a[p][q]) < 1e-300) continue;
+      // Rotation in the (p, q) plane zeroing a[p][q]
+      const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+      const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+      const c = 1 / Math.sqrt(t * t + 1);
+      const s = t * c;
+      for (let k = 0; k < 3; k++) {
+        const [akp, akq] = [a[k][p], a[k][q]];
+        a[k][p] = c * akp - s * akq;
+        a[k][q] = s * akp + c * akq;
+      }
+      for (let k = 0; k < 3; k++) {
+        const [apk, aqk] = [a[p][k], a[q][k]];
+        a[p][k] = c * apk - s * aqk;
+        a[q][k] = s * apk + c * aqk;
+      }
+      for (let k = 0; k < 3; k++) {
+        const [vkp, vkq] = [v[k][p], v[k][q]];
+        v[k][p] = c * vkp - s * vkq;
+        v[k][q] = s * vkp + c * vkq;
+      }
+    }
+  }
+
+  const order = [0, 1, 2].sort((i, j) => a[j][j] - a[i][i]);
+  return {
+    values: order.map(i => a[i][i]),
+    vectors: order.map(i => [v[0][i], v[1][i], v[2][i]] as Vec3)
+  };
+}
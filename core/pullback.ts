@@ -19,9 +19,11 @@ import {
   QuotientClass,
   QuotientAction,
   PullbackResult,
-  SourceEffect
+  SourceEffect,
+  FieldSymmetry
 } from './types';
 import { getBothRepresentatives } from './quotient';
+import { ScalarField, sampleField } from './fields';
 
 /**
  * Applies a quotient action by pulling it back to both representatives.
@@ -232,6 +234,28 @@ export function validateSymmetry(result: PullbackResult): boolean {
   return true;
 }
 
+/**
+ * Validates that a whole scalar field is symmetric, the field counterpart of
+ * validateSymmetry: painting f on S² pulls back a function on ℝP² only if
+ * f(u) = f(-u) everywhere.
+ *
+ * @param f - The field
+ * @param directions - Unit vectors to test at, e.g. vertexDirections of a sphere mesh
+ * @param eps - Tolerance on the residual, relative to max |f|
+ * @returns Whether the field is symmetric, with the residual max |f(u) - f(-u)|
+ * @throws Error if the field is not finite at some direction or its antipode
+ */
+export function validateFieldSymmetry(f: ScalarField, directions: Vec3[], eps = 1e-9): FieldSymmetry {
+  const values = sampleField(f, directions);
+  const antipodal = sampleField(f, directions.map(u => Vec3.neg(u)));
+
+  const residual = values.reduce((max, value, i) => Math.max(max, Math.abs(value - antipodal[i])), 0);
+  const scale = [...values, ...antipodal].reduce((max, value) => Math.max(max, Math.abs(value)), 0);
+  const relativeResidual = scale > 0 ? residual / scale : 0;
+
+  return { symmetric: relativeResidual <= eps, residual, relativeResidual };
+}
+
 /**
  * Composes multiple pullback results into a single result.
  *
@@ -6,9 +6,18 @@
  *
  * Key invariant: Every operation that acts on a quotient class [u] must respect
  * the equivalence relation and maintain the pairing between u and -u.
+ *
+ * ℝP² is the instance G = {±1} of the finite group quotients S²/G in
+ * `groups.ts`; this module keeps the specialized two-point forms used everywhere.
+ *
+ * For planar objects the same identification acts on the unit circle of the
+ * xy-plane, and the quotient is the projective line ℝP¹ = S¹/{±1}. Doubling
+ * the angle, θ ↦ 2θ, sends u and -u to the same point, so ℝP¹ is itself a
+ * circle; the `line*` functions below are the ℝP¹ forms of `classOf` and
+ * `quotientDistance`.
  */
 
-import { Vec3, QuotientClass } from './types';
+import { Vec3, QuotientClass, LineClass } from './types';
 
 /**
  * Determines the canonical sign for a vector based on lexicographic ordering.
@@ -224,3 +233,68 @@ export function getBothRepresentatives(qClass: QuotientClass): [Vec3, Vec3] {
 export function directionToClass(direction: Vec3): QuotientClass {
   return classOf(direction);
 }
+
+/**
+ * Creates a point [v] of the projective line ℝP¹ from a vector.
+ *
+ * The vector is projected to the xy-plane. The canonical representative is
+ * the one at angle θ ∈ [0, π) from the x-axis, so every line through the
+ * origin has exactly one angle.
+ *
+ * @param v - A vector with a non-zero component in the xy-plane
+ * @param eps - Epsilon threshold for a vanishing planar component
+ * @returns The LineClass [v] in ℝP¹; the x-axis if v has no planar component
+ */
+export function lineClassOf(v: Vec3, eps = 1e-12): LineClass {
+  // Fall back to the x-axis, as normalize falls back to a safe unit vector
+  const raw = Math.hypot(v[0], v[1]) < eps ? 0 : Math.atan2(v[1], v[0]);
+
+  // Reduce to [0, π), guarding against rounding up to π
+  let angle = ((raw % Math.PI) + Math.PI) % Math.PI;
+  if (angle >= Math.PI) angle = 0;
+
+  const canonical: Vec3 = [Math.cos(angle), Math.sin(angle), 0];
+  return {
+    angle,
+    canonical,
+    representatives: [canonical, antipode(canonical)]
+  };
+}
+
+/**
+ * Computes the distance between two points of ℝP¹.
+ *
+ * As in ℝP², this is the smaller angle between the two lines:
+ *   d([u], [v]) = min(|θ_u - θ_v|, π - |θ_u - θ_v|)
+ *
+ * @param a - First point of ℝP¹
+ * @param b - Second point of ℝP¹
+ * @returns The distance in radians (0 to π/2)
+ */
+export function lineQuotientDistance(a: LineClass, b: LineClass): number {
+  const d = Math.abs(a.angle - b.angle);
+  return Math.min(d, Math.PI - d);
+}
+
+/**
+ * Maps a point of ℝP¹ to the circle by doubling its angle, θ ↦ 2θ.
+ *
+ * This is the homeomorphism ℝP¹ ≅ S¹: u and -u differ by π, so their doubled
+ * angles agree, and distances on the circle are twice those in ℝP¹.
+ *
+ * @param c - A point of ℝP¹
+ * @returns The doubled angle in [0, 2π)
+ */
+export function doubledAngle(c: LineClass): number {
+  return 2 * c.angle;
+}
+
+/**
+ * Inverse of `doubledAngle`: the point of ℝP¹ at angle φ on the circle.
+ *
+ * @param phi - An angle on the circle model, in radians
+ * @returns The LineClass at angle φ/2
+ */
+export function lineClassAtDoubledAngle(phi: number): LineClass {
+  return lineClassOf([Math.cos(phi / 2), Math.sin(phi / 2), 0]);
+}
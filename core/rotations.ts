@@ -0,0 +1,453 @@
+/**
+ * Rotations Module
+ *
+ * This module treats SO(3) as the quotient S³/{±1} ≅ ℝP³, the same
+ * identification the rest of the core applies to S² → ℝP². A unit quaternion
+ * q and its negative -q represent the same rotation; a rotation is the pair
+ * {q, -q}.
+ *
+ * Key Concept: Lifting Rotation Paths
+ * A continuous path of rotations lifts to a continuous path of quaternions by
+ * choosing, at each step, the sign closest to the previous quaternion. A full
+ * 2π turn about any axis lifts from q to -q: the loop is closed in SO(3) but
+ * its lift is not, so the loop is the non-trivial element of π₁(SO(3)) ≅ ℤ₂.
+ * Turning twice (4π) lifts back to q, and that loop contracts — the belt and
+ * plate tricks.
+ *
+ * The same ambiguity breaks naive averaging of orientation samples: the mean
+ * of q and -q is zero. The averaging functions below either align signs first
+ * or, like Markley's mean, use a sign-invariant formulation.
+ */
+
+import { Vec3, Parity } from './types';
+import {
+  Quaternion,
+  IDENTITY_QUAT,
+  quaternionFromAxisAngle,
+  quaternionMultiply,
+  quaternionConjugate,
+  quaternionNegate,
+  quaternionDot,
+  quaternionNormalize,
+  rotationAxisAngle,
+  matVecMul
+} from './transforms';
+import { PARITY_EVEN, PARITY_ODD } from './parity';
+
+/**
+ * A rotation as an equivalence class {q, -q} of unit quaternions
+ */
+export interface RotationClass {
+  /**
+   * The canonical representative, with non-negative w
+   * (ties broken by the first non-zero of x, y, z being positive)
+   */
+  canonical: Quaternion;
+
+  /**
+   * Both lifts {q, -q} to S³
+   */
+  representatives: [Quaternion, Quaternion];
+}
+
+/**
+ * Tolerance for closing rotation loops
+ */
+const ROTATION_EPS = 1e-6;
+
+/**
+ * Creates the rotation class [q] = {q, -q}.
+ *
+ * @param q - Any non-zero quaternion (will be normalized)
+ * @returns The rotation class
+ */
+export function rotationClassOf(q: Quaternion): RotationClass {
+  const u = quaternionNormalize(q);
+  const order = [u[3], u[0], u[1], u[2]];
+  const lead = order.find(x => Math.abs(x) > ROTATION_EPS) ?? 1;
+  const canonical = lead < 0 ? quaternionNegate(u) : u;
+
+  return {
+    canonical,
+    representatives: [canonical, quaternionNegate(canonical)]
+  };
+}
+
+/**
+ * Tests if two quaternions represent the same rotation.
+ *
+ * @param a - First quaternion
+ * @param b - Second quaternion
+ * @param eps - Epsilon threshold
+ * @returns true if a = ±b (after normalization)
+ */
+export function rotationClassEquals(a: Quaternion, b: Quaternion, eps = ROTATION_EPS): boolean {
+  const dot = quaternionDot(quaternionNormalize(a), quaternionNormalize(b));
+  return Math.abs(Math.abs(dot) - 1) < eps;
+}
+
+/**
+ * Computes the angle of the relative rotation between two rotations.
+ *
+ *   d([a], [b]) = 2 arccos |a · b|
+ *
+ * The absolute value makes the distance independent of which lifts are given.
+ *
+ * @param a - First quaternion
+ * @param b - Second quaternion
+ * @returns The rotation angle from a to b, in [0, π]
+ */
+export function rotationDistance(a: Quaternion, b: Quaternion): number {
+  const dot = Math.abs(quaternionDot(quaternionNormalize(a), quaternionNormalize(b)));
+  return 2 * Math.acos(Math.min(1, dot));
+}
+
+/**
+ * Lifts a path of rotations continuously to S³.
+ *
+ * Each quaternion is replaced by whichever of ±q is closer to the previous
+ * lifted quaternion, so the result has no sign jumps.
+ *
+ * @param path - Quaternions along a continuous path of rotations
+ * @returns The continuous lift, starting at the normalized first quaternion
+ */
+export function liftRotationPath(path: Quaternion[]): Quaternion[] {
+  const lift: Quaternion[] = [];
+  for (const q of path) {
+    const u = quaternionNormalize(q);
+    const previous = lift[lift.length - 1];
+    lift.push(previous && quaternionDot(previous, u) < 0 ? quaternionNegate(u) : u);
+  }
+  return lift;
+}
+
+/**
+ * Computes the class of a rotation loop in π₁(SO(3)) ≅ ℤ₂.
+ *
+ * @param loop - Quaternions along a closed path of rotations
+ * @returns PARITY_ODD if the continuous lift ends on -q₀, PARITY_EVEN if on q₀
+ * @throws Error if the path does not return to its starting rotation
+ */
+export function rotationLoopParity(loop: Quaternion[]): Parity {
+  if (loop.length < 2) return PARITY_EVEN;
+
+  const lift = liftRotationPath(loop);
+  const dot = quaternionDot(lift[0], lift[lift.length - 1]);
+  if (Math.abs(Math.abs(dot) - 1) > 1e-4) {
+    throw new Error('Rotation path is not a closed loop');
+  }
+  return dot < 0 ? PARITY_ODD : PARITY_EVEN;
+}
+
+/**
+ * Samples a continuous turn about a fixed axis, starting from a given rotation.
+ *
+ * @param axis - The turning axis
+ * @param angle - Total angle turned (e.g. 2π or 4π)
+ * @param samples - Number of steps
+ * @param start - The starting rotation
+ * @returns samples + 1 quaternions, from start to the rotated start
+ */
+export function turnPath(
+  axis: Vec3,
+  angle: number,
+  samples = 64,
+  start: Quaternion = IDENTITY_QUAT
+): Quaternion[] {
+  const path: Quaternion[] = [];
+  for (let i = 0; i <= samples; i++) {
+    path.push(quaternionMultiply(quaternionFromAxisAngle(axis, (angle * i) / samples), start));
+  }
+  return path;
+}
+
+/**
+ * The belt-trick homotopy for a loop of `turns` full turns about an axis.
+ *
+ *   H(s, t) = q_{a(s)}(turns·πt) ⊗ q_axis(turns·πt)
+ *
+ * where q_n(θ) is the rotation by θ about n and a(s) swings from the axis
+ * (s = 0) to its opposite (s = 1). At s = 0 this is the loop of turns·2π about
+ * the axis; at s = 1 the two factors cancel and the loop is constant.
+ *
+ * For two turns (4π) every H(s, ·) is a closed loop, so this contracts the
+ * loop with its ends held fixed. For one turn (2π) the end H(s, 1) drifts away
+ * from the identity for 0 < s < 1: the deformation exists only by letting go
+ * of the end, as no contraction of a 2π loop can exist.
+ *
+ * @param s - Deformation parameter in [0, 1]
+ * @param t - Loop parameter in [0, 1]
+ * @param turns - Number of full turns of the loop (1 for 2π, 2 for 4π)
+ * @param axis - The turning axis
+ * @returns The rotation H(s, t)
+ */
+export function beltHomotopy(s: number, t: number, turns = 2, axis: Vec3 = [0, 0, 1]): Quaternion {
+  const n = Vec3.normalize(axis);
+  const helper: Vec3 = Math.abs(n[0]) < 0.9 ? [1, 0, 0] : [0, 1, 0];
+  const swing = Vec3.normalize(Vec3.cross(n, helper));
+  const a = matVecMul(rotationAxisAngle(swing, Math.PI * s), n);
+
+  const angle = turns * Math.PI * t;
+  return quaternionMultiply(quaternionFromAxisAngle(a, angle), quaternionFromAxisAngle(n, angle));
+}
+
+// ============================================================================
+// Interpolation and Averaging
+// ============================================================================
+
+/**
+ * Result of aligning quaternion samples to a common sheet of S³
+ */
+export interface SignAlignment {
+  /**
+   * The samples, each replaced by whichever of ±q lies on the reference's side
+   */
+  aligned: Quaternion[];
+
+  /**
+   * How many samples had to be negated
+   */
+  flipped: number;
+
+  /**
+   * Indices of the negated samples
+   */
+  flippedIndices: number[];
+}
+
+/**
+ * Maximum number of Weiszfeld iterations for the geodesic L1 mean
+ */
+const L1_MAX_ITERATIONS = 100;
+
+/**
+ * Normalizes a list of weights, defaulting to uniform weights.
+ */
+function normalizedWeights(count: number, weights?: number[]): number[] {
+  if (count === 0) throw new Error('Cannot average an empty set of rotations');
+  if (weights && weights.length !== count) {
+    throw new Error(`Expected ${count} weights, got ${weights.length}`);
+  }
+  const w = weights ?? new Array(count).fill(1);
+  const total = w.reduce((a, b) => a + b, 0);
+  if (total <= 0) throw new Error('Rotation weights must have a positive sum');
+  return w.map(x => x / total);
+}
+
+/**
+ * Computes the rotation vector θ·n of a rotation, with θ ∈ [0, π].
+ * Both q and -q give the same result.
+ *
+ * @param q - A quaternion
+ * @returns The rotation vector
+ */
+export function rotationLog(q: Quaternion): Vec3 {
+  const u = rotationClassOf(q).canonical;
+  const v: Vec3 = [u[0], u[1], u[2]];
+  const s = Vec3.norm(v);
+  if (s < 1e-12) return [0, 0, 0];
+  return Vec3.scale(v, (2 * Math.atan2(s, u[3])) / s);
+}
+
+/**
+ * Computes the quaternion of a rotation vector θ·n.
+ *
+ * @param v - A rotation vector
+ * @returns The quaternion with w = cos(θ/2)
+ */
+export function rotationExp(v: Vec3): Quaternion {
+  const theta = Vec3.norm(v);
+  if (theta < 1e-12) return IDENTITY_QUAT;
+  return quaternionFromAxisAngle(v, theta);
+}
+
+/**
+ * Spherical linear interpolation along the shorter of the two rotation paths.
+ *
+ * Since q and -q are the same rotation, b is negated first if it lies on the
+ * far side of a; naive slerp would otherwise take the long way round.
+ *
+ * @param a - Start rotation
+ * @param b - End rotation
+ * @param t - Interpolation parameter in [0, 1]
+ * @returns The interpolated unit quaternion, starting on a's sheet
+ */
+export function quaternionSlerp(a: Quaternion, b: Quaternion, t: number): Quaternion {
+  const qa = quaternionNormalize(a);
+  let qb = quaternionNormalize(b);
+  let dot = quaternionDot(qa, qb);
+  if (dot < 0) {
+    qb = quaternionNegate(qb);
+    dot = -dot;
+  }
+
+  // Nearly identical: fall back to normalized linear interpolation
+  if (dot > 0.9995) {
+    return quaternionNormalize(qa.map((x, i) => x + t * (qb[i] - x)) as Quaternion);
+  }
+
+  const omega = Math.acos(Math.min(1, dot));
+  const sa = Math.sin((1 - t) * omega) / Math.sin(omega);
+  const sb = Math.sin(t * omega) / Math.sin(omega);
+  return qa.map((x, i) => sa * x + sb * qb[i]) as Quaternion;
+}
+
+/**
+ * Aligns quaternion samples to the sheet of a reference quaternion.
+ *
+ * This is the diagnostic for sign ambiguity: a large flip count means the raw
+ * samples straddle the two lifts, and any naive component-wise mean is wrong.
+ *
+ * @param samples - Quaternion samples
+ * @param reference - The sheet to align to (default: the first sample)
+ * @returns The aligned samples and which of them were flipped
+ */
+export function alignQuaternionSigns(samples: Quaternion[], reference?: Quaternion): SignAlignment {
+  const ref = reference ?? samples[0];
+  const flippedIndices: number[] = [];
+
+  const aligned = samples.map((q, i) => {
+    if (ref && quaternionDot(q, ref) < 0) {
+      flippedIndices.push(i);
+      return quaternionNegate(q);
+    }
+    return q;
+  });
+
+  return { aligned, flipped: flippedIndices.length, flippedIndices };
+}
+
+/**
+ * Computes the chordal L2 mean of rotations in quaternion space.
+ *
+ * Samples are aligned to the sheet of the Markley mean, then their weighted sum
+ * is normalized: the point of S³ minimizing the summed squared chordal distance
+ * to the aligned samples.
+ *
+ * @param samples - Quaternion samples
+ * @param weights - Optional non-negative weights
+ * @returns The mean rotation, with w ≥ 0
+ * @throws Error if there are no samples
+ */
+export function chordalL2Mean(samples: Quaternion[], weights?: number[]): Quaternion {
+  const w = normalizedWeights(samples.length, weights);
+  const { aligned } = alignQuaternionSigns(samples, markleyMean(samples, weights));
+
+  const sum: Quaternion = [0, 0, 0, 0];
+  aligned.forEach((q, i) => {
+    const u = quaternionNormalize(q);
+    for (let k = 0; k < 4; k++) sum[k] += w[i] * u[k];
+  });
+  return rotationClassOf(sum).canonical;
+}
+
+/**
+ * Computes the geodesic L1 mean (median) of rotations by Weiszfeld iteration.
+ *
+ * Minimizes Σ wᵢ d(R, Rᵢ) with d the rotation angle. Robust to outliers,
+ * unlike the L2 means. Starts from the chordal L2 mean.
+ *
+ * @param samples - Quaternion samples
+ * @param weights - Optional non-negative weights
+ * @param tolerance - Stop when the update step is smaller than this (radians)
+ * @returns The median rotation, with w ≥ 0
+ * @throws Error if there are no samples
+ */
+export function geodesicL1Mean(samples: Quaternion[], weights?: number[], tolerance = 1e-9): Quaternion {
+  const w = normalizedWeights(samples.length, weights);
+  let mean = chordalL2Mean(samples, weights);
+
+  for (let iter = 0; iter < L1_MAX_ITERATIONS; iter++) {
+    const inverse = quaternionConjugate(mean);
+    let numerator: Vec3 = [0, 0, 0];
+    let denominator = 0;
+
+    samples.forEach((q, i) => {
+      const v = rotationLog(quaternionMultiply(inverse, q));
+      const d = Vec3.norm(v);
+      if (d < 1e-12) return;
+      numerator = Vec3.add(numerator, Vec3.scale(v, w[i] / d));
+      denominator += w[i] / d;
+    });
+
+    if (denominator === 0) break;
+    const step = Vec3.scale(numerator, 1 / denominator);
+    mean = rotationClassOf(quaternionMultiply(mean, rotationExp(step))).canonical;
+    if (Vec3.norm(step) < tolerance) break;
+  }
+
+  return mean;
+}
+
+/**
+ * Computes Markley's quaternion mean: the eigenvector of largest eigenvalue of
+ *
+ *   M = Σ wᵢ qᵢ qᵢᵀ
+ *
+ * M is unchanged by qᵢ ↦ -qᵢ, so no sign alignment is needed. The result
+ * minimizes the weighted sum of squared Frobenius distances between rotation
+ * matrices (the chordal L2 mean on SO(3)).
+ *
+ * @param samples - Quaternion samples
+ * @param weights - Optional non-negative weights
+ * @returns The mean rotation, with w ≥ 0
+ * @throws Error if there are no samples
+ */
+export function markleyMean(samples: Quaternion[], weights?: number[]): Quaternion {
+  const w = normalizedWeights(samples.length, weights);
+  const m: number[][] = [[0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0], [0, 0, 0, 0]];
+
+  samples.forEach((q, i) => {
+    const u = quaternionNormalize(q);
+    for (let r = 0; r < 4; r++) {
+      for (let c = 0; c < 4; c++) m[r][c] += w[i] * u[r] * u[c];
+    }
+  });
+
+  return rotationClassOf(principalEigenvector4(m)).canonical;
+}
+
+/**
+ * Finds the eigenvector of largest eigenvalue of a symmetric 4x4 matrix
+ * using cyclic Jacobi rotations.
+ */
+function principalEigenvector4(matrix: number[][]): Quaternion {
+  const a = matrix.map(row => [...row]);
+  const v = [[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0], [0, 0, 0, 1]];
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let off = 0;
+    for (let p = 0; p < 4; p++) for (let q = p + 1; q < 4; q++) off += a[p][q] * a[p][q];
+    if (off < 1e-24) break;
+
+    for (let p = 0; p < 4; p++) {
+      for (let q = p + 1; q < 4; q++) {
+        if (Math.abs(a[p][q]) < 1e-300) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+
+        for (let k = 0; k < 4; k++) {
+          const akp = a[k][p], akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < 4; k++) {
+          const apk = a[p][k], aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < 4; k++) {
+          const vkp = v[k][p], vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  let best = 0;
+  for (let i = 1; i < 4; i++) if (a[i][i] > a[best][best]) best = i;
+  return [v[0][best], v[1][best], v[2][best], v[3][best]];
+}
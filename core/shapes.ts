@@ -1,7 +1,41 @@
 
 import { Mesh, Vec3 } from "./types";
 
-export type ShapeId = "circle" | "disk" | "triangle" | "square" | "sphere" | "cube" | "pyramid" | "torus";
+export type ShapeId = "circle" | "disk" | "triangle" | "square" | "sphere" | "cube" | "pyramid" | "torus" | "mobius" | "klein";
+
+/**
+ * Torus radii: center circle and tube
+ */
+const TORUS_R = 1.0;
+const TORUS_TUBE = 0.4;
+
+/**
+ * Half-width of the Möbius strip
+ */
+const MOBIUS_HALF_WIDTH = 0.4;
+
+/**
+ * Klein bottle radii: center circle and figure-8 cross section
+ */
+const KLEIN_R = 1.0;
+const KLEIN_SECTION = 0.35;
+
+/**
+ * A point on the core loop of a surface with a frame tangent to the surface
+ */
+export interface LoopFrame {
+  position: Vec3;
+
+  /**
+   * Unit vector along the loop
+   */
+  tangent: Vec3;
+
+  /**
+   * Unit vector tangent to the surface and across the loop
+   */
+  across: Vec3;
+}
 
 export function makeShapeMesh(shape: ShapeId, detail = 40): Mesh {
   switch (shape) {
@@ -13,10 +47,47 @@ export function makeShapeMesh(shape: ShapeId, detail = 40): Mesh {
     case "cube": return makeCube();
     case "pyramid": return makePyramid();
     case "torus": return makeTorus(detail);
+    case "mobius": return makeMobius(detail);
+    case "klein": return makeKlein(detail);
     default: throw new Error(`Unknown shape: ${shape}`);
   }
 }
 
+/**
+ * Frame on the core loop of a ring-shaped surface, at angle u around it.
+ *
+ * The core loop of the Möbius strip is its center circle, and of the Klein
+ * bottle the circle through the crossing of its figure 8. On both the
+ * across vector turns by π as u runs once around, so at u = 2π it has come
+ * back negated. On the torus (the outer equator) it does not turn.
+ *
+ * @param shape - "torus", "mobius" or "klein"
+ * @param u - Angle around the loop in radians
+ * @returns Position and frame at u
+ * @throws If the shape has no core loop
+ */
+export function coreLoopFrame(shape: ShapeId, u: number): LoopFrame {
+  const radial: Vec3 = [Math.cos(u), Math.sin(u), 0];
+  const tangent: Vec3 = [-Math.sin(u), Math.cos(u), 0];
+  const up: Vec3 = [0, 0, 1];
+  const inPlane = (a: number, b: number) => Vec3.normalize(Vec3.add(Vec3.scale(radial, a), Vec3.scale(up, b)));
+
+  switch (shape) {
+    case "torus":
+      return { position: Vec3.scale(radial, TORUS_R + TORUS_TUBE), tangent, across: up };
+    case "mobius":
+      return { position: radial, tangent, across: inPlane(Math.cos(u / 2), Math.sin(u / 2)) };
+    case "klein": {
+      // Derivative of the figure 8 at its crossing, (1, 2), turned by u/2
+      const c = Math.cos(u / 2);
+      const s = Math.sin(u / 2);
+      return { position: Vec3.scale(radial, KLEIN_R), tangent, across: inPlane(c - 2 * s, s + 2 * c) };
+    }
+    default:
+      throw new Error(`Shape ${shape} has no core loop`);
+  }
+}
+
 function makeSphere(detail: number): Mesh {
   const vertices: Vec3[] = [];
   const indices: number[] = [];
@@ -33,8 +104,75 @@ function makeSphere(detail: number): Mesh {
     for (let j = 0; j < detail; j++) {
       const a = (i * (detail + 1)) + j;
       const b = a + (detail + 1);
-      indices.push(a, b, a + 1);
-      indices.push(b, b + 1, a + 1);
+      // Quads are split along mirrored diagonals in the two hemispheres,
+      // so v ↦ -v maps triangles to triangles
+      if (2 * i < detail) {
+        indices.push(a, b, a + 1);
+        indices.push(b, b + 1, a + 1);
+      } else {
+        indices.push(a, b, b + 1);
+        indices.push(a, b + 1, a + 1);
+      }
+    }
+  }
+  return { vertices, indices };
+}
+
+/**
+ * Möbius strip: a band of half-width w around the unit circle whose cross
+ * section turns by π, so the seam at u = 2π glues s to -s.
+ */
+function makeMobius(detail: number): Mesh {
+  const vertices: Vec3[] = [];
+  const indices: number[] = [];
+  const w = MOBIUS_HALF_WIDTH;
+  const sDetail = 8;
+
+  for (let i = 0; i <= detail; i++) {
+    const u = (2 * Math.PI * i) / detail;
+    for (let j = 0; j <= sDetail; j++) {
+      const s = -w + (2 * w * j) / sDetail;
+      const r = 1 + s * Math.cos(u / 2);
+      vertices.push([r * Math.cos(u), r * Math.sin(u), s * Math.sin(u / 2)]);
+    }
+  }
+  for (let i = 0; i < detail; i++) {
+    for (let j = 0; j < sDetail; j++) {
+      const a = i * (sDetail + 1) + j;
+      const b = (i + 1) * (sDetail + 1) + j;
+      indices.push(a, b, a + 1, b, b + 1, a + 1);
+    }
+  }
+  return { vertices, indices };
+}
+
+/**
+ * Klein bottle, figure-8 immersion: a figure-8 cross section carried around
+ * a circle while turning by π, so the seam at u = 2π glues v to -v. The
+ * cross section is sampled half a step off v = 0 and v = π, where the
+ * figure 8 crosses itself, so no two parameter points share a vertex.
+ */
+function makeKlein(detail: number): Mesh {
+  const vertices: Vec3[] = [];
+  const indices: number[] = [];
+  const R = KLEIN_R;
+  const r = KLEIN_SECTION;
+  const vDetail = 24;
+
+  for (let i = 0; i <= detail; i++) {
+    const u = (2 * Math.PI * i) / detail;
+    for (let j = 0; j <= vDetail; j++) {
+      const v = (2 * Math.PI * (j + 0.5)) / vDetail;
+      const across = r * (Math.cos(u / 2) * Math.sin(v) - Math.sin(u / 2) * Math.sin(2 * v));
+      const up = r * (Math.sin(u / 2) * Math.sin(v) + Math.cos(u / 2) * Math.sin(2 * v));
+      vertices.push([(R + across) * Math.cos(u), (R + across) * Math.sin(u), up]);
+    }
+  }
+  for (let i = 0; i < detail; i++) {
+    for (let j = 0; j < vDetail; j++) {
+      const a = i * (vDetail + 1) + j;
+      const b = (i + 1) * (vDetail + 1) + j;
+      indices.push(a, b, a + 1, b, b + 1, a + 1);
     }
   }
   return { vertices, indices };
@@ -118,8 +256,8 @@ function makeCircle(detail: number): Mesh {
 function makeTorus(detail: number): Mesh {
   const vertices: Vec3[] = [];
   const indices: number[] = [];
-  const R = 1.0;
-  const r = 0.4;
+  const R = TORUS_R;
+  const r = TORUS_TUBE;
   const rDetail = 24;
 
   for (let i = 0; i <= detail; i++) {
@@ -214,7 +352,8 @@ function makeCube(): Mesh {
   const s = 0.8;
   const coords = [[-s,-s,-s],[s,-s,-s],[s,s,-s],[-s,s,-s],[-s,-s,s],[s,-s,s],[s,s,s],[-s,s,s]];
   coords.forEach(c => vertices.push(c as Vec3));
-  const faces = [[0,1,2,3],[4,5,6,7],[0,1,5,4],[1,2,6,5],[2,3,7,6],[3,0,4,7]];
+  // Opposite faces are split along antipodal diagonals, so v ↦ -v maps triangles to triangles
+  const faces = [[0,1,2,3],[4,5,6,7],[0,1,5,4],[1,2,6,5],[3,7,6,2],[0,4,7,3]];
   faces.forEach((f, i) => {
     if (i % 2 === 0) indices.push(f[0], f[1], f[2], f[0], f[2], f[3]);
     else indices.push(f[0], f[2], f[1], f[0], f[3], f[2]);
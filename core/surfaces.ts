@@ -0,0 +1,266 @@
+/**
+ * Surface Classification Module
+ *
+ * This module classifies closed surfaces given as polygons with glued edges.
+ * Each polygon is an edge word such as abab (ℝP²), aabb (Klein bottle) or
+ * aba⁻¹b⁻¹ (torus); letters name edges, and a⁻¹ is edge a traversed
+ * backwards. Every letter must occur exactly twice across all the words.
+ *
+ * By the classification theorem a connected closed surface is determined by
+ * its Euler characteristic and orientability:
+ * - Orientable: a sphere with g handles, χ = 2 - 2g
+ * - Non-orientable: a connected sum of k copies of ℝP², χ = 2 - k
+ *
+ * So the Klein bottle (χ = 0, non-orientable) is ℝP² # ℝP², and the torus
+ * glued to ℝP² (χ = -1, non-orientable) is ℝP² # ℝP² # ℝP².
+ */
+
+import { unionSets, countSets } from "./disjointSets";
+
+/**
+ * One letter of an edge word
+ */
+export interface EdgeLetter {
+  /**
+   * Edge name, e.g. "a" or "a1"
+   */
+  label: string;
+
+  /**
+   * Whether the edge is traversed backwards (a⁻¹)
+   */
+  inverse: boolean;
+}
+
+/**
+ * The classification of a glued polygon surface
+ */
+export interface SurfaceClassification {
+  /**
+   * The input words, written canonically
+   */
+  words: string[];
+
+  /**
+   * Vertices after gluing
+   */
+  vertices: number;
+
+  /**
+   * Edges after gluing
+   */
+  edges: number;
+
+  /**
+   * Faces (one per word)
+   */
+  faces: number;
+
+  /**
+   * Euler characteristic V - E + F
+   */
+  eulerCharacteristic: number;
+
+  /**
+   * Whether the faces can be oriented compatibly
+   */
+  orientable: boolean;
+
+  /**
+   * Number of handles (orientable) or of ℝP² summands (non-orientable)
+   */
+  genus: number;
+
+  /**
+   * The normal-form edge word, e.g. aba⁻¹b⁻¹ or a₁a₁a₂a₂
+   */
+  normalForm: string;
+
+  /**
+   * Common name, e.g. "Torus" or "Klein bottle"
+   */
+  name: string;
+
+  /**
+   * The surface as a connected sum, e.g. "T² # T²" or "ℝP² # ℝP²"
+   */
+  connectedSum: string;
+
+  /**
+   * Compact symbol, e.g. "2T²" or "3ℝP²"
+   */
+  symbol: string;
+}
+
+/**
+ * Parses an edge word.
+ *
+ * A letter may be followed by digits (a1 or a₁) and by an inverse marker:
+ * ⁻¹, ^-1 or '. Whitespace is ignored.
+ *
+ * @param word - An edge word such as "aba⁻¹b⁻¹"
+ * @returns The letters of the word in order
+ */
+export function parseEdgeWord(word: string): EdgeLetter[] {
+  const letters: EdgeLetter[] = [];
+  const token = /\s*([A-Za-z][0-9₀-₉]*)(⁻¹|\^-1|'|)\s*/y;
+
+  let index = 0;
+  while (index < word.length) {
+    token.lastIndex = index;
+    const match = token.exec(word);
+    if (!match) {
+      if (word.slice(index).trim() === "") break;
+      throw new Error(`Unexpected character '${word[index]}' in edge word "${word}"`);
+    }
+    letters.push({ label: toSubscript(match[1]), inverse: match[2] !== "" });
+    index = token.lastIndex;
+  }
+
+  if (letters.length === 0) {
+    throw new Error("Edge word is empty");
+  }
+  return letters;
+}
+
+/**
+ * Writes an edge word canonically, with subscript digits and ⁻¹.
+ *
+ * @param letters - The letters of the word
+ * @returns The formatted word
+ */
+export function formatEdgeWord(letters: EdgeLetter[]): string {
+  return letters.map(l => l.label + (l.inverse ? "⁻¹" : "")).join("");
+}
+
+/**
+ * Classifies the closed surface obtained by gluing polygons.
+ *
+ * @param words - One edge word, or several words whose polygons share edges
+ * @returns Euler characteristic, orientability and normal form
+ * @throws If a letter does not occur exactly twice, or the surface is disconnected
+ */
+export function classifySurface(words: string | string[]): SurfaceClassification {
+  const faces = (Array.isArray(words) ? words : [words]).map(parseEdgeWord);
+  if (faces.length === 0) {
+    throw new Error("At least one edge word is required");
+  }
+
+  // Where each edge occurs: face, position and direction
+  const occurrences = new Map<string, { face: number; index: number; inverse: boolean }[]>();
+  faces.forEach((face, f) => face.forEach((letter, index) => {
+    const list = occurrences.get(letter.label) ?? [];
+    list.push({ face: f, index, inverse: letter.inverse });
+    occurrences.set(letter.label, list);
+  }));
+
+  occurrences.forEach((list, label) => {
+    if (list.length !== 2) {
+      throw new Error(`Edge ${label} occurs ${list.length} times; each edge must occur exactly twice`);
+    }
+  });
+
+  // Corners of all polygons, merged by the gluing of edge endpoints
+  const offsets = faces.map((_, f) => faces.slice(0, f).reduce((n, face) => n + face.length, 0));
+  const cornerCount = offsets[faces.length - 1] + faces[faces.length - 1].length;
+  const corners = Array.from({ length: cornerCount }, (_, i) => i);
+  const endpoints = (o: { face: number; index: number; inverse: boolean }) => {
+    const n = faces[o.face].length;
+    const from = offsets[o.face] + o.index;
+    const to = offsets[o.face] + (o.index + 1) % n;
+    return o.inverse ? [to, from] : [from, to];
+  };
+
+  // Faces are connected through shared edges
+  const components = faces.map((_, f) => f);
+
+  // Face orientations: gluing needs each edge once forwards and once backwards
+  const orientation: (1 | -1 | 0)[] = faces.map(() => 0);
+  const adjacency: { to: number; sign: 1 | -1 }[][] = faces.map(() => []);
+
+  occurrences.forEach(([p, q]) => {
+    const [tailP, headP] = endpoints(p);
+    const [tailQ, headQ] = endpoints(q);
+    unionSets(corners, tailP, tailQ);
+    unionSets(corners, headP, headQ);
+    unionSets(components, p.face, q.face);
+
+    // o_p·s_p = -o_q·s_q, so o_q = -s_p·s_q·o_p
+    const sign = ((p.inverse === q.inverse) ? -1 : 1) as 1 | -1;
+    adjacency[p.face].push({ to: q.face, sign });
+    adjacency[q.face].push({ to: p.face, sign });
+  });
+
+  const pieces = countSets(components);
+  if (pieces > 1) {
+    throw new Error(`Edge words glue into ${pieces} separate surfaces`);
+  }
+
+  let orientable = true;
+  orientation[0] = 1;
+  const queue = [0];
+  while (queue.length) {
+    const f = queue.shift()!;
+    adjacency[f].forEach(({ to, sign }) => {
+      const required = (orientation[f] * sign) as 1 | -1;
+      if (orientation[to] === 0) {
+        orientation[to] = required;
+        queue.push(to);
+      } else if (orientation[to] !== required) {
+        orientable = false;
+      }
+    });
+  }
+
+  const vertices = countSets(corners);
+  const edges = occurrences.size;
+  const eulerCharacteristic = vertices - edges + faces.length;
+  const genus = orientable ? (2 - eulerCharacteristic) / 2 : 2 - eulerCharacteristic;
+
+  return {
+    words: faces.map(formatEdgeWord),
+    vertices,
+    edges,
+    faces: faces.length,
+    eulerCharacteristic,
+    orientable,
+    genus,
+    ...normalForm(orientable, genus)
+  };
+}
+
+/**
+ * Builds the normal form and names of a surface from its type and genus.
+ */
+function normalForm(orientable: boolean, genus: number): Pick<SurfaceClassification, "normalForm" | "name" | "connectedSum" | "symbol"> {
+  const indexed = (letter: string, i: number) => (genus > 1 ? letter + toSubscript(String(i + 1)) : letter);
+  const summands = (piece: string) => Array.from({ length: genus }, () => piece).join(" # ");
+
+  if (orientable) {
+    if (genus === 0) return { normalForm: "aa⁻¹", name: "Sphere", connectedSum: "S²", symbol: "S²" };
+    return {
+      normalForm: Array.from({ length: genus }, (_, i) => {
+        const a = indexed("a", i);
+        const b = indexed("b", i);
+        return `${a}${b}${a}⁻¹${b}⁻¹`;
+      }).join(""),
+      name: genus === 1 ? "Torus" : `Sphere with ${genus} handles`,
+      connectedSum: summands("T²"),
+      symbol: genus === 1 ? "T²" : `${genus}T²`
+    };
+  }
+
+  return {
+    normalForm: Array.from({ length: genus }, (_, i) => indexed("a", i).repeat(2)).join(""),
+    name: genus === 1 ? "Projective plane" : genus === 2 ? "Klein bottle" : `Connected sum of ${genus} projective planes`,
+    connectedSum: summands("ℝP²"),
+    symbol: genus === 1 ? "ℝP²" : `${genus}ℝP²`
+  };
+}
+
+/**
+ * Converts ASCII digits to subscript digits.
+ */
+function toSubscript(label: string): string {
+  return label.replace(/[0-9]/g, d => "₀₁₂₃₄₅₆₇₈₉"[Number(d)]);
+}
@@ -242,6 +242,68 @@ export function quaternionRotate(q: Quaternion, v: Vec3): Vec3 {
   return matVecMul(mat, v);
 }
 
+/**
+ * Multiplies two quaternions (Hamilton product).
+ * The rotation of a ⊗ b applies b first, then a.
+ *
+ * @param a - Left quaternion
+ * @param b - Right quaternion
+ * @returns The product a ⊗ b
+ */
+export function quaternionMultiply(a: Quaternion, b: Quaternion): Quaternion {
+  const [ax, ay, az, aw] = a;
+  const [bx, by, bz, bw] = b;
+  return [
+    aw * bx + ax * bw + ay * bz - az * by,
+    aw * by - ax * bz + ay * bw + az * bx,
+    aw * bz + ax * by - ay * bx + az * bw,
+    aw * bw - ax * bx - ay * by - az * bz
+  ];
+}
+
+/**
+ * Computes the conjugate of a quaternion, the inverse rotation for unit quaternions.
+ *
+ * @param q - A quaternion
+ * @returns [-x, -y, -z, w]
+ */
+export function quaternionConjugate(q: Quaternion): Quaternion {
+  return [-q[0], -q[1], -q[2], q[3]];
+}
+
+/**
+ * Negates a quaternion. For unit quaternions, q and -q represent the same rotation.
+ *
+ * @param q - A quaternion
+ * @returns -q
+ */
+export function quaternionNegate(q: Quaternion): Quaternion {
+  return [-q[0], -q[1], -q[2], -q[3]];
+}
+
+/**
+ * Computes the 4D dot product of two quaternions.
+ *
+ * @param a - First quaternion
+ * @param b - Second quaternion
+ * @returns a · b
+ */
+export function quaternionDot(a: Quaternion, b: Quaternion): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3];
+}
+
+/**
+ * Normalizes a quaternion to unit length.
+ *
+ * @param q - A quaternion
+ * @returns The unit quaternion, or the identity if q is zero
+ */
+export function quaternionNormalize(q: Quaternion): Quaternion {
+  const len = Math.sqrt(quaternionDot(q, q));
+  if (len < 1e-10) return IDENTITY_QUAT;
+  return [q[0] / len, q[1] / len, q[2] / len, q[3] / len];
+}
+
 // ============================================================================
 // Camera Operations
 // ============================================================================
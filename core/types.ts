@@ -129,13 +129,32 @@ export interface Mesh {
 // Quotient Space Types
 // ============================================================================
 
+/**
+ * An orbit class [u] = G·u of a finite group G acting on S².
+ *
+ * This is a point of the quotient S²/G. The antipodal quotient ℝP² is the
+ * case G = {±1}, where every orbit has exactly two points.
+ */
+export interface OrbitClass {
+  /**
+   * The canonical representative of this class.
+   * By convention, we choose the lexicographically largest orbit point.
+   */
+  canonical: Vec3;
+
+  /**
+   * The distinct points of the orbit, canonical representative first.
+   */
+  representatives: Vec3[];
+}
+
 /**
  * A quotient class [u] representing the equivalence class {u, -u} under
  * the antipodal identification u ≡ -u.
  *
  * This is the fundamental object in projective space ℝP².
  */
-export interface QuotientClass {
+export interface QuotientClass extends OrbitClass {
   /**
    * The canonical representative of this class.
    * By convention, we choose the representative with positive first non-zero coordinate.
@@ -148,6 +167,18 @@ export interface QuotientClass {
   representatives: [Vec3, Vec3];
 }
 
+/**
+ * A point [u] of the projective line ℝP¹, a line through the origin of the
+ * xy-plane. It is the planar counterpart of a QuotientClass: both
+ * representatives have z = 0.
+ */
+export interface LineClass extends QuotientClass {
+  /**
+   * Angle of the canonical representative from the x-axis, in [0, π)
+   */
+  angle: number;
+}
+
 /**
  * A selection in quotient space, representing a cone around a quotient class
  */
@@ -228,12 +259,13 @@ export type Parity = 0 | 1;
  */
 export interface PathWithParity {
   /**
-   * The points along the path
+   * The points along the path, stored as a continuous lift to S²
    */
   points: Vec3[];
 
   /**
-   * The accumulated parity along the path
+   * The accumulated parity along the path: whether the current lift lies on
+   * the opposite sheet of the double cover from the start of the path
    */
   parity: Parity;
 }
@@ -281,3 +313,23 @@ export interface SourceEffect {
   position: Vec3;
   parameters: Record<string, unknown>;
 }
+
+/**
+ * How far a scalar field is from descending to ℝP², measured on sampled directions
+ */
+export interface FieldSymmetry {
+  /**
+   * True if f(u) = f(-u) at every sample, up to the tolerance
+   */
+  symmetric: boolean;
+
+  /**
+   * max |f(u) - f(-u)| over the samples, twice the largest odd part
+   */
+  residual: number;
+
+  /**
+   * The residual relative to max |f|, 0 for an even field and 2 for an odd one
+   */
+  relativeResidual: number;
+}